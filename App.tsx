@@ -1,8 +1,16 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { StyleSheet, View, Alert, Animated, Dimensions } from 'react-native';
 import { StatusBar } from 'expo-status-bar';
-import AsyncStorage from '@react-native-async-storage/async-storage';
 import { ActivityProvider } from './src/contexts/ActivityContext';
+import { sessionManager } from './src/services/session';
+import { environmentService } from './src/services/environment';
+import { syncEngine } from './src/services/sync';
+import { userStorage } from './src/services/userStorage';
+import { credentialVault } from './src/services/credentialVault';
+import { bulkCategorization } from './src/services/bulkCategorization';
+import { llmProviders, llmTaskSettings, llmUsage, promptTemplates, llmContextBudgets } from './src/services/llm';
+import { runMigrations } from './src/repositories';
+import { authService } from './src/services/api';
 
 import LoginScreen from './src/screens/LoginScreen';
 import RegisterScreen from './src/screens/RegisterScreen';
@@ -10,8 +18,18 @@ import GameMenuScreen from './src/screens/GameMenuScreen';
 import SettingsScreen from './src/screens/SettingsScreen';
 import GamePlayScreen from './src/screens/GamePlayScreen';
 import CollaboratorDetailScreen from './src/screens/CollaboratorDetailScreen';
+import DiagnosticsScreen from './src/screens/DiagnosticsScreen';
+import BulkCategorizationScreen from './src/screens/BulkCategorizationScreen';
 
-type Screen = 'login' | 'register' | 'game-menu' | 'settings' | 'game-play' | 'collaborator-detail';
+type Screen =
+  | 'login'
+  | 'register'
+  | 'game-menu'
+  | 'settings'
+  | 'game-play'
+  | 'collaborator-detail'
+  | 'diagnostics'
+  | 'bulk-categorization';
 
 const { width } = Dimensions.get('window');
 
@@ -28,18 +46,30 @@ export default function App() {
   const screenOpacity = useRef(new Animated.Value(1)).current;
   const screenTranslateX = useRef(new Animated.Value(0)).current;
   const isAnimating = useRef(false);
+  const sessionExpiredHandler = useRef<() => void>(() => {});
 
-  // Comprobar si hay un token guardado al iniciar la aplicación
+  // Comprobar si hay una sesión válida guardada al iniciar la aplicación
   useEffect(() => {
     const checkToken = async () => {
       try {
-        const storedToken = await AsyncStorage.getItem('authToken');
-        const storedUsername = await AsyncStorage.getItem('username');
+        // Cargar el backend seleccionado antes de validar la sesión contra él
+        await environmentService.load();
+        await llmProviders.load();
+        await llmTaskSettings.load();
+        await promptTemplates.load();
+        await llmContextBudgets.load();
+        await llmUsage.load();
+        const session = await sessionManager.restore();
         
-        if (storedToken && storedUsername) {
-          setToken(storedToken);
-          setUsername(storedUsername);
+        if (session) {
+          // Actualizar los datos guardados por versiones anteriores antes de mostrarlos
+          await runMigrations();
+          await credentialVault.loadIntoRotation();
+          await bulkCategorization.load();
+          setToken(session.token);
+          setUsername(session.username);
           setCurrentScreen('game-menu');
+          syncEngine.syncAll();
         }
       } catch (error) {
         console.error('Error al recuperar el token:', error);
@@ -49,6 +79,28 @@ export default function App() {
     };
 
     checkToken();
+    
+    // Volver al login cuando la sesión caduca y no se puede renovar
+    const unsubscribe = sessionManager.subscribe(reason => {
+      if (reason === 'expired') {
+        sessionExpiredHandler.current();
+      }
+    });
+    
+    // Avisar cuando el consumo de IA se acerca a un presupuesto o lo supera
+    const unsubscribeBudgets = llmUsage.subscribe(status => {
+      const used = status.id === 'monthlyCostUsd' ? `$${status.used.toFixed(2)}` : String(status.used);
+      const limit = status.id === 'monthlyCostUsd' ? `$${status.limit.toFixed(2)}` : String(status.limit);
+      Alert.alert(
+        status.level === 'exceeded' ? 'Presupuesto de IA superado' : 'Presupuesto de IA casi agotado',
+        `${status.label}: ${used} de ${limit}. Puedes revisarlo en Configuración > Diagnóstico de IA.`
+      );
+    });
+    
+    return () => {
+      unsubscribe();
+      unsubscribeBudgets();
+    };
   }, []);
 
   // Función para cambiar de pantalla con animación
@@ -100,9 +152,13 @@ export default function App() {
 
   const handleLogin = async (username: string) => {
     try {
-      await AsyncStorage.setItem('username', username);
+      await runMigrations();
+      await credentialVault.loadIntoRotation();
+      await bulkCategorization.load();
+      setToken(sessionManager.getToken());
       setUsername(username);
       changeScreen('game-menu');
+      syncEngine.syncAll();
     } catch (error) {
       Alert.alert('Error', 'No se pudo guardar la sesión');
     }
@@ -110,18 +166,42 @@ export default function App() {
 
   const handleRegister = async (username: string) => {
     try {
-      await AsyncStorage.setItem('username', username);
+      await runMigrations();
+      await credentialVault.loadIntoRotation();
+      await bulkCategorization.load();
+      setToken(sessionManager.getToken());
       setUsername(username);
       changeScreen('game-menu');
+      syncEngine.syncAll();
     } catch (error) {
       Alert.alert('Error', 'No se pudo guardar la sesión');
     }
   };
 
-  const handleLogout = async () => {
+  // Preguntar si se conservan los datos del usuario en el dispositivo
+  const handleLogout = () => {
+    Alert.alert(
+      'Cerrar sesión',
+      '¿Quieres conservar los datos de tu organización en este dispositivo? Si los borras, los cambios que no se hayan sincronizado se perderán.',
+      [
+        { text: 'Cancelar', style: 'cancel' },
+        { text: 'Borrar datos', style: 'destructive', onPress: () => logout(true) },
+        { text: 'Conservar', onPress: () => logout(false) }
+      ]
+    );
+  };
+
+  const logout = async (wipeData: boolean) => {
     try {
-      await AsyncStorage.removeItem('authToken');
-      await AsyncStorage.removeItem('username');
+      syncEngine.stop();
+      bulkCategorization.stop();
+      if (wipeData) {
+        await credentialVault.clear();
+        await userStorage.clear();
+      } else {
+        credentialVault.unload();
+      }
+      await authService.logout();
       setToken(null);
       setUsername('');
       changeScreen('login', 'left');
@@ -130,6 +210,24 @@ export default function App() {
     }
   };
 
+  // El token pertenece al backend anterior: cerrar la sesión y volver al login
+  const handleBackendChanged = async () => {
+    await logout(false);
+    Alert.alert('Servidor cambiado', `Ahora se usa ${environmentService.getApiUrl()}. Inicia sesión de nuevo en este servidor.`);
+  };
+
+  // La sesión caducó: limpiar el estado y pedir al usuario que vuelva a entrar
+  sessionExpiredHandler.current = () => {
+    syncEngine.stop();
+    bulkCategorization.stop();
+    credentialVault.unload();
+    setToken(null);
+    setUsername('');
+    setSelectedCollaborator(null);
+    changeScreen('login', 'left');
+    Alert.alert('Sesión expirada', 'Tu sesión ha caducado. Por favor inicia sesión nuevamente.');
+  };
+
   const handleStartGame = () => {
     changeScreen('game-play');
   };
@@ -148,6 +246,18 @@ export default function App() {
     changeScreen('collaborator-detail');
   };
 
+  const handleOpenDiagnostics = () => {
+    changeScreen('diagnostics');
+  };
+
+  const handleOpenBulkCategorization = () => {
+    changeScreen('bulk-categorization');
+  };
+
+  const handleBackToSettings = () => {
+    changeScreen('settings', 'left');
+  };
+
   const handleBackToGamePlay = () => {
     changeScreen('game-play', 'left');
   };
@@ -200,6 +310,21 @@ export default function App() {
           {currentScreen === 'settings' && (
             <SettingsScreen
               onBack={handleBackToMenu}
+              onOpenDiagnostics={handleOpenDiagnostics}
+              onOpenBulkCategorization={handleOpenBulkCategorization}
+              onBackendChanged={handleBackendChanged}
+            />
+          )}
+          
+          {currentScreen === 'diagnostics' && (
+            <DiagnosticsScreen
+              onBack={handleBackToSettings}
+            />
+          )}
+          
+          {currentScreen === 'bulk-categorization' && (
+            <BulkCategorizationScreen
+              onBack={handleBackToSettings}
             />
           )}
           
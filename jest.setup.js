@@ -0,0 +1,4 @@
+// AsyncStorage no existe fuera de la app: usar la implementación en memoria del paquete
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
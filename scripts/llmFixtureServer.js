@@ -0,0 +1,161 @@
+/**
+ * Servidor de grabación y reproducción de llamadas al LLM, compatible con
+ * `/chat/completions` de OpenAI. Permite probar la categorización, el diseño
+ * de flujos o la validación sin red ni API keys reales.
+ *
+ * - record: reenvía cada petición a `UPSTREAM_URL` con la key que envía la app
+ *   y guarda la respuesta (también los 429) en `FIXTURE_DIR`.
+ * - replay: responde con la respuesta guardada para la misma petición. Si una
+ *   petición se grabó varias veces, las respuestas se sirven en orden y la
+ *   última se repite, así se reproduce p. ej. un 429 seguido de un éxito.
+ *
+ * El formato de las fixtures está en llmFixtures.js; los tests de
+ * openRouterService reproducen las mismas sin levantar el servidor.
+ *
+ * Uso: LLM_FIXTURE_MODE=record npm run llm-fixtures   (replay por defecto, PORT=5100)
+ * y en la app: EXPO_PUBLIC_OPENROUTER_BASE_URL=http://localhost:5100/v1
+ * Necesita Node 18 o superior (usa fetch).
+ */
+const http = require('http');
+const path = require('path');
+const {
+  DEFAULT_FIXTURE_DIR,
+  requestSignature,
+  fixtureKey,
+  readFixture,
+  writeFixture,
+  pickResponse
+} = require('./llmFixtures');
+
+const PORT = Number(process.env.PORT) || 5100;
+const MODE = process.env.LLM_FIXTURE_MODE === 'record' ? 'record' : 'replay';
+const UPSTREAM_URL = (process.env.UPSTREAM_URL || 'https://openrouter.ai/api/v1').replace(/\/+$/, '');
+const FIXTURE_DIR = path.resolve(process.env.FIXTURE_DIR || DEFAULT_FIXTURE_DIR);
+
+// Cabeceras de la respuesta que se guardan para poder reproducir los rate limits
+const RECORDED_HEADERS = ['retry-after', 'x-ratelimit-reset'];
+
+// Veces que se ha servido cada fixture en esta ejecución
+const served = new Map();
+
+const readBody = (req) => new Promise((resolve) => {
+  let raw = '';
+  req.on('data', (chunk) => { raw += chunk; });
+  req.on('end', () => {
+    try {
+      resolve(raw ? JSON.parse(raw) : {});
+    } catch (error) {
+      resolve({});
+    }
+  });
+});
+
+const send = (res, status, body, headers = {}) => {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(body));
+};
+
+/**
+ * Devuelve una respuesta completa como SSE, en fragmentos de unas pocas palabras
+ */
+const sendStream = (res, completion) => {
+  res.writeHead(200, { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache' });
+  const content = completion.choices?.[0]?.message?.content || '';
+  const pieces = content.match(/(\S+\s*){1,4}|\s+/g) || [];
+  pieces.forEach((piece) => {
+    res.write(`data: ${JSON.stringify({ model: completion.model, choices: [{ delta: { content: piece } }] })}\n\n`);
+  });
+  res.write(`data: ${JSON.stringify({ model: completion.model, choices: [], usage: completion.usage })}\n\n`);
+  res.end('data: [DONE]\n\n');
+};
+
+const reply = (res, entry, stream) => {
+  if (entry.status < 400 && stream) {
+    return sendStream(res, entry.body);
+  }
+  return send(res, entry.status, entry.body, entry.headers);
+};
+
+/**
+ * Pide la respuesta al proveedor real, siempre sin streaming para poder guardarla entera
+ */
+const record = async (req, res, body, key, signature) => {
+  const response = await fetch(`${UPSTREAM_URL}/chat/completions`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(req.headers.authorization ? { Authorization: req.headers.authorization } : {}),
+      ...(req.headers['http-referer'] ? { 'HTTP-Referer': req.headers['http-referer'] } : {})
+    },
+    body: JSON.stringify({ ...body, stream: false })
+  });
+
+  const text = await response.text();
+  let parsed;
+  try {
+    parsed = JSON.parse(text);
+  } catch (error) {
+    parsed = { error: { message: text } };
+  }
+
+  const headers = {};
+  RECORDED_HEADERS.forEach((name) => {
+    const value = response.headers.get(name);
+    if (value) headers[name] = value;
+  });
+
+  const entry = { status: response.status, headers, body: parsed, recordedAt: new Date().toISOString() };
+  writeFixture(FIXTURE_DIR, key, signature, entry);
+  console.log(`● Grabada ${key} (${response.status})`);
+  return reply(res, entry, body.stream);
+};
+
+const replay = (res, body, key) => {
+  const fixture = readFixture(FIXTURE_DIR, key);
+  if (!fixture || fixture.responses.length === 0) {
+    console.log(`✗ Sin fixture para ${key}`);
+    return send(res, 404, { error: { message: `No hay fixture grabada para la petición ${key}` } });
+  }
+
+  const index = served.get(key) || 0;
+  served.set(key, index + 1);
+  const entry = pickResponse(fixture, index);
+  console.log(`▶ Reproducida ${key} (${entry.status})`);
+  // Las fixtures pueden simular una respuesta lenta (ver llmFixtures.js)
+  setTimeout(() => reply(res, entry, body.stream), entry.delayMs || 0);
+};
+
+const server = http.createServer(async (req, res) => {
+  const route = req.url.split('?')[0].replace(/\/+$/, '');
+
+  if (route === '/health') {
+    return send(res, 200, { status: 'ok', mode: MODE });
+  }
+
+  // Vuelve a servir cada fixture desde su primera respuesta
+  if (route === '/reset' && req.method === 'POST') {
+    served.clear();
+    return send(res, 200, { status: 'ok' });
+  }
+
+  if (!route.endsWith('/chat/completions') || req.method !== 'POST') {
+    return send(res, 404, { error: { message: 'Recurso no encontrado' } });
+  }
+
+  const body = await readBody(req);
+  const signature = requestSignature(body);
+  const key = fixtureKey(signature);
+
+  try {
+    return MODE === 'record'
+      ? await record(req, res, body, key, signature)
+      : replay(res, body, key);
+  } catch (error) {
+    console.error('Error al procesar la petición:', error);
+    return send(res, 502, { error: { message: `Error del servidor de fixtures: ${error.message}` } });
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`Servidor de fixtures de LLM (${MODE}) en http://localhost:${PORT}/v1 · fixtures en ${FIXTURE_DIR}`);
+});
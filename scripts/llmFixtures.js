@@ -0,0 +1,65 @@
+/**
+ * Formato de las fixtures de llamadas al LLM, compartido por el servidor de
+ * grabación (llmFixtureServer.js) y los tests que las reproducen sin red.
+ *
+ * Cada fixture es `<key>.json` con la petición que la identifica y las
+ * respuestas grabadas en orden:
+ *   { key, request, responses: [{ status, headers, body, recordedAt, delayMs? }] }
+ * `delayMs` no lo graba el servidor: se añade a mano para reproducir una
+ * respuesta lenta, p. ej. para probar el límite de tiempo de una tarea.
+ * `recordedAt` solo aparece en las respuestas grabadas; las escritas a mano no
+ * lo llevan (ver fixtures/llm/README.md).
+ */
+const fs = require('fs');
+const path = require('path');
+const crypto = require('crypto');
+
+const DEFAULT_FIXTURE_DIR = path.join(__dirname, '..', 'fixtures', 'llm');
+
+/**
+ * Lo que identifica una petición. No incluye la API key ni `stream`,
+ * para que una misma grabación sirva con cualquier key y en ambos modos
+ */
+const requestSignature = (body) => ({
+  model: body.model,
+  messages: (body.messages || []).map(({ role, content }) => ({ role, content })),
+  temperature: body.temperature,
+  max_tokens: body.max_tokens
+});
+
+const fixtureKey = (signature) =>
+  crypto.createHash('sha256').update(JSON.stringify(signature)).digest('hex').slice(0, 24);
+
+const fixturePath = (dir, key) => path.join(dir, `${key}.json`);
+
+const readFixture = (dir, key) => {
+  try {
+    return JSON.parse(fs.readFileSync(fixturePath(dir, key), 'utf8'));
+  } catch (error) {
+    return null;
+  }
+};
+
+const writeFixture = (dir, key, signature, entry) => {
+  const fixture = readFixture(dir, key) || { key, request: signature, responses: [] };
+  fixture.responses.push(entry);
+  fs.mkdirSync(dir, { recursive: true });
+  fs.writeFileSync(fixturePath(dir, key), `${JSON.stringify(fixture, null, 2)}\n`);
+};
+
+/**
+ * Respuesta que toca servir la vez `index` que llega la petición: se sirven
+ * en orden y la última se repite
+ */
+const pickResponse = (fixture, index) =>
+  fixture.responses[Math.min(index, fixture.responses.length - 1)];
+
+module.exports = {
+  DEFAULT_FIXTURE_DIR,
+  requestSignature,
+  fixtureKey,
+  fixturePath,
+  readFixture,
+  writeFixture,
+  pickResponse
+};
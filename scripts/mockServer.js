@@ -0,0 +1,114 @@
+/**
+ * Servidor simulado del backend para desarrollo y pruebas de sincronización.
+ * Guarda todo en memoria y expone los mismos endpoints que usa `src/services/api.ts`.
+ *
+ * Uso: npm run mock-server   (PORT=5000 por defecto; ADMIN_USERS=ana,luis da el rol admin, por defecto a `admin`)
+ */
+const http = require('http');
+
+const PORT = Number(process.env.PORT) || 5000;
+// Duración de los tokens emitidos, en segundos
+const TOKEN_TTL = Number(process.env.TOKEN_TTL) || 3600;
+// Usuarios que reciben el rol de administrador, separados por comas
+const ADMIN_USERS = (process.env.ADMIN_USERS || 'admin').split(',').map((name) => name.trim());
+
+const users = new Map(); // username -> password
+const tokens = new Map(); // token -> { username, expiresAt }
+const documents = new Map(); // `${username}:${path}` -> { data, meta, revision }
+
+const issueToken = (username) => {
+  const token = `mock-${username}-${Date.now()}-${Math.random().toString(36).slice(2)}`;
+  tokens.set(token, { username, expiresAt: Date.now() + TOKEN_TTL * 1000 });
+  const role = ADMIN_USERS.includes(username) ? 'admin' : 'member';
+  return { token, refreshToken: `refresh-${token}`, username, expiresIn: TOKEN_TTL, role };
+};
+
+const authenticate = (req) => {
+  const session = tokens.get(req.headers['x-auth-token']);
+  return session && session.expiresAt > Date.now() ? session.username : null;
+};
+
+const send = (res, status, body) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+const readBody = (req) => new Promise((resolve) => {
+  let raw = '';
+  req.on('data', (chunk) => { raw += chunk; });
+  req.on('end', () => {
+    try {
+      resolve(raw ? JSON.parse(raw) : {});
+    } catch (error) {
+      resolve({});
+    }
+  });
+});
+
+const server = http.createServer(async (req, res) => {
+  const path = req.url.split('?')[0].replace(/^\/api/, '');
+  const body = await readBody(req);
+
+  if (path === '/health') {
+    return send(res, 200, { status: 'ok' });
+  }
+
+  if (path === '/auth/register' && req.method === 'POST') {
+    if (users.has(body.username)) {
+      return send(res, 400, { message: 'El usuario ya existe' });
+    }
+    users.set(body.username, body.password);
+    return send(res, 201, issueToken(body.username));
+  }
+
+  if (path === '/auth/login' && req.method === 'POST') {
+    if (users.get(body.username) !== body.password) {
+      return send(res, 400, { message: 'Credenciales inválidas' });
+    }
+    return send(res, 200, issueToken(body.username));
+  }
+
+  if (path === '/auth/refresh' && req.method === 'POST') {
+    const previous = String(body.refreshToken || '').replace(/^refresh-/, '');
+    const session = tokens.get(previous);
+    if (!session) {
+      return send(res, 401, { message: 'Refresh token inválido' });
+    }
+    tokens.delete(previous);
+    return send(res, 200, issueToken(session.username));
+  }
+
+  const username = authenticate(req);
+  if (!username) {
+    return send(res, 401, { message: 'No autorizado' });
+  }
+
+  if (path === '/auth/profile') {
+    return send(res, 200, { username });
+  }
+
+  // Documentos sincronizables: /organization y /activities/:collaboratorId
+  if (path === '/organization' || path.startsWith('/activities/')) {
+    const key = `${username}:${path}`;
+    const current = documents.get(key) || { data: {}, meta: {}, revision: 0 };
+
+    if (req.method === 'GET') {
+      return send(res, 200, current);
+    }
+
+    if (req.method === 'PUT') {
+      if (body.baseRevision !== current.revision) {
+        return send(res, 409, { message: 'Revisión desactualizada', revision: current.revision });
+      }
+      const revision = current.revision + 1;
+      documents.set(key, { data: body.data || {}, meta: body.meta || {}, revision });
+      return send(res, 200, { revision });
+    }
+  }
+
+  return send(res, 404, { message: 'Recurso no encontrado' });
+});
+
+server.listen(PORT, () => {
+  console.log(`Servidor simulado escuchando en http://localhost:${PORT}/api`);
+});
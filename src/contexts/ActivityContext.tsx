@@ -1,18 +1,10 @@
 import React, { createContext, useState, useContext, useEffect, ReactNode } from 'react';
-import AsyncStorage from '@react-native-async-storage/async-storage';
-import { ActivityCategory } from '../services/openRouterService';
+import { activityRepository, collaboratorRepository } from '../repositories';
+import { ActivityWithCollaborator, withCollaborator } from '../models';
+import { syncEngine } from '../services/sync';
 
-// Definir la interfaz para la actividad
-interface Activity {
-  id: string;
-  name: string;
-  description: string;
-  status: 'active' | 'inactive' | 'scheduled';
-  categories: ActivityCategory[];
-  collaboratorId: string;
-  collaboratorName: string;
-  workflowMessages?: { content: string }[];
-}
+// La actividad del contexto incluye los datos de su colaborador
+type Activity = ActivityWithCollaborator;
 
 // Definir el contexto para las actividades
 interface ActivityContextData {
@@ -56,50 +48,26 @@ export const ActivityProvider: React.FC<ActivityProviderProps> = ({ children })
     setError(null);
 
     try {
-      // Intentar obtener las actividades de todos los colaboradores
-      const collaboratorKeys = await AsyncStorage.getAllKeys();
-      const activityKeys = collaboratorKeys.filter(key => key.startsWith('activities_'));
-
-      for (const key of activityKeys) {
-        const activitiesData = await AsyncStorage.getItem(key);
+      // Buscar la actividad en las listas de todos los colaboradores
+      const found = await activityRepository.findById(activityId);
+      
+      if (found) {
+        const { activity: foundActivity, collaboratorId } = found;
+        const collaborator = await collaboratorRepository.getById(collaboratorId);
         
-        if (activitiesData) {
-          const activities = JSON.parse(activitiesData);
-          const foundActivity = activities.find((a: any) => a.id === activityId);
+        if (collaborator) {
+          // Crear una actividad completa con los datos del colaborador
+          const fullActivity = withCollaborator(foundActivity, collaborator);
           
-          if (foundActivity) {
-            // Encontramos la actividad
-            const collaboratorId = key.replace('activities_', '');
-            const collaboratorData = await AsyncStorage.getItem('collaborators');
-            
-            if (collaboratorData) {
-              const collaborators = JSON.parse(collaboratorData);
-              const collaborator = collaborators.find((c: any) => c.id === collaboratorId);
-              
-              if (collaborator) {
-                // Crear una actividad completa con los datos del colaborador
-                const fullActivity: Activity = {
-                  ...foundActivity,
-                  collaboratorId,
-                  collaboratorName: collaborator.name || 'Desconocido',
-                  // Asegurar que exista el campo categories
-                  categories: foundActivity.categories || [],
-                  // Mantener los workflowMessages si existen
-                  workflowMessages: foundActivity.workflowMessages || []
-                };
-                
-                setActivity(fullActivity);
-                
-                // Llamar al callback si existe
-                if (callback) {
-                  callback(fullActivity);
-                }
-                
-                setIsLoading(false);
-                return;
-              }
-            }
+          setActivity(fullActivity);
+          
+          // Llamar al callback si existe
+          if (callback) {
+            callback(fullActivity);
           }
+          
+          setIsLoading(false);
+          return;
         }
       }
       
@@ -125,27 +93,9 @@ export const ActivityProvider: React.FC<ActivityProviderProps> = ({ children })
     setError(null);
 
     try {
-      const storageKey = `activities_${activityToSave.collaboratorId}`;
-      const existingActivitiesJSON = await AsyncStorage.getItem(storageKey);
-      
-      let activities = [];
-      if (existingActivitiesJSON) {
-        activities = JSON.parse(existingActivitiesJSON);
-      }
-      
-      // Verificar si la actividad ya existe
-      const activityIndex = activities.findIndex((a: any) => a.id === activityToSave.id);
-      
-      if (activityIndex >= 0) {
-        // Actualizar actividad existente
-        activities[activityIndex] = activityToSave;
-      } else {
-        // Añadir nueva actividad
-        activities.push(activityToSave);
-      }
-      
-      // Guardar de nuevo en AsyncStorage
-      await AsyncStorage.setItem(storageKey, JSON.stringify(activities));
+      // Actualizar la actividad existente o añadirla a la lista del colaborador
+      await activityRepository.upsert(activityToSave.collaboratorId, activityToSave);
+      syncEngine.markDirty('activities', activityToSave.collaboratorId);
       
       // Actualizar el estado
       setActivity(activityToSave);
@@ -0,0 +1,126 @@
+import {
+  createActivity,
+  mergeActivity,
+  parseActivities,
+  parseActivity,
+  parseWorkflowMessages,
+  toStoredActivity,
+  withCollaborator
+} from '../activity';
+
+const storedActivity = {
+  id: 'act-1',
+  name: 'Revisar facturas',
+  description: 'Comprobar las facturas de proveedores',
+  status: 'scheduled',
+  categories: ['administrativo'],
+  categorizedAt: '2026-01-10T09:00:00.000Z',
+  schedule: { frequency: 'weekly', daysOfWeek: [1, 3] },
+  duration: 30,
+  lastExecutionDate: '2026-01-12T09:00:00.000Z',
+  workflowMessages: [
+    { role: 'user', content: 'Quiero automatizar la revisión' },
+    { role: 'assistant', content: 'Paso 1: abrir el portal' }
+  ]
+};
+
+// Lo que haría JSON.stringify/parse al guardar en AsyncStorage
+const roundTrip = <T>(value: T): unknown => JSON.parse(JSON.stringify(value));
+
+describe('parseActivity', () => {
+  it('devuelve la misma actividad tras guardarla y volver a leerla', () => {
+    const parsed = parseActivity(storedActivity);
+
+    expect(parsed).toEqual(storedActivity);
+    expect(parseActivity(roundTrip(parsed))).toEqual(parsed);
+  });
+
+  it('conserva los campos que el modelo no conoce', () => {
+    const parsed = parseActivity({ ...storedActivity, fieldFromNewerVersion: { nested: true } });
+
+    expect(parsed).toMatchObject({ fieldFromNewerVersion: { nested: true } });
+  });
+
+  it('completa los campos obligatorios y descarta los opcionales no válidos', () => {
+    const parsed = parseActivity({
+      id: 42,
+      status: 'paused',
+      categories: ['operativo', 7, null],
+      schedule: { frequency: 'yearly' },
+      duration: 'treinta',
+      workflowMessages: 'no es una lista'
+    });
+
+    expect(parsed).toEqual({
+      id: '42',
+      name: '',
+      description: '',
+      status: 'inactive',
+      categories: ['operativo']
+    });
+  });
+
+  it('mantiene una duración de cero', () => {
+    expect(parseActivity({ ...storedActivity, duration: 0 })?.duration).toBe(0);
+  });
+
+  it('rechaza valores sin un ID utilizable', () => {
+    expect(parseActivity(null)).toBeNull();
+    expect(parseActivity({ name: 'Sin ID' })).toBeNull();
+    expect(parseActivity({ id: '' })).toBeNull();
+    expect(parseActivity(['act-1'])).toBeNull();
+  });
+});
+
+describe('parseActivities', () => {
+  it('omite las entradas que no se pueden recuperar', () => {
+    const parsed = parseActivities(roundTrip([storedActivity, { name: 'Sin ID' }, 'texto']));
+
+    expect(parsed).toHaveLength(1);
+    expect(parsed[0].id).toBe('act-1');
+  });
+
+  it('devuelve una lista vacía si lo guardado no es una lista', () => {
+    expect(parseActivities({ id: 'act-1' })).toEqual([]);
+  });
+});
+
+describe('parseWorkflowMessages', () => {
+  it('recupera el rol de las conversaciones guardadas sin él', () => {
+    const messages = parseWorkflowMessages([{ content: 'Pregunta' }, { content: 'Respuesta' }]);
+
+    expect(messages?.map(message => message.role)).toEqual(['user', 'assistant']);
+  });
+});
+
+describe('toStoredActivity', () => {
+  it('quita el estado de interfaz y los datos del colaborador', () => {
+    const activity = parseActivity(storedActivity)!;
+    const withUi = {
+      ...withCollaborator(activity, { id: 'col-1', name: 'Ana' }),
+      isCategorizing: true,
+      isAnalyzingWorkflow: false
+    };
+
+    expect(toStoredActivity(withUi)).toEqual(activity);
+  });
+});
+
+describe('mergeActivity', () => {
+  it('aplica los cambios sin perder los campos que no se editaron', () => {
+    const existing = parseActivity({ ...storedActivity, fieldFromNewerVersion: 1 })!;
+    const merged = mergeActivity(existing, { name: 'Revisar facturas pendientes', status: 'active' });
+
+    expect(merged).toEqual({
+      ...existing,
+      name: 'Revisar facturas pendientes',
+      status: 'active'
+    });
+  });
+
+  it('crea la actividad con valores por defecto si no existía', () => {
+    const merged = mergeActivity(undefined, { id: 'nueva', name: 'Nueva actividad' });
+
+    expect(merged).toEqual({ ...createActivity({ id: 'nueva' }), name: 'Nueva actividad' });
+  });
+});
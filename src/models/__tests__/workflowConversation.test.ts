@@ -0,0 +1,57 @@
+import { WorkflowMessage } from '../../services/openRouterService';
+import {
+  createWorkflowConversation,
+  getActiveBranch,
+  getEffectiveMessages,
+  reconcileWorkflowConversation,
+  updateWorkflowBranch
+} from '../workflowConversation';
+
+const original: WorkflowMessage[] = [
+  { role: 'user', content: 'Quiero descargar el informe de ventas' },
+  { role: 'assistant', content: 'Paso 1: abrir el portal de ventas' }
+];
+
+const changedElsewhere: WorkflowMessage[] = [
+  { role: 'user', content: 'Quiero descargar el informe de ventas' },
+  { role: 'assistant', content: 'Paso 1: abrir el portal nuevo' }
+];
+
+describe('reconcileWorkflowConversation', () => {
+  it('no cambia la conversación si coincide con la actividad', () => {
+    const conversation = createWorkflowConversation(original);
+
+    expect(reconcileWorkflowConversation(conversation, original)).toBe(conversation);
+  });
+
+  it('no crea ninguna rama si la actividad se quedó atrás por no guardar los cambios', () => {
+    // El usuario sigue la conversación y sale con "Cancelar cambios": la
+    // conversación se guardó en cada turno, pero la actividad no
+    const conversation = createWorkflowConversation(original);
+    const chatted = updateWorkflowBranch(conversation, conversation.activeBranchId, [
+      ...original,
+      { role: 'user', content: 'Añade un paso para filtrar por mes' },
+      { role: 'assistant', content: 'Paso 2: filtrar por el mes actual' }
+    ]);
+
+    const reopened = reconcileWorkflowConversation(chatted, original);
+
+    expect(reopened).toBe(chatted);
+    expect(reopened.finalBranchId).toBeNull();
+    expect(getEffectiveMessages(reopened)).toHaveLength(4);
+  });
+
+  it('conserva los mensajes que cambiaron en otro sitio sin elegirlos como versión final', () => {
+    const conversation = createWorkflowConversation(original);
+    const reconciled = reconcileWorkflowConversation(conversation, changedElsewhere);
+
+    expect(reconciled.branches).toHaveLength(2);
+    expect(reconciled.branches[1].messages).toEqual(changedElsewhere);
+    expect(reconciled.activeBranchId).toBe(conversation.activeBranchId);
+    expect(reconciled.finalBranchId).toBeNull();
+    expect(getActiveBranch(reconciled).messages).toEqual(original);
+
+    // Al volver a abrir, la rama ya existe y no se duplica
+    expect(reconcileWorkflowConversation(reconciled, changedElsewhere)).toBe(reconciled);
+  });
+});
@@ -0,0 +1,205 @@
+import { ActivityCategory, WorkflowMessage } from '../services/openRouterService';
+import { CategorySuggestion, parseCategorySuggestions } from './category';
+import { parseStructuredWorkflow, StructuredWorkflow } from './workflow';
+
+export type ActivityStatus = 'active' | 'inactive' | 'scheduled';
+
+export type ScheduleFrequency = 'daily' | 'weekly' | 'biweekly' | 'monthly';
+
+export interface ActivitySchedule {
+  frequency: ScheduleFrequency;
+  daysOfWeek?: number[];
+  dayOfMonth?: number;
+  startDate?: string;
+}
+
+/**
+ * Modelo canónico de una actividad. Es la forma en que se guarda en el
+ * dispositivo y la que deben usar todas las pantallas y servicios
+ */
+export interface Activity {
+  id: string;
+  name: string;
+  description: string;
+  status: ActivityStatus;
+  categories: ActivityCategory[];
+  // Última propuesta de la IA; `categories` es lo que eligió el usuario
+  categorySuggestions?: CategorySuggestion[];
+  // Cuándo se revisaron por última vez las categorías con las de la organización vigentes
+  categorizedAt?: string;
+  schedule?: ActivitySchedule;
+  duration?: number;
+  lastExecutionDate?: string;
+  nextExecutionDate?: string;
+  workflowMessages?: WorkflowMessage[];
+  // Flujo validado que se ejecuta; `workflowMessages` es solo la conversación
+  workflow?: StructuredWorkflow;
+}
+
+// Actividad junto con los datos del colaborador al que pertenece
+export interface ActivityWithCollaborator extends Activity {
+  collaboratorId: string;
+  collaboratorName: string;
+}
+
+// Estado de la interfaz que nunca se guarda
+export interface ActivityUiState {
+  isCategorizing?: boolean;
+  isAnalyzingWorkflow?: boolean;
+}
+
+const ACTIVITY_STATUSES: ActivityStatus[] = ['active', 'inactive', 'scheduled'];
+const SCHEDULE_FREQUENCIES: ScheduleFrequency[] = ['daily', 'weekly', 'biweekly', 'monthly'];
+
+// Campos que no forman parte del modelo guardado
+const TRANSIENT_FIELDS = ['isCategorizing', 'isAnalyzingWorkflow', 'collaboratorId', 'collaboratorName'];
+
+const isRecord = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const optionalString = (value: unknown): string | undefined =>
+  typeof value === 'string' && value ? value : undefined;
+
+const optionalNumber = (value: unknown): number | undefined =>
+  typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+
+const parseSchedule = (value: unknown): ActivitySchedule | undefined => {
+  if (!isRecord(value) || !SCHEDULE_FREQUENCIES.includes(value.frequency)) {
+    return undefined;
+  }
+
+  return {
+    frequency: value.frequency,
+    daysOfWeek: Array.isArray(value.daysOfWeek)
+      ? value.daysOfWeek.filter((day: unknown) => Number.isInteger(day) && (day as number) >= 0 && (day as number) <= 6)
+      : undefined,
+    dayOfMonth: optionalNumber(value.dayOfMonth),
+    startDate: optionalString(value.startDate)
+  };
+};
+
+/**
+ * Valida los mensajes del flujo. Versiones anteriores guardaban mensajes sin `role`;
+ * en ese caso se asume la alternancia usuario/asistente con la que se generaron
+ */
+export const parseWorkflowMessages = (value: unknown): WorkflowMessage[] | undefined => {
+  if (!Array.isArray(value)) {
+    return undefined;
+  }
+
+  const messages = value.filter(isRecord).filter(message => typeof message.content === 'string');
+  const missingRoles = messages.every(message => message.role !== 'user' && message.role !== 'assistant');
+
+  return messages.map((message, index) => ({
+    ...message,
+    role: missingRoles
+      ? (index % 2 === 0 && messages.length > 1 ? 'user' : 'assistant')
+      : (message.role === 'user' ? 'user' : 'assistant'),
+    content: message.content
+  }) as WorkflowMessage);
+};
+
+/**
+ * Valida un valor desconocido y lo convierte en una actividad con valores por defecto.
+ * Los campos que este modelo no conoce se conservan para no perder datos de otras versiones.
+ * Devuelve null si no tiene un ID utilizable
+ */
+export const parseActivity = (value: unknown): Activity | null => {
+  if (!isRecord(value) || (typeof value.id !== 'string' && typeof value.id !== 'number') || value.id === '') {
+    return null;
+  }
+
+  // Los campos opcionales se validan aparte y se omiten si no son válidos
+  const {
+    categorySuggestions: rawSuggestions,
+    categorizedAt: rawCategorizedAt,
+    schedule: rawSchedule,
+    duration: rawDuration,
+    lastExecutionDate: rawLastExecutionDate,
+    nextExecutionDate: rawNextExecutionDate,
+    workflowMessages: rawWorkflowMessages,
+    workflow: rawWorkflow,
+    ...otherFields
+  } = stripTransientFields(value);
+
+  const categorySuggestions = parseCategorySuggestions(rawSuggestions);
+  const categorizedAt = optionalString(rawCategorizedAt);
+  const schedule = parseSchedule(rawSchedule);
+  const duration = optionalNumber(rawDuration);
+  const lastExecutionDate = optionalString(rawLastExecutionDate);
+  const nextExecutionDate = optionalString(rawNextExecutionDate);
+  const workflowMessages = parseWorkflowMessages(rawWorkflowMessages);
+  const workflow = parseStructuredWorkflow(rawWorkflow);
+
+  return {
+    ...otherFields,
+    id: String(value.id),
+    name: typeof value.name === 'string' ? value.name : '',
+    description: typeof value.description === 'string' ? value.description : '',
+    status: ACTIVITY_STATUSES.includes(value.status) ? value.status : 'inactive',
+    categories: Array.isArray(value.categories)
+      ? value.categories.filter((category: unknown): category is ActivityCategory => typeof category === 'string')
+      : [],
+    ...(categorySuggestions !== undefined ? { categorySuggestions } : {}),
+    ...(categorizedAt !== undefined ? { categorizedAt } : {}),
+    ...(schedule !== undefined ? { schedule } : {}),
+    ...(duration !== undefined ? { duration } : {}),
+    ...(lastExecutionDate !== undefined ? { lastExecutionDate } : {}),
+    ...(nextExecutionDate !== undefined ? { nextExecutionDate } : {}),
+    ...(workflowMessages !== undefined ? { workflowMessages } : {}),
+    ...(workflow !== undefined ? { workflow } : {})
+  };
+};
+
+export const parseActivities = (value: unknown): Activity[] =>
+  Array.isArray(value)
+    ? value.map(parseActivity).filter((activity): activity is Activity => activity !== null)
+    : [];
+
+/**
+ * Crea una actividad nueva con los valores por defecto
+ */
+export const createActivity = (fields: Partial<Activity> = {}): Activity => ({
+  name: '',
+  description: '',
+  status: 'inactive',
+  categories: [],
+  ...fields,
+  id: fields.id || Date.now().toString()
+});
+
+/**
+ * Quita el estado de interfaz y los datos del colaborador de una actividad
+ */
+export function stripTransientFields<T extends Record<string, any>>(activity: T): T {
+  const stored: Record<string, any> = { ...activity };
+  TRANSIENT_FIELDS.forEach(field => {
+    delete stored[field];
+  });
+  return stored as T;
+}
+
+/**
+ * Convierte cualquier variante de actividad en el modelo que se guarda
+ */
+export const toStoredActivity = (activity: Activity & ActivityUiState & Partial<ActivityWithCollaborator>): Activity =>
+  parseActivity(activity) as Activity;
+
+/**
+ * Aplica cambios sobre una actividad guardada sin perder los campos que
+ * la pantalla que guarda no conoce
+ */
+export const mergeActivity = (existing: Activity | undefined, updates: Partial<Activity>): Activity =>
+  toStoredActivity({ ...(existing || createActivity()), ...stripTransientFields(updates) } as Activity);
+
+/**
+ * Añade los datos del colaborador a una actividad
+ */
+export const withCollaborator = (
+  activity: Activity,
+  collaborator: { id: string; name: string }
+): ActivityWithCollaborator => ({
+  ...activity,
+  collaboratorId: collaborator.id,
+  collaboratorName: collaborator.name || 'Desconocido'
+});
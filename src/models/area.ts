@@ -0,0 +1,80 @@
+/**
+ * Área de la organización. Los colaboradores la referencian por `id`,
+ * así que renombrar, reordenar o borrar otras áreas no los mueve
+ */
+export interface Area {
+  id: string;
+  name: string;
+  description?: string;
+  color?: string;
+  manager?: string;
+}
+
+// Colores disponibles para identificar las áreas
+export const AREA_COLORS = ['#bd93f9', '#ff79c6', '#8be9fd', '#50fa7b', '#ffb86c', '#f1fa8c', '#ff5555', '#6272a4'];
+
+const isRecord = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const optionalString = (value: unknown): string | undefined =>
+  typeof value === 'string' && value.trim() ? value : undefined;
+
+let areaCounter = 0;
+
+/**
+ * Genera un ID único aunque se creen varias áreas en el mismo milisegundo
+ */
+const generateAreaId = (): string => `area-${Date.now().toString(36)}-${(areaCounter++).toString(36)}`;
+
+/**
+ * Crea un área nueva con los valores por defecto
+ */
+export const createArea = (fields: Partial<Area> = {}): Area => ({
+  name: '',
+  ...fields,
+  id: fields.id || generateAreaId()
+});
+
+/**
+ * Valida un área guardada. Acepta también el formato antiguo, en el que cada
+ * área era solo su nombre, y le asigna un ID nuevo
+ */
+export const parseArea = (value: unknown): Area | null => {
+  if (typeof value === 'string') {
+    return createArea({ name: value });
+  }
+
+  if (!isRecord(value) || typeof value.id !== 'string' || !value.id) {
+    return null;
+  }
+
+  const area: Area = {
+    id: value.id,
+    name: typeof value.name === 'string' ? value.name : ''
+  };
+
+  const description = optionalString(value.description);
+  const color = optionalString(value.color);
+  const manager = optionalString(value.manager);
+  if (description) area.description = description;
+  if (color) area.color = color;
+  if (manager) area.manager = manager;
+
+  return area;
+};
+
+export const parseAreas = (value: unknown): Area[] =>
+  Array.isArray(value)
+    ? value.map(parseArea).filter((area): area is Area => area !== null)
+    : [];
+
+/**
+ * Nombre visible de un área a partir de su ID
+ */
+export const getAreaName = (areas: Area[], areaId: string | undefined): string => {
+  const index = areas.findIndex(area => area.id === areaId);
+  if (index < 0) {
+    return 'Sin área';
+  }
+  return areas[index].name || `Área ${index + 1}`;
+};
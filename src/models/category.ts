@@ -0,0 +1,198 @@
+/**
+ * Categoría de actividades definida por la organización. Las actividades
+ * guardan el `id`, así que renombrar una categoría no las recategoriza
+ */
+export interface CategoryDefinition {
+  id: string;
+  name: string;
+  description: string;
+  // Actividades de ejemplo que ayudan al modelo a reconocer la categoría
+  examples: string[];
+  // Palabras que asignan la categoría cuando no responde el modelo, solo en la categorización de emergencia
+  keywords: string[];
+  color: string;
+  icon: string;
+}
+
+// Iconos disponibles para identificar las categorías
+export const CATEGORY_ICONS = ['🔍', '📊', '📁', '✉️', '💰', '⚖️', '🧾', '👥', '🛒', '🛠️', '📣', '🗓️'];
+
+// Categorías con las que empieza toda organización. Sus IDs son los que ya
+// usaban las actividades guardadas y los que reconocen los flujos de scraping
+export const DEFAULT_CATEGORIES: CategoryDefinition[] = [
+  {
+    id: 'scrapping',
+    name: 'Investigación',
+    description: 'Actividades relacionadas con investigación en la web, búsqueda de información, etc.',
+    examples: ['Investigar nuevos proveedores'],
+    keywords: ['buscar', 'investiga', 'encontrar', 'obtener', 'información', 'extraer', 'web', 'internet', 'scraping'],
+    color: '#8be9fd',
+    icon: '🔍'
+  },
+  {
+    id: 'analisis',
+    name: 'Análisis',
+    description: 'Actividades relacionadas con generar resúmenes, analizar datos o información sobre un tema determinado.',
+    examples: ['Analizar ventas del mes'],
+    keywords: ['analizar', 'analisis', 'informe', 'reporte', 'estadística', 'datos', 'estudio'],
+    color: '#50fa7b',
+    icon: '📊'
+  },
+  {
+    id: 'administrativo',
+    name: 'Administrativo',
+    description: 'Actividades relacionadas con recursos humanos, gestión organizacional, etc.',
+    examples: ['Facturación clientes'],
+    keywords: ['factura', 'recursos humanos', 'rrhh', 'contable', 'empresa', 'cliente', 'proveedores', 'organización'],
+    color: '#ffb86c',
+    icon: '📁'
+  },
+  {
+    id: 'asistente',
+    name: 'Asistente',
+    description: 'CUALQUIER actividad relacionada con enviar emails, agendar reuniones, redactar documentos, o tareas típicas de un asistente personal.',
+    examples: ['Enviar un email a clientes'],
+    keywords: ['email', 'correo', 'reunion', 'reunión', 'documento', 'redacta', 'agenda'],
+    color: '#ff79c6',
+    icon: '✉️'
+  }
+];
+
+const isRecord = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const stringList = (value: unknown): string[] =>
+  Array.isArray(value)
+    ? value.filter((item): item is string => typeof item === 'string' && !!item.trim()).map(item => item.trim())
+    : [];
+
+let categoryCounter = 0;
+
+/**
+ * Genera un ID único aunque se creen varias categorías en el mismo milisegundo
+ */
+const generateCategoryId = (): string => `category-${Date.now().toString(36)}-${(categoryCounter++).toString(36)}`;
+
+/**
+ * Crea una categoría nueva con los valores por defecto
+ */
+export const createCategory = (fields: Partial<CategoryDefinition> = {}): CategoryDefinition => ({
+  name: '',
+  description: '',
+  examples: [],
+  keywords: [],
+  color: '#6272a4',
+  icon: CATEGORY_ICONS[0],
+  ...fields,
+  id: fields.id || generateCategoryId()
+});
+
+/**
+ * Valida una categoría guardada
+ */
+export const parseCategory = (value: unknown): CategoryDefinition | null => {
+  if (!isRecord(value) || typeof value.id !== 'string' || !value.id) {
+    return null;
+  }
+
+  return createCategory({
+    id: value.id,
+    name: typeof value.name === 'string' ? value.name : '',
+    description: typeof value.description === 'string' ? value.description : '',
+    examples: stringList(value.examples),
+    keywords: stringList(value.keywords),
+    ...(typeof value.color === 'string' && value.color ? { color: value.color } : {}),
+    ...(typeof value.icon === 'string' && value.icon ? { icon: value.icon } : {})
+  });
+};
+
+export const parseCategories = (value: unknown): CategoryDefinition[] =>
+  Array.isArray(value)
+    ? value.map(parseCategory).filter((category): category is CategoryDefinition => category !== null)
+    : [];
+
+/**
+ * Texto sin mayúsculas ni acentos para comparar nombres
+ */
+const normalize = (text: string): string =>
+  text.toLowerCase().normalize('NFD').replace(/[̀-ͯ]/g, '').trim();
+
+/**
+ * Busca una categoría por su ID o por su nombre, sin distinguir mayúsculas ni acentos
+ */
+export const findCategory = (categories: CategoryDefinition[], idOrName: string): CategoryDefinition | undefined => {
+  const wanted = normalize(idOrName);
+  return categories.find(category => category.id === idOrName) ||
+    categories.find(category => normalize(category.id) === wanted || normalize(category.name) === wanted);
+};
+
+/**
+ * Texto visible de una categoría a partir de su ID. Las eliminadas se muestran por su ID
+ */
+export const getCategoryLabel = (categories: CategoryDefinition[], id: string): string => {
+  const category = categories.find(c => c.id === id);
+  return category ? `${category.icon} ${category.name || category.id}` : id;
+};
+
+/**
+ * Categoría propuesta para una actividad, con la seguridad del clasificador
+ * (de 0 a 1) y el motivo que dio
+ */
+export interface CategorySuggestion {
+  category: string;
+  confidence: number;
+  reason: string;
+}
+
+/**
+ * Cambio que hizo un usuario sobre las categorías propuestas para una actividad.
+ * Las más recientes se dan al modelo como ejemplos de cómo usa la organización
+ * cada categoría
+ */
+export interface CategoryCorrection {
+  activityId: string;
+  activityName: string;
+  activityDescription: string;
+  suggested: string[];
+  chosen: string[];
+  correctedAt: string;
+}
+
+/**
+ * Limita la confianza al rango 0-1. Acepta porcentajes (p. ej. 85)
+ */
+export const normalizeConfidence = (value: unknown, fallback: number): number => {
+  const number = typeof value === 'string' ? parseFloat(value) : value;
+  if (typeof number !== 'number' || !Number.isFinite(number)) {
+    return fallback;
+  }
+  const ratio = number > 1 ? number / 100 : number;
+  return Math.min(1, Math.max(0, ratio));
+};
+
+export const parseCategorySuggestions = (value: unknown): CategorySuggestion[] | undefined =>
+  Array.isArray(value)
+    ? value
+      .filter(isRecord)
+      .filter(suggestion => typeof suggestion.category === 'string' && suggestion.category)
+      .map(suggestion => ({
+        category: suggestion.category,
+        confidence: normalizeConfidence(suggestion.confidence, 0),
+        reason: typeof suggestion.reason === 'string' ? suggestion.reason : ''
+      }))
+    : undefined;
+
+export const parseCategoryCorrections = (value: unknown): CategoryCorrection[] =>
+  Array.isArray(value)
+    ? value
+      .filter(isRecord)
+      .filter(correction => typeof correction.activityId === 'string' && typeof correction.activityName === 'string')
+      .map(correction => ({
+        activityId: correction.activityId,
+        activityName: correction.activityName,
+        activityDescription: typeof correction.activityDescription === 'string' ? correction.activityDescription : '',
+        suggested: stringList(correction.suggested),
+        chosen: stringList(correction.chosen),
+        correctedAt: typeof correction.correctedAt === 'string' ? correction.correctedAt : new Date(0).toISOString()
+      }))
+    : [];
@@ -0,0 +1,6 @@
+// Exportar todos los modelos desde este archivo
+export * from './activity';
+export * from './area';
+export * from './category';
+export * from './workflow';
+export * from './workflowConversation';
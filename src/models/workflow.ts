@@ -0,0 +1,242 @@
+export type WorkflowStepType = 'navigate' | 'extract' | 'script' | 'wait' | 'validate';
+
+/**
+ * Paso de un flujo estructurado. Cada tipo usa los campos que necesita:
+ * `navigate` la URL, `extract` los selectores, `script` el código, etc.
+ */
+export interface WorkflowStep {
+  id: string;
+  type: WorkflowStepType;
+  description: string;
+  url?: string;
+  selectors?: string[];
+  code?: string;
+  expectedOutput?: string;
+}
+
+/**
+ * Flujo de trabajo en formato estructurado, tal como lo devuelve el modelo
+ * tras validarlo. Es lo que se guarda en la actividad y lo que se ejecuta
+ */
+export interface StructuredWorkflow {
+  version: number;
+  title: string;
+  steps: WorkflowStep[];
+  generatedAt?: string;
+}
+
+export interface WorkflowParseResult {
+  workflow: StructuredWorkflow | null;
+  errors: string[];
+}
+
+export const WORKFLOW_SCHEMA_VERSION = 1;
+
+export const WORKFLOW_STEP_TYPES: WorkflowStepType[] = ['navigate', 'extract', 'script', 'wait', 'validate'];
+
+// Nombres que el modelo suele usar en lugar de los tipos del esquema
+const STEP_TYPE_ALIASES: Record<string, WorkflowStepType> = {
+  navigation: 'navigate',
+  navegar: 'navigate',
+  open: 'navigate',
+  goto: 'navigate',
+  scrape: 'extract',
+  extraer: 'extract',
+  javascript: 'script',
+  js: 'script',
+  code: 'script',
+  delay: 'wait',
+  esperar: 'wait',
+  validation: 'validate',
+  check: 'validate',
+  validar: 'validate'
+};
+
+/**
+ * Descripción del esquema que se envía al modelo junto con las instrucciones
+ */
+export const WORKFLOW_JSON_SCHEMA = `{
+  "title": "string (nombre corto del flujo)",
+  "steps": [
+    {
+      "type": "navigate | extract | script | wait | validate",
+      "description": "string (qué hace el paso)",
+      "url": "string (obligatorio en navigate; URL absoluta http/https)",
+      "selectors": ["string (selectores CSS; obligatorio en extract)"],
+      "code": "string (JavaScript de navegador; obligatorio en script)",
+      "expectedOutput": "string (qué debe producir el paso)"
+    }
+  ]
+}`;
+
+const isRecord = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const optionalString = (value: unknown): string | undefined =>
+  typeof value === 'string' && value.trim() ? value.trim() : undefined;
+
+const isHttpUrl = (value: string): boolean => /^https?:\/\/\S+$/i.test(value);
+
+const normalizeStepType = (value: unknown): WorkflowStepType | null => {
+  if (typeof value !== 'string') return null;
+  const type = value.trim().toLowerCase();
+  if ((WORKFLOW_STEP_TYPES as string[]).includes(type)) {
+    return type as WorkflowStepType;
+  }
+  return STEP_TYPE_ALIASES[type] || null;
+};
+
+/**
+ * Extrae el objeto JSON de la respuesta del modelo, aunque venga dentro de
+ * un bloque de código o con texto alrededor
+ */
+export const extractJsonObject = (text: string): unknown => {
+  const candidates: string[] = [];
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  if (fenced) {
+    candidates.push(fenced[1]);
+  }
+
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+  if (start !== -1 && end > start) {
+    candidates.push(text.slice(start, end + 1));
+  }
+
+  for (const candidate of candidates) {
+    try {
+      return JSON.parse(candidate);
+    } catch (error) {
+      // Reparaciones habituales: comas finales y comillas tipográficas
+      try {
+        return JSON.parse(candidate.replace(/,\s*([}\]])/g, '$1').replace(/[“”]/g, '"'));
+      } catch (repairError) {
+        // Probar el siguiente candidato
+      }
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Valida un paso y corrige lo que se puede corregir sin inventar datos.
+ * Devuelve null y anota el motivo si el paso no es ejecutable
+ */
+const parseStep = (value: unknown, index: number, errors: string[]): WorkflowStep | null => {
+  const label = `Paso ${index + 1}`;
+  if (!isRecord(value)) {
+    errors.push(`${label}: no es un objeto`);
+    return null;
+  }
+
+  const type = normalizeStepType(value.type);
+  if (!type) {
+    errors.push(`${label}: tipo "${value.type}" no válido (usa ${WORKFLOW_STEP_TYPES.join(', ')})`);
+    return null;
+  }
+
+  const url = optionalString(value.url);
+  const code = optionalString(value.code);
+  const rawSelectors = typeof value.selectors === 'string' ? [value.selectors] : value.selectors;
+  const selectors = Array.isArray(rawSelectors)
+    ? rawSelectors.filter((selector: unknown): selector is string => typeof selector === 'string' && !!selector.trim())
+    : [];
+
+  if (url && !isHttpUrl(url)) {
+    errors.push(`${label}: la URL "${url}" no es absoluta`);
+    return null;
+  }
+  if (type === 'navigate' && !url) {
+    errors.push(`${label}: un paso navigate necesita "url"`);
+    return null;
+  }
+  if (type === 'extract' && selectors.length === 0 && !code) {
+    errors.push(`${label}: un paso extract necesita "selectors" o "code"`);
+    return null;
+  }
+  if (type === 'script' && !code) {
+    errors.push(`${label}: un paso script necesita "code"`);
+    return null;
+  }
+
+  const step: WorkflowStep = {
+    id: optionalString(value.id) || `step-${index + 1}`,
+    type,
+    description: optionalString(value.description) || `${type} ${index + 1}`
+  };
+  if (url) step.url = url;
+  if (selectors.length > 0) step.selectors = selectors;
+  if (code) step.code = code;
+  const expectedOutput = optionalString(value.expectedOutput);
+  if (expectedOutput) step.expectedOutput = expectedOutput;
+
+  return step;
+};
+
+/**
+ * Valida un flujo estructurado. Los pasos no ejecutables se descartan y se
+ * informan en `errors`; si no queda ningún paso válido, `workflow` es null
+ */
+export const validateStructuredWorkflow = (value: unknown): WorkflowParseResult => {
+  const errors: string[] = [];
+  // Algunos modelos devuelven directamente la lista de pasos
+  const source = Array.isArray(value) ? { steps: value } : value;
+
+  if (!isRecord(source)) {
+    return { workflow: null, errors: ['La respuesta no contiene un objeto JSON'] };
+  }
+  if (!Array.isArray(source.steps) || source.steps.length === 0) {
+    return { workflow: null, errors: ['Falta la lista "steps" o está vacía'] };
+  }
+
+  const steps = source.steps
+    .map((step: unknown, index: number) => parseStep(step, index, errors))
+    .filter((step: WorkflowStep | null): step is WorkflowStep => step !== null);
+
+  // Evitar IDs repetidos, que impedirían seguir el avance de la ejecución
+  const seenIds = new Set<string>();
+  steps.forEach((step: WorkflowStep, index: number) => {
+    if (seenIds.has(step.id)) {
+      step.id = `${step.id}-${index + 1}`;
+    }
+    seenIds.add(step.id);
+  });
+
+  if (steps.length === 0) {
+    return { workflow: null, errors };
+  }
+
+  return {
+    workflow: {
+      version: WORKFLOW_SCHEMA_VERSION,
+      title: optionalString(source.title) || 'Flujo de trabajo',
+      steps,
+      ...(optionalString(source.generatedAt) ? { generatedAt: source.generatedAt } : {})
+    },
+    errors
+  };
+};
+
+/**
+ * Extrae y valida el flujo contenido en el texto de respuesta del modelo
+ */
+export const parseWorkflowResponse = (text: string): WorkflowParseResult => {
+  const json = extractJsonObject(text);
+  if (json === null) {
+    return { workflow: null, errors: ['La respuesta no contiene JSON válido'] };
+  }
+  return validateStructuredWorkflow(json);
+};
+
+/**
+ * Valida un flujo guardado. Devuelve undefined si no es utilizable
+ */
+export const parseStructuredWorkflow = (value: unknown): StructuredWorkflow | undefined =>
+  validateStructuredWorkflow(value).workflow || undefined;
+
+/**
+ * URL con la que empieza el flujo: la del primer paso que tenga una
+ */
+export const getWorkflowStartUrl = (workflow: StructuredWorkflow): string | null =>
+  workflow.steps.find(step => step.url)?.url || null;
@@ -0,0 +1,169 @@
+import { WorkflowMessage } from '../services/openRouterService';
+import { parseWorkflowMessages } from './activity';
+
+/**
+ * Rama de la conversación de diseño de un flujo. Guarda la conversación
+ * completa, incluidos los mensajes que comparte con la rama de la que sale
+ */
+export interface WorkflowBranch {
+  id: string;
+  // Rama de la que se separó; null en la rama original
+  parentId: string | null;
+  // Mensajes que comparte con la rama padre
+  forkIndex: number;
+  messages: WorkflowMessage[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Todas las ramas de la conversación de una actividad. La rama final es la
+ * que se usa como flujo de la actividad; la activa es la que se está editando
+ */
+export interface WorkflowConversation {
+  activeBranchId: string;
+  finalBranchId: string | null;
+  branches: WorkflowBranch[];
+}
+
+const isRecord = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+let branchCounter = 0;
+
+/**
+ * Genera un ID único aunque se creen varias ramas en el mismo milisegundo
+ */
+const generateBranchId = (): string => `branch-${Date.now().toString(36)}-${(branchCounter++).toString(36)}`;
+
+const createBranch = (messages: WorkflowMessage[], parentId: string | null, forkIndex: number): WorkflowBranch => {
+  const now = new Date().toISOString();
+  return { id: generateBranchId(), parentId, forkIndex, messages, createdAt: now, updatedAt: now };
+};
+
+/**
+ * Crea la conversación con una sola rama a partir de los mensajes actuales
+ */
+export const createWorkflowConversation = (messages: WorkflowMessage[] = []): WorkflowConversation => {
+  const branch = createBranch(messages, null, 0);
+  return { activeBranchId: branch.id, finalBranchId: null, branches: [branch] };
+};
+
+export const getActiveBranch = (conversation: WorkflowConversation): WorkflowBranch =>
+  conversation.branches.find(branch => branch.id === conversation.activeBranchId) || conversation.branches[0];
+
+/**
+ * Mensajes que usa la actividad: los de la rama final o, si aún no se eligió, los de la activa
+ */
+export const getEffectiveMessages = (conversation: WorkflowConversation): WorkflowMessage[] =>
+  (conversation.branches.find(branch => branch.id === conversation.finalBranchId) || getActiveBranch(conversation)).messages;
+
+/**
+ * Crea una rama nueva que comparte los `forkIndex` primeros mensajes de la
+ * activa y continúa con `messages`. La nueva rama pasa a ser la activa
+ */
+export const forkWorkflowBranch = (
+  conversation: WorkflowConversation,
+  forkIndex: number,
+  messages: WorkflowMessage[]
+): { conversation: WorkflowConversation; branchId: string } => {
+  const parent = getActiveBranch(conversation);
+  const branch = createBranch([...parent.messages.slice(0, forkIndex), ...messages], parent.id, forkIndex);
+  return {
+    conversation: { ...conversation, activeBranchId: branch.id, branches: [...conversation.branches, branch] },
+    branchId: branch.id
+  };
+};
+
+export const updateWorkflowBranch = (
+  conversation: WorkflowConversation,
+  branchId: string,
+  messages: WorkflowMessage[]
+): WorkflowConversation => ({
+  ...conversation,
+  branches: conversation.branches.map(branch =>
+    branch.id === branchId ? { ...branch, messages, updatedAt: new Date().toISOString() } : branch
+  )
+});
+
+export const setActiveWorkflowBranch = (conversation: WorkflowConversation, branchId: string): WorkflowConversation =>
+  conversation.branches.some(branch => branch.id === branchId)
+    ? { ...conversation, activeBranchId: branchId }
+    : conversation;
+
+export const markFinalWorkflowBranch = (conversation: WorkflowConversation, branchId: string): WorkflowConversation =>
+  conversation.branches.some(branch => branch.id === branchId)
+    ? { ...conversation, finalBranchId: branchId }
+    : conversation;
+
+/**
+ * Conserva los mensajes de la actividad cuando ninguna rama los contiene, p. ej.
+ * si cambiaron por sincronización o desde otra pantalla. Se añaden como una
+ * rama nueva desde el principio, sin cambiar la activa ni la final: la final
+ * solo la elige el usuario. Una actividad que se quedó atrás porque no se
+ * guardaron los últimos mensajes no crea ninguna rama
+ */
+export const reconcileWorkflowConversation = (
+  conversation: WorkflowConversation,
+  messages: WorkflowMessage[]
+): WorkflowConversation => {
+  const isContained = conversation.branches.some(branch =>
+    branch.messages.length >= messages.length &&
+    JSON.stringify(branch.messages.slice(0, messages.length)) === JSON.stringify(messages)
+  );
+  if (isContained) {
+    return conversation;
+  }
+  const fork = forkWorkflowBranch(conversation, 0, messages);
+  return { ...fork.conversation, activeBranchId: conversation.activeBranchId };
+};
+
+/**
+ * Nombre visible de una rama según su orden de creación
+ */
+export const getBranchLabel = (conversation: WorkflowConversation, branchId: string): string => {
+  const index = conversation.branches.findIndex(branch => branch.id === branchId);
+  const branch = conversation.branches[index];
+  if (!branch) {
+    return 'Rama';
+  }
+  return branch.parentId ? `Rama ${index + 1} · desde el mensaje ${branch.forkIndex + 1}` : 'Rama original';
+};
+
+const parseBranch = (value: unknown): WorkflowBranch | null => {
+  if (!isRecord(value) || typeof value.id !== 'string' || !value.id) {
+    return null;
+  }
+
+  const createdAt = typeof value.createdAt === 'string' ? value.createdAt : new Date(0).toISOString();
+  return {
+    id: value.id,
+    parentId: typeof value.parentId === 'string' && value.parentId ? value.parentId : null,
+    forkIndex: typeof value.forkIndex === 'number' && value.forkIndex >= 0 ? value.forkIndex : 0,
+    messages: parseWorkflowMessages(value.messages) || [],
+    createdAt,
+    updatedAt: typeof value.updatedAt === 'string' ? value.updatedAt : createdAt
+  };
+};
+
+/**
+ * Valida una conversación guardada. Las referencias a ramas que ya no
+ * existen se corrigen en lugar de descartar la conversación
+ */
+export const parseWorkflowConversation = (value: unknown): WorkflowConversation | null => {
+  if (!isRecord(value) || !Array.isArray(value.branches)) {
+    return null;
+  }
+
+  const branches = value.branches.map(parseBranch).filter((branch): branch is WorkflowBranch => branch !== null);
+  if (branches.length === 0) {
+    return null;
+  }
+
+  const exists = (id: unknown): id is string => typeof id === 'string' && branches.some(branch => branch.id === id);
+  return {
+    activeBranchId: exists(value.activeBranchId) ? value.activeBranchId : branches[0].id,
+    finalBranchId: exists(value.finalBranchId) ? value.finalBranchId : null,
+    branches
+  };
+};
@@ -0,0 +1,46 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { createCategory, DEFAULT_CATEGORIES } from '../../models';
+import { userStorage } from '../../services/userStorage';
+import { categoryRepository } from '../categoryRepository';
+
+const customCategory = createCategory({ id: 'compras', name: 'Compras' });
+
+describe('CategoryRepository.saveAll', () => {
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+    await userStorage.activate('ana');
+  });
+
+  it('no cambia la fecha de actualización al guardar una lista vacía sin categorías propias', async () => {
+    await categoryRepository.saveAll([]);
+
+    expect(await categoryRepository.getUpdatedAt()).toBeNull();
+    expect(await categoryRepository.getAll()).toEqual(DEFAULT_CATEGORIES);
+  });
+
+  it('no cambia la fecha de actualización al guardar las categorías por defecto', async () => {
+    await categoryRepository.saveAll(DEFAULT_CATEGORIES);
+
+    expect(await categoryRepository.getUpdatedAt()).toBeNull();
+    expect(await categoryRepository.getStored()).toEqual([]);
+  });
+
+  it('solo cambia la fecha de actualización si cambian las categorías', async () => {
+    await categoryRepository.saveAll([customCategory]);
+    const updatedAt = await categoryRepository.getUpdatedAt();
+    expect(updatedAt).not.toBeNull();
+
+    await categoryRepository.saveAll([customCategory]);
+    expect(await categoryRepository.getUpdatedAt()).toBe(updatedAt);
+  });
+
+  it('vuelve a las categorías por defecto con una lista vacía', async () => {
+    await categoryRepository.saveAll([customCategory]);
+    await AsyncStorage.setItem(`user_ana:organizationCategoriesUpdatedAt`, JSON.stringify('2026-01-01T00:00:00.000Z'));
+
+    await categoryRepository.saveAll([]);
+
+    expect(await categoryRepository.getAll()).toEqual(DEFAULT_CATEGORIES);
+    expect(await categoryRepository.getUpdatedAt()).not.toBe('2026-01-01T00:00:00.000Z');
+  });
+});
@@ -0,0 +1,58 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { userStorage } from '../../services/userStorage';
+import { CURRENT_SCHEMA_VERSION, getSchemaVersion, runMigrations } from '../migrations';
+
+const store = (key: string, value: unknown) => userStorage.setItem(key, JSON.stringify(value));
+const load = async (key: string) => JSON.parse((await userStorage.getItem(key)) || 'null');
+
+describe('runMigrations', () => {
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+    await userStorage.activate('ana');
+  });
+
+  it('lleva los datos de la primera versión a la actual', async () => {
+    await store('organizationAreas', ['Ventas', 'Compras']);
+    await store('collaborators', [{ id: 7, name: 'Luis', areaIndex: 1 }]);
+    await store('activities_7', [{
+      id: 1,
+      name: 'Pedir material',
+      status: 'active',
+      isCategorizing: true,
+      workflowMessages: [{ content: 'Pedir material de oficina' }, { content: 'Paso 1: abrir el portal' }]
+    }]);
+    await store('workflow_backup_1', [
+      { role: 'user', content: 'Pedir material de oficina' },
+      { role: 'assistant', content: 'Paso 1: abrir el portal antiguo' }
+    ]);
+
+    await runMigrations();
+
+    expect(await getSchemaVersion()).toBe(CURRENT_SCHEMA_VERSION);
+
+    const areas = await load('organizationAreas');
+    expect(areas.map((area: any) => area.name)).toEqual(['Ventas', 'Compras']);
+    expect(await load('collaborators')).toEqual([{ id: '7', name: 'Luis', areaId: areas[1].id }]);
+
+    const current = [
+      { role: 'user', content: 'Pedir material de oficina' },
+      { role: 'assistant', content: 'Paso 1: abrir el portal' }
+    ];
+    expect(await load('activities_7')).toEqual([{
+      id: '1',
+      name: 'Pedir material',
+      description: '',
+      status: 'active',
+      categories: [],
+      workflowMessages: current
+    }]);
+
+    const conversation = await load('workflow_branches_1');
+    expect(conversation.branches).toHaveLength(2);
+    expect(conversation.branches[0].messages[1].content).toBe('Paso 1: abrir el portal antiguo');
+    expect(conversation.branches[1]).toMatchObject({ parentId: conversation.branches[0].id, forkIndex: 0, messages: current });
+    expect(conversation.finalBranchId).toBe(conversation.branches[1].id);
+    expect(conversation.activeBranchId).toBe(conversation.branches[1].id);
+    expect(await userStorage.getItem('workflow_backup_1')).toBeNull();
+  });
+});
@@ -0,0 +1,250 @@
+import { userStorage } from '../services/userStorage';
+import { ActivityCategory } from '../services/openRouterService';
+import { Activity, ActivityStatus } from '../models';
+import { isPlainObject, readJson, writeJson } from './storage';
+
+const INDEX_KEY = 'activityIndex';
+const INDEX_VERSION = 1;
+const ACTIVITIES_PREFIX = 'activities_';
+
+// Lo mínimo de cada actividad para encontrarla sin leer todas las listas
+export interface ActivityIndexEntry {
+  id: string;
+  collaboratorId: string;
+  areaId: string;
+  status: ActivityStatus;
+  categories: ActivityCategory[];
+}
+
+export interface ActivityQuery {
+  areaId?: string;
+  status?: ActivityStatus;
+  // Devuelve las actividades que tengan al menos una de estas categorías
+  categories?: ActivityCategory[];
+}
+
+interface StoredIndex {
+  version: number;
+  entries: ActivityIndexEntry[];
+}
+
+const addTo = (map: Map<string, Set<string>>, key: string, id: string) => {
+  if (!map.has(key)) map.set(key, new Set());
+  map.get(key)!.add(id);
+};
+
+const removeFrom = (map: Map<string, Set<string>>, key: string, id: string) => {
+  const ids = map.get(key);
+  if (!ids) return;
+  ids.delete(id);
+  if (ids.size === 0) map.delete(key);
+};
+
+/**
+ * Índice de actividades por ID, área, categoría y estado. Se guarda en el
+ * dispositivo y se mantiene al día desde los repositorios en cada guardado,
+ * así que solo hace falta recorrer todas las listas la primera vez
+ */
+export class ActivityIndex {
+  private entries = new Map<string, ActivityIndexEntry>();
+  private byCollaborator = new Map<string, Set<string>>();
+  private byArea = new Map<string, Set<string>>();
+  private byCategory = new Map<string, Set<string>>();
+  private byStatus = new Map<string, Set<string>>();
+  private generation = -1;
+  private loadPromise: Promise<void> | null = null;
+
+  async getEntry(activityId: string): Promise<ActivityIndexEntry | null> {
+    await this.ensureLoaded();
+    return this.entries.get(activityId) || null;
+  }
+
+  /**
+   * IDs de las actividades que cumplen todos los filtros indicados
+   */
+  async query(filter: ActivityQuery = {}): Promise<ActivityIndexEntry[]> {
+    await this.ensureLoaded();
+
+    const candidates: Set<string>[] = [];
+    if (filter.areaId !== undefined) {
+      candidates.push(this.byArea.get(filter.areaId) || new Set());
+    }
+    if (filter.status) {
+      candidates.push(this.byStatus.get(filter.status) || new Set());
+    }
+    if (filter.categories) {
+      const ids = new Set<string>();
+      filter.categories.forEach(category => this.byCategory.get(category)?.forEach(id => ids.add(id)));
+      candidates.push(ids);
+    }
+
+    if (candidates.length === 0) {
+      return [...this.entries.values()];
+    }
+
+    // Recorrer el conjunto más pequeño y comprobar el resto
+    candidates.sort((a, b) => a.size - b.size);
+    const [smallest, ...rest] = candidates;
+    return [...smallest]
+      .filter(id => rest.every(ids => ids.has(id)))
+      .map(id => this.entries.get(id)!)
+      .filter(Boolean);
+  }
+
+  /**
+   * Sustituye las entradas de un colaborador por las de su lista actual
+   */
+  async indexCollaborator(collaboratorId: string, areaId: string, activities: Activity[]): Promise<void> {
+    await this.ensureLoaded();
+
+    this.removeCollaboratorEntries(collaboratorId);
+    activities.forEach(activity =>
+      this.add({
+        id: activity.id,
+        collaboratorId,
+        areaId,
+        status: activity.status,
+        categories: activity.categories
+      })
+    );
+
+    await this.persist();
+  }
+
+  async removeCollaborator(collaboratorId: string): Promise<void> {
+    await this.ensureLoaded();
+    this.removeCollaboratorEntries(collaboratorId);
+    await this.persist();
+  }
+
+  /**
+   * Actualiza el área de las actividades cuando los colaboradores cambian de área
+   */
+  async updateAreas(collaborators: { id: string; areaId: string }[]): Promise<void> {
+    await this.ensureLoaded();
+
+    let changed = false;
+    collaborators.forEach(({ id, areaId }) => {
+      this.byCollaborator.get(id)?.forEach(activityId => {
+        const entry = this.entries.get(activityId);
+        if (entry && entry.areaId !== areaId) {
+          removeFrom(this.byArea, entry.areaId, activityId);
+          entry.areaId = areaId;
+          addTo(this.byArea, areaId, activityId);
+          changed = true;
+        }
+      });
+    });
+
+    if (changed) {
+      await this.persist();
+    }
+  }
+
+  /**
+   * Reconstruye el índice leyendo todas las listas de actividades
+   */
+  async rebuild(): Promise<void> {
+    this.clear();
+    this.generation = userStorage.getGeneration();
+
+    const collaborators = await readJson<any[]>('collaborators', []);
+    const areaByCollaborator = new Map<string, string>(
+      (Array.isArray(collaborators) ? collaborators : [])
+        .filter(isPlainObject)
+        .map(c => [String(c.id), typeof c.areaId === 'string' ? c.areaId : ''])
+    );
+
+    const keys = (await userStorage.getAllKeys()).filter(key => key.startsWith(ACTIVITIES_PREFIX));
+    const lists = await userStorage.multiGet(keys);
+    lists.forEach(([key, value]) => {
+      const collaboratorId = key.slice(ACTIVITIES_PREFIX.length);
+      let activities: unknown;
+      try {
+        activities = value ? JSON.parse(value) : [];
+      } catch (error) {
+        activities = [];
+      }
+      (Array.isArray(activities) ? activities : []).filter(isPlainObject).forEach(activity => {
+        if (typeof activity.id !== 'string') return;
+        this.add({
+          id: activity.id,
+          collaboratorId,
+          areaId: areaByCollaborator.get(collaboratorId) || '',
+          status: activity.status || 'inactive',
+          categories: Array.isArray(activity.categories) ? activity.categories : []
+        });
+      });
+    });
+
+    await this.persist();
+    console.log(`📇 Índice de actividades reconstruido (${this.entries.size} actividades)`);
+  }
+
+  private ensureLoaded(): Promise<void> {
+    // Otro usuario o datos borrados: el índice en memoria ya no vale
+    if (this.generation !== userStorage.getGeneration()) {
+      this.loadPromise = null;
+      this.generation = userStorage.getGeneration();
+      this.clear();
+    }
+
+    if (!this.loadPromise) {
+      this.loadPromise = this.load().catch(error => {
+        this.loadPromise = null;
+        throw error;
+      });
+    }
+    return this.loadPromise;
+  }
+
+  private async load(): Promise<void> {
+    const stored = await readJson<StoredIndex | null>(INDEX_KEY, null);
+    if (!stored || stored.version !== INDEX_VERSION || !Array.isArray(stored.entries)) {
+      await this.rebuild();
+      return;
+    }
+    stored.entries.forEach(entry => this.add(entry));
+  }
+
+  private async persist(): Promise<void> {
+    const stored: StoredIndex = { version: INDEX_VERSION, entries: [...this.entries.values()] };
+    await writeJson(INDEX_KEY, stored);
+  }
+
+  private add(entry: ActivityIndexEntry): void {
+    // Un ID repetido en otra lista se reasigna a la última que se guardó
+    if (this.entries.has(entry.id)) {
+      this.remove(entry.id);
+    }
+    this.entries.set(entry.id, entry);
+    addTo(this.byCollaborator, entry.collaboratorId, entry.id);
+    addTo(this.byArea, entry.areaId, entry.id);
+    addTo(this.byStatus, entry.status, entry.id);
+    entry.categories.forEach(category => addTo(this.byCategory, category, entry.id));
+  }
+
+  private remove(activityId: string): void {
+    const entry = this.entries.get(activityId);
+    if (!entry) return;
+    this.entries.delete(activityId);
+    removeFrom(this.byCollaborator, entry.collaboratorId, activityId);
+    removeFrom(this.byArea, entry.areaId, activityId);
+    removeFrom(this.byStatus, entry.status, activityId);
+    entry.categories.forEach(category => removeFrom(this.byCategory, category, activityId));
+  }
+
+  private removeCollaboratorEntries(collaboratorId: string): void {
+    [...(this.byCollaborator.get(collaboratorId) || [])].forEach(id => this.remove(id));
+  }
+
+  private clear(): void {
+    this.entries.clear();
+    this.byCollaborator.clear();
+    this.byArea.clear();
+    this.byCategory.clear();
+    this.byStatus.clear();
+  }
+}
+
+export const activityIndex = new ActivityIndex();
@@ -0,0 +1,147 @@
+import { userStorage } from '../services/userStorage';
+import { Activity, mergeActivity, parseActivities } from '../models';
+import { activityIndex, ActivityQuery } from './activityIndex';
+import { collaboratorRepository } from './collaboratorRepository';
+import { readJson, writeJson } from './storage';
+
+const ACTIVITIES_PREFIX = 'activities_';
+
+// Copia profunda para que quien edite el resultado no modifique la caché
+const cloneActivities = (activities: Activity[]): Activity[] => JSON.parse(JSON.stringify(activities));
+
+export const activitiesKey = (collaboratorId: string) => `${ACTIVITIES_PREFIX}${collaboratorId}`;
+
+/**
+ * Acceso a las actividades, guardadas en una lista por colaborador.
+ * Las listas leídas se guardan en memoria y las búsquedas usan `activityIndex`
+ */
+export class ActivityRepository {
+  private cache = new Map<string, Activity[]>();
+  private cacheGeneration = -1;
+
+  async getByCollaborator(collaboratorId: string): Promise<Activity[]> {
+    const cache = this.getCache();
+    if (!cache.has(collaboratorId)) {
+      cache.set(collaboratorId, parseActivities(await readJson<unknown>(activitiesKey(collaboratorId), [])));
+    }
+    return cloneActivities(cache.get(collaboratorId)!);
+  }
+
+  /**
+   * Lee las listas de varios colaboradores en una sola operación
+   */
+  async getByCollaborators(collaboratorIds: string[]): Promise<Record<string, Activity[]>> {
+    const cache = this.getCache();
+    const missing = collaboratorIds.filter(id => !cache.has(id));
+
+    if (missing.length > 0) {
+      const stored = await userStorage.multiGet(missing.map(activitiesKey));
+      stored.forEach(([, value], index) => {
+        let parsed: unknown = [];
+        try {
+          parsed = value ? JSON.parse(value) : [];
+        } catch (error) {
+          console.warn(`⚠️ Valor corrupto en "${activitiesKey(missing[index])}", se usará una lista vacía`);
+        }
+        cache.set(missing[index], parseActivities(parsed));
+      });
+    }
+
+    const result: Record<string, Activity[]> = {};
+    collaboratorIds.forEach(id => {
+      result[id] = cloneActivities(cache.get(id) || []);
+    });
+    return result;
+  }
+
+  async saveForCollaborator(collaboratorId: string, activities: Activity[]): Promise<void> {
+    const parsed = parseActivities(activities);
+    await writeJson(activitiesKey(collaboratorId), parsed);
+    this.getCache().set(collaboratorId, parsed);
+
+    const collaborator = await collaboratorRepository.getById(collaboratorId);
+    await activityIndex.indexCollaborator(collaboratorId, collaborator?.areaId || '', parsed);
+  }
+
+  async removeForCollaborator(collaboratorId: string): Promise<void> {
+    await userStorage.removeItem(activitiesKey(collaboratorId));
+    this.getCache().delete(collaboratorId);
+    await activityIndex.removeCollaborator(collaboratorId);
+  }
+
+  /**
+   * Inserta o actualiza una actividad en la lista de su colaborador.
+   * Los campos guardados que `activity` no trae se conservan
+   */
+  async upsert(collaboratorId: string, activity: Partial<Activity> & { id: string }): Promise<void> {
+    const activities = await this.getByCollaborator(collaboratorId);
+    const index = activities.findIndex(a => a.id === activity.id);
+
+    if (index >= 0) {
+      activities[index] = mergeActivity(activities[index], activity);
+    } else {
+      activities.push(mergeActivity(undefined, activity));
+    }
+
+    await this.saveForCollaborator(collaboratorId, activities);
+  }
+
+  /**
+   * IDs de los colaboradores que tienen actividades guardadas
+   */
+  async getCollaboratorIds(): Promise<string[]> {
+    const keys = await userStorage.getAllKeys();
+    return keys
+      .filter(key => key.startsWith(ACTIVITIES_PREFIX))
+      .map(key => key.slice(ACTIVITIES_PREFIX.length));
+  }
+
+  /**
+   * Busca una actividad por ID usando el índice
+   */
+  async findById(activityId: string): Promise<{ activity: Activity; collaboratorId: string } | null> {
+    const entry = await activityIndex.getEntry(activityId);
+    if (!entry) {
+      return null;
+    }
+
+    const activity = (await this.getByCollaborator(entry.collaboratorId)).find(a => a.id === activityId);
+    if (!activity) {
+      // El índice quedó desfasado respecto a lo guardado: reconstruirlo una vez
+      await activityIndex.rebuild();
+      const retry = await activityIndex.getEntry(activityId);
+      const found = retry && (await this.getByCollaborator(retry.collaboratorId)).find(a => a.id === activityId);
+      return found && retry ? { activity: found, collaboratorId: retry.collaboratorId } : null;
+    }
+
+    return { activity, collaboratorId: entry.collaboratorId };
+  }
+
+  /**
+   * Actividades que cumplen los filtros, agrupadas por colaborador
+   */
+  async query(filter: ActivityQuery): Promise<{ activity: Activity; collaboratorId: string }[]> {
+    const entries = await activityIndex.query(filter);
+    const lists = await this.getByCollaborators([...new Set(entries.map(entry => entry.collaboratorId))]);
+
+    return entries
+      .map(entry => ({
+        activity: lists[entry.collaboratorId]?.find(a => a.id === entry.id),
+        collaboratorId: entry.collaboratorId
+      }))
+      .filter((result): result is { activity: Activity; collaboratorId: string } => !!result.activity);
+  }
+
+  /**
+   * La caché en memoria solo vale para el usuario y los datos con que se llenó
+   */
+  private getCache(): Map<string, Activity[]> {
+    if (this.cacheGeneration !== userStorage.getGeneration()) {
+      this.cache.clear();
+      this.cacheGeneration = userStorage.getGeneration();
+    }
+    return this.cache;
+  }
+}
+
+export const activityRepository = new ActivityRepository();
@@ -0,0 +1,23 @@
+import { Area, parseAreas } from '../models';
+import { readJson, writeJson } from './storage';
+
+const AREAS_KEY = 'organizationAreas';
+
+/**
+ * Acceso a las áreas de la organización
+ */
+export class AreaRepository {
+  async getAll(): Promise<Area[]> {
+    return parseAreas(await readJson<unknown>(AREAS_KEY, []));
+  }
+
+  async getById(id: string): Promise<Area | null> {
+    return (await this.getAll()).find(area => area.id === id) || null;
+  }
+
+  async saveAll(areas: Area[]): Promise<void> {
+    await writeJson(AREAS_KEY, parseAreas(areas));
+  }
+}
+
+export const areaRepository = new AreaRepository();
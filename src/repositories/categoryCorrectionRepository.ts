@@ -0,0 +1,77 @@
+import { CategoryCorrection, parseCategoryCorrections } from '../models';
+import { readJson, writeJson } from './storage';
+
+const CORRECTIONS_KEY = 'categoryCorrections';
+
+// Correcciones que se conservan; las más antiguas dejan de usarse como ejemplo
+const MAX_CORRECTIONS = 50;
+
+const sameCategories = (a: string[], b: string[]): boolean =>
+  a.length === b.length && a.every(category => b.includes(category));
+
+/**
+ * Correcciones de los usuarios sobre las categorías propuestas por la IA.
+ * Se guarda una por actividad: la última elección del usuario
+ */
+export class CategoryCorrectionRepository {
+  async getAll(): Promise<CategoryCorrection[]> {
+    return parseCategoryCorrections(await readJson<unknown>(CORRECTIONS_KEY, []));
+  }
+
+  /**
+   * Las correcciones más recientes primero
+   */
+  async getRecent(limit: number): Promise<CategoryCorrection[]> {
+    const corrections = await this.getAll();
+    return corrections
+      .sort((a, b) => b.correctedAt.localeCompare(a.correctedAt))
+      .slice(0, limit);
+  }
+
+  /**
+   * Sustituye todas las correcciones, p. ej. con las sincronizadas o las de una copia de seguridad
+   */
+  async saveAll(corrections: CategoryCorrection[]): Promise<void> {
+    const parsed = parseCategoryCorrections(corrections)
+      .sort((a, b) => b.correctedAt.localeCompare(a.correctedAt))
+      .slice(0, MAX_CORRECTIONS);
+    if (JSON.stringify(parsed) === JSON.stringify(await this.getAll())) {
+      return;
+    }
+    await writeJson(CORRECTIONS_KEY, parsed);
+  }
+
+  /**
+   * Guarda la elección del usuario para una actividad. Si coincide con lo
+   * propuesto deja de ser una corrección y se elimina
+   * @returns true si cambió algo
+   */
+  async record(correction: Omit<CategoryCorrection, 'correctedAt'>): Promise<boolean> {
+    const corrections = await this.getAll();
+    const existing = corrections.find(item => item.activityId === correction.activityId);
+    const others = corrections.filter(item => item.activityId !== correction.activityId);
+
+    if (sameCategories(correction.suggested, correction.chosen)) {
+      if (!existing) return false;
+      await writeJson(CORRECTIONS_KEY, others);
+      return true;
+    }
+
+    if (
+      existing &&
+      existing.activityName === correction.activityName &&
+      sameCategories(existing.suggested, correction.suggested) &&
+      sameCategories(existing.chosen, correction.chosen)
+    ) {
+      return false;
+    }
+
+    const updated = [{ ...correction, correctedAt: new Date().toISOString() }, ...others]
+      .sort((a, b) => b.correctedAt.localeCompare(a.correctedAt))
+      .slice(0, MAX_CORRECTIONS);
+    await writeJson(CORRECTIONS_KEY, updated);
+    return true;
+  }
+}
+
+export const categoryCorrectionRepository = new CategoryCorrectionRepository();
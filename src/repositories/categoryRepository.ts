@@ -0,0 +1,53 @@
+import { userStorage } from '../services/userStorage';
+import { CategoryDefinition, DEFAULT_CATEGORIES, parseCategories } from '../models';
+import { readJson, writeJson } from './storage';
+
+const CATEGORIES_KEY = 'organizationCategories';
+const UPDATED_AT_KEY = 'organizationCategoriesUpdatedAt';
+
+/**
+ * Acceso a las categorías de actividades de la organización. Mientras la
+ * organización no defina las suyas se usan las categorías por defecto
+ */
+export class CategoryRepository {
+  async getAll(): Promise<CategoryDefinition[]> {
+    const categories = await this.getStored();
+    return categories.length > 0 ? categories : DEFAULT_CATEGORIES.map(category => ({ ...category }));
+  }
+
+  /**
+   * Categorías que guardó la organización; vacía mientras use las de por defecto
+   */
+  async getStored(): Promise<CategoryDefinition[]> {
+    return parseCategories(await readJson<unknown>(CATEGORIES_KEY, null));
+  }
+
+  /**
+   * Guarda las categorías. Una lista vacía vuelve a las categorías por defecto.
+   * Solo cambia la fecha de actualización si cambió algo, para no dar por
+   * desfasadas las actividades ya categorizadas
+   */
+  async saveAll(categories: CategoryDefinition[]): Promise<void> {
+    const parsed = parseCategories(categories);
+
+    if (parsed.length === 0) {
+      if ((await this.getStored()).length === 0) return;
+      await userStorage.removeItem(CATEGORIES_KEY);
+    } else {
+      // Comparar con la misma forma: las categorías por defecto no pasan por parseCategories
+      if (JSON.stringify(parsed) === JSON.stringify(parseCategories(await this.getAll()))) return;
+      await writeJson(CATEGORIES_KEY, parsed);
+    }
+
+    await writeJson(UPDATED_AT_KEY, new Date().toISOString());
+  }
+
+  /**
+   * Última vez que la organización cambió sus categorías; null si nunca las cambió
+   */
+  async getUpdatedAt(): Promise<string | null> {
+    return readJson<string | null>(UPDATED_AT_KEY, null);
+  }
+}
+
+export const categoryRepository = new CategoryRepository();
@@ -0,0 +1,62 @@
+import { activityIndex } from './activityIndex';
+import { isPlainObject, readJson, writeJson } from './storage';
+
+const COLLABORATORS_KEY = 'collaborators';
+
+// Colaborador tal como se guarda en el dispositivo
+export interface Collaborator {
+  id: string;
+  name: string;
+  areaId: string;
+  avatar?: {
+    color: string;
+    positionX: number;
+    positionY: number;
+  };
+}
+
+/**
+ * Valida un colaborador guardado. Devuelve null si no se puede recuperar
+ */
+export const sanitizeCollaborator = (value: unknown): Collaborator | null => {
+  if (!isPlainObject(value) || (typeof value.id !== 'string' && typeof value.id !== 'number')) {
+    return null;
+  }
+
+  return {
+    ...value,
+    id: String(value.id),
+    name: typeof value.name === 'string' ? value.name : '',
+    areaId: typeof value.areaId === 'string' ? value.areaId : ''
+  } as Collaborator;
+};
+
+export const sanitizeCollaborators = (value: unknown): Collaborator[] =>
+  Array.isArray(value)
+    ? value.map(sanitizeCollaborator).filter((c): c is Collaborator => c !== null)
+    : [];
+
+/**
+ * Acceso a los colaboradores de la organización
+ */
+export class CollaboratorRepository {
+  async getAll(): Promise<Collaborator[]> {
+    return sanitizeCollaborators(await readJson<unknown>(COLLABORATORS_KEY, []));
+  }
+
+  async getById(id: string): Promise<Collaborator | null> {
+    return (await this.getAll()).find(collaborator => collaborator.id === id) || null;
+  }
+
+  async getByArea(areaId: string): Promise<Collaborator[]> {
+    return (await this.getAll()).filter(collaborator => collaborator.areaId === areaId);
+  }
+
+  async saveAll(collaborators: Collaborator[]): Promise<void> {
+    const sanitized = sanitizeCollaborators(collaborators);
+    await writeJson(COLLABORATORS_KEY, sanitized);
+    await activityIndex.updateAreas(sanitized);
+  }
+}
+
+export const collaboratorRepository = new CollaboratorRepository();
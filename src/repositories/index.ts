@@ -0,0 +1,10 @@
+// Exportar todos los repositorios desde este archivo
+export * from './organizationRepository';
+export * from './areaRepository';
+export * from './categoryRepository';
+export * from './categoryCorrectionRepository';
+export * from './collaboratorRepository';
+export * from './activityRepository';
+export * from './activityIndex';
+export * from './workflowRepository';
+export * from './migrations';
@@ -0,0 +1,286 @@
+import { userStorage } from '../services/userStorage';
+import { isPlainObject, readJson, writeJson } from './storage';
+
+const SCHEMA_VERSION_KEY = 'schemaVersion';
+
+// Validación de áreas, colaboradores y actividades tal como se publicó la
+// versión 1. Se copia aquí porque la migración no puede cambiar aunque cambie el modelo
+const sanitizeAreasV1 = (value: unknown): string[] =>
+  Array.isArray(value) ? value.map(area => (typeof area === 'string' ? area : String(area ?? ''))) : [];
+
+const sanitizeCollaboratorsV1 = (value: unknown): Record<string, any>[] =>
+  (Array.isArray(value) ? value : [])
+    .filter(collaborator => isPlainObject(collaborator) && (typeof collaborator.id === 'string' || typeof collaborator.id === 'number'))
+    .map(collaborator => ({
+      ...collaborator,
+      id: String(collaborator.id),
+      name: typeof collaborator.name === 'string' ? collaborator.name : '',
+      areaIndex: Number.isInteger(collaborator.areaIndex) && collaborator.areaIndex >= 0 ? collaborator.areaIndex : 0
+    }));
+
+const sanitizeActivitiesV1 = (value: unknown): Record<string, any>[] =>
+  (Array.isArray(value) ? value : [])
+    .filter(activity => isPlainObject(activity) && (typeof activity.id === 'string' || typeof activity.id === 'number'))
+    .map(activity => ({
+      ...activity,
+      id: String(activity.id),
+      name: typeof activity.name === 'string' ? activity.name : '',
+      description: typeof activity.description === 'string' ? activity.description : '',
+      status: ['active', 'inactive', 'scheduled'].includes(activity.status) ? activity.status : 'inactive',
+      categories: Array.isArray(activity.categories)
+        ? activity.categories.filter((category: unknown) => typeof category === 'string')
+        : []
+    }));
+
+// Validación de actividades y de sus mensajes de flujo tal como se publicó la versión 2
+const ACTIVITY_STATUSES_V2 = ['active', 'inactive', 'scheduled'];
+const SCHEDULE_FREQUENCIES_V2 = ['daily', 'weekly', 'biweekly', 'monthly'];
+const TRANSIENT_FIELDS_V2 = ['isCategorizing', 'isAnalyzingWorkflow', 'collaboratorId', 'collaboratorName'];
+
+const optionalStringV2 = (value: unknown): string | undefined =>
+  typeof value === 'string' && value ? value : undefined;
+
+const optionalNumberV2 = (value: unknown): number | undefined =>
+  typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+
+const parseScheduleV2 = (value: unknown): Record<string, any> | undefined => {
+  if (!isPlainObject(value) || !SCHEDULE_FREQUENCIES_V2.includes(value.frequency)) {
+    return undefined;
+  }
+
+  return {
+    frequency: value.frequency,
+    daysOfWeek: Array.isArray(value.daysOfWeek)
+      ? value.daysOfWeek.filter((day: unknown) => Number.isInteger(day) && (day as number) >= 0 && (day as number) <= 6)
+      : undefined,
+    dayOfMonth: optionalNumberV2(value.dayOfMonth),
+    startDate: optionalStringV2(value.startDate)
+  };
+};
+
+const parseWorkflowMessagesV2 = (value: unknown): Record<string, any>[] | undefined => {
+  if (!Array.isArray(value)) {
+    return undefined;
+  }
+
+  const messages = value.filter(isPlainObject).filter(message => typeof message.content === 'string');
+  const missingRoles = messages.every(message => message.role !== 'user' && message.role !== 'assistant');
+
+  return messages.map((message, index) => ({
+    ...message,
+    role: missingRoles
+      ? (index % 2 === 0 && messages.length > 1 ? 'user' : 'assistant')
+      : (message.role === 'user' ? 'user' : 'assistant'),
+    content: message.content
+  }));
+};
+
+const parseActivityV2 = (value: unknown): Record<string, any> | null => {
+  if (!isPlainObject(value) || (typeof value.id !== 'string' && typeof value.id !== 'number') || value.id === '') {
+    return null;
+  }
+
+  const activity: Record<string, any> = { ...value };
+  TRANSIENT_FIELDS_V2.forEach(field => {
+    delete activity[field];
+  });
+
+  Object.assign(activity, {
+    id: String(value.id),
+    name: typeof value.name === 'string' ? value.name : '',
+    description: typeof value.description === 'string' ? value.description : '',
+    status: ACTIVITY_STATUSES_V2.includes(value.status) ? value.status : 'inactive',
+    categories: Array.isArray(value.categories)
+      ? value.categories.filter((category: unknown) => typeof category === 'string')
+      : []
+  });
+
+  const optionalFields: Record<string, unknown> = {
+    schedule: parseScheduleV2(value.schedule),
+    duration: optionalNumberV2(value.duration),
+    lastExecutionDate: optionalStringV2(value.lastExecutionDate),
+    nextExecutionDate: optionalStringV2(value.nextExecutionDate),
+    workflowMessages: parseWorkflowMessagesV2(value.workflowMessages)
+  };
+
+  Object.keys(optionalFields).forEach(field => {
+    if (optionalFields[field] === undefined) {
+      delete activity[field];
+    } else {
+      activity[field] = optionalFields[field];
+    }
+  });
+
+  return activity;
+};
+
+const parseActivitiesV2 = (value: unknown): Record<string, any>[] =>
+  Array.isArray(value)
+    ? value.map(parseActivityV2).filter((activity): activity is Record<string, any> => activity !== null)
+    : [];
+
+// Validación de áreas tal como se publicó la versión 3. Las áreas antiguas,
+// que eran solo el nombre, reciben un ID nuevo
+let areaCounterV3 = 0;
+
+const parseAreaV3 = (value: unknown): Record<string, any> | null => {
+  if (typeof value === 'string') {
+    return { name: value, id: `area-${Date.now().toString(36)}-${(areaCounterV3++).toString(36)}` };
+  }
+
+  if (!isPlainObject(value) || typeof value.id !== 'string' || !value.id) {
+    return null;
+  }
+
+  const area: Record<string, any> = {
+    id: value.id,
+    name: typeof value.name === 'string' ? value.name : ''
+  };
+
+  ['description', 'color', 'manager'].forEach(field => {
+    if (typeof value[field] === 'string' && value[field].trim()) {
+      area[field] = value[field];
+    }
+  });
+
+  return area;
+};
+
+const parseAreasV3 = (value: unknown): Record<string, any>[] =>
+  Array.isArray(value)
+    ? value.map(parseAreaV3).filter((area): area is Record<string, any> => area !== null)
+    : [];
+
+// Conversación de ramas tal como se publicó la versión 4
+let branchCounterV4 = 0;
+
+const createBranchV4 = (messages: Record<string, any>[], parentId: string | null): Record<string, any> => {
+  const now = new Date().toISOString();
+  return {
+    id: `branch-${Date.now().toString(36)}-${(branchCounterV4++).toString(36)}`,
+    parentId,
+    forkIndex: 0,
+    messages,
+    createdAt: now,
+    updatedAt: now
+  };
+};
+
+/**
+ * La copia es la conversación completa; lo que quedó en la actividad al
+ * guardar la versión final pasa a ser una rama aparte, marcada como final
+ */
+const createConversationV4 = (backup: Record<string, any>[], current: Record<string, any>[]): Record<string, any> => {
+  const original = createBranchV4(backup, null);
+  if (current.length === 0) {
+    return { activeBranchId: original.id, finalBranchId: null, branches: [original] };
+  }
+
+  const final = createBranchV4(current, original.id);
+  return { activeBranchId: final.id, finalBranchId: final.id, branches: [original, final] };
+};
+
+interface Migration {
+  version: number;
+  description: string;
+  migrate: () => Promise<void>;
+}
+
+/**
+ * Migraciones en orden. Cada una lleva los datos de `version - 1` a `version`.
+ * Para cambiar la forma de un registro, añadir una entrada nueva; nunca editar las existentes
+ */
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Normalizar áreas, colaboradores y actividades guardados sin validar',
+    migrate: async () => {
+      await writeJson('organizationAreas', sanitizeAreasV1(await readJson<unknown>('organizationAreas', [])));
+      await writeJson('collaborators', sanitizeCollaboratorsV1(await readJson<unknown>('collaborators', [])));
+
+      const keys = await userStorage.getAllKeys();
+      for (const key of keys.filter(k => k.startsWith('activities_'))) {
+        await writeJson(key, sanitizeActivitiesV1(await readJson<unknown>(key, [])));
+      }
+    }
+  },
+  {
+    version: 2,
+    description: 'Quitar estado de interfaz y recuperar el rol de los mensajes de flujo en las actividades',
+    migrate: async () => {
+      const keys = await userStorage.getAllKeys();
+      for (const key of keys.filter(k => k.startsWith('activities_'))) {
+        await writeJson(key, parseActivitiesV2(await readJson<unknown>(key, [])));
+      }
+    }
+  },
+  {
+    version: 3,
+    description: 'Dar ID propio a las áreas y referenciarlas desde los colaboradores por areaId',
+    migrate: async () => {
+      // parseAreasV3 conserva el orden, así que la posición antigua sigue siendo válida
+      const areas = parseAreasV3(await readJson<unknown>('organizationAreas', []));
+      const collaborators = await readJson<any[]>('collaborators', []);
+
+      const migrated = (Array.isArray(collaborators) ? collaborators : []).map(collaborator => {
+        const { areaIndex, ...rest } = collaborator || {};
+        const areaId = typeof rest.areaId === 'string' && rest.areaId
+          ? rest.areaId
+          : (areas[areaIndex] || areas[0])?.id || '';
+        return { ...rest, areaId };
+      });
+
+      await writeJson('organizationAreas', areas);
+      await writeJson('collaborators', migrated);
+    }
+  },
+  {
+    version: 4,
+    description: 'Convertir las copias de la conversación de los flujos en ramas de la conversación',
+    migrate: async () => {
+      const keys = await userStorage.getAllKeys();
+      const currentMessages = new Map<string, Record<string, any>[]>();
+      for (const key of keys.filter(k => k.startsWith('activities_'))) {
+        parseActivitiesV2(await readJson<unknown>(key, [])).forEach(activity => {
+          currentMessages.set(activity.id, activity.workflowMessages || []);
+        });
+      }
+
+      for (const key of keys.filter(k => k.startsWith('workflow_backup_'))) {
+        const activityId = key.slice('workflow_backup_'.length);
+        const backup = parseWorkflowMessagesV2(await readJson<unknown>(key, [])) || [];
+        const conversation = createConversationV4(backup, currentMessages.get(activityId) || []);
+
+        await writeJson(`workflow_branches_${activityId}`, conversation);
+        await userStorage.removeItem(key);
+      }
+    }
+  }
+];
+
+export const CURRENT_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+export const getSchemaVersion = async (): Promise<number> => {
+  const stored = await userStorage.getItem(SCHEMA_VERSION_KEY);
+  return stored ? Number(stored) || 0 : 0;
+};
+
+/**
+ * Aplica las migraciones pendientes sobre los datos del usuario actual.
+ * Si una falla, se detiene y se reintentará en el próximo inicio
+ */
+export const runMigrations = async (): Promise<void> => {
+  let version = await getSchemaVersion();
+
+  for (const migration of MIGRATIONS.filter(m => m.version > version)) {
+    try {
+      console.log(`🛠️ Migrando datos a la versión ${migration.version}: ${migration.description}`);
+      await migration.migrate();
+      version = migration.version;
+      await userStorage.setItem(SCHEMA_VERSION_KEY, String(version));
+    } catch (error) {
+      console.error(`❌ Error en la migración ${migration.version}:`, error);
+      return;
+    }
+  }
+};
@@ -0,0 +1,18 @@
+import { userStorage } from '../services/userStorage';
+
+const NAME_KEY = 'organizationName';
+
+/**
+ * Acceso al nombre de la organización
+ */
+export class OrganizationRepository {
+  async getName(): Promise<string> {
+    return (await userStorage.getItem(NAME_KEY)) || '';
+  }
+
+  async saveName(name: string): Promise<void> {
+    await userStorage.setItem(NAME_KEY, typeof name === 'string' ? name : '');
+  }
+}
+
+export const organizationRepository = new OrganizationRepository();
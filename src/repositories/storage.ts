@@ -0,0 +1,26 @@
+import { userStorage } from '../services/userStorage';
+
+/**
+ * Lee y parsea un valor JSON del almacenamiento del usuario.
+ * Devuelve `fallback` si no existe o está corrupto
+ */
+export const readJson = async <T>(key: string, fallback: T): Promise<T> => {
+  const stored = await userStorage.getItem(key);
+  if (stored === null) {
+    return fallback;
+  }
+
+  try {
+    return JSON.parse(stored) as T;
+  } catch (error) {
+    console.warn(`⚠️ Valor corrupto en "${key}", se usará el valor por defecto`);
+    return fallback;
+  }
+};
+
+export const writeJson = async (key: string, value: unknown): Promise<void> => {
+  await userStorage.setItem(key, JSON.stringify(value));
+};
+
+export const isPlainObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
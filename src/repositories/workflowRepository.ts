@@ -0,0 +1,70 @@
+import { userStorage } from '../services/userStorage';
+import { parseWorkflowConversation, WorkflowConversation } from '../models';
+import { ConversationSummary, parseConversationSummary } from '../services/llm';
+import { readJson, writeJson } from './storage';
+
+const URL_PREFIX = 'url_';
+const CONVERSATION_PREFIX = 'workflow_branches_';
+const SUMMARY_PREFIX = 'workflow_summary_';
+
+/**
+ * Acceso a los datos auxiliares del flujo de trabajo de cada actividad:
+ * la URL seleccionada para ejecutarlo, la conversación de diseño con todas
+ * sus ramas y el resumen de sus primeros mensajes
+ */
+export class WorkflowRepository {
+  async getUrl(activityId: string): Promise<string | null> {
+    return userStorage.getItem(`${URL_PREFIX}${activityId}`);
+  }
+
+  async saveUrl(activityId: string, url: string): Promise<void> {
+    await userStorage.setItem(`${URL_PREFIX}${activityId}`, url);
+  }
+
+  async getConversation(activityId: string): Promise<WorkflowConversation | null> {
+    return parseWorkflowConversation(await readJson<unknown>(`${CONVERSATION_PREFIX}${activityId}`, null));
+  }
+
+  async saveConversation(activityId: string, conversation: WorkflowConversation): Promise<void> {
+    await writeJson(`${CONVERSATION_PREFIX}${activityId}`, conversation);
+  }
+
+  async getSummary(activityId: string): Promise<ConversationSummary | null> {
+    return parseConversationSummary(await readJson<unknown>(`${SUMMARY_PREFIX}${activityId}`, null));
+  }
+
+  async saveSummary(activityId: string, summary: ConversationSummary | null): Promise<void> {
+    if (summary) {
+      await writeJson(`${SUMMARY_PREFIX}${activityId}`, summary);
+    } else {
+      await userStorage.removeItem(`${SUMMARY_PREFIX}${activityId}`);
+    }
+  }
+
+  /**
+   * IDs de las actividades con URL, conversación o resumen del flujo guardados
+   */
+  async getActivityIds(): Promise<string[]> {
+    const keys = await userStorage.getAllKeys();
+    const ids = new Set<string>();
+    keys.forEach(key => {
+      if (key.startsWith(URL_PREFIX)) ids.add(key.slice(URL_PREFIX.length));
+      if (key.startsWith(CONVERSATION_PREFIX)) ids.add(key.slice(CONVERSATION_PREFIX.length));
+      if (key.startsWith(SUMMARY_PREFIX)) ids.add(key.slice(SUMMARY_PREFIX.length));
+    });
+    return [...ids];
+  }
+
+  /**
+   * Borra la URL, la conversación y el resumen del flujo de una actividad
+   */
+  async remove(activityId: string): Promise<void> {
+    await userStorage.multiRemove([
+      `${URL_PREFIX}${activityId}`,
+      `${CONVERSATION_PREFIX}${activityId}`,
+      `${SUMMARY_PREFIX}${activityId}`
+    ]);
+  }
+}
+
+export const workflowRepository = new WorkflowRepository();
@@ -0,0 +1,511 @@
+import React, { useState, useEffect } from 'react';
+import {
+  StyleSheet,
+  View,
+  Text,
+  TouchableOpacity,
+  FlatList,
+  ActivityIndicator,
+  Alert
+} from 'react-native';
+import { categoryRepository } from '../repositories';
+import { CategoryDefinition, DEFAULT_CATEGORIES, getCategoryLabel } from '../models';
+import {
+  bulkCategorization,
+  BulkCategorizationItem,
+  BulkCategorizationJob,
+  BulkCategorizationReason,
+  BulkJobStatus,
+  getBulkProgress
+} from '../services/bulkCategorization';
+
+interface BulkCategorizationScreenProps {
+  onBack: () => void;
+}
+
+// Confianza mínima de todas las categorías propuestas para aceptarlas en bloque
+const HIGH_CONFIDENCE = 0.8;
+
+const STATUS_LABELS: Record<BulkJobStatus, string> = {
+  running: 'En curso',
+  waiting: 'En espera por rate limit',
+  paused: 'En pausa',
+  completed: 'Completado'
+};
+
+const REASON_LABELS: Record<BulkCategorizationReason, string> = {
+  uncategorized: 'Sin categorías',
+  stale: 'Desfasada'
+};
+
+const isHighConfidence = (item: BulkCategorizationItem): boolean =>
+  !!item.suggestions &&
+  item.suggestions.length > 0 &&
+  item.suggestions.every(suggestion => suggestion.confidence >= HIGH_CONFIDENCE);
+
+/**
+ * Categorización de todas las actividades de la organización: progreso del
+ * trabajo, informe de errores y revisión en bloque de las propuestas
+ */
+const BulkCategorizationScreen: React.FC<BulkCategorizationScreenProps> = ({ onBack }) => {
+  const [job, setJob] = useState<BulkCategorizationJob | null>(bulkCategorization.getJob());
+  const [candidates, setCandidates] = useState<Record<BulkCategorizationReason, number> | null>(null);
+  const [categoryDefinitions, setCategoryDefinitions] = useState<CategoryDefinition[]>(DEFAULT_CATEGORIES);
+  const [isBusy, setIsBusy] = useState(false);
+
+  const loadCandidates = async () => {
+    try {
+      setCandidates(await bulkCategorization.countCandidates());
+    } catch (error) {
+      console.error('Error al buscar actividades por categorizar:', error);
+    }
+  };
+
+  useEffect(() => {
+    categoryRepository.getAll().then(setCategoryDefinitions).catch(error => {
+      console.error('Error al cargar las categorías:', error);
+    });
+    return bulkCategorization.subscribe(setJob);
+  }, []);
+
+  // Las actividades pendientes cambian al empezar, terminar o descartar un trabajo
+  useEffect(() => {
+    loadCandidates();
+  }, [job?.id, job?.status]);
+
+  const runAction = async (action: () => Promise<void>, errorMessage: string) => {
+    setIsBusy(true);
+    try {
+      await action();
+    } catch (error) {
+      console.error(errorMessage, error);
+      Alert.alert('Error', errorMessage);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const startJob = async () => {
+    await runAction(async () => {
+      const count = await bulkCategorization.start();
+      if (count === 0) {
+        Alert.alert('Nada que categorizar', 'Todas las actividades tienen categorías al día');
+      }
+    }, 'No se pudo iniciar la categorización masiva');
+  };
+
+  // Un trabajo nuevo sustituye al anterior y a sus propuestas sin revisar
+  const confirmStartJob = () => {
+    const unreviewed = job ? getBulkProgress(job).suggested : 0;
+    if (unreviewed === 0) {
+      startJob();
+      return;
+    }
+
+    Alert.alert(
+      'Propuestas sin revisar',
+      `Hay ${unreviewed} propuestas sin revisar que se descartarán. ¿Empezar de nuevo?`,
+      [
+        { text: 'Cancelar', style: 'cancel' },
+        { text: 'Empezar', style: 'destructive', onPress: startJob }
+      ]
+    );
+  };
+
+  const confirmDiscard = () => {
+    Alert.alert(
+      'Descartar trabajo',
+      'Se olvidarán el progreso y las propuestas sin revisar. Las ya aceptadas se conservan.',
+      [
+        { text: 'Cancelar', style: 'cancel' },
+        {
+          text: 'Descartar',
+          style: 'destructive',
+          onPress: () => runAction(() => bulkCategorization.discard(), 'No se pudo descartar el trabajo')
+        }
+      ]
+    );
+  };
+
+  const acceptItems = (items: BulkCategorizationItem[]) =>
+    runAction(
+      () => bulkCategorization.accept(items.map(item => item.activityId)),
+      'No se pudieron aplicar las categorías'
+    );
+
+  const rejectItems = (items: BulkCategorizationItem[]) =>
+    runAction(
+      () => bulkCategorization.reject(items.map(item => item.activityId)),
+      'No se pudieron descartar las propuestas'
+    );
+
+  const progress = job ? getBulkProgress(job) : null;
+  const isActive = job?.status === 'running' || job?.status === 'waiting';
+  const suggestedItems = job ? job.items.filter(item => item.status === 'suggested') : [];
+  const failedItems = job ? job.items.filter(item => item.status === 'failed') : [];
+  const highConfidenceItems = suggestedItems.filter(isHighConfidence);
+
+  const renderHeader = () => (
+    <>
+      {/* Estado del trabajo */}
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Trabajo</Text>
+
+        {candidates && (
+          <Text style={styles.detailText}>
+            Por categorizar: {candidates.uncategorized} sin categorías · {candidates.stale} desfasadas
+          </Text>
+        )}
+
+        {job && progress ? (
+          <>
+            <Text style={styles.valueText}>
+              {STATUS_LABELS[job.status]} · {progress.processed} de {progress.total}
+            </Text>
+            <View style={styles.barTrack}>
+              <View
+                style={[
+                  styles.barFill,
+                  { width: `${progress.total > 0 ? (progress.processed / progress.total) * 100 : 0}%` }
+                ]}
+              />
+            </View>
+            <Text style={styles.detailText}>
+              Por revisar: {progress.suggested} · Aceptadas: {progress.accepted} · Rechazadas: {progress.rejected} ·
+              Con error: {progress.failed}
+            </Text>
+            {job.status === 'waiting' && job.resumeAt && (
+              <Text style={styles.detailText}>
+                Se reanudará a las {new Date(job.resumeAt).toLocaleTimeString()}
+              </Text>
+            )}
+          </>
+        ) : (
+          <Text style={styles.emptyStateText}>No hay ningún trabajo de categorización</Text>
+        )}
+
+        {isActive ? (
+          <TouchableOpacity
+            style={[styles.actionButton, styles.secondaryButton]}
+            onPress={() => runAction(() => bulkCategorization.pause(), 'No se pudo pausar el trabajo')}
+            disabled={isBusy}
+          >
+            <Text style={styles.actionButtonText}>Pausar</Text>
+          </TouchableOpacity>
+        ) : (
+          <>
+            {job && progress && progress.pending > 0 && (
+              <TouchableOpacity
+                style={[styles.actionButton, styles.primaryButton]}
+                onPress={() => bulkCategorization.resume()}
+                disabled={isBusy}
+              >
+                <Text style={styles.actionButtonText}>Reanudar ({progress.pending} pendientes)</Text>
+              </TouchableOpacity>
+            )}
+            <TouchableOpacity
+              style={[styles.actionButton, styles.primaryButton]}
+              onPress={confirmStartJob}
+              disabled={isBusy}
+            >
+              {isBusy ? (
+                <ActivityIndicator color="#282a36" size="small" />
+              ) : (
+                <Text style={styles.actionButtonText}>
+                  {job ? 'Nuevo trabajo' : 'Categorizar actividades pendientes'}
+                </Text>
+              )}
+            </TouchableOpacity>
+            {job && (
+              <TouchableOpacity
+                style={[styles.actionButton, styles.dangerButton]}
+                onPress={confirmDiscard}
+                disabled={isBusy}
+              >
+                <Text style={styles.actionButtonText}>Descartar trabajo</Text>
+              </TouchableOpacity>
+            )}
+          </>
+        )}
+      </View>
+
+      {/* Informe de errores */}
+      {failedItems.length > 0 && (
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Errores ({failedItems.length})</Text>
+          {failedItems.map(item => (
+            <View key={item.activityId} style={styles.row}>
+              <Text style={styles.rowLabel} numberOfLines={1}>
+                {item.activityName} · {item.collaboratorName}
+              </Text>
+              <Text style={styles.errorText}>{item.error || 'Error desconocido'}</Text>
+            </View>
+          ))}
+          {!isActive && (
+            <TouchableOpacity
+              style={[styles.actionButton, styles.secondaryButton]}
+              onPress={() => runAction(() => bulkCategorization.retryFailed(), 'No se pudo reintentar')}
+              disabled={isBusy}
+            >
+              <Text style={styles.actionButtonText}>Reintentar las fallidas</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      )}
+
+      {/* Acciones en bloque sobre las propuestas */}
+      {suggestedItems.length > 0 && (
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Revisión ({suggestedItems.length})</Text>
+          <TouchableOpacity
+            style={[styles.actionButton, styles.primaryButton]}
+            onPress={() => acceptItems(suggestedItems)}
+            disabled={isBusy}
+          >
+            <Text style={styles.actionButtonText}>Aceptar todas</Text>
+          </TouchableOpacity>
+          {highConfidenceItems.length > 0 && highConfidenceItems.length < suggestedItems.length && (
+            <TouchableOpacity
+              style={[styles.actionButton, styles.primaryButton]}
+              onPress={() => acceptItems(highConfidenceItems)}
+              disabled={isBusy}
+            >
+              <Text style={styles.actionButtonText}>
+                Aceptar las de confianza ≥ {Math.round(HIGH_CONFIDENCE * 100)}% ({highConfidenceItems.length})
+              </Text>
+            </TouchableOpacity>
+          )}
+          <TouchableOpacity
+            style={[styles.actionButton, styles.dangerButton]}
+            onPress={() => rejectItems(suggestedItems)}
+            disabled={isBusy}
+          >
+            <Text style={styles.actionButtonText}>Rechazar todas</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+    </>
+  );
+
+  const renderItem = ({ item }: { item: BulkCategorizationItem }) => (
+    <View style={styles.itemCard}>
+      <Text style={styles.itemName}>{item.activityName}</Text>
+      <Text style={styles.detailText}>
+        {item.collaboratorName} · {REASON_LABELS[item.reason]}
+        {item.previousCategories.length > 0
+          ? ` · Antes: ${item.previousCategories.map(id => getCategoryLabel(categoryDefinitions, id)).join(', ')}`
+          : ''}
+      </Text>
+
+      {(item.suggestions || []).length === 0 ? (
+        <Text style={styles.emptyStateText}>La IA no propuso ninguna categoría</Text>
+      ) : (
+        (item.suggestions || []).map(suggestion => {
+          const category = categoryDefinitions.find(definition => definition.id === suggestion.category);
+          return (
+            <View key={suggestion.category} style={styles.suggestionRow}>
+              <View style={[styles.categoryBadge, category && { borderColor: category.color }]}>
+                <Text style={styles.categoryText}>
+                  {getCategoryLabel(categoryDefinitions, suggestion.category)} · {Math.round(suggestion.confidence * 100)}%
+                </Text>
+              </View>
+              {!!suggestion.reason && <Text style={styles.reasonText}>{suggestion.reason}</Text>}
+            </View>
+          );
+        })
+      )}
+
+      <View style={styles.itemActions}>
+        <TouchableOpacity
+          style={[styles.itemButton, styles.primaryButton]}
+          onPress={() => acceptItems([item])}
+          disabled={isBusy}
+        >
+          <Text style={styles.actionButtonText}>Aceptar</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.itemButton, styles.dangerButton]}
+          onPress={() => rejectItems([item])}
+          disabled={isBusy}
+        >
+          <Text style={styles.actionButtonText}>Rechazar</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.title}>Categorización masiva</Text>
+
+      <FlatList
+        style={styles.list}
+        contentContainerStyle={styles.listContent}
+        data={suggestedItems}
+        keyExtractor={item => item.activityId}
+        renderItem={renderItem}
+        ListHeaderComponent={renderHeader()}
+      />
+
+      <View style={styles.buttonContainer}>
+        <TouchableOpacity style={styles.backButton} onPress={onBack}>
+          <Text style={styles.backButtonText}>Volver a Configuración</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#1e1e2e',
+    padding: 20,
+  },
+  title: {
+    fontSize: 32,
+    fontWeight: 'bold',
+    color: '#f8f8f2',
+    marginBottom: 20,
+    textAlign: 'center',
+  },
+  list: {
+    flex: 1,
+  },
+  listContent: {
+    paddingBottom: 20,
+  },
+  section: {
+    backgroundColor: '#282a36',
+    borderRadius: 10,
+    padding: 15,
+    marginBottom: 20,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#bd93f9',
+    marginBottom: 15,
+  },
+  valueText: {
+    fontSize: 16,
+    color: '#f8f8f2',
+    marginBottom: 5,
+  },
+  detailText: {
+    color: '#8be9fd',
+    fontSize: 13,
+    marginBottom: 5,
+  },
+  errorText: {
+    color: '#ff5555',
+    fontSize: 13,
+  },
+  row: {
+    paddingVertical: 6,
+    borderBottomWidth: 1,
+    borderBottomColor: '#44475a',
+  },
+  rowLabel: {
+    color: '#f8f8f2',
+    fontWeight: 'bold',
+  },
+  barTrack: {
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: '#44475a',
+    overflow: 'hidden',
+    marginVertical: 8,
+  },
+  barFill: {
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: '#50fa7b',
+  },
+  emptyStateText: {
+    color: '#f8f8f2',
+    textAlign: 'center',
+    fontStyle: 'italic',
+    padding: 15,
+  },
+  actionButton: {
+    borderRadius: 5,
+    padding: 10,
+    alignItems: 'center',
+    marginTop: 10,
+  },
+  primaryButton: {
+    backgroundColor: '#50fa7b',
+  },
+  secondaryButton: {
+    backgroundColor: '#8be9fd',
+  },
+  dangerButton: {
+    backgroundColor: '#ff5555',
+  },
+  actionButtonText: {
+    color: '#282a36',
+    fontWeight: 'bold',
+  },
+  itemCard: {
+    backgroundColor: '#282a36',
+    borderRadius: 10,
+    padding: 15,
+    marginBottom: 10,
+  },
+  itemName: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#f8f8f2',
+    marginBottom: 5,
+  },
+  suggestionRow: {
+    marginTop: 6,
+  },
+  categoryBadge: {
+    alignSelf: 'flex-start',
+    backgroundColor: '#44475a',
+    borderColor: '#6272a4',
+    borderWidth: 1,
+    paddingVertical: 4,
+    paddingHorizontal: 8,
+    borderRadius: 12,
+  },
+  categoryText: {
+    color: '#f8f8f2',
+    fontSize: 12,
+  },
+  reasonText: {
+    color: '#6272a4',
+    fontSize: 12,
+    fontStyle: 'italic',
+    marginTop: 2,
+  },
+  itemActions: {
+    flexDirection: 'row',
+    marginTop: 10,
+  },
+  itemButton: {
+    flex: 1,
+    borderRadius: 5,
+    padding: 8,
+    alignItems: 'center',
+    marginRight: 8,
+  },
+  buttonContainer: {
+    marginTop: 20,
+  },
+  backButton: {
+    backgroundColor: '#6272a4',
+    borderRadius: 25,
+    padding: 15,
+    alignItems: 'center',
+  },
+  backButtonText: {
+    color: '#f8f8f2',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+});
+
+export default BulkCategorizationScreen;
@@ -17,43 +17,39 @@ import {
   Image,
   FlatList
 } from 'react-native';
-import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  activityRepository,
+  categoryCorrectionRepository,
+  categoryRepository,
+  workflowRepository,
+  Collaborator
+} from '../repositories';
+import {
+  Activity as ActivityModel,
+  ActivityUiState,
+  CategoryDefinition,
+  DEFAULT_CATEGORIES,
+  createActivity,
+  getCategoryLabel,
+  WorkflowConversation,
+  createWorkflowConversation,
+  forkWorkflowBranch,
+  getActiveBranch,
+  getBranchLabel,
+  getEffectiveMessages,
+  markFinalWorkflowBranch,
+  reconcileWorkflowConversation,
+  setActiveWorkflowBranch,
+  updateWorkflowBranch
+} from '../models';
 import { LinearGradient } from 'expo-linear-gradient';
 import { categorizeActivity, ActivityCategory, analyzeWorkflow, WorkflowMessage } from '../services/openRouterService';
 import DateTimePickerModal from 'react-native-modal-datetime-picker';
+import { syncEngine } from '../services/sync';
 
 // Interfaces
-interface Activity {
-  id: string;
-  name: string;
-  description: string;
-  status: 'active' | 'inactive' | 'scheduled';
-  categories: ActivityCategory[];
-  isCategorizing?: boolean;
-  schedule?: {
-    frequency: 'daily' | 'weekly' | 'biweekly' | 'monthly';
-    daysOfWeek?: number[];
-    dayOfMonth?: number;
-    startDate?: string;
-  };
-  duration?: number;
-  lastExecutionDate?: string;
-  nextExecutionDate?: string;
-  // Nuevos campos para el flujo de trabajo
-  workflowMessages?: WorkflowMessage[];
-  isAnalyzingWorkflow?: boolean;
-}
-
-interface Collaborator {
-  id: string;
-  name: string;
-  areaIndex: number;
-  avatar?: {
-    color: string;
-    positionX: number;
-    positionY: number;
-  };
-}
+// Actividad en edición: el modelo guardado más el estado de la interfaz
+type Activity = ActivityModel & ActivityUiState;
 
 interface CollaboratorDetailScreenProps {
   collaborator: Collaborator;
@@ -71,6 +67,7 @@ const CollaboratorDetailScreen: React.FC<CollaboratorDetailScreenProps> = ({
   const [isEditingActivities, setIsEditingActivities] = useState(false);
   const [hasChanges, setHasChanges] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
+  const [categoryDefinitions, setCategoryDefinitions] = useState<CategoryDefinition[]>(DEFAULT_CATEGORIES);
   
   // Estados nuevos para el modal de programación
   const [scheduleModalVisible, setScheduleModalVisible] = useState(false);
@@ -94,6 +91,12 @@ const CollaboratorDetailScreen: React.FC<CollaboratorDetailScreenProps> = ({
   const [workflowActivityId, setWorkflowActivityId] = useState<string | null>(null);
   const [workflowUserInput, setWorkflowUserInput] = useState('');
   const [isProcessingWorkflow, setIsProcessingWorkflow] = useState(false);
+  // Texto de la respuesta en curso mientras llega en streaming
+  const [streamingText, setStreamingText] = useState('');
+  const workflowAbortController = useRef<AbortController | null>(null);
+  // Ramas de la conversación del flujo abierto y mensaje que se está editando
+  const [workflowConversation, setWorkflowConversation] = useState<WorkflowConversation | null>(null);
+  const [editingMessageIndex, setEditingMessageIndex] = useState<number | null>(null);
   const [extractedUrls, setExtractedUrls] = useState<string[]>([]);
   const [showUrlDialog, setShowUrlDialog] = useState(false);
   const [selectedUrl, setSelectedUrl] = useState<string>('');
@@ -111,19 +114,9 @@ const CollaboratorDetailScreen: React.FC<CollaboratorDetailScreenProps> = ({
     const loadActivities = async () => {
       try {
         // Intentar obtener actividades del almacenamiento
-        const storedActivities = await AsyncStorage.getItem(`activities_${collaborator.id}`);
-        
-        if (storedActivities) {
-          const parsedActivities = JSON.parse(storedActivities);
-          
-          // Asegurarse de que todas las actividades tengan el campo categories
-          const updatedActivities = parsedActivities.map((activity: any) => ({
-            ...activity,
-            categories: activity.categories || []
-          }));
-          
-          setActivities(updatedActivities);
-        }
+        const storedActivities = await activityRepository.getByCollaborator(collaborator.id);
+        setActivities(storedActivities);
+        setCategoryDefinitions(await categoryRepository.getAll());
       } catch (error) {
         console.error('Error al cargar actividades:', error);
       }
@@ -150,13 +143,7 @@ const CollaboratorDetailScreen: React.FC<CollaboratorDetailScreenProps> = ({
 
   // Añadir actividad
   const addActivity = () => {
-    const newActivity: Activity = {
-      id: Date.now().toString(),
-      name: '',
-      description: '',
-      status: 'inactive',
-      categories: []
-    };
+    const newActivity: Activity = createActivity();
     
     setActivities([...activities, newActivity]);
     setHasChanges(true);
@@ -356,13 +343,19 @@ const CollaboratorDetailScreen: React.FC<CollaboratorDetailScreenProps> = ({
     );
 
     try {
-      const categories = await categorizeActivity(activity.name, activity.description);
+      const suggestions = await categorizeActivity(activity.name, activity.description, { activityId: activity.id });
       
-      // Actualizar la actividad con las categorías
+      // Actualizar la actividad con las categorías propuestas; el usuario puede corregirlas después
       setActivities(
         activities.map(act => 
           act.id === id 
-            ? { ...act, categories, isCategorizing: false } 
+            ? {
+                ...act,
+                categories: suggestions.map(suggestion => suggestion.category),
+                categorySuggestions: suggestions,
+                categorizedAt: new Date().toISOString(),
+                isCategorizing: false
+              } 
             : act
         )
       );
@@ -383,189 +376,300 @@ const CollaboratorDetailScreen: React.FC<CollaboratorDetailScreenProps> = ({
     }
   };
 
+  // Muestra la conversación en el modal, la guarda y deja en la actividad los
+  // mensajes de la rama final (o los de la activa si aún no se eligió ninguna)
+  const applyWorkflowConversation = (
+    activityId: string,
+    conversation: WorkflowConversation,
+    isAnalyzingWorkflow: boolean
+  ) => {
+    setWorkflowConversation(conversation);
+    setActivities(prev =>
+      prev.map(act => 
+        act.id === activityId 
+          ? { ...act, workflowMessages: getEffectiveMessages(conversation), isAnalyzingWorkflow } 
+          : act
+      )
+    );
+    workflowRepository.saveConversation(activityId, conversation).catch(error => {
+      console.error('Error al guardar la conversación del flujo de trabajo:', error);
+    });
+  };
+
   // Nueva función para abrir el modal de flujo de trabajo
-  const openWorkflowModal = (id: string) => {
+  const openWorkflowModal = async (id: string) => {
     const activity = activities.find(act => act.id === id);
     if (!activity) return;
     
+    // Las actividades sin conversación guardada empiezan con una sola rama. Si
+    // la actividad tiene mensajes que no están en ninguna rama, se conservan en una nueva
+    const stored = await workflowRepository.getConversation(id);
+    const conversation = stored
+      ? reconcileWorkflowConversation(stored, activity.workflowMessages || [])
+      : createWorkflowConversation(activity.workflowMessages || []);
+    if (stored && conversation !== stored) {
+      workflowRepository.saveConversation(id, conversation).catch(error => {
+        console.error('Error al guardar la conversación del flujo de trabajo:', error);
+      });
+    }
+    
+    setWorkflowConversation(conversation);
+    setEditingMessageIndex(null);
+    setWorkflowUserInput('');
     setWorkflowActivityId(id);
     setWorkflowModalVisible(true);
     
     // Si es la primera vez, iniciar automáticamente el análisis
-    if (!activity.workflowMessages || activity.workflowMessages.length === 0) {
-      startWorkflowAnalysis(id);
+    if (getActiveBranch(conversation).messages.length === 0) {
+      runWorkflowTurn(activity, conversation, conversation, 'No se pudo analizar el flujo de trabajo');
     }
   };
 
-  // Iniciar el análisis del flujo de trabajo
-  const startWorkflowAnalysis = async (id: string) => {
-    const activity = activities.find(act => act.id === id);
-    if (!activity) return;
-    
-    // Marcar la actividad como en proceso de análisis
-    setActivities(
-      activities.map(act => 
-        act.id === id 
-          ? { ...act, isAnalyzingWorkflow: true, workflowMessages: activity.workflowMessages || [] } 
-          : act
-      )
-    );
-    
-    setIsProcessingWorkflow(true);
+  // Pide la respuesta del flujo en streaming. Si el usuario la cancela,
+  // devuelve el texto recibido hasta ese momento
+  const requestWorkflowResponse = async (
+    activity: Activity,
+    messages: WorkflowMessage[],
+    regenerate: boolean = false
+  ): Promise<string> => {
+    const controller = new AbortController();
+    workflowAbortController.current = controller;
+    setStreamingText('');
     
     try {
-      const response = await analyzeWorkflow(
+      return await analyzeWorkflow(
         activity.name, 
         activity.description, 
         activity.categories,
-        activity.workflowMessages || []
-      );
-      
-      // Añadir respuesta al historial de mensajes
-      const updatedMessages = [
-        ...(activity.workflowMessages || []),
+        messages,
         {
-          role: 'assistant',
-          content: response
-        } as WorkflowMessage
-      ];
-      
-      // Actualizar la actividad con el nuevo mensaje
-      setActivities(
-        activities.map(act => 
-          act.id === id 
-            ? { 
-                ...act, 
-                workflowMessages: updatedMessages, 
-                isAnalyzingWorkflow: false 
-              } 
-            : act
-        )
+          onToken: (_token, text) => setStreamingText(text),
+          signal: controller.signal
+        },
+        { bypassCache: regenerate, activityId: activity.id }
       );
+    } finally {
+      workflowAbortController.current = null;
+      setStreamingText('');
+    }
+  };
+
+  // Detener la respuesta en curso conservando lo recibido
+  const cancelWorkflowResponse = () => {
+    workflowAbortController.current?.abort();
+  };
+
+  // Pide la respuesta del asistente para la rama activa de `conversation`.
+  // Si falla o se cancela sin recibir nada, la conversación vuelve a `previous`
+  const runWorkflowTurn = async (
+    activity: Activity,
+    conversation: WorkflowConversation,
+    previous: WorkflowConversation,
+    errorMessage: string,
+    regenerate: boolean = false
+  ) => {
+    const branch = getActiveBranch(conversation);
+    applyWorkflowConversation(activity.id, conversation, true);
+    setIsProcessingWorkflow(true);
+    
+    try {
+      const response = await requestWorkflowResponse(activity, branch.messages, regenerate);
       
+      applyWorkflowConversation(
+        activity.id,
+        response
+          ? updateWorkflowBranch(conversation, branch.id, [...branch.messages, { role: 'assistant', content: response }])
+          : previous,
+        false
+      );
       setHasChanges(true);
     } catch (error) {
-      console.error('Error al analizar el flujo de trabajo:', error);
-      Alert.alert('Error', 'No se pudo analizar el flujo de trabajo');
-      
-      // Quitar la marca de análisis
-      setActivities(
-        activities.map(act => 
-          act.id === id 
-            ? { ...act, isAnalyzingWorkflow: false } 
-            : act
-        )
-      );
+      console.error('Error al procesar el flujo de trabajo:', error);
+      Alert.alert('Error', errorMessage);
+      applyWorkflowConversation(activity.id, previous, false);
     } finally {
       setIsProcessingWorkflow(false);
     }
   };
 
-  // Enviar mensaje de usuario al flujo de trabajo
+  // Enviar mensaje de usuario al flujo de trabajo. Si se está editando un
+  // mensaje anterior, se crea una rama nueva desde ese punto y la actual se conserva
   const sendWorkflowMessage = async () => {
-    if (!workflowActivityId || !workflowUserInput.trim()) return;
+    if (!workflowActivityId || !workflowConversation || !workflowUserInput.trim()) return;
     
     const activity = activities.find(act => act.id === workflowActivityId);
     if (!activity) return;
     
-    // Añadir mensaje del usuario
     const userMessage: WorkflowMessage = {
       role: 'user',
       content: workflowUserInput
     };
     
-    const updatedMessages = [
-      ...(activity.workflowMessages || []),
-      userMessage
-    ];
+    const branch = getActiveBranch(workflowConversation);
+    const isEditing = editingMessageIndex !== null;
+    const conversation = isEditing
+      ? forkWorkflowBranch(workflowConversation, editingMessageIndex, [userMessage]).conversation
+      : updateWorkflowBranch(workflowConversation, branch.id, [...branch.messages, userMessage]);
     
-    // Actualizar actividad con el mensaje del usuario
-    setActivities(
-      activities.map(act => 
-        act.id === workflowActivityId 
-          ? { 
-              ...act, 
-              workflowMessages: updatedMessages,
-              isAnalyzingWorkflow: true 
-            } 
-          : act
-      )
+    // Limpiar input
+    setWorkflowUserInput('');
+    setEditingMessageIndex(null);
+    
+    // Una edición que falla no deja una rama a medias; un mensaje nuevo se conserva
+    await runWorkflowTurn(
+      activity,
+      conversation,
+      isEditing ? workflowConversation : conversation,
+      'No se pudo procesar el mensaje'
     );
+  };
+
+  // Editar un mensaje anterior del usuario: se copia al campo de texto y al
+  // enviarlo se regenera la conversación desde ese punto en una rama nueva
+  const startEditingWorkflowMessage = (index: number) => {
+    if (!workflowConversation) return;
     
-    // Limpiar input
+    const message = getActiveBranch(workflowConversation).messages[index];
+    if (!message || message.role !== 'user') return;
+    
+    setEditingMessageIndex(index);
+    setWorkflowUserInput(message.content);
+  };
+
+  const cancelEditingWorkflowMessage = () => {
+    setEditingMessageIndex(null);
     setWorkflowUserInput('');
-    setIsProcessingWorkflow(true);
+  };
+
+  // Volver a pedir la última respuesta del asistente sin usar la caché.
+  // La respuesta anterior se conserva en su rama
+  const regenerateWorkflowResponse = async () => {
+    if (!workflowActivityId || !workflowConversation) return;
     
-    try {
-      // Enviar al modelo para obtener respuesta
-      const response = await analyzeWorkflow(
-        activity.name, 
-        activity.description, 
-        activity.categories,
-        updatedMessages
-      );
-      
-      // Añadir respuesta del asistente
-      const assistantMessage: WorkflowMessage = {
-        role: 'assistant',
-        content: response
-      };
-      
-      const finalMessages = [...updatedMessages, assistantMessage];
-      
-      // Actualizar actividad con la respuesta
-      setActivities(
-        activities.map(act => 
-          act.id === workflowActivityId 
-            ? { 
-                ...act, 
-                workflowMessages: finalMessages,
-                isAnalyzingWorkflow: false 
-              } 
-            : act
-        )
-      );
-      
-      setHasChanges(true);
-    } catch (error) {
-      console.error('Error al procesar mensaje del flujo de trabajo:', error);
-      Alert.alert('Error', 'No se pudo procesar el mensaje');
-      
-      // Quitar la marca de análisis
-      setActivities(
-        activities.map(act => 
-          act.id === workflowActivityId 
-            ? { ...act, isAnalyzingWorkflow: false } 
-            : act
-        )
-      );
-    } finally {
-      setIsProcessingWorkflow(false);
+    const activity = activities.find(act => act.id === workflowActivityId);
+    const messages = getActiveBranch(workflowConversation).messages;
+    if (!activity || messages.length === 0 || messages[messages.length - 1].role !== 'assistant') {
+      Alert.alert('Sin respuesta', 'No hay una respuesta del asistente para regenerar.');
+      return;
     }
+    
+    const { conversation } = forkWorkflowBranch(workflowConversation, messages.length - 1, []);
+    setEditingMessageIndex(null);
+    await runWorkflowTurn(
+      activity,
+      conversation,
+      workflowConversation,
+      'No se pudo regenerar la respuesta',
+      true
+    );
   };
 
-  // Función para renderizar las categorías
-  const renderCategories = (categories: ActivityCategory[]) => {
-    if (!categories || categories.length === 0) {
-      return <Text style={styles.noCategoriesText}>Sin categorías</Text>;
+  // Cambiar la rama de la conversación que se muestra y se continúa
+  const switchWorkflowBranch = (branchId: string) => {
+    if (!workflowActivityId || !workflowConversation || isProcessingWorkflow) return;
+    
+    setEditingMessageIndex(null);
+    applyWorkflowConversation(workflowActivityId, setActiveWorkflowBranch(workflowConversation, branchId), false);
+    
+    // Sin rama final, la actividad usa la rama activa
+    if (!workflowConversation.finalBranchId) {
+      setHasChanges(true);
     }
+  };
+
+  // Añadir o quitar una categoría de una actividad a mano
+  const toggleActivityCategory = (id: string, category: ActivityCategory) => {
+    setActivities(activities.map(activity => {
+      if (activity.id !== id) return activity;
+      const categories = activity.categories.includes(category)
+        ? activity.categories.filter(current => current !== category)
+        : [...activity.categories, category];
+      return { ...activity, categories };
+    }));
+    setHasChanges(true);
+  };
+
+  // Función para renderizar las categorías. En edición se pueden quitar
+  // tocándolas y añadir las que faltan, y se muestra el motivo de cada propuesta
+  const renderCategories = (activity: Activity, editable: boolean = false) => {
+    const suggestions = activity.categorySuggestions || [];
+    const missing = editable
+      ? categoryDefinitions.filter(definition => !activity.categories.includes(definition.id))
+      : [];
+    const reasons = editable
+      ? suggestions.filter(suggestion => suggestion.reason && activity.categories.includes(suggestion.category))
+      : [];
 
     return (
-      <View style={styles.categoriesContainer}>
-        {categories.map((category, index) => (
-          <View key={index} style={styles.categoryBadge}>
-            <Text style={styles.categoryText}>
-              {category === 'scrapping' && '🔍 Investigación'}
-              {category === 'analisis' && '📊 Análisis'}
-              {category === 'administrativo' && '📁 Administrativo'}
-              {category === 'asistente' && '✉️ Asistente'}
-            </Text>
-          </View>
+      <>
+        {activity.categories.length === 0 && (
+          <Text style={styles.noCategoriesText}>Sin categorías</Text>
+        )}
+
+        <View style={styles.categoriesContainer}>
+          {activity.categories.map((id, index) => {
+            // Las categorías eliminadas de la organización se muestran por su ID
+            const category = categoryDefinitions.find(definition => definition.id === id);
+            const suggestion = suggestions.find(item => item.category === id);
+            return (
+              <TouchableOpacity
+                key={index}
+                style={[
+                  styles.categoryBadge,
+                  category && { borderColor: category.color, borderWidth: 1 },
+                  suggestion && suggestion.confidence < 0.5 && styles.lowConfidenceBadge
+                ]}
+                onPress={() => toggleActivityCategory(activity.id, id)}
+                disabled={!editable}
+              >
+                <Text style={styles.categoryText}>
+                  {getCategoryLabel(categoryDefinitions, id)}
+                  {suggestion ? ` · ${Math.round(suggestion.confidence * 100)}%` : ''}
+                  {editable ? '  ✕' : ''}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+
+          {missing.map(definition => (
+            <TouchableOpacity
+              key={definition.id}
+              style={[styles.categoryBadge, styles.addCategoryBadge]}
+              onPress={() => toggleActivityCategory(activity.id, definition.id)}
+            >
+              <Text style={styles.addCategoryText}>+ {definition.icon} {definition.name || definition.id}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        {reasons.map(suggestion => (
+          <Text key={suggestion.category} style={styles.categoryReasonText}>
+            {getCategoryLabel(categoryDefinitions, suggestion.category)}: {suggestion.reason}
+          </Text>
         ))}
-      </View>
+      </>
     );
   };
 
+  // Guarda como corrección cada cambio del usuario sobre las categorías que propuso la IA
+  const recordCategoryCorrections = async (savedActivities: Activity[]) => {
+    let changed = false;
+    for (const activity of savedActivities) {
+      if (!activity.categorySuggestions) continue;
+      changed = await categoryCorrectionRepository.record({
+        activityId: activity.id,
+        activityName: activity.name,
+        activityDescription: activity.description,
+        suggested: activity.categorySuggestions.map(suggestion => suggestion.category),
+        chosen: activity.categories
+      }) || changed;
+    }
+    // Las correcciones se sincronizan con el documento de la organización
+    if (changed) {
+      syncEngine.markDirty('organization');
+    }
+  };
+
   // Guardar actividades
   const saveActivities = async () => {
     // Validar que todas las actividades tengan nombre
@@ -582,7 +686,12 @@ const CollaboratorDetailScreen: React.FC<CollaboratorDetailScreenProps> = ({
     setIsSaving(true);
     
     try {
-      await AsyncStorage.setItem(`activities_${collaborator.id}`, JSON.stringify(activities));
+      await activityRepository.saveForCollaborator(collaborator.id, activities);
+      syncEngine.markDirty('activities', collaborator.id);
+      // Las correcciones solo mejoran las próximas categorizaciones; si fallan, no impiden guardar
+      await recordCategoryCorrections(activities).catch(error => {
+        console.error('Error al guardar las correcciones de categorías:', error);
+      });
       setHasChanges(false);
       setIsEditingActivities(false);
       
@@ -616,12 +725,8 @@ const CollaboratorDetailScreen: React.FC<CollaboratorDetailScreenProps> = ({
             text: 'Cancelar cambios',
             onPress: async () => {
               // Recargar actividades originales
-              const storedActivities = await AsyncStorage.getItem(`activities_${collaborator.id}`);
-              if (storedActivities) {
-                setActivities(JSON.parse(storedActivities));
-              } else {
-                setActivities([]);
-              }
+              const storedActivities = await activityRepository.getByCollaborator(collaborator.id);
+              setActivities(storedActivities);
               setIsEditingActivities(false);
               setHasChanges(false);
             },
@@ -771,13 +876,13 @@ const CollaboratorDetailScreen: React.FC<CollaboratorDetailScreenProps> = ({
   const validateWorkflowUrls = () => {
     if (!workflowActivityId) return;
     
-    const activity = activities.find(act => act.id === workflowActivityId);
-    if (!activity || !activity.workflowMessages) return;
+    const messages = workflowConversation ? getActiveBranch(workflowConversation).messages : [];
+    if (messages.length === 0) return;
     
-    // Extraer todas las URLs de los mensajes del flujo
+    // Extraer todas las URLs de los mensajes de la rama que se está viendo
     const urls: string[] = [];
     
-    activity.workflowMessages.forEach(msg => {
+    messages.forEach(msg => {
       if (msg.content) {
         const extractedUrls = extractUrlsFromText(msg.content);
         urls.push(...extractedUrls);
@@ -788,7 +893,7 @@ const CollaboratorDetailScreen: React.FC<CollaboratorDetailScreenProps> = ({
     const uniqueUrls = [...new Set(urls)];
     
     // Intentar cargar URL guardada previamente
-    AsyncStorage.getItem(`url_${workflowActivityId}`).then(savedUrl => {
+    workflowRepository.getUrl(workflowActivityId).then(savedUrl => {
       if (savedUrl && !uniqueUrls.includes(savedUrl)) {
         uniqueUrls.unshift(savedUrl); // Agregar al inicio si no existe
       }
@@ -861,36 +966,54 @@ const CollaboratorDetailScreen: React.FC<CollaboratorDetailScreenProps> = ({
     });
   };
 
-  // Nueva función para guardar la versión final del flujo de trabajo
+  // Fijar o soltar un mensaje de la rama activa. Los fijados se envían
+  // siempre completos al modelo aunque la conversación se resuma
+  const toggleWorkflowMessagePin = (index: number) => {
+    if (!workflowActivityId || !workflowConversation) return;
+    
+    const branch = getActiveBranch(workflowConversation);
+    applyWorkflowConversation(
+      workflowActivityId,
+      updateWorkflowBranch(
+        workflowConversation,
+        branch.id,
+        branch.messages.map((msg, i) => (i === index ? { ...msg, pinned: !msg.pinned } : msg))
+      ),
+      false
+    );
+    setHasChanges(true);
+  };
+
+  // Marcar la rama activa como versión final del flujo. Las demás ramas se
+  // conservan para poder volver a ellas o elegir otra más adelante
   const saveWorkflowFinal = async () => {
-    if (!workflowActivityId) return;
+    if (!workflowActivityId || !workflowConversation) return;
     
     const activity = activities.find(act => act.id === workflowActivityId);
-    if (!activity || !activity.workflowMessages || activity.workflowMessages.length === 0) {
+    const branch = getActiveBranch(workflowConversation);
+    if (!activity || branch.messages.length === 0) {
       Alert.alert('Sin mensajes', 'No hay mensajes en el flujo de trabajo para guardar.');
       return;
     }
     
-    // Obtener el último mensaje del asistente
-    const lastAssistantMessage = [...activity.workflowMessages]
-      .reverse()
-      .find(msg => msg.role === 'assistant');
-      
-    if (!lastAssistantMessage) {
+    if (!branch.messages.some(msg => msg.role === 'assistant')) {
       Alert.alert('Sin respuesta', 'No hay una respuesta del asistente para guardar como versión final.');
       return;
     }
     
     try {
-      // Primero, hacemos una copia de seguridad del flujo completo antes de actualizarlo
-      await AsyncStorage.setItem(`workflow_backup_${activity.id}`, JSON.stringify(activity.workflowMessages));
+      const conversation = markFinalWorkflowBranch(workflowConversation, branch.id);
+      await workflowRepository.saveConversation(activity.id, conversation);
+      setWorkflowConversation(conversation);
       
-      // Crear un nuevo objeto de actividad con solo el último mensaje como flujo
+      // La actividad pasa a usar la conversación de esta rama.
+      // El flujo estructurado anterior se descarta para regenerarlo a partir de esta versión
       const updatedActivities = activities.map(act => 
         act.id === workflowActivityId 
           ? { 
               ...act, 
-              workflowMessages: [lastAssistantMessage],
+              workflowMessages: branch.messages,
+              workflow: undefined,
               isAnalyzingWorkflow: false 
             } 
           : act
@@ -900,11 +1023,12 @@ const CollaboratorDetailScreen: React.FC<CollaboratorDetailScreenProps> = ({
       setHasChanges(true);
       
       // Guardar las actividades actualizadas
-      await AsyncStorage.setItem(`activities_${collaborator.id}`, JSON.stringify(updatedActivities));
+      await activityRepository.saveForCollaborator(collaborator.id, updatedActivities);
+      syncEngine.markDirty('activities', collaborator.id);
       
       Alert.alert(
         'Éxito', 
-        'Se ha actualizado el flujo del proceso con la última versión generada. Las instrucciones automáticas se actualizarán la próxima vez que ejecute la actividad.',
+        'Esta rama es ahora la versión final del flujo del proceso. Las instrucciones automáticas se actualizarán la próxima vez que ejecute la actividad.',
         [
           { 
             text: 'OK',
@@ -1026,7 +1150,7 @@ const CollaboratorDetailScreen: React.FC<CollaboratorDetailScreenProps> = ({
                           </TouchableOpacity>
                         </View>
                         
-                        {renderCategories(activity.categories)}
+                        {renderCategories(activity, true)}
                       </View>
                       
                       <View style={styles.activityActions}>
@@ -1104,7 +1228,7 @@ const CollaboratorDetailScreen: React.FC<CollaboratorDetailScreenProps> = ({
                       
                       {activity.categories && activity.categories.length > 0 && (
                         <View style={styles.categoriesViewContainer}>
-                          {renderCategories(activity.categories)}
+                          {renderCategories(activity)}
                         </View>
                       )}
                       
@@ -1187,6 +1311,7 @@ const CollaboratorDetailScreen: React.FC<CollaboratorDetailScreenProps> = ({
           transparent={true}
           visible={workflowModalVisible}
           onRequestClose={() => {
+            cancelWorkflowResponse();
             setWorkflowModalVisible(false);
           }}
         >
@@ -1204,15 +1329,64 @@ const CollaboratorDetailScreen: React.FC<CollaboratorDetailScreenProps> = ({
                       {activities.find(a => a.id === workflowActivityId)?.name}
                     </Text>
                     
+                    {/* Ramas de la conversación: la activa resaltada y la final con estrella */}
+                    {workflowConversation && workflowConversation.branches.length > 1 && (
+                      <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.branchSelector}>
+                        {workflowConversation.branches.map(branch => (
+                          <TouchableOpacity
+                            key={branch.id}
+                            style={[
+                              styles.branchChip,
+                              branch.id === workflowConversation.activeBranchId && styles.activeBranchChip
+                            ]}
+                            onPress={() => switchWorkflowBranch(branch.id)}
+                            disabled={isProcessingWorkflow}
+                          >
+                            <Text
+                              style={[
+                                styles.branchChipText,
+                                branch.id === workflowConversation.activeBranchId && styles.activeBranchChipText
+                              ]}
+                            >
+                              {branch.id === workflowConversation.finalBranchId ? '⭐ ' : ''}
+                              {getBranchLabel(workflowConversation, branch.id)}
+                            </Text>
+                          </TouchableOpacity>
+                        ))}
+                      </ScrollView>
+                    )}
+                    
                     <ScrollView style={styles.workflowMessagesContainer}>
-                      {activities.find(a => a.id === workflowActivityId)?.workflowMessages?.map((msg, index) => (
+                      {workflowConversation && getActiveBranch(workflowConversation).messages.map((msg, index) => (
                         <View 
                           key={index} 
                           style={[
                             styles.workflowMessage,
-                            msg.role === 'user' ? styles.userMessage : styles.assistantMessage
+                            msg.role === 'user' ? styles.userMessage : styles.assistantMessage,
+                            msg.pinned && styles.pinnedMessage,
+                            index === editingMessageIndex && styles.editingMessage
                           ]}
                         >
+                          <View style={styles.messageActions}>
+                            {msg.role === 'user' && (
+                              <TouchableOpacity
+                                style={styles.pinButton}
+                                onPress={() => startEditingWorkflowMessage(index)}
+                                disabled={isProcessingWorkflow}
+                              >
+                                <Text style={styles.pinButtonText}>✏️ Editar</Text>
+                              </TouchableOpacity>
+                            )}
+                            <TouchableOpacity
+                              style={styles.pinButton}
+                              onPress={() => toggleWorkflowMessagePin(index)}
+                              disabled={isProcessingWorkflow}
+                            >
+                              <Text style={[styles.pinButtonText, msg.pinned && styles.pinButtonTextActive]}>
+                                {msg.pinned ? '📌 Fijado' : '📌 Fijar'}
+                              </Text>
+                            </TouchableOpacity>
+                          </View>
                           <Text style={styles.workflowMessageText}>
                             {msg.content}
                           </Text>
@@ -1220,10 +1394,25 @@ const CollaboratorDetailScreen: React.FC<CollaboratorDetailScreenProps> = ({
                       ))}
                       
                       {activities.find(a => a.id === workflowActivityId)?.isAnalyzingWorkflow && (
-                        <View style={styles.loadingContainer}>
-                          <ActivityIndicator size="small" color="#bd93f9" />
-                          <Text style={styles.loadingText}>Analizando...</Text>
-                        </View>
+                        <>
+                          {!!streamingText && (
+                            <View style={[styles.workflowMessage, styles.assistantMessage]}>
+                              <Text style={styles.workflowMessageText}>{streamingText}</Text>
+                            </View>
+                          )}
+                          <View style={styles.loadingContainer}>
+                            <ActivityIndicator size="small" color="#bd93f9" />
+                            <Text style={styles.loadingText}>
+                              {streamingText ? 'Escribiendo...' : 'Analizando...'}
+                            </Text>
+                            <TouchableOpacity
+                              style={styles.stopStreamButton}
+                              onPress={cancelWorkflowResponse}
+                            >
+                              <Text style={styles.stopStreamButtonText}>⏹ Detener</Text>
+                            </TouchableOpacity>
+                          </View>
+                        </>
                       )}
                     </ScrollView>
                     
@@ -1270,12 +1459,20 @@ const CollaboratorDetailScreen: React.FC<CollaboratorDetailScreenProps> = ({
                           <Text style={styles.predefinedButtonText}>🔗 Validar URLs</Text>
                         </TouchableOpacity>
 
+                        <TouchableOpacity 
+                          style={styles.predefinedButton}
+                          onPress={regenerateWorkflowResponse}
+                          disabled={isProcessingWorkflow}
+                        >
+                          <Text style={styles.predefinedButtonText}>🔁 Regenerar</Text>
+                        </TouchableOpacity>
+
                         <TouchableOpacity 
                           style={[styles.predefinedButton, styles.saveFlowButton]}
                           onPress={saveWorkflowFinal}
                           disabled={isProcessingWorkflow}
                         >
-                          <Text style={styles.predefinedButtonText}>💾 Guardar Versión Final</Text>
+                          <Text style={styles.predefinedButtonText}>⭐ Marcar como Final</Text>
                         </TouchableOpacity>
                       </ScrollView>
                     </View>
@@ -1289,6 +1486,17 @@ const CollaboratorDetailScreen: React.FC<CollaboratorDetailScreenProps> = ({
                       <Text style={styles.updateFlowButtonText}>Actualizar Flujo 🔄</Text>
                     </TouchableOpacity>
                     
+                    {editingMessageIndex !== null && (
+                      <View style={styles.editingBanner}>
+                        <Text style={styles.editingBannerText}>
+                          Editando el mensaje {editingMessageIndex + 1}. Al enviarlo se creará una rama nueva y la actual se conservará
+                        </Text>
+                        <TouchableOpacity onPress={cancelEditingWorkflowMessage}>
+                          <Text style={styles.editingBannerCancel}>Cancelar</Text>
+                        </TouchableOpacity>
+                      </View>
+                    )}
+                    
                     <View style={styles.workflowInputContainer}>
                       <TextInput
                         style={styles.workflowInput}
@@ -1316,7 +1524,10 @@ const CollaboratorDetailScreen: React.FC<CollaboratorDetailScreenProps> = ({
                 
                 <TouchableOpacity
                   style={styles.closeButton}
-                  onPress={() => setWorkflowModalVisible(false)}
+                  onPress={() => {
+                    cancelWorkflowResponse();
+                    setWorkflowModalVisible(false);
+                  }}
                 >
                   <Text style={styles.closeButtonText}>Cerrar</Text>
                 </TouchableOpacity>
@@ -1656,7 +1867,7 @@ const CollaboratorDetailScreen: React.FC<CollaboratorDetailScreenProps> = ({
                     if (selectedUrl) {
                       // Guardar la URL para esta actividad
                       if (workflowActivityId) {
-                        AsyncStorage.setItem(`url_${workflowActivityId}`, selectedUrl)
+                        workflowRepository.saveUrl(workflowActivityId, selectedUrl)
                           .then(() => {
                             // Confirmar al usuario y cerrar inmediatamente el diálogo
                             setShowUrlDialog(false);
@@ -1995,6 +2206,25 @@ const styles = StyleSheet.create({
     color: '#f8f8f2',
     fontSize: 12,
   },
+  lowConfidenceBadge: {
+    opacity: 0.6,
+    borderStyle: 'dashed',
+  },
+  addCategoryBadge: {
+    backgroundColor: 'transparent',
+    borderColor: '#6272a4',
+    borderWidth: 1,
+  },
+  addCategoryText: {
+    color: '#6272a4',
+    fontSize: 12,
+  },
+  categoryReasonText: {
+    color: '#6272a4',
+    fontSize: 12,
+    fontStyle: 'italic',
+    marginBottom: 4,
+  },
   noCategoriesText: {
     color: '#6272a4',
     fontStyle: 'italic',
@@ -2186,6 +2416,72 @@ const styles = StyleSheet.create({
     color: '#f8f8f2',
     lineHeight: 20,
   },
+  pinnedMessage: {
+    borderWidth: 1,
+    borderColor: '#f1fa8c',
+  },
+  messageActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    marginBottom: 4,
+  },
+  pinButton: {
+    marginLeft: 12,
+  },
+  pinButtonText: {
+    color: '#f8f8f2',
+    fontSize: 11,
+    opacity: 0.7,
+  },
+  editingMessage: {
+    borderWidth: 1,
+    borderColor: '#8be9fd',
+  },
+  branchSelector: {
+    flexGrow: 0,
+    marginBottom: 10,
+  },
+  branchChip: {
+    backgroundColor: '#44475a',
+    borderRadius: 12,
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    marginRight: 8,
+  },
+  activeBranchChip: {
+    backgroundColor: '#bd93f9',
+  },
+  branchChipText: {
+    color: '#f8f8f2',
+    fontSize: 12,
+  },
+  activeBranchChipText: {
+    color: '#282a36',
+    fontWeight: 'bold',
+  },
+  editingBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#44475a',
+    borderRadius: 8,
+    padding: 8,
+    marginTop: 10,
+  },
+  editingBannerText: {
+    flex: 1,
+    color: '#8be9fd',
+    fontSize: 12,
+  },
+  editingBannerCancel: {
+    color: '#ff5555',
+    fontWeight: 'bold',
+    marginLeft: 10,
+  },
+  pinButtonTextActive: {
+    color: '#f1fa8c',
+    fontWeight: 'bold',
+    opacity: 1,
+  },
   workflowInputContainer: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -2227,6 +2523,18 @@ const styles = StyleSheet.create({
     color: '#f8f8f2',
     fontSize: 14,
   },
+  stopStreamButton: {
+    backgroundColor: '#ff5555',
+    borderRadius: 15,
+    paddingVertical: 5,
+    paddingHorizontal: 12,
+    marginTop: 8,
+  },
+  stopStreamButtonText: {
+    color: '#f8f8f2',
+    fontSize: 12,
+    fontWeight: 'bold',
+  },
   viewWorkflowButton: {
     backgroundColor: '#6272a4',
     padding: 12,
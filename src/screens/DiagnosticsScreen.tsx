@@ -0,0 +1,478 @@
+import React, { useState, useEffect } from 'react';
+import {
+  StyleSheet,
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  ScrollView,
+  ActivityIndicator,
+  Alert
+} from 'react-native';
+import { activityRepository } from '../repositories';
+import { credentialVault } from '../services/credentialVault';
+import { getServiceStatus } from '../services/openRouterService';
+import { sessionManager } from '../services/session';
+import {
+  llmUsage,
+  BudgetStatus,
+  DailyUsage,
+  KeyCooldown,
+  KeyUsage,
+  LlmBudgets,
+  LLM_TASKS,
+  UsageTotals
+} from '../services/llm';
+
+interface DiagnosticsScreenProps {
+  onBack: () => void;
+}
+
+// Días que abarca el resumen
+const SUMMARY_DAYS = 7;
+// Actividades con más consumo que se muestran
+const TOP_ACTIVITIES = 10;
+
+const formatCost = (cost: number): string => `$${cost.toFixed(cost > 0 && cost < 0.01 ? 4 : 2)}`;
+
+const formatTokens = (tokens: number): string =>
+  tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : String(tokens);
+
+const describeTotals = (totals: UsageTotals): string =>
+  `${totals.requests} peticiones · ${formatTokens(totals.totalTokens)} tokens · ${formatCost(totals.costUsd)}`;
+
+const BUDGET_COLORS: Record<BudgetStatus['level'], string> = {
+  ok: '#50fa7b',
+  warning: '#f1fa8c',
+  exceeded: '#ff5555'
+};
+
+/**
+ * Consumo de IA: totales diarios, desglose por tarea, versión de prompt y actividad, uso de
+ * cada API key frente a su cuota y presupuestos orientativos
+ */
+const DiagnosticsScreen: React.FC<DiagnosticsScreenProps> = ({ onBack }) => {
+  const [isLoading, setIsLoading] = useState(true);
+  const [dailyTotals, setDailyTotals] = useState<DailyUsage[]>([]);
+  const [taskTotals, setTaskTotals] = useState<{ key: string; totals: UsageTotals }[]>([]);
+  const [promptTotals, setPromptTotals] = useState<{ key: string; totals: UsageTotals }[]>([]);
+  const [activityTotals, setActivityTotals] = useState<{ key: string; name: string; totals: UsageTotals }[]>([]);
+  const [keyUsage, setKeyUsage] = useState<KeyUsage[]>([]);
+  const [keyLabels, setKeyLabels] = useState<string[]>([]);
+  const [keyCooldowns, setKeyCooldowns] = useState<KeyCooldown[]>([]);
+  const [budgetStatus, setBudgetStatus] = useState<BudgetStatus[]>([]);
+
+  // Los presupuestos se editan como texto
+  const [budgetForm, setBudgetForm] = useState({ dailyTokens: '', monthlyCostUsd: '', keyDailyRequests: '' });
+
+  const loadDiagnostics = async () => {
+    setIsLoading(true);
+    try {
+      const [daily, byTask, byPrompt, byActivity, keys, budgets, credentials] = await Promise.all([
+        llmUsage.getDailyTotals(SUMMARY_DAYS),
+        llmUsage.getTotalsBy('task', SUMMARY_DAYS),
+        llmUsage.getTotalsBy('promptVersion', SUMMARY_DAYS),
+        llmUsage.getTotalsBy('activityId', SUMMARY_DAYS),
+        llmUsage.getKeyUsageToday(),
+        llmUsage.getBudgetStatus(),
+        credentialVault.list().catch(() => [])
+      ]);
+
+      // Poner nombre a las actividades; las eliminadas se muestran por su ID
+      const topActivities = await Promise.all(
+        byActivity.slice(0, TOP_ACTIVITIES).map(async ({ key, totals }) => {
+          const found = await activityRepository.findById(key).catch(() => null);
+          return { key, totals, name: found?.activity.name || `Actividad ${key}` };
+        })
+      );
+
+      setDailyTotals(daily);
+      setTaskTotals(byTask);
+      setPromptTotals(byPrompt);
+      setActivityTotals(topActivities);
+      setKeyUsage(keys);
+      setKeyLabels(credentials.map(credential => credential.label));
+      setKeyCooldowns(getServiceStatus().keys);
+      setBudgetStatus(budgets);
+    } catch (error) {
+      console.error('Error al cargar el diagnóstico de IA:', error);
+      Alert.alert('Error', 'No se pudo cargar el consumo de IA');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    const budgets = llmUsage.getBudgets();
+    setBudgetForm({
+      dailyTokens: String(budgets.dailyTokens),
+      monthlyCostUsd: String(budgets.monthlyCostUsd),
+      keyDailyRequests: String(budgets.keyDailyRequests)
+    });
+    loadDiagnostics();
+  }, []);
+
+  // Los presupuestos son de toda la organización: solo los administradores los cambian
+  const canEditBudgets = sessionManager.isAdmin();
+
+  const saveBudgets = async () => {
+    if (!canEditBudgets) {
+      Alert.alert('Sin permiso', 'Solo un administrador puede cambiar los presupuestos');
+      return;
+    }
+
+    const budgets: LlmBudgets = {
+      dailyTokens: Number(budgetForm.dailyTokens),
+      monthlyCostUsd: Number(budgetForm.monthlyCostUsd.replace(',', '.')),
+      keyDailyRequests: Number(budgetForm.keyDailyRequests)
+    };
+
+    if (!Number.isInteger(budgets.dailyTokens) || budgets.dailyTokens < 0) {
+      Alert.alert('Error', 'Los tokens diarios deben ser un número entero (0 para no limitar)');
+      return;
+    }
+    if (!Number.isFinite(budgets.monthlyCostUsd) || budgets.monthlyCostUsd < 0) {
+      Alert.alert('Error', 'El coste mensual debe ser un número positivo (0 para no limitar)');
+      return;
+    }
+    if (!Number.isInteger(budgets.keyDailyRequests) || budgets.keyDailyRequests < 0) {
+      Alert.alert('Error', 'Las peticiones por key deben ser un número entero (0 para no limitar)');
+      return;
+    }
+
+    try {
+      await llmUsage.updateBudgets(budgets);
+      await loadDiagnostics();
+      Alert.alert('Éxito', 'Presupuestos guardados');
+    } catch (error) {
+      Alert.alert('Error', 'No se pudieron guardar los presupuestos');
+    }
+  };
+
+  const clearHistory = () => {
+    Alert.alert(
+      'Borrar historial',
+      'Se eliminará el registro de consumo de IA de este dispositivo.',
+      [
+        { text: 'Cancelar', style: 'cancel' },
+        {
+          text: 'Borrar',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await llmUsage.clear();
+              await loadDiagnostics();
+            } catch (error) {
+              Alert.alert('Error', 'No se pudo borrar el historial');
+            }
+          }
+        }
+      ]
+    );
+  };
+
+  const today = dailyTotals[0];
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.title}>Diagnóstico de IA</Text>
+
+      {isLoading ? (
+        <ActivityIndicator size="large" color="#bd93f9" style={styles.loader} />
+      ) : (
+        <ScrollView style={styles.scrollView} contentContainerStyle={styles.scrollContent}>
+          {/* Resumen de hoy */}
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Hoy</Text>
+            {today && (
+              <>
+                <Text style={styles.valueText}>{describeTotals(today)}</Text>
+                <Text style={styles.detailText}>
+                  Entrada: {formatTokens(today.promptTokens)} · Salida: {formatTokens(today.completionTokens)} ·
+                  Latencia media: {today.averageLatencyMs} ms
+                </Text>
+                <Text style={styles.detailText}>
+                  Desde caché: {today.cachedRequests} · Fallback: {today.fallbackRequests} · Fallidas: {today.failedRequests}
+                </Text>
+              </>
+            )}
+
+            {budgetStatus.filter(status => status.limit > 0).map(status => (
+              <View key={`${status.id}-${status.keyIndex ?? ''}`} style={styles.budgetRow}>
+                <Text style={styles.detailText}>
+                  {status.label}: {status.id === 'monthlyCostUsd' ? formatCost(status.used) : status.used} de{' '}
+                  {status.id === 'monthlyCostUsd' ? formatCost(status.limit) : status.limit}
+                </Text>
+                <View style={styles.barTrack}>
+                  <View
+                    style={[
+                      styles.barFill,
+                      {
+                        width: `${Math.min(status.used / status.limit, 1) * 100}%`,
+                        backgroundColor: BUDGET_COLORS[status.level]
+                      }
+                    ]}
+                  />
+                </View>
+              </View>
+            ))}
+          </View>
+
+          {/* Totales diarios */}
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Últimos {SUMMARY_DAYS} días</Text>
+            {dailyTotals.map(day => (
+              <View key={day.date} style={styles.row}>
+                <Text style={styles.rowLabel}>{day.date}</Text>
+                <Text style={styles.rowValue}>{describeTotals(day)}</Text>
+              </View>
+            ))}
+          </View>
+
+          {/* Desglose por tarea */}
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Por tarea</Text>
+            {taskTotals.length === 0 ? (
+              <Text style={styles.emptyStateText}>Sin consumo registrado</Text>
+            ) : (
+              taskTotals.map(({ key, totals }) => (
+                <View key={key} style={styles.row}>
+                  <Text style={styles.rowLabel}>{LLM_TASKS.find(task => task.id === key)?.label || key}</Text>
+                  <Text style={styles.rowValue}>{describeTotals(totals)}</Text>
+                </View>
+              ))
+            )}
+          </View>
+
+          {/* Desglose por versión de las plantillas de prompt */}
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Por versión de prompt</Text>
+            {promptTotals.length === 0 ? (
+              <Text style={styles.emptyStateText}>Sin consumo registrado</Text>
+            ) : (
+              promptTotals.map(({ key, totals }) => (
+                <View key={key} style={styles.row}>
+                  <Text style={styles.rowLabel} numberOfLines={3}>{key.split(' ').join('\n')}</Text>
+                  <Text style={styles.rowValue}>{describeTotals(totals)}</Text>
+                </View>
+              ))
+            )}
+          </View>
+
+          {/* Desglose por actividad */}
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Por actividad</Text>
+            {activityTotals.length === 0 ? (
+              <Text style={styles.emptyStateText}>Sin consumo registrado</Text>
+            ) : (
+              activityTotals.map(({ key, name, totals }) => (
+                <View key={key} style={styles.row}>
+                  <Text style={styles.rowLabel} numberOfLines={1}>{name}</Text>
+                  <Text style={styles.rowValue}>{describeTotals(totals)}</Text>
+                </View>
+              ))
+            )}
+          </View>
+
+          {/* Uso de cada API key frente a su cuota */}
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Cuota por API key (hoy)</Text>
+            {keyUsage.length === 0 ? (
+              <Text style={styles.emptyStateText}>Ninguna key usada hoy</Text>
+            ) : (
+              keyUsage.map(usage => (
+                <View key={usage.keyIndex} style={styles.row}>
+                  <Text style={styles.rowLabel}>
+                    {keyLabels[usage.keyIndex] || `Key #${usage.keyIndex + 1}`}
+                  </Text>
+                  <Text style={styles.rowValue}>
+                    {usage.requests}{usage.quota > 0 ? ` / ${usage.quota}` : ''} peticiones · {formatTokens(usage.totalTokens)} tokens
+                    {keyCooldowns[usage.keyIndex]?.availableAt
+                      ? `\nLimitada hasta las ${new Date(keyCooldowns[usage.keyIndex].availableAt!).toLocaleTimeString()}`
+                      : ''}
+                  </Text>
+                </View>
+              ))
+            )}
+          </View>
+
+          {/* Presupuestos orientativos */}
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Presupuestos</Text>
+            <Text style={styles.detailText}>
+              Solo avisan al acercarse al límite; nunca bloquean llamadas. Usa 0 para no limitar.
+            </Text>
+
+            {canEditBudgets ? (
+              <>
+                <Text style={styles.selectLabel}>Tokens diarios</Text>
+                <TextInput
+                  style={styles.input}
+                  value={budgetForm.dailyTokens}
+                  onChangeText={(text) => setBudgetForm({ ...budgetForm, dailyTokens: text })}
+                  keyboardType="number-pad"
+                />
+                <Text style={styles.selectLabel}>Coste mensual (USD)</Text>
+                <TextInput
+                  style={styles.input}
+                  value={budgetForm.monthlyCostUsd}
+                  onChangeText={(text) => setBudgetForm({ ...budgetForm, monthlyCostUsd: text })}
+                  keyboardType="decimal-pad"
+                />
+                <Text style={styles.selectLabel}>Peticiones diarias por key</Text>
+                <TextInput
+                  style={styles.input}
+                  value={budgetForm.keyDailyRequests}
+                  onChangeText={(text) => setBudgetForm({ ...budgetForm, keyDailyRequests: text })}
+                  keyboardType="number-pad"
+                />
+
+                <TouchableOpacity style={[styles.actionButton, styles.addButton]} onPress={saveBudgets}>
+                  <Text style={styles.actionButtonText}>Guardar presupuestos</Text>
+                </TouchableOpacity>
+              </>
+            ) : (
+              <Text style={styles.detailText}>
+                Tokens diarios: {budgetForm.dailyTokens} · Coste mensual: ${budgetForm.monthlyCostUsd} · Peticiones por key: {budgetForm.keyDailyRequests}
+                {'\n'}Solo un administrador puede cambiarlos.
+              </Text>
+            )}
+          </View>
+
+          <TouchableOpacity style={[styles.actionButton, styles.clearButton]} onPress={clearHistory}>
+            <Text style={styles.actionButtonText}>Borrar historial de consumo</Text>
+          </TouchableOpacity>
+        </ScrollView>
+      )}
+
+      <View style={styles.buttonContainer}>
+        <TouchableOpacity style={styles.backButton} onPress={onBack}>
+          <Text style={styles.backButtonText}>Volver a Configuración</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#1e1e2e',
+    padding: 20,
+  },
+  title: {
+    fontSize: 32,
+    fontWeight: 'bold',
+    color: '#f8f8f2',
+    marginBottom: 20,
+    textAlign: 'center',
+  },
+  loader: {
+    flex: 1,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    paddingBottom: 20,
+  },
+  section: {
+    backgroundColor: '#282a36',
+    borderRadius: 10,
+    padding: 15,
+    marginBottom: 20,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#bd93f9',
+    marginBottom: 15,
+  },
+  valueText: {
+    fontSize: 16,
+    color: '#f8f8f2',
+    marginBottom: 5,
+  },
+  detailText: {
+    color: '#8be9fd',
+    fontSize: 13,
+    marginBottom: 5,
+  },
+  row: {
+    paddingVertical: 6,
+    borderBottomWidth: 1,
+    borderBottomColor: '#44475a',
+  },
+  rowLabel: {
+    color: '#f8f8f2',
+    fontWeight: 'bold',
+  },
+  rowValue: {
+    color: '#8be9fd',
+    fontSize: 13,
+  },
+  budgetRow: {
+    marginTop: 10,
+  },
+  barTrack: {
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: '#44475a',
+    overflow: 'hidden',
+  },
+  barFill: {
+    height: 8,
+    borderRadius: 4,
+  },
+  emptyStateText: {
+    color: '#f8f8f2',
+    textAlign: 'center',
+    fontStyle: 'italic',
+    padding: 15,
+  },
+  selectLabel: {
+    color: '#f8f8f2',
+    marginTop: 10,
+    marginBottom: 5,
+    fontSize: 14,
+  },
+  input: {
+    backgroundColor: '#44475a',
+    borderRadius: 5,
+    padding: 10,
+    color: '#f8f8f2',
+  },
+  actionButton: {
+    borderRadius: 5,
+    padding: 10,
+    alignItems: 'center',
+    marginBottom: 15,
+  },
+  addButton: {
+    backgroundColor: '#50fa7b',
+    marginTop: 15,
+  },
+  clearButton: {
+    backgroundColor: '#ff5555',
+  },
+  actionButtonText: {
+    color: '#282a36',
+    fontWeight: 'bold',
+  },
+  buttonContainer: {
+    marginTop: 20,
+  },
+  backButton: {
+    backgroundColor: '#6272a4',
+    borderRadius: 25,
+    padding: 15,
+    alignItems: 'center',
+  },
+  backButtonText: {
+    color: '#f8f8f2',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+});
+
+export default DiagnosticsScreen;
@@ -19,37 +19,43 @@ import {
   FlatList,
   Keyboard,
 } from 'react-native';
-import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  organizationRepository,
+  areaRepository,
+  categoryRepository,
+  collaboratorRepository,
+  activityRepository,
+  Collaborator
+} from '../repositories';
+import {
+  ActivityWithCollaborator,
+  Area,
+  CategoryDefinition,
+  DEFAULT_CATEGORIES,
+  getAreaName,
+  getCategoryLabel,
+  getWorkflowStartUrl,
+  StructuredWorkflow,
+  withCollaborator
+} from '../models';
 import { LinearGradient } from 'expo-linear-gradient';
-import { ActivityCategory, analyzeWorkflow, WorkflowMessage, validateSearchResult } from '../services/openRouterService';
+import {
+  ActivityCategory,
+  analyzeWorkflow,
+  generateStructuredWorkflow,
+  WorkflowMessage,
+  validateSearchResult
+} from '../services/openRouterService';
 import { WebView } from 'react-native-webview';
 import { WebViewMessageEvent } from 'react-native-webview/lib/WebViewTypes';
 import { useActivity } from '../contexts';
 import IntelligentScraperUI from '../components/IntelligentScraperUI';
 import { exchangeRateService } from '../services/scrapers/exchangeRateService';
+import { syncEngine } from '../services/sync';
 
 // Definición de interfaces
-interface Collaborator {
-  id: string;
-  name: string;
-  areaIndex: number;
-  avatar?: {
-    color: string;
-    positionX: number;
-    positionY: number;
-  };
-}
-
-interface Activity {
-  id: string;
-  name: string;
-  description: string;
-  status: 'active' | 'inactive' | 'scheduled';
-  categories: ActivityCategory[];
-  collaboratorId: string; // ID del colaborador al que pertenece
-  collaboratorName: string; // Nombre del colaborador
-  workflowMessages?: { content: string }[];
-}
+// Las actividades del juego incluyen los datos de su colaborador
+type Activity = ActivityWithCollaborator;
 
 interface GamePlayScreenProps {
   onBack: () => void;
@@ -74,13 +80,13 @@ const AVATAR_SIZE = 70;
 const GamePlayScreen: React.FC<GamePlayScreenProps> = ({ onBack, onSelectCollaborator }) => {
   // Estados
   const [collaborators, setCollaborators] = useState<Collaborator[]>([]);
-  const [areas, setAreas] = useState<string[]>([]);
+  const [areas, setAreas] = useState<Area[]>([]);
+  const [categoryDefinitions, setCategoryDefinitions] = useState<CategoryDefinition[]>(DEFAULT_CATEGORIES);
   const [organizationName, setOrganizationName] = useState('');
   const [loading, setLoading] = useState(true);
   const [selectedCollaborator, setSelectedCollaborator] = useState<Collaborator | null>(null);
   
   // Estados para el navegador
-  const [activities, setActivities] = useState<Activity[]>([]);
   const [filteredActivities, setFilteredActivities] = useState<Activity[]>([]);
   const [isNavigatorOpen, setIsNavigatorOpen] = useState(false);
   const [isLoadingActivities, setIsLoadingActivities] = useState(false);
@@ -98,9 +104,7 @@ const GamePlayScreen: React.FC<GamePlayScreenProps> = ({ onBack, onSelectCollabo
   const [webViewError, setWebViewError] = useState<boolean>(false);
   
   // Estados para el scraping y automatización
-  const [isScrapingEnabled, setIsScrapingEnabled] = useState<boolean>(false);
-  const [scrapingInstructions, setScrapingInstructions] = useState<string[]>([]);
-  const [currentScrapingStep, setCurrentScrapingStep] = useState<number>(0);
+  const [structuredWorkflow, setStructuredWorkflow] = useState<StructuredWorkflow | null>(null);
   const [scrapingResults, setScrapingResults] = useState<any>({});
   const [shouldEnableAutomation, setShouldEnableAutomation] = useState<boolean>(false);
   const [autoNavigationEnabled, setAutoNavigationEnabled] = useState<boolean>(false);
@@ -204,14 +208,11 @@ const GamePlayScreen: React.FC<GamePlayScreenProps> = ({ onBack, onSelectCollabo
     const loadGameData = async () => {
       try {
         // Cargar colaboradores, áreas y nombre de organización
-        const collaboratorsData = await AsyncStorage.getItem('collaborators');
-        const areasData = await AsyncStorage.getItem('organizationAreas');
-        const orgName = await AsyncStorage.getItem('organizationName');
+        let collaboratorsList = await collaboratorRepository.getAll();
+        const areasList = await areaRepository.getAll();
+        const orgName = await organizationRepository.getName();
         
-        let collaboratorsList: Collaborator[] = [];
-        if (collaboratorsData) {
-          collaboratorsList = JSON.parse(collaboratorsData);
-          
+        if (collaboratorsList.length > 0) {
           // Asignar avatares a los colaboradores si no los tienen
           collaboratorsList = collaboratorsList.map((collaborator, index) => {
             if (!collaborator.avatar) {
@@ -246,11 +247,6 @@ const GamePlayScreen: React.FC<GamePlayScreenProps> = ({ onBack, onSelectCollabo
           // });
         }
         
-        let areasList: string[] = [];
-        if (areasData) {
-          areasList = JSON.parse(areasData);
-        }
-        
         setCollaborators(collaboratorsList);
         setAreas(areasList);
         setOrganizationName(orgName || '');
@@ -321,39 +317,20 @@ const GamePlayScreen: React.FC<GamePlayScreenProps> = ({ onBack, onSelectCollabo
     setIsLoadingActivities(true);
     
     try {
-      const allActivities: Activity[] = [];
-      
-      // Obtener actividades de cada colaborador
-      for (const collaborator of collaboratorsList) {
-        const storedActivities = await AsyncStorage.getItem(`activities_${collaborator.id}`);
-        
-        if (storedActivities) {
-          const parsedActivities = JSON.parse(storedActivities);
-          
-          // Mapear actividades añadiendo el id y nombre del colaborador
-          const activitiesWithCollaborator = parsedActivities.map((activity: any) => ({
-            ...activity,
-            collaboratorId: collaborator.id,
-            collaboratorName: collaborator.name,
-            // Asegurar que exista el campo categories
-            categories: activity.categories || [],
-            // Mantener los workflowMessages si existen
-            workflowMessages: activity.workflowMessages || []
-          }));
-          
-          allActivities.push(...activitiesWithCollaborator);
-        }
-      }
-      
-      setActivities(allActivities);
+      // El índice devuelve solo las actividades de alguna categoría de la
+      // organización; únicamente se leen las listas de sus colaboradores
+      const definitions = await categoryRepository.getAll();
+      setCategoryDefinitions(definitions);
+      const categorized = await activityRepository.query({
+        categories: definitions.map(category => category.id)
+      });
       
-      // Filtrar actividades que sean de cualquier categoría
-      const filtered = allActivities.filter(activity => 
-        activity.categories.includes('asistente') || 
-        activity.categories.includes('administrativo') ||
-        activity.categories.includes('scrapping') ||
-        activity.categories.includes('analisis')
-      );
+      // Añadir el id y nombre del colaborador a cada actividad
+      const collaboratorsById = new Map(collaboratorsList.map(collaborator => [collaborator.id, collaborator]));
+      const filtered: Activity[] = categorized.flatMap(({ activity, collaboratorId }) => {
+        const collaborator = collaboratorsById.get(collaboratorId);
+        return collaborator ? [withCollaborator(activity, collaborator)] : [];
+      });
       
       setFilteredActivities(filtered);
       
@@ -426,6 +403,79 @@ const GamePlayScreen: React.FC<GamePlayScreenProps> = ({ onBack, onSelectCollabo
     }
   };
 
+  // Genera el flujo estructurado de la actividad y lo guarda.
+  // Con `regenerate` se ignora la caché de respuestas del LLM
+  const generateActivityWorkflow = (activity: Activity, regenerate: boolean = false) => {
+    setIsLoadingAnalysis(true);
+    
+    // Si la actividad ya tiene un flujo diseñado en la conversación, pedir que se convierta al esquema
+    const previousMessages: WorkflowMessage[] = activity.workflowMessages && activity.workflowMessages.length > 0
+      ? [
+          ...activity.workflowMessages,
+          { role: 'user', content: 'Convierte el flujo anterior al esquema JSON indicado, sin texto adicional.' }
+        ]
+      : [];
+    
+    generateStructuredWorkflow(
+      activity.name,
+      activity.description || 'No disponible',
+      activity.categories,
+      previousMessages,
+      { bypassCache: regenerate, activityId: activity.id }
+    )
+      .then(({ workflow, messages, errors }) => {
+        if (!workflow) {
+          console.error("El flujo generado no cumple el esquema:", errors);
+          Alert.alert(
+            "Error de análisis",
+            `El flujo generado no es válido:\n${errors.slice(0, 3).join('\n')}`
+          );
+          return;
+        }
+        
+        // Guardar el flujo y mostrar modal de análisis
+        setStructuredWorkflow(workflow);
+        setFlowAnalysisMessages(messages);
+        setFlowAnalysisActivity(activity);
+        
+        // Actualizar la actividad con el flujo analizado
+        if (activity.id) {
+          const updatedActivity: Activity = {
+            ...activity,
+            workflow
+          };
+          
+          // Guardar solo el flujo estructurado: la conversión al esquema no
+          // sustituye la conversación de diseño de la actividad
+          activityRepository.upsert(activity.collaboratorId, { id: activity.id, workflow })
+            .then(() => syncEngine.markDirty('activities', activity.collaboratorId))
+            .catch(error => {
+              console.error("Error al guardar el flujo de la actividad:", error);
+              Alert.alert("Error", "No se pudo guardar el flujo de la actividad");
+            });
+          
+          // Actualizar en el contexto si está disponible
+          if (setActivity) {
+            setActivity(updatedActivity);
+          }
+        }
+        
+        // Mostrar el modal de análisis
+        setIsFlowAnalysisModalVisible(true);
+      })
+      .catch(error => {
+        console.error("Error al analizar el flujo:", error);
+        Alert.alert(
+          "Error de análisis",
+          "No se pudo analizar el flujo de la actividad. Intente nuevamente."
+        );
+      })
+      .finally(() => {
+        setIsLoadingAnalysis(false);
+        setIsValidatingWithLLM(false);
+      });
+  };
+
   // Función para iniciar una actividad
   const handleStartActivity = (activity: Activity) => {
     setCurrentActivity(activity);
@@ -436,99 +486,18 @@ const GamePlayScreen: React.FC<GamePlayScreenProps> = ({ onBack, onSelectCollabo
     
     // Enviar la actividad para análisis con LLM
     if (activity.categories.includes('analisis') || activity.categories.includes('scrapping')) {
-      setIsLoadingAnalysis(true);
-      
-      // Crear mensajes iniciales para el análisis
-      const initialMessages: WorkflowMessage[] = [{
-        role: 'user',
-        content: `Analiza la siguiente actividad y genera un flujo estructurado para extraer datos:
-        Nombre: ${activity.name}
-        Descripción: ${activity.description || 'No disponible'}
-        
-        Genera una lista de pasos detallados para extraer la información requerida.
-        Si es una actividad de precio de criptomonedas, incluye pasos para extraer el precio actual, fecha y hora.
-        Formatea tu respuesta como una lista de instrucciones precisas que pueda seguir un algoritmo de scraping.`
-      }];
+      // Si ya hay un flujo validado guardado, ejecutarlo sin volver a consultar al LLM
+      if (activity.workflow) {
+        console.log(`📋 Usando flujo guardado con ${activity.workflow.steps.length} pasos`);
+        setStructuredWorkflow(activity.workflow);
+        setFlowAnalysisMessages(activity.workflowMessages || []);
+        setFlowAnalysisActivity(activity);
+        setIsValidatingWithLLM(false);
+        setIsFlowAnalysisModalVisible(true);
+        return;
+      }
       
-      // Analizar el nombre y descripción de la actividad con el LLM
-      // La función analyzeWorkflow espera: nombre, descripción, categorías y mensajes previos
-      analyzeWorkflow(
-        activity.name,
-        activity.description || 'No disponible',
-        activity.categories,
-        initialMessages
-      )
-        .then((responseText) => {
-          if (typeof responseText === 'string') {
-            // Crear un mensaje con la respuesta
-            const assistantMessage: WorkflowMessage = {
-              role: 'assistant',
-              content: responseText
-            };
-            
-            // Formar el array completo de mensajes para el flujo
-            const messages = [...initialMessages, assistantMessage];
-            
-            // Extraer instrucciones de scraping del mensaje de respuesta
-            const instructions = extractInstructionsFromText(responseText);
-            
-            // Guardar instrucciones y mostrar modal de análisis
-            setScrapingInstructions(instructions);
-            setFlowAnalysisMessages(messages);
-            setFlowAnalysisActivity(activity);
-            
-            // Inicializar el paso actual
-            setCurrentScrapingStep(0);
-            
-            // Actualizar la actividad con el flujo analizado
-            if (activity.id) {
-              const updatedActivity = {
-                ...activity,
-                workflowMessages: messages.map(m => ({ content: m.content })),
-                isAnalyzingWorkflow: false
-              };
-              
-              // Guardar la actividad actualizada
-              AsyncStorage.getItem(`activities_${activity.collaboratorId}`).then(storedActivities => {
-                if (storedActivities) {
-                  const activities = JSON.parse(storedActivities);
-                  const updatedActivities = activities.map((a: Activity) => 
-                    a.id === activity.id ? updatedActivity : a
-                  );
-                  
-                  AsyncStorage.setItem(`activities_${activity.collaboratorId}`, 
-                    JSON.stringify(updatedActivities)
-                  );
-                }
-              });
-              
-              // Actualizar en el contexto si está disponible
-              if (setActivity) {
-                setActivity(updatedActivity);
-              }
-            }
-            
-            // Mostrar el modal de análisis
-            setIsFlowAnalysisModalVisible(true);
-          } else {
-            console.error("Respuesta inesperada del análisis de flujo:", responseText);
-            Alert.alert(
-              "Error de análisis",
-              "La respuesta del análisis no tiene el formato esperado."
-            );
-          }
-        })
-        .catch(error => {
-          console.error("Error al analizar el flujo:", error);
-          Alert.alert(
-            "Error de análisis",
-            "No se pudo analizar el flujo de la actividad. Intente nuevamente."
-          );
-        })
-        .finally(() => {
-          setIsLoadingAnalysis(false);
-          setIsValidatingWithLLM(false);
-        });
+      generateActivityWorkflow(activity);
     } else {
       // Para actividades no analíticas, proceder después de un breve tiempo
       setTimeout(() => {
@@ -545,30 +514,6 @@ const GamePlayScreen: React.FC<GamePlayScreenProps> = ({ onBack, onSelectCollabo
     }
   };
 
-  // Función para extraer instrucciones a partir del texto del LLM
-  const extractInstructionsFromText = (text: string): string[] => {
-    // Detectar instrucciones numeradas, con viñetas o separadas por líneas
-    const lines = text.split('\n').filter(line => line.trim().length > 0);
-    const instructions: string[] = [];
-    
-    for (const line of lines) {
-      // Eliminar numeración o viñetas al inicio
-      const cleanLine = line.trim().replace(/^(\d+[\.\)]\s*|\-\s*|\*\s*)/, '');
-      
-      // Filtrar líneas que parecen ser instrucciones (no títulos, encabezados)
-      if (cleanLine.length > 10 && !cleanLine.endsWith(':')) {
-        instructions.push(cleanLine);
-      }
-    }
-    
-    // Si no se detectaron instrucciones, tomar todas las líneas como instrucciones
-    if (instructions.length === 0) {
-      return lines.map(line => line.trim()).filter(line => line.length > 0);
-    }
-    
-    return instructions;
-  };
-
   // Función para enviar mensajes predefinidos
   const sendPredefinedMessage = (message: string) => {
     if (!flowAnalysisActivity) return;
@@ -605,37 +550,21 @@ const GamePlayScreen: React.FC<GamePlayScreenProps> = ({ onBack, onSelectCollabo
   const continueStartActivity = () => {
     setIsFlowAnalysisModalVisible(false);
     
-    // Si tenemos instrucciones de scraping, iniciar el proceso
-    if (scrapingInstructions.length > 0) {
-      console.log('Iniciando proceso de scraping con las instrucciones analizadas');
+    // Si tenemos un flujo estructurado, iniciar el proceso
+    if (structuredWorkflow && structuredWorkflow.steps.length > 0) {
+      console.log('Iniciando proceso de scraping con el flujo estructurado');
       
-      // Extraer URL de la descripción si existe
-      let url = "";
-      if (flowAnalysisActivity?.description) {
+      // La URL la indica el primer paso de navegación; si no hay, se busca en la descripción
+      let url = getWorkflowStartUrl(structuredWorkflow) || "";
+      if (!url && flowAnalysisActivity?.description) {
         url = extractUrlFromText(flowAnalysisActivity.description) || "";
       }
       
-      // Si no hay URL en la descripción, intentar encontrarla en las instrucciones
-      if (!url) {
-        for (const instruction of scrapingInstructions) {
-          const extractedUrl = extractUrlFromText(instruction);
-          if (extractedUrl) {
-            url = extractedUrl;
-            break;
-          }
-        }
-      }
-      
       // Si encontramos URL, abrir el WebView con ella
       if (url) {
         setWebViewUrl(url);
         setWebViewTitle(flowAnalysisActivity?.name || 'Actividad');
         setIsWebViewOpen(true);
-        
-        // Habilitar la automatización después de un breve momento para permitir que la página cargue
-        setTimeout(() => {
-          setIsScrapingEnabled(true);
-        }, 3000);
       } else {
         // Si no hay URL, mostrar un error
         Alert.alert(
@@ -655,7 +584,7 @@ const GamePlayScreen: React.FC<GamePlayScreenProps> = ({ onBack, onSelectCollabo
         );
       }
     } else {
-      // Si no hay instrucciones, mostrar un mensaje
+      // Si no hay flujo, mostrar un mensaje
       Alert.alert(
         "Instrucciones no disponibles",
         "No se han generado instrucciones automáticas para esta actividad."
@@ -729,7 +658,9 @@ Tu respuesta debe contener ÚNICAMENTE los términos de búsqueda, nada más.`
       activity.name,
       activity.description || 'No disponible',
       activity.categories,
-      initialMessages
+      initialMessages,
+      undefined,
+      { activityId: activity.id }
     )
       .then((responseText) => {
         if (typeof responseText === 'string') {
@@ -741,7 +672,6 @@ Tu respuesta debe contener ÚNICAMENTE los términos de búsqueda, nada más.`
           
           // Inicializar estados
           setSearchQuery(searchQuery);
-          setIsScrapingEnabled(true);
           setAutoNavigationEnabled(true);
           
           // Crear pasos visuales para el scraping
@@ -1226,12 +1156,7 @@ Tu respuesta debe contener ÚNICAMENTE los términos de búsqueda, nada más.`
         <View style={styles.categoriesContainer}>
           {activity.categories.map((category, index) => (
             <View key={index} style={styles.categoryBadge}>
-              <Text style={styles.categoryText}>
-                {category === 'administrativo' ? '📁 Admin' : 
-                 category === 'asistente' ? '✉️ Asistente' :
-                 category === 'scrapping' ? '🔍 Investigación' :
-                 category === 'analisis' ? '📊 Análisis' : category}
-              </Text>
+              <Text style={styles.categoryText}>{getCategoryLabel(categoryDefinitions, category)}</Text>
             </View>
           ))}
         </View>
@@ -1438,12 +1363,12 @@ Tu respuesta debe contener ÚNICAMENTE los términos de búsqueda, nada más.`
             <View style={styles.infoPanel}>
               <Text style={styles.infoPanelTitle}>{selectedCollaborator.name}</Text>
               <Text style={styles.infoPanelSubtitle}>
-                {areas[selectedCollaborator.areaIndex] || `Área ${selectedCollaborator.areaIndex + 1}`}
+                {getAreaName(areas, selectedCollaborator.areaId)}
               </Text>
               <TouchableOpacity
                 style={styles.detailButton}
                 onPress={() => {
-                  const areaName = areas[selectedCollaborator.areaIndex] || `Área ${selectedCollaborator.areaIndex + 1}`;
+                  const areaName = getAreaName(areas, selectedCollaborator.areaId);
                   onSelectCollaborator(selectedCollaborator, areaName);
                 }}
               >
@@ -1472,7 +1397,7 @@ Tu respuesta debe contener ÚNICAMENTE los términos de búsqueda, nada más.`
               style={styles.modalGradient}
             >
               <Text style={styles.modalTitle}>Navegador de Actividades</Text>
-              <Text style={styles.modalSubtitle}>Actividades administrativas, de asistente, investigación y análisis</Text>
+              <Text style={styles.modalSubtitle}>Actividades de todas las categorías de la organización</Text>
               
               {/* Botones de navegación */}
               <View style={styles.browserNavigation}>
@@ -2088,6 +2013,26 @@ Tu respuesta debe contener ÚNICAMENTE los términos de búsqueda, nada más.`
                 {flowAnalysisActivity ? flowAnalysisActivity.name : 'Actividad'}
               </Text>
               
+              {structuredWorkflow && (
+                <ScrollView style={styles.flowMessagesContainer}>
+                  {structuredWorkflow.steps.map((step, index) => (
+                    <View key={step.id} style={styles.workflowStepItem}>
+                      <Text style={styles.workflowStepType}>
+                        {index + 1}. {step.type.toUpperCase()}
+                      </Text>
+                      <Text style={styles.flowMessageText}>{step.description}</Text>
+                      {step.url && <Text style={styles.workflowStepDetail}>{step.url}</Text>}
+                      {step.selectors && (
+                        <Text style={styles.workflowStepDetail}>{step.selectors.join(', ')}</Text>
+                      )}
+                      {step.expectedOutput && (
+                        <Text style={styles.workflowStepDetail}>Esperado: {step.expectedOutput}</Text>
+                      )}
+                    </View>
+                  ))}
+                </ScrollView>
+              )}
+              
               <TouchableOpacity 
                 style={{
                   backgroundColor: '#50fa7b',
@@ -2100,6 +2045,24 @@ Tu respuesta debe contener ÚNICAMENTE los términos de búsqueda, nada más.`
               >
                 <Text style={{color: '#282a36', fontWeight: 'bold'}}>Confirmar y Continuar</Text>
               </TouchableOpacity>
+              
+              {flowAnalysisActivity && (
+                <TouchableOpacity 
+                  style={{
+                    backgroundColor: '#44475a',
+                    padding: 10,
+                    borderRadius: 5,
+                    alignItems: 'center',
+                    marginTop: 10
+                  }}
+                  onPress={() => {
+                    setIsFlowAnalysisModalVisible(false);
+                    generateActivityWorkflow(flowAnalysisActivity, true);
+                  }}
+                >
+                  <Text style={{color: '#f8f8f2', fontWeight: 'bold'}}>🔁 Regenerar flujo</Text>
+                </TouchableOpacity>
+              )}
             </LinearGradient>
           </View>
         </View>
@@ -3058,6 +3021,23 @@ const styles = StyleSheet.create({
     color: '#f8f8f2',
     fontSize: 14,
   },
+  workflowStepItem: {
+    backgroundColor: '#44475a',
+    padding: 10,
+    borderRadius: 8,
+    marginBottom: 8,
+  },
+  workflowStepType: {
+    color: '#8be9fd',
+    fontSize: 12,
+    fontWeight: 'bold',
+    marginBottom: 4,
+  },
+  workflowStepDetail: {
+    color: '#f1fa8c',
+    fontSize: 12,
+    marginTop: 4,
+  },
   predefinedButtonsContainer: {
     paddingHorizontal: 10,
     paddingVertical: 8,
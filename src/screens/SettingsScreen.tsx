@@ -9,62 +9,157 @@ import {
   ActivityIndicator,
   Animated,
   Easing,
-  Alert
+  Alert,
+  Share
 } from 'react-native';
-import AsyncStorage from '@react-native-async-storage/async-storage';
-
-// Definir la estructura para un colaborador
-interface Collaborator {
-  id: string;
-  name: string;
-  areaIndex: number;
-}
+import {
+  organizationRepository,
+  areaRepository,
+  categoryRepository,
+  collaboratorRepository,
+  Collaborator
+} from '../repositories';
+import {
+  Area,
+  AREA_COLORS,
+  CATEGORY_ICONS,
+  CategoryDefinition,
+  createArea,
+  createCategory,
+  getAreaName
+} from '../models';
+import {
+  environmentService,
+  getAvailableProfiles,
+  EnvironmentProfileId,
+  HealthCheckResult
+} from '../services/environment';
+import { syncEngine } from '../services/sync';
+import { sessionManager } from '../services/session';
+import { backupService, OrganizationBackup, RestorePreview } from '../services/backup';
+import { dataCleanupService, isOrphanReportEmpty } from '../services/dataCleanup';
+import { credentialVault, StoredCredential } from '../services/credentialVault';
+import { testLlmProvider } from '../services/openRouterService';
+import {
+  llmProviders,
+  llmResponseCache,
+  llmTaskSettings,
+  LlmProviderId,
+  LlmTask,
+  LLM_TASKS,
+  MAX_CACHE_TTL_MS,
+  llmContextBudgets,
+  MIN_CONTEXT_TOKENS,
+  MAX_CONTEXT_TOKENS,
+  promptTemplates,
+  PromptTemplateId,
+  PromptTemplateInfo
+} from '../services/llm';
 
 interface SettingsScreenProps {
   onBack: () => void;
+  onOpenDiagnostics: () => void;
+  onOpenBulkCategorization: () => void;
+  // Se llama cuando cambia el backend: la sesión actual pertenece al anterior
+  onBackendChanged: () => void;
 }
 
-const SettingsScreen: React.FC<SettingsScreenProps> = ({ onBack }) => {
+const SettingsScreen: React.FC<SettingsScreenProps> = ({
+  onBack,
+  onOpenDiagnostics,
+  onOpenBulkCategorization,
+  onBackendChanged
+}) => {
   // Estados para los datos
   const [organizationName, setOrganizationName] = useState('');
-  const [areas, setAreas] = useState<string[]>(['']);
+  const [areas, setAreas] = useState<Area[]>(() => [createArea()]);
   const [collaborators, setCollaborators] = useState<Collaborator[]>([]);
   const [isEditingName, setIsEditingName] = useState(false);
   const [isEditingAreas, setIsEditingAreas] = useState(false);
+  const [expandedAreaId, setExpandedAreaId] = useState<string | null>(null);
+  const [areaPendingRemoval, setAreaPendingRemoval] = useState<string | null>(null);
+  const [categories, setCategories] = useState<CategoryDefinition[]>([]);
+  const [isEditingCategories, setIsEditingCategories] = useState(false);
+  const [expandedCategoryId, setExpandedCategoryId] = useState<string | null>(null);
   const [isEditingCollaborators, setIsEditingCollaborators] = useState(false);
+  // Colaboradores eliminados cuyos datos se borrarán al guardar
+  const [removedCollaboratorIds, setRemovedCollaboratorIds] = useState<string[]>([]);
+  const [isScanningOrphans, setIsScanningOrphans] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
   const [hasChanges, setHasChanges] = useState(false);
   
+  // Estados para el servidor backend
+  const [envProfile, setEnvProfile] = useState<EnvironmentProfileId>(environmentService.getProfileId());
+  const [envCustomUrl, setEnvCustomUrl] = useState(environmentService.getCustomUrl());
+  const [isCheckingEnv, setIsCheckingEnv] = useState(false);
+  const [envStatus, setEnvStatus] = useState<HealthCheckResult | null>(null);
+  
+  // Estados para las credenciales de IA
+  const [credentials, setCredentials] = useState<StoredCredential[]>([]);
+  const [newCredentialLabel, setNewCredentialLabel] = useState('');
+  const [newCredentialKey, setNewCredentialKey] = useState('');
+  const [isAddingCredential, setIsAddingCredential] = useState(false);
+  const [testingCredentialId, setTestingCredentialId] = useState<string | null>(null);
+  
+  // Estados para el proveedor de IA
+  const [llmProviderId, setLlmProviderId] = useState<LlmProviderId>(llmProviders.getActiveId());
+  const [localBaseUrl, setLocalBaseUrl] = useState(llmProviders.getLocalEndpoint().baseUrl);
+  const [localModel, setLocalModel] = useState(llmProviders.getLocalEndpoint().model);
+  const [isTestingLlm, setIsTestingLlm] = useState(false);
+  const [llmStatus, setLlmStatus] = useState<{ isValid: boolean; message: string } | null>(null);
+  
+  // Estados para los ajustes de IA por tarea (los números se editan como texto)
+  const [expandedTask, setExpandedTask] = useState<LlmTask | null>(null);
+  const [taskForm, setTaskForm] = useState({
+    model: '',
+    temperature: '',
+    maxTokens: '',
+    timeoutSeconds: '',
+    cacheMinutes: '',
+    contextTokens: ''
+  });
+  
+  // Estados para las plantillas de prompt
+  const [promptList, setPromptList] = useState<PromptTemplateInfo[]>(() => promptTemplates.list());
+  const [expandedPrompt, setExpandedPrompt] = useState<PromptTemplateId | null>(null);
+  const [promptText, setPromptText] = useState('');
+  
+  // Estados para la copia de seguridad
+  const [isExporting, setIsExporting] = useState(false);
+  const [isRestoreOpen, setIsRestoreOpen] = useState(false);
+  const [restoreText, setRestoreText] = useState('');
+  const [pendingBackup, setPendingBackup] = useState<OrganizationBackup | null>(null);
+  const [restorePreview, setRestorePreview] = useState<RestorePreview | null>(null);
+  const [isRestoring, setIsRestoring] = useState(false);
+  
   // Animaciones
   const fadeIn = useRef(new Animated.Value(0)).current;
   const slideUp = useRef(new Animated.Value(50)).current;
   const saveButtonScale = useRef(new Animated.Value(1)).current;
   
+  // Cargar datos guardados
+  const loadSettings = async () => {
+    try {
+      const savedName = await organizationRepository.getName();
+      const savedAreas = await areaRepository.getAll();
+      const savedCollaborators = await collaboratorRepository.getAll();
+      const savedCategories = await categoryRepository.getAll();
+      
+      setOrganizationName(savedName || '');
+      setAreas(savedAreas.length > 0 ? savedAreas : [createArea()]);
+      setCategories(savedCategories);
+      setCollaborators(savedCollaborators);
+    } catch (error) {
+      console.error('Error al cargar configuración:', error);
+    }
+  };
+  
   // Cargar datos guardados al iniciar
   useEffect(() => {
-    const loadSettings = async () => {
-      try {
-        const savedName = await AsyncStorage.getItem('organizationName');
-        const savedAreas = await AsyncStorage.getItem('organizationAreas');
-        const savedCollaborators = await AsyncStorage.getItem('collaborators');
-        
-        if (savedName) {
-          setOrganizationName(savedName);
-        }
-        
-        if (savedAreas) {
-          setAreas(JSON.parse(savedAreas));
-        }
-        
-        if (savedCollaborators) {
-          setCollaborators(JSON.parse(savedCollaborators));
-        }
-      } catch (error) {
-        console.error('Error al cargar configuración:', error);
-      }
-    };
-    
     loadSettings();
+    credentialVault.list().then(setCredentials).catch(error => {
+      console.error('Error al cargar las credenciales:', error);
+    });
     
     // Animación de entrada
     Animated.parallel([
@@ -84,52 +179,77 @@ const SettingsScreen: React.FC<SettingsScreenProps> = ({ onBack }) => {
 
   // Añadir nueva área
   const addArea = () => {
-    const newAreas = [...areas, ''];
-    setAreas(newAreas);
+    const newArea = createArea({ color: AREA_COLORS[areas.length % AREA_COLORS.length] });
+    setAreas([...areas, newArea]);
+    setExpandedAreaId(newArea.id);
     setHasChanges(true);
   };
 
-  // Eliminar área
-  const removeArea = (index: number) => {
+  // Eliminar área. Si tiene colaboradores, primero hay que elegir a qué área moverlos
+  const removeArea = (id: string) => {
     if (areas.length <= 1) return;
     
-    // Verificar si hay colaboradores usando esta área
     const hasAssignedCollaborators = collaborators.some(
-      collaborator => collaborator.areaIndex === index
+      collaborator => collaborator.areaId === id
     );
     
     if (hasAssignedCollaborators) {
-      Alert.alert(
-        'No se puede eliminar',
-        'Esta área tiene colaboradores asignados. Reasigna o elimina estos colaboradores primero.'
-      );
+      setAreaPendingRemoval(id);
       return;
     }
     
-    const newAreas = [...areas];
-    newAreas.splice(index, 1);
+    setAreas(areas.filter(area => area.id !== id));
+    setHasChanges(true);
+  };
+
+  // Mover los colaboradores del área pendiente de eliminar y eliminarla
+  const reassignAndRemoveArea = (targetAreaId: string) => {
+    if (!areaPendingRemoval) return;
     
-    // Actualizar índices de áreas en colaboradores
     const updatedCollaborators = collaborators.map(collaborator => {
-      if (collaborator.areaIndex > index) {
-        return { ...collaborator, areaIndex: collaborator.areaIndex - 1 };
+      if (collaborator.areaId === areaPendingRemoval) {
+        return { ...collaborator, areaId: targetAreaId };
       }
       return collaborator;
     });
     
-    setAreas(newAreas);
     setCollaborators(updatedCollaborators);
+    setAreas(areas.filter(area => area.id !== areaPendingRemoval));
+    setAreaPendingRemoval(null);
     setHasChanges(true);
   };
 
   // Actualizar área
-  const updateArea = (text: string, index: number) => {
-    const newAreas = [...areas];
-    newAreas[index] = text;
+  const updateArea = (id: string, fields: Partial<Omit<Area, 'id'>>) => {
+    const newAreas = areas.map(area => (area.id === id ? { ...area, ...fields } : area));
     setAreas(newAreas);
     setHasChanges(true);
   };
   
+  // Añadir nueva categoría de actividades
+  const addCategory = () => {
+    const newCategory = createCategory({
+      color: AREA_COLORS[categories.length % AREA_COLORS.length],
+      icon: CATEGORY_ICONS[categories.length % CATEGORY_ICONS.length]
+    });
+    setCategories([...categories, newCategory]);
+    setExpandedCategoryId(newCategory.id);
+    setHasChanges(true);
+  };
+
+  // Eliminar categoría. Las actividades que la tenían conservan su ID
+  const removeCategory = (id: string) => {
+    if (categories.length <= 1) return;
+    setCategories(categories.filter(category => category.id !== id));
+    setHasChanges(true);
+  };
+
+  // Actualizar categoría
+  const updateCategory = (id: string, fields: Partial<Omit<CategoryDefinition, 'id'>>) => {
+    setCategories(categories.map(category => (category.id === id ? { ...category, ...fields } : category)));
+    setHasChanges(true);
+  };
+  
   // Añadir nuevo colaborador
   const addCollaborator = () => {
     // Generar un ID único para el nuevo colaborador
@@ -137,7 +257,7 @@ const SettingsScreen: React.FC<SettingsScreenProps> = ({ onBack }) => {
     const newCollaborator: Collaborator = {
       id: newId,
       name: '',
-      areaIndex: 0 // Asignar el primer área por defecto
+      areaId: areas[0]?.id || '' // Asignar el primer área por defecto
     };
     
     setCollaborators([...collaborators, newCollaborator]);
@@ -145,12 +265,39 @@ const SettingsScreen: React.FC<SettingsScreenProps> = ({ onBack }) => {
   };
   
   // Eliminar colaborador
-  const removeCollaborator = (id: string) => {
-    const updatedCollaborators = collaborators.filter(
-      collaborator => collaborator.id !== id
-    );
-    setCollaborators(updatedCollaborators);
-    setHasChanges(true);
+  const removeCollaborator = async (id: string) => {
+    const collaborator = collaborators.find(c => c.id === id);
+    if (!collaborator) return;
+    
+    const remove = () => {
+      setCollaborators(current => current.filter(c => c.id !== id));
+      setRemovedCollaboratorIds(current => [...current, id]);
+      setHasChanges(true);
+    };
+    
+    try {
+      const { activityCount, workflowCount } = await dataCleanupService.describeCollaboratorData(id);
+      
+      // Un colaborador sin datos guardados se elimina sin preguntar
+      if (activityCount === 0) {
+        remove();
+        return;
+      }
+      
+      Alert.alert(
+        'Eliminar colaborador',
+        `Al guardar se eliminará a ${collaborator.name || 'este colaborador'} junto con ` +
+        `${activityCount} ${activityCount === 1 ? 'actividad' : 'actividades'} y ` +
+        `${workflowCount} ${workflowCount === 1 ? 'flujo de trabajo' : 'flujos de trabajo'} guardados.`,
+        [
+          { text: 'Cancelar', style: 'cancel' },
+          { text: 'Eliminar', style: 'destructive', onPress: remove }
+        ]
+      );
+    } catch (error) {
+      console.error('Error al consultar los datos del colaborador:', error);
+      Alert.alert('Error', 'No se pudieron consultar los datos del colaborador');
+    }
   };
   
   // Actualizar nombre del colaborador
@@ -167,10 +314,10 @@ const SettingsScreen: React.FC<SettingsScreenProps> = ({ onBack }) => {
   };
   
   // Actualizar área del colaborador
-  const updateCollaboratorArea = (id: string, areaIndex: number) => {
+  const updateCollaboratorArea = (id: string, areaId: string) => {
     const updatedCollaborators = collaborators.map(collaborator => {
       if (collaborator.id === id) {
-        return { ...collaborator, areaIndex };
+        return { ...collaborator, areaId };
       }
       return collaborator;
     });
@@ -179,6 +326,435 @@ const SettingsScreen: React.FC<SettingsScreenProps> = ({ onBack }) => {
     setHasChanges(true);
   };
 
+  // Comprobar y aplicar el servidor backend seleccionado
+  const applyEnvironment = async () => {
+    if (envProfile === 'custom' && !envCustomUrl.trim()) {
+      Alert.alert('Error', 'Introduce la URL del servidor personalizado');
+      return;
+    }
+    
+    setIsCheckingEnv(true);
+    setEnvStatus(null);
+    
+    try {
+      const result = await environmentService.select(envProfile, envCustomUrl);
+      setEnvStatus(result);
+      
+      if (!result.reachable) {
+        Alert.alert(
+          'Servidor no disponible',
+          `${result.message}. ¿Quieres usarlo de todas formas?`,
+          [
+            { text: 'Cancelar', style: 'cancel' },
+            {
+              text: 'Usar igualmente',
+              onPress: async () => {
+                try {
+                  const forced = await environmentService.select(envProfile, envCustomUrl, true);
+                  if (forced.changed) {
+                    onBackendChanged();
+                    return;
+                  }
+                  Alert.alert('Servidor cambiado', environmentService.getApiUrl());
+                } catch (error) {
+                  Alert.alert('Error', 'No se pudo cambiar de servidor');
+                }
+              }
+            }
+          ]
+        );
+        return;
+      }
+      
+      if (result.changed) {
+        onBackendChanged();
+        return;
+      }
+      
+      Alert.alert('Servidor cambiado', `${environmentService.getApiUrl()}\n${result.message}`);
+    } catch (error) {
+      Alert.alert('Error', 'No se pudo cambiar de servidor');
+    } finally {
+      setIsCheckingEnv(false);
+    }
+  };
+
+  // Las API keys, los modelos y los prompts afectan a toda la organización:
+  // solo los administradores los cambian, igual que los presupuestos
+  const canEditAiSettings = sessionManager.isAdmin();
+
+  const requireAiAdmin = (): boolean => {
+    if (!canEditAiSettings) {
+      Alert.alert('Sin permiso', 'Solo un administrador puede cambiar la configuración de IA');
+    }
+    return canEditAiSettings;
+  };
+
+  // Guardar una API key nueva en el almacenamiento cifrado
+  const addCredential = async () => {
+    if (!requireAiAdmin()) return;
+    
+    setIsAddingCredential(true);
+    try {
+      await credentialVault.add(newCredentialLabel, newCredentialKey);
+      setCredentials(await credentialVault.list());
+      setNewCredentialLabel('');
+      setNewCredentialKey('');
+    } catch (error: any) {
+      Alert.alert('Error', error?.message || 'No se pudo guardar la API key');
+    } finally {
+      setIsAddingCredential(false);
+    }
+  };
+
+  // Probar una API key contra OpenRouter
+  const testCredential = async (id: string) => {
+    setTestingCredentialId(id);
+    try {
+      const result = await credentialVault.test(id);
+      setCredentials(await credentialVault.list());
+      Alert.alert(result.isValid ? 'Key válida' : 'Key no válida', result.message);
+    } catch (error) {
+      Alert.alert('Error', 'No se pudo probar la API key');
+    } finally {
+      setTestingCredentialId(null);
+    }
+  };
+
+  const removeCredential = (credential: StoredCredential) => {
+    if (!requireAiAdmin()) return;
+    
+    Alert.alert(
+      'Eliminar API key',
+      `¿Eliminar "${credential.label}" de este dispositivo?`,
+      [
+        { text: 'Cancelar', style: 'cancel' },
+        {
+          text: 'Eliminar',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await credentialVault.remove(credential.id);
+              setCredentials(await credentialVault.list());
+            } catch (error) {
+              Alert.alert('Error', 'No se pudo eliminar la API key');
+            }
+          }
+        }
+      ]
+    );
+  };
+
+  // Guardar el proveedor de IA tras comprobar que responde
+  const applyLlmProvider = async () => {
+    if (!requireAiAdmin()) return;
+    
+    if (llmProviderId === 'local' && (!localBaseUrl.trim() || !localModel.trim())) {
+      Alert.alert('Error', 'Introduce la URL y el modelo del servidor local');
+      return;
+    }
+    
+    setIsTestingLlm(true);
+    setLlmStatus(null);
+    
+    try {
+      if (llmProviderId === 'local') {
+        await llmProviders.configureLocal({ baseUrl: localBaseUrl, model: localModel });
+      }
+      
+      const result = await testLlmProvider(llmProviderId);
+      setLlmStatus(result);
+      
+      const select = async () => {
+        await llmProviders.select(llmProviderId);
+        Alert.alert('Proveedor de IA cambiado', llmProviders.getActive().label);
+      };
+      
+      if (!result.isValid) {
+        Alert.alert(
+          'Proveedor no disponible',
+          `${result.message}. ¿Quieres usarlo de todas formas?`,
+          [
+            { text: 'Cancelar', style: 'cancel' },
+            { text: 'Usar igualmente', onPress: select }
+          ]
+        );
+        return;
+      }
+      
+      await select();
+    } catch (error) {
+      Alert.alert('Error', 'No se pudo cambiar de proveedor de IA');
+    } finally {
+      setIsTestingLlm(false);
+    }
+  };
+
+  // Abrir el editor de una tarea con sus ajustes actuales
+  const openTaskSettings = (task: LlmTask) => {
+    if (expandedTask === task) {
+      setExpandedTask(null);
+      return;
+    }
+    
+    const settings = llmTaskSettings.get(task);
+    const model = settings.models[llmProviderId] || llmProviders.get(llmProviderId)?.getModel() || '';
+    setTaskForm({
+      model: settings.models[llmProviderId] || '',
+      temperature: String(settings.temperature),
+      maxTokens: String(settings.maxTokens),
+      timeoutSeconds: String(settings.timeoutMs / 1000),
+      cacheMinutes: String(settings.cacheTtlMs / 60000),
+      // Vacío mientras el modelo use el presupuesto por defecto
+      contextTokens: llmContextBudgets.isCustom(model) ? String(llmContextBudgets.get(model)) : ''
+    });
+    setExpandedTask(task);
+  };
+
+  const saveTaskSettings = async () => {
+    if (!expandedTask || !requireAiAdmin()) return;
+    
+    const temperature = Number(taskForm.temperature.replace(',', '.'));
+    const maxTokens = Number(taskForm.maxTokens);
+    const timeoutSeconds = Number(taskForm.timeoutSeconds.replace(',', '.'));
+    const cacheMinutes = Number(taskForm.cacheMinutes.replace(',', '.'));
+    const contextTokens = taskForm.contextTokens.trim() ? Number(taskForm.contextTokens) : null;
+    
+    if (!Number.isFinite(temperature) || temperature < 0 || temperature > 2) {
+      Alert.alert('Error', 'La temperatura debe estar entre 0 y 2');
+      return;
+    }
+    if (!Number.isInteger(maxTokens) || maxTokens < 1) {
+      Alert.alert('Error', 'El límite de tokens debe ser un número entero positivo');
+      return;
+    }
+    if (!Number.isFinite(timeoutSeconds) || timeoutSeconds < 1 || timeoutSeconds > 600) {
+      Alert.alert('Error', 'El tiempo máximo debe estar entre 1 y 600 segundos');
+      return;
+    }
+    if (!Number.isFinite(cacheMinutes) || cacheMinutes < 0 || cacheMinutes * 60000 > MAX_CACHE_TTL_MS) {
+      Alert.alert('Error', `La caché debe durar entre 0 y ${MAX_CACHE_TTL_MS / 60000} minutos`);
+      return;
+    }
+    if (contextTokens !== null && (!Number.isInteger(contextTokens) || contextTokens < MIN_CONTEXT_TOKENS || contextTokens > MAX_CONTEXT_TOKENS)) {
+      Alert.alert('Error', `El contexto máximo debe estar entre ${MIN_CONTEXT_TOKENS} y ${MAX_CONTEXT_TOKENS} tokens`);
+      return;
+    }
+    
+    try {
+      const current = llmTaskSettings.get(expandedTask);
+      await llmTaskSettings.update(expandedTask, {
+        models: { ...current.models, [llmProviderId]: taskForm.model.trim() },
+        temperature,
+        maxTokens,
+        timeoutMs: Math.round(timeoutSeconds * 1000),
+        cacheTtlMs: Math.round(cacheMinutes * 60000)
+      });
+      // El presupuesto de contexto es del modelo, no de la tarea
+      const model = taskForm.model.trim() || llmProviders.get(llmProviderId)?.getModel();
+      if (model) {
+        await llmContextBudgets.set(model, contextTokens);
+      }
+      setExpandedTask(null);
+    } catch (error) {
+      Alert.alert('Error', 'No se pudieron guardar los ajustes de la tarea');
+    }
+  };
+
+  const resetTaskSettings = async () => {
+    if (!expandedTask || !requireAiAdmin()) return;
+    
+    try {
+      await llmTaskSettings.reset(expandedTask);
+      setExpandedTask(null);
+    } catch (error) {
+      Alert.alert('Error', 'No se pudieron restablecer los ajustes de la tarea');
+    }
+  };
+
+  // Abrir el editor de una plantilla de prompt con su texto actual
+  const openPromptTemplate = (template: PromptTemplateInfo) => {
+    if (expandedPrompt === template.id) {
+      setExpandedPrompt(null);
+      return;
+    }
+    
+    setPromptText(template.text);
+    setExpandedPrompt(template.id);
+  };
+
+  const savePromptTemplate = async () => {
+    if (!expandedPrompt || !requireAiAdmin()) return;
+    
+    const errors = promptTemplates.validate(expandedPrompt, promptText);
+    if (errors.length > 0) {
+      Alert.alert('Plantilla no válida', errors.join('\n'));
+      return;
+    }
+    
+    try {
+      await promptTemplates.override(expandedPrompt, promptText);
+      setPromptList(promptTemplates.list());
+      setExpandedPrompt(null);
+    } catch (error) {
+      Alert.alert('Error', 'No se pudo guardar la plantilla');
+    }
+  };
+
+  const resetPromptTemplate = async () => {
+    if (!expandedPrompt || !requireAiAdmin()) return;
+    
+    try {
+      await promptTemplates.reset(expandedPrompt);
+      setPromptList(promptTemplates.list());
+      setExpandedPrompt(null);
+    } catch (error) {
+      Alert.alert('Error', 'No se pudo restablecer la plantilla');
+    }
+  };
+
+  // Exportar toda la organización como JSON
+  const exportBackup = async () => {
+    setIsExporting(true);
+    try {
+      const json = await backupService.export();
+      await Share.share({
+        title: `Copia de seguridad - ${organizationName || 'Organización'}`,
+        message: json
+      });
+    } catch (error) {
+      console.error('Error al exportar la copia de seguridad:', error);
+      Alert.alert('Error', 'No se pudo exportar la copia de seguridad');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  // Validar la copia pegada y mostrar qué se sobrescribirá
+  const previewBackup = async () => {
+    try {
+      const backup = backupService.parse(restoreText.trim());
+      setPendingBackup(backup);
+      setRestorePreview(await backupService.preview(backup));
+    } catch (error: any) {
+      setPendingBackup(null);
+      setRestorePreview(null);
+      Alert.alert('Copia no válida', error?.message || 'No se pudo leer la copia de seguridad');
+    }
+  };
+
+  const closeRestore = () => {
+    setIsRestoreOpen(false);
+    setRestoreText('');
+    setPendingBackup(null);
+    setRestorePreview(null);
+  };
+
+  // Sustituir los datos actuales por los de la copia
+  const confirmRestore = () => {
+    if (!pendingBackup) return;
+    
+    Alert.alert(
+      'Restaurar copia',
+      'Se sobrescribirán todos los datos de la organización en este dispositivo. Esta acción no se puede deshacer.',
+      [
+        { text: 'Cancelar', style: 'cancel' },
+        {
+          text: 'Restaurar',
+          style: 'destructive',
+          onPress: async () => {
+            setIsRestoring(true);
+            try {
+              await backupService.restore(pendingBackup);
+              await loadSettings();
+              setRemovedCollaboratorIds([]);
+              setHasChanges(false);
+              closeRestore();
+              Alert.alert('Éxito', 'Copia de seguridad restaurada correctamente');
+            } catch (error) {
+              console.error('Error al restaurar la copia de seguridad:', error);
+              Alert.alert('Error', 'No se pudo restaurar la copia de seguridad');
+            } finally {
+              setIsRestoring(false);
+            }
+          }
+        }
+      ]
+    );
+  };
+
+  // Buscar y eliminar datos que ya no pertenecen a ningún colaborador o actividad
+  const purgeOrphanData = async () => {
+    setIsScanningOrphans(true);
+    try {
+      const report = await dataCleanupService.findOrphans();
+      
+      if (isOrphanReportEmpty(report)) {
+        Alert.alert('Mantenimiento', 'No se encontraron datos huérfanos');
+        return;
+      }
+      
+      Alert.alert(
+        'Datos huérfanos',
+        `Se encontraron:\n` +
+        `• ${report.activityCount} actividades de ${report.collaboratorIds.length} colaboradores eliminados\n` +
+        `• ${report.workflowActivityIds.length} flujos de trabajo de actividades eliminadas\n` +
+        `• ${report.syncStateKeys.length} estados de sincronización sin uso\n\n` +
+        '¿Quieres eliminarlos?',
+        [
+          { text: 'Cancelar', style: 'cancel' },
+          {
+            text: 'Eliminar',
+            style: 'destructive',
+            onPress: async () => {
+              try {
+                await dataCleanupService.purgeOrphans(report);
+                Alert.alert('Éxito', 'Datos huérfanos eliminados');
+              } catch (error) {
+                console.error('Error al eliminar datos huérfanos:', error);
+                Alert.alert('Error', 'No se pudieron eliminar los datos huérfanos');
+              }
+            }
+          }
+        ]
+      );
+    } catch (error) {
+      console.error('Error al buscar datos huérfanos:', error);
+      Alert.alert('Error', 'No se pudieron revisar los datos guardados');
+    } finally {
+      setIsScanningOrphans(false);
+    }
+  };
+
+  // Vaciar la caché de respuestas de IA para obligar a pedirlas de nuevo
+  const clearLlmCache = async () => {
+    const stats = await llmResponseCache.getStats();
+    if (stats.entries === 0) {
+      Alert.alert('Mantenimiento', 'La caché de respuestas de IA está vacía');
+      return;
+    }
+    
+    Alert.alert(
+      'Vaciar caché de IA',
+      `Hay ${stats.entries} respuestas guardadas. Las próximas consultas se enviarán de nuevo al proveedor.`,
+      [
+        { text: 'Cancelar', style: 'cancel' },
+        {
+          text: 'Vaciar',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await llmResponseCache.clear();
+            } catch (error) {
+              console.error('Error al vaciar la caché de IA:', error);
+              Alert.alert('Error', 'No se pudo vaciar la caché de IA');
+            }
+          }
+        }
+      ]
+    );
+  };
+
   // Guardar configuraciones
   const saveSettings = async () => {
     // Validar que todos los colaboradores tengan nombres
@@ -188,6 +764,21 @@ const SettingsScreen: React.FC<SettingsScreenProps> = ({ onBack }) => {
       return;
     }
     
+    // Un área sin nombre solo se descarta si nadie la usa
+    const unnamedAreaInUse = areas.some(
+      area => area.name.trim() === '' && collaborators.some(c => c.areaId === area.id)
+    );
+    if (unnamedAreaInUse) {
+      Alert.alert('Error', 'Las áreas con colaboradores asignados deben tener un nombre');
+      return;
+    }
+    
+    // La IA elige las categorías por su nombre y descripción
+    if (categories.some(category => category.name.trim() === '')) {
+      Alert.alert('Error', 'Todas las categorías de actividades deben tener un nombre');
+      return;
+    }
+    
     // Animación del botón al presionar
     Animated.sequence([
       Animated.timing(saveButtonScale, {
@@ -206,19 +797,32 @@ const SettingsScreen: React.FC<SettingsScreenProps> = ({ onBack }) => {
     
     try {
       // Filtrar áreas vacías
-      const filteredAreas = areas.filter(area => area.trim() !== '');
+      const filteredAreas = areas.filter(area => area.name.trim() !== '');
       
       // Si no hay áreas, añadir una vacía
-      const finalAreas = filteredAreas.length > 0 ? filteredAreas : [''];
+      const finalAreas = filteredAreas.length > 0 ? filteredAreas : [createArea()];
       
-      await AsyncStorage.setItem('organizationName', organizationName);
-      await AsyncStorage.setItem('organizationAreas', JSON.stringify(finalAreas));
-      await AsyncStorage.setItem('collaborators', JSON.stringify(collaborators));
+      await organizationRepository.saveName(organizationName);
+      await areaRepository.saveAll(finalAreas);
+      await collaboratorRepository.saveAll(collaborators);
+      await categoryRepository.saveAll(categories);
+      
+      // Borrar en cascada los datos de los colaboradores eliminados
+      for (const id of removedCollaboratorIds) {
+        await dataCleanupService.deleteCollaboratorData(id);
+      }
+      setRemovedCollaboratorIds([]);
+      syncEngine.markDirty('organization');
       
       setAreas(finalAreas);
       setHasChanges(false);
       setIsEditingName(false);
       setIsEditingAreas(false);
+      setExpandedAreaId(null);
+      setAreaPendingRemoval(null);
+      setCategories(await categoryRepository.getAll());
+      setIsEditingCategories(false);
+      setExpandedCategoryId(null);
       setIsEditingCollaborators(false);
       
       Alert.alert('Éxito', 'Configuración guardada correctamente');
@@ -289,33 +893,115 @@ const SettingsScreen: React.FC<SettingsScreenProps> = ({ onBack }) => {
           </TouchableOpacity>
           
           {areas.map((area, index) => (
-            <View key={index} style={styles.areaRow}>
-              {isEditingAreas ? (
-                <>
+            <View key={area.id} style={styles.areaBlock}>
+              <View style={styles.areaRow}>
+                <View style={[styles.areaColorDot, { backgroundColor: area.color || '#6272a4' }]} />
+                {isEditingAreas ? (
+                  <>
+                    <TextInput
+                      style={[styles.input, styles.areaInput]}
+                      value={area.name}
+                      onChangeText={(text) => updateArea(area.id, { name: text })}
+                      placeholder={`Área ${index + 1}`}
+                      placeholderTextColor="#8c8c8c"
+                    />
+                    <TouchableOpacity 
+                      style={styles.editButton}
+                      onPress={() => setExpandedAreaId(expandedAreaId === area.id ? null : area.id)}
+                    >
+                      <Text style={styles.editButtonText}>
+                        {expandedAreaId === area.id ? 'Ocultar' : 'Detalles'}
+                      </Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity 
+                      style={styles.removeButton}
+                      onPress={() => removeArea(area.id)}
+                      disabled={areas.length <= 1}
+                    >
+                      <Text style={[
+                        styles.removeButtonText,
+                        areas.length <= 1 && styles.disabledText
+                      ]}>
+                        —
+                      </Text>
+                    </TouchableOpacity>
+                  </>
+                ) : (
+                  <View style={styles.areaDisplayContainer}>
+                    <Text style={styles.valueText}>
+                      {area.name || `Área ${index + 1} (no configurada)`}
+                    </Text>
+                    {!!(area.manager || area.description) && (
+                      <Text style={styles.areaDetailText}>
+                        {[area.manager && `Responsable: ${area.manager}`, area.description]
+                          .filter(Boolean)
+                          .join(' · ')}
+                      </Text>
+                    )}
+                  </View>
+                )}
+              </View>
+              
+              {/* Metadatos del área */}
+              {isEditingAreas && expandedAreaId === area.id && (
+                <View style={styles.areaDetails}>
                   <TextInput
-                    style={[styles.input, styles.areaInput]}
-                    value={area}
-                    onChangeText={(text) => updateArea(text, index)}
-                    placeholder={`Área ${index + 1}`}
+                    style={[styles.input, styles.areaDetailInput]}
+                    value={area.description || ''}
+                    onChangeText={(text) => updateArea(area.id, { description: text })}
+                    placeholder="Descripción"
                     placeholderTextColor="#8c8c8c"
+                    multiline
                   />
-                  <TouchableOpacity 
-                    style={styles.removeButton}
-                    onPress={() => removeArea(index)}
-                    disabled={areas.length <= 1}
-                  >
-                    <Text style={[
-                      styles.removeButtonText,
-                      areas.length <= 1 && styles.disabledText
-                    ]}>
-                      —
-                    </Text>
-                  </TouchableOpacity>
-                </>
-              ) : (
-                <Text style={styles.valueText}>
-                  {area || `Área ${index + 1} (no configurada)`}
-                </Text>
+                  <TextInput
+                    style={[styles.input, styles.areaDetailInput]}
+                    value={area.manager || ''}
+                    onChangeText={(text) => updateArea(area.id, { manager: text })}
+                    placeholder="Responsable"
+                    placeholderTextColor="#8c8c8c"
+                  />
+                  <View style={styles.selectWrapper}>
+                    {AREA_COLORS.map(color => (
+                      <TouchableOpacity
+                        key={color}
+                        style={[
+                          styles.colorOption,
+                          { backgroundColor: color },
+                          area.color === color && styles.selectedColorOption
+                        ]}
+                        onPress={() => updateArea(area.id, { color })}
+                      />
+                    ))}
+                  </View>
+                </View>
+              )}
+              
+              {/* Reasignar colaboradores antes de eliminar el área */}
+              {areaPendingRemoval === area.id && (
+                <View style={styles.areaDetails}>
+                  <Text style={styles.selectLabel}>
+                    Esta área tiene colaboradores asignados. ¿A qué área quieres moverlos?
+                  </Text>
+                  <View style={styles.selectWrapper}>
+                    {areas.filter(target => target.id !== area.id).map(target => (
+                      <TouchableOpacity
+                        key={target.id}
+                        style={styles.areaOption}
+                        onPress={() => reassignAndRemoveArea(target.id)}
+                      >
+                        <Text style={styles.areaOptionText} numberOfLines={1}>
+                          {getAreaName(areas, target.id)}
+                        </Text>
+                      </TouchableOpacity>
+                    ))}
+                    <TouchableOpacity
+                      style={[styles.areaOption, styles.cancelOption]}
+                      onPress={() => setAreaPendingRemoval(null)}
+                    >
+                      <Text style={styles.areaOptionText}>Cancelar</Text>
+                    </TouchableOpacity>
+                  </View>
+                </View>
               )}
             </View>
           ))}
@@ -330,6 +1016,143 @@ const SettingsScreen: React.FC<SettingsScreenProps> = ({ onBack }) => {
           )}
         </View>
         
+        {/* Sección de categorías de actividades */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Categorías de Actividades</Text>
+          
+          <TouchableOpacity 
+            style={[styles.actionButton, styles.editAreasButton]}
+            onPress={() => setIsEditingCategories(!isEditingCategories)}
+          >
+            <Text style={styles.actionButtonText}>
+              {isEditingCategories ? 'Cancelar edición' : 'Editar categorías'}
+            </Text>
+          </TouchableOpacity>
+          
+          {categories.map((category, index) => (
+            <View key={category.id} style={styles.areaBlock}>
+              <View style={styles.areaRow}>
+                <View style={[styles.areaColorDot, { backgroundColor: category.color }]} />
+                {isEditingCategories ? (
+                  <>
+                    <TextInput
+                      style={[styles.input, styles.areaInput]}
+                      value={category.name}
+                      onChangeText={(text) => updateCategory(category.id, { name: text })}
+                      placeholder={`Categoría ${index + 1}`}
+                      placeholderTextColor="#8c8c8c"
+                    />
+                    <TouchableOpacity 
+                      style={styles.editButton}
+                      onPress={() => setExpandedCategoryId(expandedCategoryId === category.id ? null : category.id)}
+                    >
+                      <Text style={styles.editButtonText}>
+                        {expandedCategoryId === category.id ? 'Ocultar' : 'Detalles'}
+                      </Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity 
+                      style={styles.removeButton}
+                      onPress={() => removeCategory(category.id)}
+                      disabled={categories.length <= 1}
+                    >
+                      <Text style={[
+                        styles.removeButtonText,
+                        categories.length <= 1 && styles.disabledText
+                      ]}>
+                        —
+                      </Text>
+                    </TouchableOpacity>
+                  </>
+                ) : (
+                  <View style={styles.areaDisplayContainer}>
+                    <Text style={styles.valueText}>
+                      {category.icon} {category.name || `Categoría ${index + 1} (no configurada)`}
+                    </Text>
+                    {!!category.description && (
+                      <Text style={styles.areaDetailText} numberOfLines={2}>
+                        {category.description}
+                      </Text>
+                    )}
+                  </View>
+                )}
+              </View>
+              
+              {/* Descripción y ejemplos que usa la IA al categorizar, y palabras clave para cuando no responde */}
+              {isEditingCategories && expandedCategoryId === category.id && (
+                <View style={styles.areaDetails}>
+                  <TextInput
+                    style={[styles.input, styles.areaDetailInput]}
+                    value={category.description}
+                    onChangeText={(text) => updateCategory(category.id, { description: text })}
+                    placeholder="Descripción"
+                    placeholderTextColor="#8c8c8c"
+                    multiline
+                  />
+                  <TextInput
+                    style={[styles.input, styles.areaDetailInput]}
+                    value={category.examples.join('\n')}
+                    onChangeText={(text) => updateCategory(category.id, { examples: text.split('\n') })}
+                    placeholder="Actividades de ejemplo (una por línea)"
+                    placeholderTextColor="#8c8c8c"
+                    multiline
+                  />
+                  <TextInput
+                    style={[styles.input, styles.areaDetailInput]}
+                    value={category.keywords.join(',')}
+                    onChangeText={(text) => updateCategory(category.id, { keywords: text.split(',') })}
+                    placeholder="Palabras clave, separadas por comas"
+                    placeholderTextColor="#8c8c8c"
+                    autoCapitalize="none"
+                  />
+                  <View style={styles.selectWrapper}>
+                    {CATEGORY_ICONS.map(icon => (
+                      <TouchableOpacity
+                        key={icon}
+                        style={[
+                          styles.areaOption,
+                          category.icon === icon && styles.selectedAreaOption
+                        ]}
+                        onPress={() => updateCategory(category.id, { icon })}
+                      >
+                        <Text style={styles.areaOptionText}>{icon}</Text>
+                      </TouchableOpacity>
+                    ))}
+                  </View>
+                  <View style={styles.selectWrapper}>
+                    {AREA_COLORS.map(color => (
+                      <TouchableOpacity
+                        key={color}
+                        style={[
+                          styles.colorOption,
+                          { backgroundColor: color },
+                          category.color === color && styles.selectedColorOption
+                        ]}
+                        onPress={() => updateCategory(category.id, { color })}
+                      />
+                    ))}
+                  </View>
+                </View>
+              )}
+            </View>
+          ))}
+          
+          {isEditingCategories && (
+            <TouchableOpacity 
+              style={[styles.actionButton, styles.addButton]}
+              onPress={addCategory}
+            >
+              <Text style={styles.actionButtonText}>+ Añadir categoría</Text>
+            </TouchableOpacity>
+          )}
+          
+          <TouchableOpacity 
+            style={[styles.actionButton, styles.editAreasButton]}
+            onPress={onOpenBulkCategorization}
+          >
+            <Text style={styles.actionButtonText}>Categorizar todas las actividades</Text>
+          </TouchableOpacity>
+        </View>
+        
         {/* Sección de colaboradores */}
         <View style={styles.section}>
           <Text style={styles.sectionTitle}>Colaboradores</Text>
@@ -367,21 +1190,21 @@ const SettingsScreen: React.FC<SettingsScreenProps> = ({ onBack }) => {
                       <View style={styles.selectWrapper}>
                         {areas.map((area, index) => (
                           <TouchableOpacity
-                            key={index}
+                            key={area.id}
                             style={[
                               styles.areaOption,
-                              collaborator.areaIndex === index && styles.selectedAreaOption
+                              collaborator.areaId === area.id && styles.selectedAreaOption
                             ]}
-                            onPress={() => updateCollaboratorArea(collaborator.id, index)}
+                            onPress={() => updateCollaboratorArea(collaborator.id, area.id)}
                           >
                             <Text 
                               style={[
                                 styles.areaOptionText,
-                                collaborator.areaIndex === index && styles.selectedAreaOptionText
+                                collaborator.areaId === area.id && styles.selectedAreaOptionText
                               ]}
                               numberOfLines={1}
                             >
-                              {area || `Área ${index + 1}`}
+                              {area.name || `Área ${index + 1}`}
                             </Text>
                           </TouchableOpacity>
                         ))}
@@ -400,7 +1223,7 @@ const SettingsScreen: React.FC<SettingsScreenProps> = ({ onBack }) => {
                 <View style={styles.collaboratorDisplayContainer}>
                   <Text style={styles.collaboratorName}>{collaborator.name}</Text>
                   <Text style={styles.collaboratorArea}>
-                    {areas[collaborator.areaIndex] || `Área ${collaborator.areaIndex + 1}`}
+                    {getAreaName(areas, collaborator.areaId)}
                   </Text>
                 </View>
               )}
@@ -416,6 +1239,551 @@ const SettingsScreen: React.FC<SettingsScreenProps> = ({ onBack }) => {
             </TouchableOpacity>
           )}
         </View>
+        
+        {/* Sección de credenciales de IA */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Credenciales de IA</Text>
+          
+          {credentials.length === 0 && (
+            <Text style={styles.emptyStateText}>
+              No hay API keys de OpenRouter configuradas
+            </Text>
+          )}
+          
+          {credentials.map(credential => (
+            <View key={credential.id} style={styles.collaboratorRow}>
+              <View style={styles.collaboratorDisplayContainer}>
+                <Text style={styles.collaboratorName}>
+                  {credential.label} <Text style={styles.credentialHint}>{credential.hint}</Text>
+                </Text>
+                <Text style={[
+                  styles.credentialStatus,
+                  credential.lastTestValid === false && styles.envStatusError
+                ]}>
+                  {credential.lastTestedAt
+                    ? `${credential.lastTestValid ? 'Válida' : 'No válida'} · probada el ${new Date(credential.lastTestedAt).toLocaleString()}`
+                    : 'Sin probar'}
+                </Text>
+              </View>
+              
+              <TouchableOpacity 
+                style={styles.editButton}
+                onPress={() => testCredential(credential.id)}
+                disabled={testingCredentialId !== null}
+              >
+                {testingCredentialId === credential.id ? (
+                  <ActivityIndicator color="#f8f8f2" size="small" />
+                ) : (
+                  <Text style={styles.editButtonText}>Probar</Text>
+                )}
+              </TouchableOpacity>
+              {canEditAiSettings && (
+                <TouchableOpacity 
+                  style={styles.removeButton}
+                  onPress={() => removeCredential(credential)}
+                >
+                  <Text style={styles.removeButtonText}>—</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+          ))}
+          
+          {canEditAiSettings ? (
+            <>
+              <TextInput
+                style={[styles.input, styles.envInput]}
+                value={newCredentialLabel}
+                onChangeText={setNewCredentialLabel}
+                placeholder="Nombre (p. ej. Key principal)"
+                placeholderTextColor="#8c8c8c"
+              />
+              <TextInput
+                style={[styles.input, styles.envInput]}
+                value={newCredentialKey}
+                onChangeText={setNewCredentialKey}
+                placeholder="sk-or-v1-..."
+                placeholderTextColor="#8c8c8c"
+                autoCapitalize="none"
+                autoCorrect={false}
+                secureTextEntry
+              />
+              <TouchableOpacity 
+                style={[styles.actionButton, styles.addButton]}
+                onPress={addCredential}
+                disabled={isAddingCredential || !newCredentialKey.trim()}
+              >
+                {isAddingCredential ? (
+                  <ActivityIndicator color="#282a36" size="small" />
+                ) : (
+                  <Text style={[styles.actionButtonText, !newCredentialKey.trim() && styles.disabledText]}>
+                    + Añadir API key
+                  </Text>
+                )}
+              </TouchableOpacity>
+            </>
+          ) : (
+            <Text style={styles.selectLabel}>Solo un administrador puede añadir o quitar API keys</Text>
+          )}
+        </View>
+        
+        {/* Sección de proveedor de IA */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Proveedor de IA</Text>
+          
+          <View style={styles.selectWrapper}>
+            {llmProviders.getProviders().map(provider => (
+              <TouchableOpacity
+                key={provider.id}
+                style={[
+                  styles.areaOption,
+                  llmProviderId === provider.id && styles.selectedAreaOption
+                ]}
+                onPress={() => {
+                  setLlmProviderId(provider.id);
+                  setLlmStatus(null);
+                  setExpandedTask(null);
+                }}
+              >
+                <Text
+                  style={[
+                    styles.areaOptionText,
+                    llmProviderId === provider.id && styles.selectedAreaOptionText
+                  ]}
+                >
+                  {provider.label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          
+          {llmProviderId === 'local' && (
+            <>
+              <TextInput
+                style={[styles.input, styles.envInput]}
+                value={localBaseUrl}
+                onChangeText={(text) => {
+                  setLocalBaseUrl(text);
+                  setLlmStatus(null);
+                }}
+                placeholder="http://localhost:11434/v1"
+                placeholderTextColor="#8c8c8c"
+                autoCapitalize="none"
+                autoCorrect={false}
+                keyboardType="url"
+              />
+              <TextInput
+                style={[styles.input, styles.envInput]}
+                value={localModel}
+                onChangeText={(text) => {
+                  setLocalModel(text);
+                  setLlmStatus(null);
+                }}
+                placeholder="Modelo (p. ej. llama3.1)"
+                placeholderTextColor="#8c8c8c"
+                autoCapitalize="none"
+                autoCorrect={false}
+              />
+            </>
+          )}
+          
+          {llmProviderId !== 'local' && (
+            <Text style={styles.envUrlText}>
+              {llmProviders.get(llmProviderId)?.isRemote
+                ? 'Los prompts se envían a un servicio externo'
+                : 'Los prompts no salen del dispositivo'}
+            </Text>
+          )}
+          
+          {llmStatus && (
+            <Text style={[styles.envStatusText, !llmStatus.isValid && styles.envStatusError]}>
+              {llmStatus.message}
+            </Text>
+          )}
+          
+          {canEditAiSettings ? (
+            <TouchableOpacity 
+              style={[styles.actionButton, styles.addButton]}
+              onPress={applyLlmProvider}
+              disabled={isTestingLlm}
+            >
+              {isTestingLlm ? (
+                <ActivityIndicator color="#282a36" />
+              ) : (
+                <Text style={styles.actionButtonText}>Comprobar y usar</Text>
+              )}
+            </TouchableOpacity>
+          ) : (
+            <Text style={styles.selectLabel}>Solo un administrador puede cambiar el proveedor de IA</Text>
+          )}
+        </View>
+        
+        {/* Sección de modelos por tarea */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Modelos por tarea</Text>
+          <Text style={styles.selectLabel}>
+            Modelos para {llmProviders.get(llmProviderId)?.label || llmProviderId}
+          </Text>
+          
+          {LLM_TASKS.map(task => {
+            const settings = llmTaskSettings.get(task.id);
+            const isExpanded = expandedTask === task.id;
+            
+            return (
+              <View key={task.id} style={styles.areaBlock}>
+                <View style={styles.areaRow}>
+                  <View style={styles.areaDisplayContainer}>
+                    <Text style={styles.valueText}>{task.label}</Text>
+                    <Text style={styles.areaDetailText}>
+                      {settings.models[llmProviderId] || llmProviders.get(llmProviderId)?.getModel() || 'Modelo por defecto'}
+                      {` · T ${settings.temperature} · ${settings.maxTokens} tokens · ${settings.timeoutMs / 1000}s`}
+                    </Text>
+                  </View>
+                  {canEditAiSettings && (
+                    <TouchableOpacity 
+                      style={styles.editButton}
+                      onPress={() => openTaskSettings(task.id)}
+                    >
+                      <Text style={styles.editButtonText}>{isExpanded ? 'Cancelar' : 'Editar'}</Text>
+                    </TouchableOpacity>
+                  )}
+                </View>
+                
+                {isExpanded && (
+                  <View style={styles.areaDetails}>
+                    <Text style={styles.selectLabel}>Modelo (vacío para usar el del proveedor)</Text>
+                    <TextInput
+                      style={[styles.input, styles.areaDetailInput]}
+                      value={taskForm.model}
+                      onChangeText={(text) => setTaskForm({ ...taskForm, model: text })}
+                      placeholder={llmProviders.get(llmProviderId)?.getModel()}
+                      placeholderTextColor="#8c8c8c"
+                      autoCapitalize="none"
+                      autoCorrect={false}
+                    />
+                    <Text style={styles.selectLabel}>Temperatura (0 - 2)</Text>
+                    <TextInput
+                      style={[styles.input, styles.areaDetailInput]}
+                      value={taskForm.temperature}
+                      onChangeText={(text) => setTaskForm({ ...taskForm, temperature: text })}
+                      keyboardType="decimal-pad"
+                    />
+                    <Text style={styles.selectLabel}>Límite de tokens</Text>
+                    <TextInput
+                      style={[styles.input, styles.areaDetailInput]}
+                      value={taskForm.maxTokens}
+                      onChangeText={(text) => setTaskForm({ ...taskForm, maxTokens: text })}
+                      keyboardType="number-pad"
+                    />
+                    <Text style={styles.selectLabel}>Tiempo máximo (segundos)</Text>
+                    <TextInput
+                      style={[styles.input, styles.areaDetailInput]}
+                      value={taskForm.timeoutSeconds}
+                      onChangeText={(text) => setTaskForm({ ...taskForm, timeoutSeconds: text })}
+                      keyboardType="decimal-pad"
+                    />
+                    <Text style={styles.selectLabel}>Caché de respuestas (minutos, 0 para desactivar)</Text>
+                    <TextInput
+                      style={[styles.input, styles.areaDetailInput]}
+                      value={taskForm.cacheMinutes}
+                      onChangeText={(text) => setTaskForm({ ...taskForm, cacheMinutes: text })}
+                      keyboardType="decimal-pad"
+                    />
+                    <Text style={styles.selectLabel}>
+                      Contexto máximo del modelo (tokens). Los mensajes antiguos de las conversaciones largas se resumen para no superarlo
+                    </Text>
+                    <TextInput
+                      style={[styles.input, styles.areaDetailInput]}
+                      value={taskForm.contextTokens}
+                      onChangeText={(text) => setTaskForm({ ...taskForm, contextTokens: text })}
+                      placeholder={String(llmContextBudgets.getDefault(taskForm.model.trim() || llmProviders.get(llmProviderId)?.getModel() || ''))}
+                      placeholderTextColor="#8c8c8c"
+                      keyboardType="number-pad"
+                    />
+                    <View style={styles.selectWrapper}>
+                      <TouchableOpacity
+                        style={[styles.areaOption, styles.selectedAreaOption]}
+                        onPress={saveTaskSettings}
+                      >
+                        <Text style={[styles.areaOptionText, styles.selectedAreaOptionText]}>Guardar</Text>
+                      </TouchableOpacity>
+                      <TouchableOpacity
+                        style={[styles.areaOption, styles.cancelOption]}
+                        onPress={resetTaskSettings}
+                      >
+                        <Text style={styles.areaOptionText}>Restablecer</Text>
+                      </TouchableOpacity>
+                    </View>
+                  </View>
+                )}
+              </View>
+            );
+          })}
+        </View>
+        
+        {/* Sección de plantillas de prompt */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Plantillas de prompt</Text>
+          <Text style={styles.selectLabel}>
+            Usa {'{{variable}}'} para insertar datos y {'{{#variable}}...{{/variable}}'} para texto condicional
+          </Text>
+          
+          {promptList.map(template => {
+            const isExpanded = expandedPrompt === template.id;
+            
+            return (
+              <View key={template.id} style={styles.areaBlock}>
+                <View style={styles.areaRow}>
+                  <View style={styles.areaDisplayContainer}>
+                    <Text style={styles.valueText}>{template.label}</Text>
+                    <Text style={styles.areaDetailText}>
+                      {template.versionTag}{template.isCustom ? ' · editada' : ''}
+                    </Text>
+                  </View>
+                  <TouchableOpacity 
+                    style={styles.editButton}
+                    onPress={() => openPromptTemplate(template)}
+                  >
+                    <Text style={styles.editButtonText}>{isExpanded ? 'Cancelar' : 'Ver'}</Text>
+                  </TouchableOpacity>
+                </View>
+                
+                {isExpanded && (
+                  <View style={styles.areaDetails}>
+                    <Text style={styles.selectLabel}>
+                      {template.variables.length > 0
+                        ? `Variables: ${template.variables.join(', ')}`
+                        : 'Esta plantilla no usa variables'}
+                    </Text>
+                    <TextInput
+                      style={[styles.input, styles.promptInput]}
+                      value={promptText}
+                      onChangeText={setPromptText}
+                      editable={canEditAiSettings}
+                      autoCapitalize="none"
+                      autoCorrect={false}
+                      multiline
+                    />
+                    {canEditAiSettings && (
+                      <View style={styles.selectWrapper}>
+                        <TouchableOpacity
+                          style={[styles.areaOption, styles.selectedAreaOption]}
+                          onPress={savePromptTemplate}
+                        >
+                          <Text style={[styles.areaOptionText, styles.selectedAreaOptionText]}>Guardar</Text>
+                        </TouchableOpacity>
+                        {template.isCustom && (
+                          <TouchableOpacity
+                            style={[styles.areaOption, styles.cancelOption]}
+                            onPress={resetPromptTemplate}
+                          >
+                            <Text style={styles.areaOptionText}>Restaurar original</Text>
+                          </TouchableOpacity>
+                        )}
+                      </View>
+                    )}
+                  </View>
+                )}
+              </View>
+            );
+          })}
+        </View>
+        
+        {/* Sección de copia de seguridad */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Copia de seguridad</Text>
+          
+          <TouchableOpacity 
+            style={[styles.actionButton, styles.editAreasButton]}
+            onPress={exportBackup}
+            disabled={isExporting}
+          >
+            {isExporting ? (
+              <ActivityIndicator color="#282a36" size="small" />
+            ) : (
+              <Text style={styles.actionButtonText}>Exportar organización</Text>
+            )}
+          </TouchableOpacity>
+          
+          <TouchableOpacity 
+            style={[styles.actionButton, styles.editAreasButton]}
+            onPress={() => (isRestoreOpen ? closeRestore() : setIsRestoreOpen(true))}
+          >
+            <Text style={styles.actionButtonText}>
+              {isRestoreOpen ? 'Cancelar restauración' : 'Restaurar desde copia'}
+            </Text>
+          </TouchableOpacity>
+          
+          {isRestoreOpen && (
+            <>
+              <TextInput
+                style={[styles.input, styles.backupInput]}
+                value={restoreText}
+                onChangeText={(text) => {
+                  setRestoreText(text);
+                  setPendingBackup(null);
+                  setRestorePreview(null);
+                }}
+                placeholder="Pega aquí el JSON exportado"
+                placeholderTextColor="#8c8c8c"
+                autoCapitalize="none"
+                autoCorrect={false}
+                multiline
+              />
+              
+              {!restorePreview && (
+                <TouchableOpacity 
+                  style={[styles.actionButton, styles.editAreasButton]}
+                  onPress={previewBackup}
+                  disabled={!restoreText.trim()}
+                >
+                  <Text style={[styles.actionButtonText, !restoreText.trim() && styles.disabledText]}>
+                    Revisar copia
+                  </Text>
+                </TouchableOpacity>
+              )}
+              
+              {restorePreview && (
+                <View style={styles.restorePreview}>
+                  <Text style={styles.selectLabel}>
+                    Copia del {restorePreview.exportedAt ? new Date(restorePreview.exportedAt).toLocaleString() : 'fecha desconocida'}.
+                    Se sobrescribirá:
+                  </Text>
+                  <Text style={styles.restorePreviewText}>
+                    Nombre: {restorePreview.organizationName.current || '—'} → {restorePreview.organizationName.incoming || '—'}
+                  </Text>
+                  <Text style={styles.restorePreviewText}>
+                    Áreas: {restorePreview.areas.current} → {restorePreview.areas.incoming}
+                  </Text>
+                  <Text style={styles.restorePreviewText}>
+                    Colaboradores: {restorePreview.collaborators.current} → {restorePreview.collaborators.incoming}
+                  </Text>
+                  <Text style={styles.restorePreviewText}>
+                    Actividades: {restorePreview.activities.current} → {restorePreview.activities.incoming}
+                  </Text>
+                  <Text style={styles.restorePreviewText}>
+                    Flujos de trabajo: {restorePreview.workflows.current} → {restorePreview.workflows.incoming}
+                  </Text>
+                  {restorePreview.collaboratorsRemoved.length > 0 && (
+                    <Text style={[styles.restorePreviewText, styles.envStatusError]}>
+                      Se eliminarán: {restorePreview.collaboratorsRemoved.join(', ')}
+                    </Text>
+                  )}
+                  
+                  <TouchableOpacity 
+                    style={[styles.actionButton, styles.restoreButton]}
+                    onPress={confirmRestore}
+                    disabled={isRestoring}
+                  >
+                    {isRestoring ? (
+                      <ActivityIndicator color="#f8f8f2" size="small" />
+                    ) : (
+                      <Text style={styles.restoreButtonText}>Restaurar</Text>
+                    )}
+                  </TouchableOpacity>
+                </View>
+              )}
+            </>
+          )}
+        </View>
+        
+        {/* Sección de mantenimiento */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Mantenimiento</Text>
+          
+          <TouchableOpacity 
+            style={[styles.actionButton, styles.editAreasButton]}
+            onPress={purgeOrphanData}
+            disabled={isScanningOrphans}
+          >
+            {isScanningOrphans ? (
+              <ActivityIndicator color="#282a36" size="small" />
+            ) : (
+              <Text style={styles.actionButtonText}>Limpiar datos huérfanos</Text>
+            )}
+          </TouchableOpacity>
+          
+          <TouchableOpacity 
+            style={[styles.actionButton, styles.editAreasButton]}
+            onPress={clearLlmCache}
+          >
+            <Text style={styles.actionButtonText}>Vaciar caché de IA</Text>
+          </TouchableOpacity>
+          
+          <TouchableOpacity 
+            style={[styles.actionButton, styles.editAreasButton]}
+            onPress={onOpenDiagnostics}
+          >
+            <Text style={styles.actionButtonText}>Diagnóstico de IA</Text>
+          </TouchableOpacity>
+        </View>
+        
+        {/* Sección de servidor backend */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Servidor</Text>
+          
+          <View style={styles.selectWrapper}>
+            {getAvailableProfiles().map(profile => (
+              <TouchableOpacity
+                key={profile.id}
+                style={[
+                  styles.areaOption,
+                  envProfile === profile.id && styles.selectedAreaOption
+                ]}
+                onPress={() => {
+                  setEnvProfile(profile.id);
+                  setEnvStatus(null);
+                }}
+              >
+                <Text
+                  style={[
+                    styles.areaOptionText,
+                    envProfile === profile.id && styles.selectedAreaOptionText
+                  ]}
+                >
+                  {profile.label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          
+          {envProfile === 'custom' ? (
+            <TextInput
+              style={[styles.input, styles.envInput]}
+              value={envCustomUrl}
+              onChangeText={(text) => {
+                setEnvCustomUrl(text);
+                setEnvStatus(null);
+              }}
+              placeholder="https://mi-servidor.com/api"
+              placeholderTextColor="#8c8c8c"
+              autoCapitalize="none"
+              autoCorrect={false}
+              keyboardType="url"
+            />
+          ) : (
+            <Text style={styles.envUrlText}>
+              {environmentService.resolveUrl(envProfile)}
+            </Text>
+          )}
+          
+          {envStatus && (
+            <Text style={[styles.envStatusText, !envStatus.reachable && styles.envStatusError]}>
+              {envStatus.message}
+            </Text>
+          )}
+          
+          <TouchableOpacity 
+            style={[styles.actionButton, styles.addButton]}
+            onPress={applyEnvironment}
+            disabled={isCheckingEnv}
+          >
+            {isCheckingEnv ? (
+              <ActivityIndicator color="#282a36" />
+            ) : (
+              <Text style={styles.actionButtonText}>Comprobar y usar</Text>
+            )}
+          </TouchableOpacity>
+        </View>
       </ScrollView>
       
       <View style={styles.buttonContainer}>
@@ -516,11 +1884,50 @@ const styles = StyleSheet.create({
     color: '#f8f8f2',
     fontWeight: 'bold',
   },
+  areaBlock: {
+    marginBottom: 10,
+  },
   areaRow: {
     flexDirection: 'row',
     alignItems: 'center',
+  },
+  areaColorDot: {
+    width: 12,
+    height: 12,
+    borderRadius: 6,
+    marginRight: 10,
+  },
+  areaDisplayContainer: {
+    flex: 1,
+  },
+  areaDetailText: {
+    color: '#6272a4',
+    fontSize: 13,
+    paddingHorizontal: 10,
+  },
+  areaDetails: {
+    marginTop: 10,
+    marginLeft: 22,
+  },
+  areaDetailInput: {
+    flex: 0,
+    marginRight: 0,
     marginBottom: 10,
   },
+  colorOption: {
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  selectedColorOption: {
+    borderWidth: 3,
+    borderColor: '#f8f8f2',
+  },
+  cancelOption: {
+    backgroundColor: '#6272a4',
+  },
   collaboratorRow: {
     flexDirection: 'row',
     alignItems: 'flex-start',
@@ -620,6 +2027,68 @@ const styles = StyleSheet.create({
     fontStyle: 'italic',
     padding: 15,
   },
+  credentialHint: {
+    color: '#6272a4',
+    fontWeight: 'normal',
+  },
+  credentialStatus: {
+    color: '#50fa7b',
+    fontSize: 13,
+  },
+  promptInput: {
+    flex: 0,
+    marginRight: 0,
+    marginBottom: 10,
+    minHeight: 160,
+    maxHeight: 320,
+    textAlignVertical: 'top',
+    fontSize: 13,
+  },
+  backupInput: {
+    flex: 0,
+    marginRight: 0,
+    marginBottom: 15,
+    minHeight: 100,
+    maxHeight: 200,
+    textAlignVertical: 'top',
+  },
+  restorePreview: {
+    backgroundColor: '#44475a',
+    borderRadius: 5,
+    padding: 10,
+  },
+  restorePreviewText: {
+    color: '#f8f8f2',
+    fontSize: 13,
+    marginBottom: 4,
+  },
+  restoreButton: {
+    backgroundColor: '#ff5555',
+    marginTop: 10,
+    marginBottom: 0,
+  },
+  restoreButtonText: {
+    color: '#f8f8f2',
+    fontWeight: 'bold',
+  },
+  envInput: {
+    flex: 0,
+    marginTop: 10,
+    marginRight: 0,
+  },
+  envUrlText: {
+    color: '#8be9fd',
+    fontSize: 13,
+    marginTop: 10,
+  },
+  envStatusText: {
+    color: '#50fa7b',
+    fontSize: 13,
+    marginTop: 10,
+  },
+  envStatusError: {
+    color: '#ff5555',
+  },
   buttonContainer: {
     marginTop: 20,
   },
@@ -0,0 +1,243 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { llmResponseCache, llmTaskSettings } from '../llm';
+import {
+  addApiKey,
+  analyzeWorkflow,
+  categorizeActivity,
+  removeApiKey,
+  resetRateLimitState,
+  setApiKeys,
+  testLlmProvider,
+  validateSearchResult
+} from '../openRouterService';
+import { userStorage } from '../userStorage';
+
+// Las mismas fixtures que reproduce `npm run llm-fixtures`. Las actuales son
+// sintéticas, escritas a mano (ver fixtures/llm/README.md)
+const {
+  DEFAULT_FIXTURE_DIR,
+  requestSignature,
+  fixtureKey,
+  readFixture,
+  pickResponse
+} = require('../../../scripts/llmFixtures');
+
+interface ReplayedRequest {
+  key: string;
+  authorization?: string;
+}
+
+// Peticiones que han llegado a OpenRouter en el test actual
+let requests: ReplayedRequest[] = [];
+// Veces que se ha servido cada fixture en el test actual
+const served = new Map<string, number>();
+// Peticiones sin fixture. Si cambia un prompt hay que volver a grabarlas
+// con `LLM_FIXTURE_MODE=record npm run llm-fixtures`
+let unrecorded: string[] = [];
+
+const abortError = () => Object.assign(new Error('The operation was aborted'), { name: 'AbortError' });
+
+/**
+ * Espera el retardo de la fixture, salvo que la petición se cancele antes
+ */
+const waitForResponse = (delayMs: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) return reject(abortError());
+  const timer = setTimeout(resolve, delayMs);
+  signal?.addEventListener('abort', () => {
+    clearTimeout(timer);
+    reject(abortError());
+  });
+});
+
+/**
+ * `fetch` que responde con la fixture grabada para la petición, igual que el
+ * servidor de fixtures en modo replay
+ */
+const replayFetch = async (url: string, init: any) => {
+  const key = fixtureKey(requestSignature(JSON.parse(init.body)));
+  requests.push({ key, authorization: init.headers?.Authorization });
+
+  const fixture = readFixture(DEFAULT_FIXTURE_DIR, key);
+  if (!fixture || fixture.responses.length === 0) {
+    unrecorded.push(key);
+    throw new Error(`No hay fixture grabada para la petición ${key} (${url})`);
+  }
+
+  const index = served.get(key) || 0;
+  served.set(key, index + 1);
+  const entry = pickResponse(fixture, index);
+  await waitForResponse(entry.delayMs || 0, init.signal);
+
+  return {
+    ok: entry.status >= 200 && entry.status < 300,
+    status: entry.status,
+    statusText: '',
+    headers: { get: (name: string) => entry.headers?.[name.toLowerCase()] ?? null },
+    text: async () => JSON.stringify(entry.body),
+    json: async () => entry.body
+  };
+};
+
+describe('openRouterService con fixtures grabadas', () => {
+  const originalFetch = global.fetch;
+
+  beforeAll(() => {
+    global.fetch = replayFetch as unknown as typeof fetch;
+  });
+
+  afterAll(() => {
+    global.fetch = originalFetch;
+  });
+
+  beforeEach(async () => {
+    requests = [];
+    unrecorded = [];
+    served.clear();
+    await AsyncStorage.clear();
+    await userStorage.activate('ana');
+    await llmResponseCache.clear();
+    await llmTaskSettings.reset('categorization');
+    setApiKeys(['key-a']);
+    resetRateLimitState();
+  });
+
+  // Sin la fixture, la respuesta de emergencia podría hacer pasar el test
+  afterEach(() => {
+    expect(unrecorded).toEqual([]);
+  });
+
+  describe('categorizeActivity', () => {
+    it('devuelve las categorías, la confianza y el motivo del modelo', async () => {
+      const suggestions = await categorizeActivity('Conciliar las facturas del mes', 'Cuadrar el banco con la contabilidad');
+
+      expect(suggestions).toEqual([
+        { category: 'administrativo', confidence: 0.9, reason: 'Tarea contable de conciliación bancaria' }
+      ]);
+      expect(requests).toHaveLength(1);
+    });
+
+    it('categoriza por palabras clave si la respuesta del modelo no es JSON válido', async () => {
+      const suggestions = await categorizeActivity('Revisar contratos de proveedores', '');
+
+      expect(requests).toHaveLength(1);
+      expect(suggestions).toEqual([
+        { category: 'administrativo', confidence: 0.6, reason: 'Contiene la palabra clave "proveedores"' }
+      ]);
+    });
+
+    it('categoriza por palabras clave si el modelo excede el tiempo máximo', async () => {
+      await llmTaskSettings.update('categorization', {
+        ...llmTaskSettings.get('categorization'),
+        timeoutMs: 1000
+      });
+
+      const suggestions = await categorizeActivity('Archivar expedientes de la empresa', '');
+
+      expect(requests).toHaveLength(1);
+      expect(suggestions).toEqual([
+        { category: 'administrativo', confidence: 0.6, reason: 'Contiene la palabra clave "empresa"' }
+      ]);
+    });
+
+    it('reintenta con la siguiente API key tras un rate limit', async () => {
+      setApiKeys(['key-a', 'key-b']);
+
+      const suggestions = await categorizeActivity('Organizar la agenda del equipo', '');
+
+      expect(requests.map(request => request.authorization)).toEqual(['Bearer key-a', 'Bearer key-b']);
+      expect(suggestions).toEqual([
+        { category: 'asistente', confidence: 0.8, reason: 'Gestión de la agenda' }
+      ]);
+    });
+
+    it('usa la respuesta de emergencia sin API keys', async () => {
+      setApiKeys([]);
+
+      const suggestions = await categorizeActivity('Enviar el correo semanal a los clientes', '');
+
+      expect(requests).toHaveLength(0);
+      expect(suggestions).toEqual([
+        { category: 'asistente', confidence: 0.3, reason: 'Respuesta de emergencia, sin IA' },
+        { category: 'administrativo', confidence: 0.6, reason: 'Contiene la palabra clave "cliente"' }
+      ]);
+    });
+  });
+
+  describe('analyzeWorkflow', () => {
+    it('devuelve el flujo propuesto por el modelo', async () => {
+      const workflow = await analyzeWorkflow('Descargar el informe de ventas', 'Desde el portal de la empresa', ['analisis']);
+
+      expect(requests).toHaveLength(1);
+      expect(workflow).toBe('1. Abrir el portal de ventas\n2. Filtrar por el mes actual\n3. Descargar el informe en Excel');
+    });
+
+    it('responde con el servicio de respaldo si todas las API keys están limitadas', async () => {
+      setApiKeys(['key-a', 'key-b']);
+
+      const workflow = await analyzeWorkflow('Actualizar el inventario', 'Hoja de cálculo del almacén', ['administrativo']);
+
+      expect(requests.map(request => request.authorization)).toEqual(['Bearer key-a', 'Bearer key-b']);
+      expect(workflow).toContain('generada por el sistema de respaldo');
+    });
+  });
+
+  describe('testLlmProvider', () => {
+    it('prueba OpenRouter con una key de la rotación', async () => {
+      const result = await testLlmProvider('openrouter');
+
+      expect(result.isValid).toBe(true);
+      expect(requests.map(request => request.authorization)).toEqual(['Bearer key-a']);
+    });
+
+    it('no reutiliza la key de la última petición si se quitó de la rotación', async () => {
+      await categorizeActivity('Conciliar las facturas del mes', 'Cuadrar el banco con la contabilidad');
+      removeApiKey('key-a');
+      addApiKey('key-b');
+
+      await testLlmProvider('openrouter');
+
+      expect(requests.map(request => request.authorization)).toEqual(['Bearer key-a', 'Bearer key-b']);
+    });
+
+    it('no llama a OpenRouter sin API keys', async () => {
+      setApiKeys([]);
+
+      const result = await testLlmProvider('openrouter');
+
+      expect(result.isValid).toBe(false);
+      expect(requests).toHaveLength(0);
+    });
+  });
+
+  describe('validateSearchResult', () => {
+    beforeEach(() => {
+      // La fecha forma parte del prompt: se fija para que coincida con la grabación
+      jest.spyOn(Date.prototype, 'toLocaleDateString').mockReturnValue('2 de marzo de 2026');
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('devuelve la validación del modelo', async () => {
+      const result = await validateSearchResult(
+        'Consultar el tipo de cambio',
+        'Dólar frente al peso mexicano',
+        { type: 'exchange', value: '17.05 MXN' }
+      );
+
+      expect(result).toEqual({ isValid: true, explanation: 'El valor corresponde al tipo de cambio pedido' });
+    });
+
+    it('interpreta el texto de la respuesta si no es JSON válido', async () => {
+      const result = await validateSearchResult(
+        'Consultar el precio del oro',
+        'Precio de la onza en dólares',
+        { type: 'commodity', value: '2050 USD' }
+      );
+
+      expect(result.isValid).toBe(true);
+      expect(result.explanation).toMatch(/^Validación manual: /);
+    });
+  });
+});
@@ -0,0 +1,36 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { SessionManager } from '../session';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('SessionManager', () => {
+  beforeEach(async () => {
+    jest.useFakeTimers();
+    await AsyncStorage.clear();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('no renueva antes de tiempo un token que vence en más de 25 días', async () => {
+    const manager = new SessionManager();
+    const refresh = jest.fn(async () => ({ token: 'token-2', expiresIn: 60 * DAY_MS / 1000 }));
+    manager.setRefreshHandler(refresh);
+
+    await manager.start({ token: 'token-1', expiresIn: 60 * DAY_MS / 1000 }, 'ana');
+
+    await jest.advanceTimersByTimeAsync(30 * DAY_MS);
+    expect(refresh).not.toHaveBeenCalled();
+
+    await jest.advanceTimersByTimeAsync(30 * DAY_MS);
+    expect(refresh).toHaveBeenCalledTimes(1);
+    expect(manager.getToken()).toBe('token-2');
+
+    // El token renovado tampoco se vuelve a renovar al momento
+    await jest.advanceTimersByTimeAsync(DAY_MS);
+    expect(refresh).toHaveBeenCalledTimes(1);
+
+    await manager.end();
+  });
+});
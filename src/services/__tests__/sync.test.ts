@@ -0,0 +1,120 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { createCategory, parseCategories } from '../../models';
+import { categoryCorrectionRepository, categoryRepository } from '../../repositories';
+import { SyncEngine } from '../sync';
+import { userStorage } from '../userStorage';
+
+// Backend en memoria con el mismo control de revisiones que el servidor real
+const mockDocuments = new Map<string, { data: any; meta: Record<string, number>; revision: number }>();
+
+jest.mock('../api', () => {
+  const read = async (path: string) => {
+    const document = mockDocuments.get(path);
+    if (!document) {
+      throw Object.assign(new Error('No encontrado'), { statusCode: 404 });
+    }
+    return JSON.parse(JSON.stringify(document));
+  };
+
+  const write = async (path: string, document: { data: any; meta: Record<string, number> }, baseRevision: number) => {
+    const current = mockDocuments.get(path)?.revision || 0;
+    if (current !== baseRevision) {
+      throw Object.assign(new Error('Revisión desactualizada'), { statusCode: 409 });
+    }
+    mockDocuments.set(path, JSON.parse(JSON.stringify({ ...document, revision: current + 1 })));
+    return { revision: current + 1 };
+  };
+
+  return {
+    organizationService: {
+      get: () => read('/organization'),
+      put: (document: any, baseRevision: number) => write('/organization', document, baseRevision)
+    },
+    activityService: {
+      getByCollaborator: (id: string) => read(`/activities/${id}`),
+      putByCollaborator: (id: string, document: any, baseRevision: number) =>
+        write(`/activities/${id}`, document, baseRevision)
+    }
+  };
+});
+
+const customCategories = parseCategories([
+  createCategory({ id: 'compras', name: 'Compras', description: 'Pedidos a proveedores', keywords: ['pedido'] }),
+  createCategory({ id: 'soporte', name: 'Soporte', examples: ['Responder incidencias'] })
+]);
+
+// Sube las categorías propias desde un dispositivo
+const syncCustomCategories = async () => {
+  await userStorage.activate('ana');
+  await categoryRepository.saveAll(customCategories);
+
+  const engine = new SyncEngine();
+  await engine.markDirty('organization');
+  engine.stop();
+  await engine.syncAll();
+};
+
+describe('SyncEngine con categorías propias', () => {
+  beforeEach(async () => {
+    mockDocuments.clear();
+    await AsyncStorage.clear();
+  });
+
+  it('las conserva en el dispositivo tras sincronizar', async () => {
+    await syncCustomCategories();
+
+    expect(await categoryRepository.getAll()).toEqual(customCategories);
+    expect(mockDocuments.get('/organization')?.data.categories).toEqual(customCategories);
+  });
+
+  it('las descarga en otro dispositivo del mismo usuario', async () => {
+    await syncCustomCategories();
+
+    // Otro dispositivo: sin datos locales, solo lo que hay en el servidor
+    await AsyncStorage.clear();
+    await userStorage.activate('ana');
+    await new SyncEngine().syncAll();
+
+    expect(await categoryRepository.getAll()).toEqual(customCategories);
+  });
+
+  it('no las pisa al sincronizar de nuevo sin cambios', async () => {
+    await syncCustomCategories();
+    const updatedAt = await categoryRepository.getUpdatedAt();
+
+    await new SyncEngine().syncAll();
+
+    expect(await categoryRepository.getAll()).toEqual(customCategories);
+    expect(await categoryRepository.getUpdatedAt()).toBe(updatedAt);
+  });
+});
+
+describe('SyncEngine con correcciones de categorías', () => {
+  beforeEach(async () => {
+    mockDocuments.clear();
+    await AsyncStorage.clear();
+  });
+
+  it('las comparte con otro dispositivo del mismo usuario', async () => {
+    await userStorage.activate('ana');
+    await categoryCorrectionRepository.record({
+      activityId: 'act-1',
+      activityName: 'Pedir material de oficina',
+      activityDescription: '',
+      suggested: ['asistente'],
+      chosen: ['administrativo']
+    });
+    const corrections = await categoryCorrectionRepository.getAll();
+
+    const engine = new SyncEngine();
+    await engine.markDirty('organization');
+    engine.stop();
+    await engine.syncAll();
+
+    await AsyncStorage.clear();
+    await userStorage.activate('ana');
+    await new SyncEngine().syncAll();
+
+    expect(await categoryCorrectionRepository.getAll()).toEqual(corrections);
+  });
+});
@@ -1,7 +1,8 @@
-const API_URL = 'http://localhost:5000/api';
+import { sessionManager, SessionPayload } from './session';
+import { environmentService } from './environment';
 
 // Interfaz de error personalizado
-interface ApiError extends Error {
+export interface ApiError extends Error {
   statusCode?: number;
   details?: string;
 }
@@ -14,18 +15,44 @@ const createApiError = (message: string, statusCode?: number, details?: string):
   return error;
 };
 
+// Opciones adicionales para las peticiones al backend
+export interface FetchApiOptions extends RequestInit {
+  // No adjuntar el token de sesión (login, registro, renovación)
+  skipAuth?: boolean;
+  // Uso interno: la petición ya se reintentó tras renovar el token
+  isRetry?: boolean;
+}
+
 // Función para realizar peticiones al backend
-export const fetchApi = async (endpoint: string, options: RequestInit = {}) => {
-  const url = `${API_URL}${endpoint}`;
+export const fetchApi = async (endpoint: string, options: FetchApiOptions = {}): Promise<any> => {
+  const { skipAuth, isRetry, ...requestOptions } = options;
+  const url = `${environmentService.getApiUrl()}${endpoint}`;
   
   try {
+    // Renovar el token antes de que caduque para no enviar uno vencido
+    if (!skipAuth && sessionManager.needsRefresh()) {
+      await sessionManager.refresh();
+    }
+    
+    const token = skipAuth ? null : sessionManager.getToken();
+    
     const response = await fetch(url, {
-      ...options,
+      ...requestOptions,
       headers: {
         'Content-Type': 'application/json',
-        ...options.headers,
+        ...(token ? { 'x-auth-token': token } : {}),
+        ...requestOptions.headers,
       },
     });
+    
+    // Token rechazado: intentar renovarlo una vez y repetir la petición
+    if (response.status === 401 && token && !isRetry) {
+      const refreshed = await sessionManager.refresh();
+      if (refreshed) {
+        return await fetchApi(endpoint, { ...options, isRetry: true });
+      }
+      await sessionManager.expire();
+    }
 
     // Intentamos obtener datos JSON
     let data;
@@ -47,7 +74,9 @@ export const fetchApi = async (endpoint: string, options: RequestInit = {}) => {
           errorMessage = data.message || 'Solicitud incorrecta';
           break;
         case 401:
-          errorMessage = 'No autorizado. Por favor inicia sesión nuevamente';
+          errorMessage = token
+            ? 'Tu sesión ha expirado. Por favor inicia sesión nuevamente'
+            : data.message || 'No autorizado. Por favor inicia sesión nuevamente';
           break;
         case 403:
           errorMessage = 'Acceso denegado';
@@ -81,15 +110,38 @@ export const fetchApi = async (endpoint: string, options: RequestInit = {}) => {
   }
 };
 
+// Renovación del token de sesión contra el backend
+sessionManager.setRefreshHandler(async (refreshToken, token) => {
+  const data = await fetchApi('/auth/refresh', {
+    method: 'POST',
+    skipAuth: true,
+    headers: { 'x-auth-token': token },
+    body: JSON.stringify({ refreshToken }),
+  });
+  
+  if (!data?.token) {
+    throw createApiError('El servidor no devolvió un token nuevo');
+  }
+  
+  return data as SessionPayload;
+});
+
 // Servicios de autenticación
 export const authService = {
   // Registro de usuario
   register: async (username: string, password: string) => {
     try {
-      return await fetchApi('/auth/register', {
+      const data = await fetchApi('/auth/register', {
         method: 'POST',
+        skipAuth: true,
         body: JSON.stringify({ username, password }),
       });
+      
+      if (data?.token) {
+        await sessionManager.start(data, data.username || username);
+      }
+      
+      return data;
     } catch (error) {
       console.error('Error en el registro:', error);
       throw error;
@@ -99,27 +151,100 @@ export const authService = {
   // Inicio de sesión
   login: async (username: string, password: string) => {
     try {
-      return await fetchApi('/auth/login', {
+      const data = await fetchApi('/auth/login', {
         method: 'POST',
+        skipAuth: true,
         body: JSON.stringify({ username, password }),
       });
+      
+      if (data?.token) {
+        await sessionManager.start(data, data.username || username);
+      }
+      
+      return data;
     } catch (error) {
       console.error('Error en el login:', error);
       throw error;
     }
   },
   
-  // Obtener perfil del usuario
-  getProfile: async (token: string) => {
+  // Obtener perfil del usuario (usa el token de la sesión si no se indica otro)
+  getProfile: async (token?: string) => {
     try {
       return await fetchApi('/auth/profile', {
-        headers: {
-          'x-auth-token': token
-        }
+        headers: token ? { 'x-auth-token': token } : undefined
       });
     } catch (error) {
       console.error('Error al obtener perfil:', error);
       throw error;
     }
+  },
+  
+  // Cerrar sesión
+  logout: async () => {
+    await sessionManager.end();
+  }
+};
+
+// Documento sincronizable tal como lo guarda el backend
+export interface RemoteSyncDocument<T = any> {
+  data: T;
+  meta: Record<string, number>;
+  revision: number;
+}
+
+// Servicios de la organización (nombre, áreas y colaboradores)
+export const organizationService = {
+  // Obtener la organización guardada en el servidor
+  get: async (): Promise<RemoteSyncDocument> => {
+    try {
+      return await fetchApi('/organization');
+    } catch (error) {
+      console.error('Error al obtener la organización:', error);
+      throw error;
+    }
+  },
+  
+  // Guardar la organización. Falla con 409 si `baseRevision` no es la última
+  put: async (document: Omit<RemoteSyncDocument, 'revision'>, baseRevision: number): Promise<{ revision: number }> => {
+    try {
+      return await fetchApi('/organization', {
+        method: 'PUT',
+        body: JSON.stringify({ ...document, baseRevision }),
+      });
+    } catch (error) {
+      console.error('Error al guardar la organización:', error);
+      throw error;
+    }
+  }
+};
+
+// Servicios de actividades por colaborador
+export const activityService = {
+  // Obtener las actividades de un colaborador
+  getByCollaborator: async (collaboratorId: string): Promise<RemoteSyncDocument> => {
+    try {
+      return await fetchApi(`/activities/${encodeURIComponent(collaboratorId)}`);
+    } catch (error) {
+      console.error('Error al obtener actividades:', error);
+      throw error;
+    }
+  },
+  
+  // Guardar las actividades de un colaborador. Falla con 409 si `baseRevision` no es la última
+  putByCollaborator: async (
+    collaboratorId: string,
+    document: Omit<RemoteSyncDocument, 'revision'>,
+    baseRevision: number
+  ): Promise<{ revision: number }> => {
+    try {
+      return await fetchApi(`/activities/${encodeURIComponent(collaboratorId)}`, {
+        method: 'PUT',
+        body: JSON.stringify({ ...document, baseRevision }),
+      });
+    } catch (error) {
+      console.error('Error al guardar actividades:', error);
+      throw error;
+    }
   }
-}; 
\ No newline at end of file
+};
\ No newline at end of file
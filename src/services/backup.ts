@@ -0,0 +1,304 @@
+import {
+  organizationRepository,
+  areaRepository,
+  categoryRepository,
+  categoryCorrectionRepository,
+  collaboratorRepository,
+  activityRepository,
+  workflowRepository,
+  sanitizeCollaborators,
+  Collaborator,
+  CURRENT_SCHEMA_VERSION,
+  getSchemaVersion
+} from '../repositories';
+import {
+  Activity,
+  Area,
+  CategoryCorrection,
+  CategoryDefinition,
+  parseActivities,
+  parseAreas,
+  parseCategories,
+  parseCategoryCorrections,
+  parseWorkflowMessages,
+  parseWorkflowConversation,
+  createWorkflowConversation,
+  forkWorkflowBranch,
+  markFinalWorkflowBranch,
+  WorkflowConversation
+} from '../models';
+import { ConversationSummary, parseConversationSummary } from './llm';
+import { WorkflowMessage } from './openRouterService';
+import { syncEngine } from './sync';
+
+// Identificador y versión del formato de la copia de seguridad
+export const BACKUP_FORMAT = 'gamg-organization-backup';
+export const BACKUP_FORMAT_VERSION = 1;
+
+/**
+ * Copia completa de la organización del usuario en un único JSON
+ */
+export interface OrganizationBackup {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  schemaVersion: number;
+  exportedAt: string;
+  organization: {
+    name: string;
+    areas: Area[];
+    // Las copias anteriores a las categorías propias no las incluyen
+    categories?: CategoryDefinition[];
+    // Correcciones de los usuarios a la categorización; tampoco están en las copias anteriores
+    categoryCorrections?: CategoryCorrection[];
+    collaborators: Collaborator[];
+  };
+  // Actividades por ID de colaborador
+  activities: Record<string, Activity[]>;
+  // URL y conversación de flujo por ID de actividad
+  workflows: Record<string, { url?: string; conversation?: WorkflowConversation; summary?: ConversationSummary }>;
+}
+
+interface CountChange {
+  current: number;
+  incoming: number;
+}
+
+/**
+ * Resumen de lo que se sobrescribirá al restaurar una copia
+ */
+export interface RestorePreview {
+  exportedAt: string;
+  organizationName: { current: string; incoming: string };
+  areas: CountChange;
+  collaborators: CountChange;
+  activities: CountChange;
+  workflows: CountChange;
+  // Colaboradores locales que no están en la copia y se perderán
+  collaboratorsRemoved: string[];
+}
+
+const isRecord = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const countActivities = (activities: Record<string, Activity[]>): number =>
+  Object.values(activities).reduce((total, list) => total + list.length, 0);
+
+/**
+ * Exporta y restaura toda la organización para moverla entre dispositivos
+ * o volver a un estado anterior
+ */
+export class BackupService {
+  /**
+   * Reúne todos los datos de la organización del usuario actual
+   */
+  async create(): Promise<OrganizationBackup> {
+    const collaborators = await collaboratorRepository.getAll();
+
+    // Incluir también actividades de colaboradores que ya no existen para no perder nada
+    const collaboratorIds = new Set([
+      ...collaborators.map(c => c.id),
+      ...(await activityRepository.getCollaboratorIds())
+    ]);
+    const activities: Record<string, Activity[]> = {};
+    for (const id of collaboratorIds) {
+      const list = await activityRepository.getByCollaborator(id);
+      if (list.length > 0) {
+        activities[id] = list;
+      }
+    }
+
+    const workflows: OrganizationBackup['workflows'] = {};
+    for (const activityId of await workflowRepository.getActivityIds()) {
+      const url = await workflowRepository.getUrl(activityId);
+      const conversation = await workflowRepository.getConversation(activityId);
+      const summary = await workflowRepository.getSummary(activityId);
+      workflows[activityId] = {
+        ...(url ? { url } : {}),
+        ...(conversation ? { conversation } : {}),
+        ...(summary ? { summary } : {})
+      };
+    }
+
+    return {
+      format: BACKUP_FORMAT,
+      version: BACKUP_FORMAT_VERSION,
+      schemaVersion: await getSchemaVersion(),
+      exportedAt: new Date().toISOString(),
+      organization: {
+        name: (await organizationRepository.getName()) || '',
+        areas: await areaRepository.getAll(),
+        categories: await categoryRepository.getAll(),
+        categoryCorrections: await categoryCorrectionRepository.getAll(),
+        collaborators
+      },
+      activities,
+      workflows
+    };
+  }
+
+  async export(): Promise<string> {
+    return JSON.stringify(await this.create(), null, 2);
+  }
+
+  /**
+   * Valida el texto de una copia de seguridad
+   * @throws Error con un mensaje para el usuario si no es válida
+   */
+  parse(text: string): OrganizationBackup {
+    let value: unknown;
+    try {
+      value = JSON.parse(text);
+    } catch (error) {
+      throw new Error('El texto no es un JSON válido');
+    }
+
+    if (!isRecord(value) || value.format !== BACKUP_FORMAT) {
+      throw new Error('El JSON no es una copia de seguridad de la organización');
+    }
+    if (typeof value.version !== 'number' || value.version > BACKUP_FORMAT_VERSION) {
+      throw new Error('La copia se creó con una versión más reciente de la aplicación');
+    }
+    if (typeof value.schemaVersion === 'number' && value.schemaVersion > CURRENT_SCHEMA_VERSION) {
+      throw new Error('La copia usa un formato de datos más reciente que el de esta aplicación');
+    }
+
+    const organization = isRecord(value.organization) ? value.organization : {};
+
+    const activities: Record<string, Activity[]> = {};
+    if (isRecord(value.activities)) {
+      Object.entries(value.activities).forEach(([collaboratorId, list]) => {
+        activities[collaboratorId] = parseActivities(list);
+      });
+    }
+
+    // Mensajes de flujo de cada actividad, para convertir las conversaciones de copias anteriores
+    const activityMessages = new Map<string, WorkflowMessage[]>();
+    Object.values(activities).forEach(list => list.forEach(activity => {
+      activityMessages.set(activity.id, activity.workflowMessages || []);
+    }));
+
+    const workflows: OrganizationBackup['workflows'] = {};
+    if (isRecord(value.workflows)) {
+      Object.entries(value.workflows).forEach(([activityId, workflow]) => {
+        if (!isRecord(workflow)) return;
+        // Las copias anteriores guardaban solo la conversación completa en `backup`.
+        // Como en la migración 4, lo que tenía la actividad pasa a ser la rama final
+        const backup = parseWorkflowMessages(workflow.backup);
+        const current = activityMessages.get(activityId) || [];
+        let legacy = backup && backup.length > 0 ? createWorkflowConversation(backup) : null;
+        if (legacy && current.length > 0) {
+          const fork = forkWorkflowBranch(legacy, 0, current);
+          legacy = markFinalWorkflowBranch(fork.conversation, fork.branchId);
+        }
+        const conversation = parseWorkflowConversation(workflow.conversation) || legacy;
+        const summary = parseConversationSummary(workflow.summary);
+        workflows[activityId] = {
+          ...(typeof workflow.url === 'string' && workflow.url ? { url: workflow.url } : {}),
+          ...(conversation ? { conversation } : {}),
+          ...(summary ? { summary } : {})
+        };
+      });
+    }
+
+    return {
+      format: BACKUP_FORMAT,
+      version: value.version,
+      schemaVersion: typeof value.schemaVersion === 'number' ? value.schemaVersion : CURRENT_SCHEMA_VERSION,
+      exportedAt: typeof value.exportedAt === 'string' ? value.exportedAt : '',
+      organization: {
+        name: typeof organization.name === 'string' ? organization.name : '',
+        areas: parseAreas(organization.areas),
+        ...(Array.isArray(organization.categories) ? { categories: parseCategories(organization.categories) } : {}),
+        ...(Array.isArray(organization.categoryCorrections)
+          ? { categoryCorrections: parseCategoryCorrections(organization.categoryCorrections) }
+          : {}),
+        collaborators: sanitizeCollaborators(organization.collaborators)
+      },
+      activities,
+      workflows
+    };
+  }
+
+  /**
+   * Compara la copia con los datos actuales sin modificar nada
+   */
+  async preview(backup: OrganizationBackup): Promise<RestorePreview> {
+    const current = await this.create();
+    const incomingIds = new Set(backup.organization.collaborators.map(c => c.id));
+
+    return {
+      exportedAt: backup.exportedAt,
+      organizationName: {
+        current: current.organization.name,
+        incoming: backup.organization.name
+      },
+      areas: {
+        current: current.organization.areas.length,
+        incoming: backup.organization.areas.length
+      },
+      collaborators: {
+        current: current.organization.collaborators.length,
+        incoming: backup.organization.collaborators.length
+      },
+      activities: {
+        current: countActivities(current.activities),
+        incoming: countActivities(backup.activities)
+      },
+      workflows: {
+        current: Object.keys(current.workflows).length,
+        incoming: Object.keys(backup.workflows).length
+      },
+      collaboratorsRemoved: current.organization.collaborators
+        .filter(c => !incomingIds.has(c.id))
+        .map(c => c.name || c.id)
+    };
+  }
+
+  /**
+   * Sustituye todos los datos de la organización por los de la copia
+   */
+  async restore(backup: OrganizationBackup): Promise<void> {
+    // Borrar primero lo que no esté en la copia para no dejar datos huérfanos
+    for (const collaboratorId of await activityRepository.getCollaboratorIds()) {
+      if (!backup.activities[collaboratorId]) {
+        await activityRepository.removeForCollaborator(collaboratorId);
+      }
+    }
+    for (const activityId of await workflowRepository.getActivityIds()) {
+      await workflowRepository.remove(activityId);
+    }
+
+    await organizationRepository.saveName(backup.organization.name);
+    await areaRepository.saveAll(backup.organization.areas);
+    // Sin categorías en la copia se vuelve a las categorías por defecto
+    await categoryRepository.saveAll(backup.organization.categories || []);
+    await categoryCorrectionRepository.saveAll(backup.organization.categoryCorrections || []);
+    await collaboratorRepository.saveAll(backup.organization.collaborators);
+
+    for (const [collaboratorId, activities] of Object.entries(backup.activities)) {
+      await activityRepository.saveForCollaborator(collaboratorId, activities);
+    }
+
+    for (const [activityId, workflow] of Object.entries(backup.workflows)) {
+      if (workflow.url) {
+        await workflowRepository.saveUrl(activityId, workflow.url);
+      }
+      if (workflow.conversation) {
+        await workflowRepository.saveConversation(activityId, workflow.conversation);
+      }
+      if (workflow.summary) {
+        await workflowRepository.saveSummary(activityId, workflow.summary);
+      }
+    }
+
+    // Subir el estado restaurado al servidor
+    await syncEngine.markDirty('organization');
+    for (const collaboratorId of Object.keys(backup.activities)) {
+      await syncEngine.markDirty('activities', collaboratorId);
+    }
+
+    console.log(`✅ Copia de seguridad del ${backup.exportedAt} restaurada`);
+  }
+}
+
+export const backupService = new BackupService();
@@ -0,0 +1,508 @@
+import { userStorage } from './userStorage';
+import { syncEngine } from './sync';
+import { suggestCategories } from './openRouterService';
+import { isRateLimitError, RateLimitExhaustedError } from './llm';
+import {
+  activityRepository,
+  categoryCorrectionRepository,
+  categoryRepository,
+  collaboratorRepository
+} from '../repositories';
+import { Activity, CategoryDefinition, CategorySuggestion, parseCategorySuggestions } from '../models';
+
+const JOB_KEY = 'bulkCategorizationJob';
+
+// Espera antes de reanudar tras un rate limit cuando no se sabe cuándo se liberará una key
+const RATE_LIMIT_PAUSE_MS = 60 * 1000;
+
+// Por qué entra una actividad en el trabajo
+export type BulkCategorizationReason = 'uncategorized' | 'stale';
+
+export type BulkItemStatus = 'pending' | 'suggested' | 'failed' | 'accepted' | 'rejected';
+
+// running: procesando · waiting: esperando a que pase un rate limit ·
+// paused: detenido por el usuario o al cerrar la aplicación · completed: sin pendientes
+export type BulkJobStatus = 'running' | 'waiting' | 'paused' | 'completed';
+
+export interface BulkCategorizationItem {
+  activityId: string;
+  collaboratorId: string;
+  collaboratorName: string;
+  activityName: string;
+  reason: BulkCategorizationReason;
+  status: BulkItemStatus;
+  // Categorías de la actividad cuando se creó el trabajo
+  previousCategories: string[];
+  suggestions?: CategorySuggestion[];
+  error?: string;
+}
+
+export interface BulkCategorizationJob {
+  id: string;
+  status: BulkJobStatus;
+  startedAt: string;
+  finishedAt?: string;
+  // Hasta cuándo espera por un rate limit (solo en `waiting`)
+  resumeAt?: number;
+  items: BulkCategorizationItem[];
+}
+
+export interface BulkCategorizationProgress {
+  total: number;
+  processed: number;
+  pending: number;
+  suggested: number;
+  failed: number;
+  accepted: number;
+  rejected: number;
+}
+
+type JobListener = (job: BulkCategorizationJob | null) => void;
+
+const ITEM_STATUSES: BulkItemStatus[] = ['pending', 'suggested', 'failed', 'accepted', 'rejected'];
+const JOB_STATUSES: BulkJobStatus[] = ['running', 'waiting', 'paused', 'completed'];
+
+const isRecord = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const parseItem = (value: unknown): BulkCategorizationItem | null => {
+  if (!isRecord(value) || typeof value.activityId !== 'string' || typeof value.collaboratorId !== 'string') {
+    return null;
+  }
+
+  return {
+    activityId: value.activityId,
+    collaboratorId: value.collaboratorId,
+    collaboratorName: typeof value.collaboratorName === 'string' ? value.collaboratorName : '',
+    activityName: typeof value.activityName === 'string' ? value.activityName : '',
+    reason: value.reason === 'stale' ? 'stale' : 'uncategorized',
+    status: ITEM_STATUSES.includes(value.status) ? value.status : 'pending',
+    previousCategories: Array.isArray(value.previousCategories)
+      ? value.previousCategories.filter((category: unknown): category is string => typeof category === 'string')
+      : [],
+    suggestions: parseCategorySuggestions(value.suggestions),
+    error: typeof value.error === 'string' ? value.error : undefined
+  };
+};
+
+const parseJob = (value: unknown): BulkCategorizationJob | null => {
+  if (!isRecord(value) || typeof value.id !== 'string' || !Array.isArray(value.items)) {
+    return null;
+  }
+
+  return {
+    id: value.id,
+    status: JOB_STATUSES.includes(value.status) ? value.status : 'paused',
+    startedAt: typeof value.startedAt === 'string' ? value.startedAt : new Date().toISOString(),
+    finishedAt: typeof value.finishedAt === 'string' ? value.finishedAt : undefined,
+    resumeAt: typeof value.resumeAt === 'number' ? value.resumeAt : undefined,
+    items: value.items.map(parseItem).filter((item: BulkCategorizationItem | null): item is BulkCategorizationItem => item !== null)
+  };
+};
+
+/**
+ * Motivo por el que una actividad necesita categorizarse, o null si está al día.
+ * Está desfasada si tiene categorías que la organización eliminó o si se
+ * categorizó antes del último cambio de las categorías de la organización
+ */
+export const getCategorizationReason = (
+  activity: Activity,
+  definitions: CategoryDefinition[],
+  categoriesUpdatedAt: string | null
+): BulkCategorizationReason | null => {
+  if (!activity.name.trim()) {
+    return null;
+  }
+  if (activity.categories.length === 0) {
+    return 'uncategorized';
+  }
+  if (activity.categories.some(id => !definitions.some(definition => definition.id === id))) {
+    return 'stale';
+  }
+  if (categoriesUpdatedAt && activity.categorizedAt && activity.categorizedAt < categoriesUpdatedAt) {
+    return 'stale';
+  }
+  return null;
+};
+
+export const getBulkProgress = (job: BulkCategorizationJob): BulkCategorizationProgress => {
+  const count = (status: BulkItemStatus) => job.items.filter(item => item.status === status).length;
+  const pending = count('pending');
+  return {
+    total: job.items.length,
+    processed: job.items.length - pending,
+    pending,
+    suggested: count('suggested'),
+    failed: count('failed'),
+    accepted: count('accepted'),
+    rejected: count('rejected')
+  };
+};
+
+/**
+ * Categoriza de una vez todas las actividades sin categorías o desfasadas de
+ * todos los colaboradores. Las peticiones pasan por el planificador de
+ * OpenRouter, de una en una para dejar hueco a las de la interfaz; ante un
+ * rate limit el trabajo espera en lugar de usar el servicio de respaldo.
+ * El estado se guarda tras cada actividad, así que se puede reanudar tras
+ * cerrar la aplicación. Las propuestas no se aplican hasta que se aceptan
+ */
+export class BulkCategorizationService {
+  private job: BulkCategorizationJob | null = null;
+  private listeners: JobListener[] = [];
+  private runPromise: Promise<void> | null = null;
+  private resumeTimer: ReturnType<typeof setTimeout> | null = null;
+  private pauseRequested = false;
+
+  /**
+   * Carga el trabajo guardado. Si la aplicación se cerró mientras se
+   * ejecutaba, queda en pausa hasta que el usuario lo reanude
+   */
+  async load(): Promise<void> {
+    try {
+      const stored = await userStorage.getItem(JOB_KEY);
+      this.job = stored ? parseJob(JSON.parse(stored)) : null;
+    } catch (error) {
+      console.error('Error al cargar la categorización masiva:', error);
+      this.job = null;
+    }
+
+    if (this.job && (this.job.status === 'running' || this.job.status === 'waiting')) {
+      this.job = { ...this.job, status: 'paused', resumeAt: undefined };
+      await this.persist();
+    }
+    this.notify();
+  }
+
+  getJob(): BulkCategorizationJob | null {
+    return this.job;
+  }
+
+  isRunning(): boolean {
+    return this.runPromise !== null;
+  }
+
+  subscribe(listener: JobListener): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  }
+
+  /**
+   * Cuenta las actividades que entrarían en un trabajo nuevo
+   */
+  async countCandidates(): Promise<Record<BulkCategorizationReason, number>> {
+    const candidates = await this.findCandidates();
+    return {
+      uncategorized: candidates.filter(item => item.reason === 'uncategorized').length,
+      stale: candidates.filter(item => item.reason === 'stale').length
+    };
+  }
+
+  /**
+   * Crea un trabajo nuevo con las actividades pendientes y lo empieza.
+   * Sustituye al anterior, incluidas sus propuestas sin revisar
+   * @returns número de actividades del trabajo
+   */
+  async start(): Promise<number> {
+    if (this.runPromise) {
+      throw new Error('Ya hay una categorización masiva en curso');
+    }
+
+    this.clearResumeTimer();
+    const items = await this.findCandidates();
+    if (items.length === 0) {
+      return 0;
+    }
+
+    this.job = {
+      id: `bulk-${Date.now().toString(36)}`,
+      status: 'running',
+      startedAt: new Date().toISOString(),
+      items
+    };
+    await this.persist();
+    this.notify();
+    console.log(`🗂️ Categorización masiva iniciada: ${items.length} actividades`);
+
+    this.run();
+    return items.length;
+  }
+
+  /**
+   * Continúa con las actividades pendientes
+   */
+  resume(): void {
+    if (!this.job || this.runPromise) return;
+    this.clearResumeTimer();
+    this.run();
+  }
+
+  /**
+   * Detiene el trabajo tras la actividad en curso
+   */
+  async pause(): Promise<void> {
+    this.clearResumeTimer();
+    if (this.runPromise) {
+      this.pauseRequested = true;
+      await this.runPromise;
+      return;
+    }
+    if (this.job && this.job.status === 'waiting') {
+      await this.update({ status: 'paused', resumeAt: undefined });
+    }
+  }
+
+  /**
+   * Vuelve a intentar las actividades que fallaron
+   */
+  async retryFailed(): Promise<void> {
+    if (!this.job || this.runPromise) return;
+    await this.update({
+      items: this.job.items.map(item =>
+        item.status === 'failed' ? { ...item, status: 'pending', error: undefined } : item
+      )
+    });
+    this.resume();
+  }
+
+  /**
+   * Aplica las categorías propuestas a las actividades indicadas
+   */
+  async accept(activityIds: string[]): Promise<void> {
+    const now = new Date().toISOString();
+    await this.review(activityIds, (item, activity) => ({
+      ...activity,
+      categories: (item.suggestions || []).map(suggestion => suggestion.category),
+      categorySuggestions: item.suggestions,
+      categorizedAt: now
+    }), 'accepted');
+  }
+
+  /**
+   * Descarta las propuestas. Si la actividad ya tenía categorías, se
+   * conservan, se dan por revisadas y se guarda la decisión como corrección
+   */
+  async reject(activityIds: string[]): Promise<void> {
+    const now = new Date().toISOString();
+    await this.review(activityIds, (item, activity) => {
+      if (activity.categories.length === 0) {
+        return null;
+      }
+      return { ...activity, categorySuggestions: item.suggestions, categorizedAt: now };
+    }, 'rejected');
+  }
+
+  /**
+   * Olvida el trabajo y sus propuestas sin revisar
+   */
+  async discard(): Promise<void> {
+    await this.pause();
+    this.job = null;
+    await userStorage.removeItem(JOB_KEY);
+    this.notify();
+  }
+
+  /**
+   * Deja de procesar sin tocar lo guardado (al cerrar sesión)
+   */
+  stop(): void {
+    this.clearResumeTimer();
+    if (this.runPromise) {
+      this.pauseRequested = true;
+    }
+    this.job = null;
+    this.notify();
+  }
+
+  private async findCandidates(): Promise<BulkCategorizationItem[]> {
+    const [collaborators, definitions, categoriesUpdatedAt] = await Promise.all([
+      collaboratorRepository.getAll(),
+      categoryRepository.getAll(),
+      categoryRepository.getUpdatedAt()
+    ]);
+    const activitiesByCollaborator = await activityRepository.getByCollaborators(collaborators.map(c => c.id));
+
+    return collaborators.flatMap(collaborator =>
+      (activitiesByCollaborator[collaborator.id] || []).flatMap(activity => {
+        const reason = getCategorizationReason(activity, definitions, categoriesUpdatedAt);
+        return reason
+          ? [{
+              activityId: activity.id,
+              collaboratorId: collaborator.id,
+              collaboratorName: collaborator.name,
+              activityName: activity.name,
+              reason,
+              status: 'pending' as BulkItemStatus,
+              previousCategories: activity.categories
+            }]
+          : [];
+      })
+    );
+  }
+
+  private run(): void {
+    this.pauseRequested = false;
+    this.runPromise = this.processPending()
+      .catch(error => console.error('Error en la categorización masiva:', error))
+      .finally(() => {
+        this.runPromise = null;
+      });
+  }
+
+  private async processPending(): Promise<void> {
+    const jobId = this.job?.id;
+    // Mientras se espera al modelo el trabajo puede cancelarse o sustituirse por otro
+    const isCurrentJob = () => !!this.job && this.job.id === jobId;
+
+    await this.update({ status: 'running', resumeAt: undefined });
+    const definitions = await categoryRepository.getAll();
+
+    while (this.job && this.job.id === jobId) {
+      if (this.pauseRequested) {
+        await this.update({ status: 'paused' });
+        console.log('⏸️ Categorización masiva en pausa');
+        return;
+      }
+
+      const item = this.job.items.find(candidate => candidate.status === 'pending');
+      if (!item) {
+        await this.update({ status: 'completed', finishedAt: new Date().toISOString() });
+        console.log('✅ Categorización masiva completada:', getBulkProgress(this.job));
+        return;
+      }
+
+      const found = await activityRepository.findById(item.activityId);
+      if (!isCurrentJob()) return;
+      if (!found) {
+        await this.updateItem(item.activityId, { status: 'failed', error: 'La actividad ya no existe' });
+        continue;
+      }
+
+      try {
+        const suggestions = await suggestCategories(
+          found.activity.name,
+          found.activity.description,
+          { activityId: item.activityId, noFallback: true },
+          definitions
+        );
+        if (!isCurrentJob()) return;
+        await this.updateItem(item.activityId, { status: 'suggested', suggestions, error: undefined });
+      } catch (error: any) {
+        if (!isCurrentJob()) return;
+        if (isRateLimitError(error)) {
+          // La actividad sigue pendiente; se reintenta cuando haya una key libre
+          const retryAt = error instanceof RateLimitExhaustedError && error.retryAt
+            ? error.retryAt
+            : Date.now() + RATE_LIMIT_PAUSE_MS;
+          await this.update({ status: 'waiting', resumeAt: retryAt });
+          console.log(`⏳ Categorización masiva en espera hasta las ${new Date(retryAt).toLocaleTimeString()}`);
+          this.clearResumeTimer();
+          this.resumeTimer = setTimeout(() => {
+            this.resumeTimer = null;
+            this.resume();
+          }, Math.max(0, retryAt - Date.now()));
+          return;
+        }
+
+        await this.updateItem(item.activityId, { status: 'failed', error: error?.message || String(error) });
+      }
+    }
+  }
+
+  /**
+   * Marca las actividades como revisadas y guarda los cambios, una vez por colaborador
+   * @param apply actividad actualizada, o null para no modificarla
+   */
+  private async review(
+    activityIds: string[],
+    apply: (item: BulkCategorizationItem, activity: Activity) => Activity | null,
+    status: 'accepted' | 'rejected'
+  ): Promise<void> {
+    if (!this.job) return;
+
+    const items = this.job.items.filter(item => activityIds.includes(item.activityId) && item.status === 'suggested');
+    const reviewedIds = new Set(items.map(item => item.activityId));
+    const collaboratorIds = [...new Set(items.map(item => item.collaboratorId))];
+    let correctionsChanged = false;
+
+    for (const collaboratorId of collaboratorIds) {
+      const activities = await activityRepository.getByCollaborator(collaboratorId);
+      let changed = false;
+
+      for (const item of items.filter(candidate => candidate.collaboratorId === collaboratorId)) {
+        const index = activities.findIndex(activity => activity.id === item.activityId);
+        if (index === -1) continue;
+        const updated = apply(item, activities[index]);
+        if (!updated) continue;
+
+        // Quedarse con las categorías que ya tenía es una corrección de la propuesta
+        if (status === 'rejected') {
+          correctionsChanged = await categoryCorrectionRepository.record({
+            activityId: updated.id,
+            activityName: updated.name,
+            activityDescription: updated.description,
+            suggested: (item.suggestions || []).map(suggestion => suggestion.category),
+            chosen: updated.categories
+          }) || correctionsChanged;
+        }
+        activities[index] = updated;
+        changed = true;
+      }
+
+      if (changed) {
+        await activityRepository.saveForCollaborator(collaboratorId, activities);
+        syncEngine.markDirty('activities', collaboratorId);
+      }
+    }
+
+    // Las correcciones se sincronizan con el documento de la organización
+    if (correctionsChanged) {
+      syncEngine.markDirty('organization');
+    }
+
+    await this.update({
+      items: this.job.items.map(item => (reviewedIds.has(item.activityId) ? { ...item, status } : item))
+    });
+  }
+
+  private async updateItem(activityId: string, fields: Partial<BulkCategorizationItem>): Promise<void> {
+    if (!this.job) return;
+    await this.update({
+      items: this.job.items.map(item => (item.activityId === activityId ? { ...item, ...fields } : item))
+    });
+  }
+
+  private async update(fields: Partial<BulkCategorizationJob>): Promise<void> {
+    if (!this.job) return;
+    this.job = { ...this.job, ...fields };
+    await this.persist();
+    this.notify();
+  }
+
+  private async persist(): Promise<void> {
+    if (this.job) {
+      await userStorage.setItem(JOB_KEY, JSON.stringify(this.job));
+    }
+  }
+
+  private clearResumeTimer(): void {
+    if (this.resumeTimer) {
+      clearTimeout(this.resumeTimer);
+      this.resumeTimer = null;
+    }
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => {
+      try {
+        listener(this.job);
+      } catch (error) {
+        console.error('Error en un oyente de la categorización masiva:', error);
+      }
+    });
+  }
+}
+
+export const bulkCategorization = new BulkCategorizationService();
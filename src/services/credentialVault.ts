@@ -0,0 +1,161 @@
+import * as SecureStore from 'expo-secure-store';
+import { userStorage } from './userStorage';
+import { setApiKeys, validateOpenRouterApiKey } from './openRouterService';
+
+// Lista de credenciales (sin el secreto) en el almacenamiento del usuario
+const CREDENTIALS_KEY = 'llmCredentials';
+// Prefijo del secreto de cada credencial en el almacenamiento cifrado del sistema
+const SECRET_KEY_PREFIX = 'llmCredential_';
+
+export type CredentialProvider = 'openrouter';
+
+/**
+ * Credencial de un proveedor de LLM. El secreto nunca se guarda aquí,
+ * solo en el almacenamiento cifrado (Keychain en iOS, Keystore en Android)
+ */
+export interface StoredCredential {
+  id: string;
+  label: string;
+  provider: CredentialProvider;
+  // Últimos caracteres de la key para reconocerla en pantalla
+  hint: string;
+  createdAt: string;
+  lastTestedAt?: string;
+  lastTestValid?: boolean;
+  lastTestMessage?: string;
+}
+
+const maskKey = (key: string): string => `…${key.slice(-4)}`;
+
+/**
+ * Gestiona las API keys que añade el usuario: las guarda cifradas en el
+ * dispositivo y las carga en la rotación de OpenRouter al iniciar sesión
+ */
+export class CredentialVault {
+  async list(): Promise<StoredCredential[]> {
+    const stored = await userStorage.getItem(CREDENTIALS_KEY);
+    if (!stored) return [];
+
+    try {
+      const parsed = JSON.parse(stored);
+      return Array.isArray(parsed) ? parsed : [];
+    } catch (error) {
+      console.warn('⚠️ Lista de credenciales corrupta, se ignorará');
+      return [];
+    }
+  }
+
+  /**
+   * Guarda una key nueva y la añade a la rotación
+   * @throws Error si el dispositivo no tiene almacenamiento cifrado o la key ya existe
+   */
+  async add(label: string, key: string, provider: CredentialProvider = 'openrouter'): Promise<StoredCredential> {
+    const trimmedKey = key.trim();
+    if (!trimmedKey) {
+      throw new Error('La API key no puede estar vacía');
+    }
+    if (!(await SecureStore.isAvailableAsync())) {
+      throw new Error('Este dispositivo no ofrece almacenamiento cifrado para guardar la key');
+    }
+
+    const credentials = await this.list();
+    for (const credential of credentials) {
+      if ((await this.getSecret(credential.id)) === trimmedKey) {
+        throw new Error(`Esta API key ya está guardada como "${credential.label}"`);
+      }
+    }
+
+    const credential: StoredCredential = {
+      id: Date.now().toString(),
+      label: label.trim() || `Key ${credentials.length + 1}`,
+      provider,
+      hint: maskKey(trimmedKey),
+      createdAt: new Date().toISOString()
+    };
+
+    await SecureStore.setItemAsync(this.secretKey(credential.id), trimmedKey);
+    await this.save([...credentials, credential]);
+    await this.loadIntoRotation();
+
+    console.log(`🔑 Credencial "${credential.label}" guardada`);
+    return credential;
+  }
+
+  async remove(id: string): Promise<void> {
+    await SecureStore.deleteItemAsync(this.secretKey(id));
+    await this.save((await this.list()).filter(credential => credential.id !== id));
+    await this.loadIntoRotation();
+  }
+
+  /**
+   * Prueba la key contra el proveedor y guarda el resultado
+   */
+  async test(id: string): Promise<{ isValid: boolean; message: string }> {
+    const secret = await this.getSecret(id);
+    const result = secret
+      ? await validateOpenRouterApiKey(secret)
+      : { isValid: false, message: 'No se encontró la key en el almacenamiento cifrado' };
+
+    const credentials = (await this.list()).map(credential =>
+      credential.id === id
+        ? {
+            ...credential,
+            lastTestedAt: new Date().toISOString(),
+            lastTestValid: result.isValid,
+            lastTestMessage: result.message
+          }
+        : credential
+    );
+    await this.save(credentials);
+
+    return result;
+  }
+
+  /**
+   * Carga las keys del usuario actual en la rotación de OpenRouter
+   */
+  async loadIntoRotation(): Promise<void> {
+    try {
+      const keys: string[] = [];
+      for (const credential of await this.list()) {
+        const secret = await this.getSecret(credential.id);
+        if (secret) keys.push(secret);
+      }
+      setApiKeys(keys);
+    } catch (error) {
+      console.error('Error al cargar las credenciales:', error);
+    }
+  }
+
+  /**
+   * Quita las keys de la memoria al cerrar sesión
+   */
+  unload(): void {
+    setApiKeys([]);
+  }
+
+  /**
+   * Borra todas las keys del usuario actual del dispositivo
+   */
+  async clear(): Promise<void> {
+    for (const credential of await this.list()) {
+      await SecureStore.deleteItemAsync(this.secretKey(credential.id));
+    }
+    await userStorage.removeItem(CREDENTIALS_KEY);
+    this.unload();
+  }
+
+  private async getSecret(id: string): Promise<string | null> {
+    return SecureStore.getItemAsync(this.secretKey(id));
+  }
+
+  private async save(credentials: StoredCredential[]): Promise<void> {
+    await userStorage.setItem(CREDENTIALS_KEY, JSON.stringify(credentials));
+  }
+
+  private secretKey(id: string): string {
+    return `${SECRET_KEY_PREFIX}${id}`;
+  }
+}
+
+export const credentialVault = new CredentialVault();
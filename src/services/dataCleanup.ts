@@ -0,0 +1,118 @@
+import { activityRepository, collaboratorRepository, workflowRepository } from '../repositories';
+import { syncEngine } from './sync';
+
+/**
+ * Datos que dependen de un colaborador y se borran junto con él
+ */
+export interface CollaboratorDataSummary {
+  activityCount: number;
+  workflowCount: number;
+}
+
+/**
+ * Datos guardados que ya no pertenecen a ningún colaborador ni actividad
+ */
+export interface OrphanReport {
+  // Colaboradores borrados que aún tienen lista de actividades
+  collaboratorIds: string[];
+  activityCount: number;
+  // Actividades inexistentes que aún tienen URL o copia del flujo
+  workflowActivityIds: string[];
+  // Estados de sincronización de documentos de actividades que ya no existen
+  syncStateKeys: string[];
+}
+
+/**
+ * Elimina en cascada los datos de los colaboradores borrados y localiza
+ * los que quedaron huérfanos en versiones anteriores
+ */
+export class DataCleanupService {
+  /**
+   * Cuenta lo que se borrará junto con el colaborador
+   */
+  async describeCollaboratorData(collaboratorId: string): Promise<CollaboratorDataSummary> {
+    const activities = await activityRepository.getByCollaborator(collaboratorId);
+    const workflowIds = new Set(await workflowRepository.getActivityIds());
+
+    return {
+      activityCount: activities.length,
+      workflowCount: activities.filter(activity => workflowIds.has(activity.id)).length
+    };
+  }
+
+  /**
+   * Borra las actividades del colaborador y los flujos de trabajo de cada una
+   */
+  async deleteCollaboratorData(collaboratorId: string): Promise<void> {
+    const activities = await activityRepository.getByCollaborator(collaboratorId);
+
+    for (const activity of activities) {
+      await workflowRepository.remove(activity.id);
+    }
+    await activityRepository.removeForCollaborator(collaboratorId);
+    await syncEngine.forget('activities', collaboratorId);
+
+    console.log(`🧹 Datos del colaborador ${collaboratorId} eliminados (${activities.length} actividades)`);
+  }
+
+  /**
+   * Busca datos huérfanos sin borrar nada
+   */
+  async findOrphans(): Promise<OrphanReport> {
+    const collaboratorIds = new Set((await collaboratorRepository.getAll()).map(c => c.id));
+
+    const orphanCollaboratorIds: string[] = [];
+    const activityIds = new Set<string>();
+    let activityCount = 0;
+
+    for (const collaboratorId of await activityRepository.getCollaboratorIds()) {
+      const activities = await activityRepository.getByCollaborator(collaboratorId);
+      if (collaboratorIds.has(collaboratorId)) {
+        activities.forEach(activity => activityIds.add(activity.id));
+      } else {
+        orphanCollaboratorIds.push(collaboratorId);
+        activityCount += activities.length;
+      }
+    }
+
+    const workflowActivityIds = (await workflowRepository.getActivityIds()).filter(id => !activityIds.has(id));
+    const syncStateKeys = (await syncEngine.getTrackedActivityKeys()).filter(id => !collaboratorIds.has(id));
+
+    return {
+      collaboratorIds: orphanCollaboratorIds,
+      activityCount,
+      workflowActivityIds,
+      syncStateKeys
+    };
+  }
+
+  /**
+   * Borra los datos huérfanos encontrados por `findOrphans`
+   */
+  async purgeOrphans(report: OrphanReport): Promise<void> {
+    for (const collaboratorId of report.collaboratorIds) {
+      await activityRepository.removeForCollaborator(collaboratorId);
+    }
+    for (const activityId of report.workflowActivityIds) {
+      await workflowRepository.remove(activityId);
+    }
+    for (const key of report.syncStateKeys) {
+      await syncEngine.forget('activities', key);
+    }
+
+    console.log(
+      `🧹 Datos huérfanos eliminados: ${report.collaboratorIds.length} listas de actividades, ` +
+      `${report.workflowActivityIds.length} flujos de trabajo`
+    );
+  }
+}
+
+export const dataCleanupService = new DataCleanupService();
+
+/**
+ * Indica si el informe no encontró nada que borrar
+ */
+export const isOrphanReportEmpty = (report: OrphanReport): boolean =>
+  report.collaboratorIds.length === 0 &&
+  report.workflowActivityIds.length === 0 &&
+  report.syncStateKeys.length === 0;
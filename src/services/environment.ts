@@ -0,0 +1,181 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+// Claves de almacenamiento
+const PROFILE_KEY = 'apiEnvironmentProfile';
+const CUSTOM_URL_KEY = 'apiEnvironmentCustomUrl';
+
+// Tiempo máximo para la comprobación de salud del backend
+const HEALTH_CHECK_TIMEOUT_MS = 8000;
+
+export type EnvironmentProfileId = 'local' | 'staging' | 'production' | 'custom';
+
+export interface EnvironmentProfile {
+  id: EnvironmentProfileId;
+  label: string;
+  apiUrl: string;
+}
+
+export interface HealthCheckResult {
+  reachable: boolean;
+  latencyMs?: number;
+  message: string;
+}
+
+export interface EnvironmentSelection extends HealthCheckResult {
+  // true si la URL del backend cambió y la sesión actual ya no es válida
+  changed: boolean;
+}
+
+// Perfiles predefinidos. Staging y producción se configuran al compilar con
+// EXPO_PUBLIC_STAGING_API_URL y EXPO_PUBLIC_PRODUCTION_API_URL; si no se
+// indican, el perfil no se ofrece. El perfil `custom` toma la URL que indique el usuario
+export const ENVIRONMENT_PROFILES: EnvironmentProfile[] = [
+  { id: 'local', label: 'Local', apiUrl: 'http://localhost:5000/api' },
+  { id: 'staging', label: 'Staging', apiUrl: process.env.EXPO_PUBLIC_STAGING_API_URL || '' },
+  { id: 'production', label: 'Producción', apiUrl: process.env.EXPO_PUBLIC_PRODUCTION_API_URL || '' },
+  { id: 'custom', label: 'Personalizado', apiUrl: '' }
+];
+
+/**
+ * Perfiles que se pueden elegir: los predefinidos con URL configurada y el personalizado
+ */
+export const getAvailableProfiles = (): EnvironmentProfile[] =>
+  ENVIRONMENT_PROFILES.filter(profile => profile.id === 'custom' || !!profile.apiUrl);
+
+const DEFAULT_PROFILE: EnvironmentProfileId = 'local';
+
+/**
+ * Quita la barra final para poder concatenar endpoints con seguridad
+ */
+const normalizeUrl = (url: string): string => url.trim().replace(/\/+$/, '');
+
+/**
+ * Gestiona el backend al que apunta la aplicación, de forma que se pueda
+ * cambiar en tiempo de ejecución sin recompilar
+ */
+export class EnvironmentService {
+  private profileId: EnvironmentProfileId = DEFAULT_PROFILE;
+  private customUrl = '';
+
+  /**
+   * Carga el perfil guardado. Debe llamarse al iniciar la aplicación
+   */
+  async load(): Promise<void> {
+    try {
+      const [[, savedProfile], [, savedCustomUrl]] = await AsyncStorage.multiGet([PROFILE_KEY, CUSTOM_URL_KEY]);
+
+      if (savedProfile && getAvailableProfiles().some(p => p.id === savedProfile)) {
+        this.profileId = savedProfile as EnvironmentProfileId;
+      }
+      this.customUrl = savedCustomUrl || '';
+
+      // Un perfil personalizado sin URL no sirve: volver al predeterminado
+      if (this.profileId === 'custom' && !this.customUrl) {
+        this.profileId = DEFAULT_PROFILE;
+      }
+    } catch (error) {
+      console.error('Error al cargar el perfil de entorno:', error);
+    }
+  }
+
+  getProfileId(): EnvironmentProfileId {
+    return this.profileId;
+  }
+
+  getCustomUrl(): string {
+    return this.customUrl;
+  }
+
+  /**
+   * URL base del backend para el perfil activo
+   */
+  getApiUrl(): string {
+    return this.resolveUrl(this.profileId, this.customUrl);
+  }
+
+  resolveUrl(profileId: EnvironmentProfileId, customUrl: string = ''): string {
+    if (profileId === 'custom') {
+      return normalizeUrl(customUrl);
+    }
+    const profile = ENVIRONMENT_PROFILES.find(p => p.id === profileId);
+    return normalizeUrl(profile?.apiUrl || ENVIRONMENT_PROFILES[0].apiUrl);
+  }
+
+  /**
+   * Comprueba que el backend responde en `${apiUrl}/health`
+   */
+  async checkHealth(apiUrl: string): Promise<HealthCheckResult> {
+    if (!/^https?:\/\//i.test(apiUrl)) {
+      return { reachable: false, message: 'La URL debe comenzar con http:// o https://' };
+    }
+
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), HEALTH_CHECK_TIMEOUT_MS);
+    const startedAt = Date.now();
+
+    try {
+      const response = await fetch(`${normalizeUrl(apiUrl)}/health`, {
+        method: 'GET',
+        signal: controller.signal
+      });
+      const latencyMs = Date.now() - startedAt;
+
+      if (!response.ok) {
+        return {
+          reachable: false,
+          latencyMs,
+          message: `El servidor respondió con error HTTP ${response.status}`
+        };
+      }
+
+      return { reachable: true, latencyMs, message: `Servidor disponible (${latencyMs} ms)` };
+    } catch (error: any) {
+      if (error?.name === 'AbortError') {
+        return {
+          reachable: false,
+          message: `El servidor no respondió en ${HEALTH_CHECK_TIMEOUT_MS / 1000}s`
+        };
+      }
+      return { reachable: false, message: 'No se pudo conectar con el servidor' };
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+
+  /**
+   * Cambia de perfil tras comprobar que el backend es alcanzable
+   * @param force Si es true, cambia aunque la comprobación falle
+   */
+  async select(
+    profileId: EnvironmentProfileId,
+    customUrl: string = '',
+    force: boolean = false
+  ): Promise<EnvironmentSelection> {
+    if (!getAvailableProfiles().some(p => p.id === profileId)) {
+      return { reachable: false, changed: false, message: 'Este entorno no está configurado en esta versión' };
+    }
+
+    const previousUrl = this.getApiUrl();
+    const apiUrl = this.resolveUrl(profileId, customUrl);
+    const health = await this.checkHealth(apiUrl);
+
+    if (!health.reachable && !force) {
+      return { ...health, changed: false };
+    }
+
+    this.profileId = profileId;
+    if (profileId === 'custom') {
+      this.customUrl = normalizeUrl(customUrl);
+    }
+
+    await AsyncStorage.multiSet([
+      [PROFILE_KEY, this.profileId],
+      [CUSTOM_URL_KEY, this.customUrl]
+    ]);
+
+    console.log(`🌐 Backend cambiado a ${this.profileId}: ${apiUrl}`);
+    return { ...health, changed: apiUrl !== previousUrl };
+  }
+}
+
+export const environmentService = new EnvironmentService();
@@ -0,0 +1,51 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { PromptTemplateRegistry } from '../promptTemplates';
+
+const EDITED_TEXT = 'Nombre de la actividad: {{activityName}}';
+const OTHER_TEXT = 'Actividad: {{activityName}}\n{{activityDescription}}';
+
+describe('PromptTemplateRegistry', () => {
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+  });
+
+  it('numera cada edición sobre la versión por defecto', async () => {
+    const registry = new PromptTemplateRegistry();
+
+    await registry.override('categorizationUser', EDITED_TEXT);
+    expect(registry.getVersion('categorizationUser')).toBe('categorizationUser@1+custom.1');
+
+    await registry.override('categorizationUser', OTHER_TEXT);
+    expect(registry.getVersion('categorizationUser')).toBe('categorizationUser@1+custom.2');
+  });
+
+  it('no reutiliza una revisión después de restablecer la plantilla', async () => {
+    const registry = new PromptTemplateRegistry();
+
+    await registry.override('categorizationUser', EDITED_TEXT);
+    await registry.reset('categorizationUser');
+    expect(registry.getVersion('categorizationUser')).toBe('categorizationUser@1');
+
+    await registry.override('categorizationUser', OTHER_TEXT);
+    expect(registry.getVersion('categorizationUser')).toBe('categorizationUser@1+custom.2');
+  });
+
+  it('conserva la cuenta de revisiones al volver a cargar', async () => {
+    const registry = new PromptTemplateRegistry();
+    await registry.override('categorizationUser', EDITED_TEXT);
+    await registry.reset('categorizationUser');
+
+    const reloaded = new PromptTemplateRegistry();
+    await reloaded.load();
+    await reloaded.override('categorizationUser', OTHER_TEXT);
+
+    expect(reloaded.getVersion('categorizationUser')).toBe('categorizationUser@1+custom.2');
+  });
+
+  it('rechaza las ediciones que quitan variables obligatorias', async () => {
+    const registry = new PromptTemplateRegistry();
+
+    await expect(registry.override('categorizationUser', 'Sin variables')).rejects.toThrow('activityName');
+    expect(registry.getVersion('categorizationUser')).toBe('categorizationUser@1');
+  });
+});
@@ -0,0 +1,208 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+const CONTEXT_BUDGETS_KEY = 'llmContextBudgets';
+
+// Presupuesto de contexto de los modelos que no aparecen en la tabla
+export const DEFAULT_CONTEXT_TOKENS = 6000;
+
+// Límites del presupuesto configurable
+export const MIN_CONTEXT_TOKENS = 1000;
+export const MAX_CONTEXT_TOKENS = 1000000;
+
+// Presupuesto por defecto según el nombre del modelo. Es menor que la ventana
+// real de cada modelo para que las conversaciones largas no disparen el coste
+const MODEL_CONTEXT_TOKENS: { pattern: RegExp; tokens: number }[] = [
+  { pattern: /gpt-4o|gpt-4\.1|gpt-5|\bo[134]\b|o[134]-/i, tokens: 16000 },
+  { pattern: /claude/i, tokens: 16000 },
+  { pattern: /gemini/i, tokens: 16000 },
+  { pattern: /llama-3|mistral|mixtral|qwen|deepseek/i, tokens: 8000 }
+];
+
+// Mensajes más recientes que se envían siempre completos, aunque no quepan
+const MIN_RECENT_MESSAGES = 2;
+
+// Caracteres del último mensaje resumido que se guardan para reconocerlo
+const SUMMARY_ANCHOR_LENGTH = 120;
+
+/**
+ * Mensaje de una conversación con el modelo. Los fijados nunca se resumen
+ * ni se recortan del contexto
+ */
+export interface ConversationMessage {
+  role: 'user' | 'assistant';
+  content: string;
+  pinned?: boolean;
+}
+
+/**
+ * Resumen de los primeros mensajes de una conversación
+ */
+export interface ConversationSummary {
+  content: string;
+  // Mensajes del principio de la conversación que cubre el resumen
+  messageCount: number;
+  // Inicio del último mensaje resumido, para detectar que la conversación cambió
+  anchor: string;
+  updatedAt: string;
+}
+
+export interface ConversationContextPlan<T extends ConversationMessage> {
+  // Resumen vigente; null si no hay o ya no corresponde a la conversación
+  summary: ConversationSummary | null;
+  // Mensajes que se envían completos: los fijados y los posteriores al resumen
+  messages: T[];
+  // Mensajes que hay que añadir al resumen antes de enviar la conversación
+  toSummarize: T[];
+  // Mensajes que cubrirá el resumen una vez actualizado
+  summarizedCount: number;
+}
+
+/**
+ * Estimación aproximada de tokens (unos 4 caracteres por token), suficiente
+ * para decidir cuándo resumir sin depender del tokenizador de cada modelo
+ */
+export const estimateTokens = (text: string): number => Math.ceil((text || '').length / 4);
+
+export const estimateMessagesTokens = (messages: { content: string }[]): number =>
+  // Cada mensaje añade unos pocos tokens de formato
+  messages.reduce((total, message) => total + estimateTokens(message.content) + 4, 0);
+
+const summaryAnchor = (message: ConversationMessage): string => message.content.slice(0, SUMMARY_ANCHOR_LENGTH);
+
+/**
+ * Crea el resumen que cubre los `messageCount` primeros mensajes
+ */
+export const createConversationSummary = (
+  content: string,
+  messages: ConversationMessage[],
+  messageCount: number
+): ConversationSummary => ({
+  content,
+  messageCount,
+  anchor: messageCount > 0 ? summaryAnchor(messages[messageCount - 1]) : '',
+  updatedAt: new Date().toISOString()
+});
+
+/**
+ * Comprueba que un resumen guardado sigue correspondiendo al principio de la conversación
+ */
+export const isSummaryValid = (summary: ConversationSummary | null | undefined, messages: ConversationMessage[]): boolean =>
+  !!summary &&
+  summary.messageCount > 0 &&
+  summary.messageCount <= messages.length &&
+  summaryAnchor(messages[summary.messageCount - 1]) === summary.anchor;
+
+export const parseConversationSummary = (value: unknown): ConversationSummary | null => {
+  const summary = value as Partial<ConversationSummary> | null;
+  if (
+    !summary ||
+    typeof summary.content !== 'string' ||
+    typeof summary.messageCount !== 'number' ||
+    typeof summary.anchor !== 'string'
+  ) {
+    return null;
+  }
+  return {
+    content: summary.content,
+    messageCount: summary.messageCount,
+    anchor: summary.anchor,
+    updatedAt: typeof summary.updatedAt === 'string' ? summary.updatedAt : new Date(0).toISOString()
+  };
+};
+
+/**
+ * Decide qué parte de la conversación se envía completa y cuál se resume para
+ * no pasar de `budgetTokens`. `reservedTokens` son los del prompt de sistema y
+ * el resto de mensajes fijos de la llamada. Los mensajes fijados y los más
+ * recientes se envían siempre, aunque superen el presupuesto
+ */
+export const planConversationContext = <T extends ConversationMessage>(
+  messages: T[],
+  storedSummary: ConversationSummary | null | undefined,
+  budgetTokens: number,
+  reservedTokens: number
+): ConversationContextPlan<T> => {
+  const summary = isSummaryValid(storedSummary, messages) ? storedSummary! : null;
+  const covered = summary?.messageCount || 0;
+  const send = (from: number) => messages.filter((message, index) => index >= from || message.pinned);
+
+  const current = send(covered);
+  const summaryTokens = summary ? estimateTokens(summary.content) : 0;
+  if (reservedTokens + summaryTokens + estimateMessagesTokens(current) <= budgetTokens) {
+    return { summary, messages: current, toSummarize: [], summarizedCount: covered };
+  }
+
+  // Se reserva una cuarta parte del presupuesto para el resumen y se llena el
+  // resto con los mensajes más recientes, después de los fijados
+  const pinnedTokens = estimateMessagesTokens(messages.filter(message => message.pinned));
+  let available = budgetTokens - reservedTokens - pinnedTokens - Math.floor(budgetTokens / 4);
+  let keepFrom = messages.length;
+
+  while (keepFrom > covered) {
+    const message = messages[keepFrom - 1];
+    const cost = message.pinned ? 0 : estimateMessagesTokens([message]);
+    const mustKeep = messages.length - keepFrom < MIN_RECENT_MESSAGES;
+    if (!mustKeep && cost > available) break;
+    available -= cost;
+    keepFrom--;
+  }
+
+  const toSummarize = messages.slice(covered, keepFrom).filter(message => !message.pinned);
+  if (toSummarize.length === 0) {
+    return { summary, messages: current, toSummarize: [], summarizedCount: covered };
+  }
+
+  return { summary, messages: send(keepFrom), toSummarize, summarizedCount: keepFrom };
+};
+
+/**
+ * Presupuesto de contexto (tokens de entrada) de cada modelo. Tiene un valor
+ * por defecto según el nombre del modelo y se puede ajustar desde Ajustes
+ */
+export class LlmContextBudgetStore {
+  private custom: Record<string, number> = {};
+
+  /**
+   * Carga los presupuestos guardados. Debe llamarse al iniciar la aplicación
+   */
+  async load(): Promise<void> {
+    try {
+      const stored = await AsyncStorage.getItem(CONTEXT_BUDGETS_KEY);
+      const parsed = stored ? JSON.parse(stored) : {};
+      this.custom = {};
+      Object.entries(parsed || {}).forEach(([model, tokens]) => {
+        if (typeof tokens === 'number' && tokens >= MIN_CONTEXT_TOKENS && tokens <= MAX_CONTEXT_TOKENS) {
+          this.custom[model] = Math.round(tokens);
+        }
+      });
+    } catch (error) {
+      console.error('Error al cargar los presupuestos de contexto:', error);
+    }
+  }
+
+  get(model: string): number {
+    return this.custom[model] ?? this.getDefault(model);
+  }
+
+  getDefault(model: string): number {
+    return MODEL_CONTEXT_TOKENS.find(({ pattern }) => pattern.test(model))?.tokens ?? DEFAULT_CONTEXT_TOKENS;
+  }
+
+  isCustom(model: string): boolean {
+    return model in this.custom;
+  }
+
+  /**
+   * Ajusta el presupuesto de un modelo; null vuelve al valor por defecto
+   */
+  async set(model: string, tokens: number | null): Promise<void> {
+    if (tokens === null) {
+      delete this.custom[model];
+    } else {
+      this.custom[model] = Math.min(MAX_CONTEXT_TOKENS, Math.max(MIN_CONTEXT_TOKENS, Math.round(tokens)));
+    }
+    await AsyncStorage.setItem(CONTEXT_BUDGETS_KEY, JSON.stringify(this.custom));
+  }
+}
+
+export const llmContextBudgets = new LlmContextBudgetStore();
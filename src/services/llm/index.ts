@@ -0,0 +1,11 @@
+// Exportar la capa de proveedores de LLM desde este archivo
+export * from './types';
+export * from './openAICompatibleProvider';
+export * from './scriptedMockProvider';
+export * from './registry';
+export * from './taskSettings';
+export * from './responseCache';
+export * from './usageTracker';
+export * from './promptTemplates';
+export * from './requestScheduler';
+export * from './conversationMemory';
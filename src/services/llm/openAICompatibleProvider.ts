@@ -0,0 +1,286 @@
+import {
+  ChatCompletion,
+  ChatMessage,
+  ChatOptions,
+  ChatStreamHandlers,
+  LlmProvider,
+  LlmProviderError,
+  LlmProviderId
+} from './types';
+
+export interface OpenAICompatibleConfig {
+  id: LlmProviderId;
+  label: string;
+  // URL base de la API, sin `/chat/completions`
+  baseUrl: string;
+  model: string;
+  isRemote: boolean;
+  // Key por defecto; cada llamada puede indicar la suya (ver LlmProvider.complete)
+  apiKey?: string;
+  headers?: Record<string, string>;
+  // Campos adicionales del cuerpo de cada petición propios del proveedor
+  extraBody?: Record<string, unknown>;
+}
+
+const tryParseJson = (text: string): any => {
+  try {
+    return JSON.parse(text);
+  } catch (error) {
+    return null;
+  }
+};
+
+/**
+ * Espera que pide el servidor tras un 429: `Retry-After` (segundos o fecha) o
+ * `X-RateLimit-Reset` (instante en milisegundos), que OpenRouter también
+ * incluye en el cuerpo del error cuando el límite es del proveedor de origen
+ */
+const getRetryAfterMs = (getHeader: (name: string) => string | null, errorData: any): number | undefined => {
+  const now = Date.now();
+  const retryAfter = getHeader('retry-after');
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+    const date = Date.parse(retryAfter);
+    if (!Number.isNaN(date)) return Math.max(0, date - now);
+  }
+
+  const reset = Number(getHeader('x-ratelimit-reset') || errorData?.error?.metadata?.headers?.['X-RateLimit-Reset']);
+  return Number.isFinite(reset) && reset > now ? reset - now : undefined;
+};
+
+/**
+ * Proveedor para cualquier API con el formato `/chat/completions` de OpenAI:
+ * OpenRouter, Ollama, el servidor de llama.cpp o LM Studio
+ */
+export class OpenAICompatibleProvider implements LlmProvider {
+  id: LlmProviderId;
+  label: string;
+  isRemote: boolean;
+  private config: OpenAICompatibleConfig;
+
+  constructor(config: OpenAICompatibleConfig) {
+    this.id = config.id;
+    this.label = config.label;
+    this.isRemote = config.isRemote;
+    this.config = config;
+  }
+
+  getModel(): string {
+    return this.config.model;
+  }
+
+  getBaseUrl(): string {
+    return this.config.baseUrl;
+  }
+
+  /**
+   * Cambia el endpoint o el modelo sin recrear el proveedor
+   */
+  configure(changes: Partial<Pick<OpenAICompatibleConfig, 'baseUrl' | 'model' | 'apiKey'>>): void {
+    this.config = { ...this.config, ...changes };
+  }
+
+  async complete(
+    messages: ChatMessage[],
+    options: ChatOptions = {},
+    timeoutMs: number = 30000,
+    apiKey?: string
+  ): Promise<ChatCompletion> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+
+    try {
+      const response = await fetch(this.getEndpoint(), {
+        method: 'POST',
+        headers: this.getHeaders(apiKey),
+        body: JSON.stringify({
+          model: this.config.model,
+          messages,
+          ...this.config.extraBody,
+          ...options
+        }),
+        signal: controller.signal
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        const errorData = tryParseJson(errorText);
+        throw new LlmProviderError(
+          this.id,
+          errorData?.error?.message || `Error HTTP: ${response.status} ${response.statusText} - ${errorText}`,
+          response.status,
+          getRetryAfterMs(name => response.headers.get(name), errorData)
+        );
+      }
+
+      const data = await response.json();
+
+      if (data.error) {
+        throw new LlmProviderError(this.id, data.error.message || `Error en ${this.label}`, data.error.code);
+      }
+
+      return data as ChatCompletion;
+    } catch (error: any) {
+      if (error?.name === 'AbortError') {
+        throw new LlmProviderError(
+          this.id,
+          `La solicitud a ${this.label} excedió el tiempo máximo (${timeoutMs / 1000}s)`
+        );
+      }
+      throw error;
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+
+  /**
+   * Pide la respuesta con `stream: true` y va entregando los fragmentos del
+   * SSE a medida que llegan. Usa XMLHttpRequest porque el `fetch` de React
+   * Native no expone el cuerpo de la respuesta como stream
+   */
+  stream(
+    messages: ChatMessage[],
+    options: ChatOptions,
+    timeoutMs: number,
+    handlers: ChatStreamHandlers,
+    apiKey?: string
+  ): Promise<ChatCompletion> {
+    return new Promise((resolve, reject) => {
+      const xhr = new XMLHttpRequest();
+      let text = '';
+      let model = options.model || this.config.model;
+      let usage: ChatCompletion['usage'];
+      let processed = 0;
+      let buffer = '';
+      let settled = false;
+
+      // El tiempo máximo cuenta desde el último fragmento recibido
+      let timeoutId: ReturnType<typeof setTimeout> | null = null;
+      const resetTimeout = () => {
+        if (timeoutId) clearTimeout(timeoutId);
+        timeoutId = setTimeout(() => {
+          xhr.abort();
+          finish(() =>
+            reject(new LlmProviderError(this.id, `La solicitud a ${this.label} excedió el tiempo máximo (${timeoutMs / 1000}s)`))
+          );
+        }, timeoutMs);
+      };
+
+      const finish = (settle: () => void) => {
+        if (settled) return;
+        settled = true;
+        if (timeoutId) clearTimeout(timeoutId);
+        handlers.signal?.removeEventListener('abort', onAbort);
+        settle();
+      };
+
+      const result = (aborted: boolean): ChatCompletion => ({
+        choices: [{ message: { role: 'assistant', content: text } }],
+        model,
+        ...(usage ? { usage } : {}),
+        ...(aborted ? { _aborted: true } : {})
+      });
+
+      // Procesar las líneas `data: ...` completas que hayan llegado
+      const consume = () => {
+        buffer += xhr.responseText.slice(processed);
+        processed = xhr.responseText.length;
+
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+
+        lines.forEach(line => {
+          const trimmed = line.trim();
+          if (!trimmed.startsWith('data:')) return;
+
+          const payload = trimmed.slice(5).trim();
+          if (!payload || payload === '[DONE]') return;
+
+          const chunk = tryParseJson(payload);
+          if (chunk?.error) {
+            xhr.abort();
+            finish(() => reject(new LlmProviderError(this.id, chunk.error.message || `Error en ${this.label}`, chunk.error.code)));
+            return;
+          }
+
+          model = chunk?.model || model;
+          // El consumo llega, si el proveedor lo envía, en el último fragmento
+          usage = chunk?.usage || usage;
+          const token = chunk?.choices?.[0]?.delta?.content;
+          if (typeof token === 'string' && token) {
+            text += token;
+            handlers.onToken(token, text);
+          }
+        });
+      };
+
+      const onAbort = () => {
+        xhr.abort();
+        finish(() => resolve(result(true)));
+      };
+
+      if (handlers.signal?.aborted) {
+        resolve(result(true));
+        return;
+      }
+      handlers.signal?.addEventListener('abort', onAbort);
+
+      xhr.open('POST', this.getEndpoint());
+      Object.entries({ ...this.getHeaders(apiKey), 'Accept': 'text/event-stream' }).forEach(([name, value]) =>
+        xhr.setRequestHeader(name, value)
+      );
+
+      xhr.onprogress = () => {
+        if (xhr.status >= 400) return;
+        resetTimeout();
+        consume();
+      };
+
+      xhr.onload = () => {
+        if (xhr.status >= 400) {
+          const errorData = tryParseJson(xhr.responseText);
+          finish(() =>
+            reject(new LlmProviderError(
+              this.id,
+              errorData?.error?.message || `Error HTTP: ${xhr.status} - ${xhr.responseText}`,
+              xhr.status,
+              getRetryAfterMs(name => xhr.getResponseHeader(name), errorData)
+            ))
+          );
+          return;
+        }
+        consume();
+        buffer += '\n';
+        consume();
+        finish(() => resolve(result(false)));
+      };
+
+      xhr.onerror = () => {
+        finish(() => reject(new LlmProviderError(this.id, `No se pudo conectar con ${this.label}`)));
+      };
+
+      resetTimeout();
+      xhr.send(JSON.stringify({
+        model: this.config.model,
+        messages,
+        ...this.config.extraBody,
+        ...options,
+        stream: true
+      }));
+    });
+  }
+
+  private getEndpoint(): string {
+    return `${this.config.baseUrl.replace(/\/+$/, '')}/chat/completions`;
+  }
+
+  private getHeaders(requestKey?: string): Record<string, string> {
+    const apiKey = requestKey ?? this.config.apiKey;
+    return {
+      'Content-Type': 'application/json',
+      ...(apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {}),
+      ...this.config.headers
+    };
+  }
+}
@@ -0,0 +1,733 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { LlmTask } from './taskSettings';
+
+const OVERRIDES_KEY = 'llmPromptOverrides';
+// Última revisión usada por cada plantilla y versión por defecto. Se guarda
+// aparte para que restablecer una plantilla no permita reutilizar un número
+const REVISIONS_KEY = 'llmPromptRevisions';
+
+/**
+ * Variables de cada plantilla. Los booleanos activan secciones condicionales
+ * escritas como `{{#nombre}}...{{/nombre}}`; el resto se sustituye en `{{nombre}}`
+ */
+export interface PromptVariables {
+  categorizationSystem: { categories: string; examples: string; corrections: string; responseExample: string };
+  categorizationUser: { activityName: string; activityDescription: string };
+  workflowDesignSystem: {};
+  workflowDesignUser: { activityName: string; activityDescription: string; categories: string };
+  structuredWorkflowSystem: { schema: string };
+  structuredWorkflowUser: { activityName: string; activityDescription: string; categories: string };
+  structuredWorkflowRepair: { errors: string };
+  conversationSummarySystem: {};
+  conversationSummaryUser: {
+    activityName: string;
+    activityDescription: string;
+    previousSummary: string;
+    messages: string;
+  };
+  domAnalysisSystem: { corsError: boolean };
+  domAnalysisUser: {
+    activityName: string;
+    activityDescription: string;
+    instruction: string;
+    domSummary: string;
+    cryptoPrice: boolean;
+    corsError: boolean;
+  };
+  workflowRefinementSystem: {
+    exchangeRate: boolean;
+    priceRelated: boolean;
+    dataExtraction: boolean;
+    banxico: boolean;
+    cryptoRelated: boolean;
+  };
+  workflowRefinementUser: {
+    activityName: string;
+    activityDescription: string;
+    targetUrl: string;
+    workflowContent: string;
+  };
+  resultValidationSystem: { currentDate: string };
+  resultValidationUser: {
+    activityName: string;
+    activityDescription: string;
+    resultData: string;
+    currentDate: string;
+    timeRelated: boolean;
+  };
+}
+
+export type PromptTemplateId = keyof PromptVariables;
+
+export interface PromptTemplate {
+  id: PromptTemplateId;
+  label: string;
+  task: LlmTask;
+  // Se incrementa cada vez que cambia el texto por defecto
+  version: number;
+  // Variables que una versión editada no puede quitar sin romper la tarea
+  required: string[];
+  // Todas las variables y secciones que entiende la plantilla
+  variables: string[];
+  text: string;
+}
+
+interface PromptOverride {
+  text: string;
+  // Versión por defecto sobre la que se hizo la edición
+  baseVersion: number;
+  revision: number;
+  updatedAt: string;
+}
+
+export interface PromptTemplateInfo extends PromptTemplate {
+  defaultText: string;
+  isCustom: boolean;
+  versionTag: string;
+}
+
+export interface RenderedPrompt {
+  content: string;
+  // Identifica la plantilla y versión que produjo el texto, p. ej. `categorizationSystem@1+custom.2`
+  version: string;
+}
+
+// Plantillas por defecto. La versión 1 de cada una es el texto que usaba su tarea antes del registro
+export const DEFAULT_PROMPT_TEMPLATES: PromptTemplate[] = [
+  {
+    id: 'categorizationSystem',
+    label: 'Categorización: instrucciones',
+    task: 'categorization',
+    // v2: las categorías son las definidas por la organización
+    // v3: confianza y motivo por categoría, y correcciones de los usuarios como ejemplos
+    version: 3,
+    required: ['categories'],
+    variables: ['categories', 'examples', 'corrections', 'responseExample'],
+    text: `Eres un asistente especializado en categorizar actividades organizacionales.
+Debes analizar el texto de una actividad y determinar a qué categorías pertenece. IMPORTANTE: Una actividad puede pertenecer a MÚLTIPLES categorías a la vez si cumple con varios criterios.
+
+Las categorías posibles son (identificador: descripción):
+{{categories}}
+{{#examples}}
+EJEMPLOS:
+{{examples}}
+{{/examples}}
+{{#corrections}}
+CORRECCIONES RECIENTES DE LA ORGANIZACIÓN (reflejan cómo usa cada categoría; tienen prioridad sobre los ejemplos):
+{{corrections}}
+{{/corrections}}
+Responde SOLO con un array JSON con un objeto por categoría, sin explicaciones adicionales. Cada objeto tiene "category" (el identificador), "confidence" (de 0 a 1) y "reason" (una frase breve que justifique la categoría).
+Ejemplo: {{responseExample}}`
+  },
+  {
+    id: 'categorizationUser',
+    label: 'Categorización: actividad',
+    task: 'categorization',
+    version: 1,
+    required: ['activityName'],
+    variables: ['activityName', 'activityDescription'],
+    text: `Nombre: {{activityName}}
+Descripción: {{activityDescription}}`
+  },
+  {
+    id: 'workflowDesignSystem',
+    label: 'Diseño de flujos: instrucciones',
+    task: 'workflowDesign',
+    version: 1,
+    required: [],
+    variables: [],
+    text: `Eres un experto en automatización de navegador web y extracción de datos mediante JavaScript.
+Tu tarea es crear un flujo técnico ejecutable ESPECÍFICAMENTE para un WebView en una aplicación móvil.
+
+IMPORTANTE: El código DEBE ser JavaScript puro para ejecutarse en un navegador. NO generes código Python ni Node.js.
+
+CRÍTICO: DEBES TENER EN CUENTA RESTRICCIONES CORS:
+- Las APIs como api.binance.com suelen bloquear peticiones desde WebViews por seguridad
+- SIEMPRE proporciona MÚLTIPLES ALTERNATIVAS para obtener los datos:
+   1. Intento directo (fetch a API oficial)
+   2. Alternativa con proxy CORS (como cors-anywhere o algún proxy público)
+   3. Alternativa usando sitios web públicos que muestren la misma información (ej: CoinMarketCap, TradingView)
+
+Debes proporcionar:
+1. Código JavaScript para extraer datos con MÚLTIPLES ALTERNATIVAS (por restricciones CORS)
+2. Selectores DOM precisos (querySelector, XPath) para sitios alternativos
+3. Manipulación del DOM y eventos para navegación
+4. Manejo de respuestas de fetch/XHR para APIs con verificación explícita de errores CORS
+5. Visualización de resultados directamente en el navegador
+
+Formato REQUERIDO:
+
+### **Flujo WebView: [Nombre]**
+
+### **Pasos de ejecución en navegador:**
+1. [Descripción breve del paso 1]
+2. [Descripción breve del paso 2]
+3. ...
+
+### **Código para ejecutar en WebView:**
+
+#### **Paso 1: [Nombre del paso]**
+\`\`\`javascript
+// IMPORTANTE: Incluir verificación y manejo de errores CORS
+// Siempre proporcionar múltiples alternativas para obtener datos
+async function paso1() {
+  try {
+    // Primer intento: API directa
+    // ...
+  } catch(error) {
+    // Si hay error CORS, usar alternativa
+    try {
+      // Segunda alternativa: Proxy o sitio web público
+      // ...
+    } catch(error2) {
+      // Tercer intento: Otra fuente
+      // ...
+    }
+  }
+}
+\`\`\`
+
+#### **Paso 2: [Nombre del paso]**
+\`\`\`javascript
+// Código para el siguiente paso con igual manejo de alternativas
+\`\`\`
+
+### **Visualización del resultado:**
+\`\`\`javascript
+// Código para mostrar el resultado en el DOM
+function mostrarResultado(datos) {
+  // Crear elementos DOM visibles y claros
+  const resultadoDiv = document.createElement('div');
+  resultadoDiv.style.position = 'fixed';
+  resultadoDiv.style.top = '0';
+  resultadoDiv.style.left = '0';
+  resultadoDiv.style.width = '100%';
+  resultadoDiv.style.backgroundColor = '#282a36';
+  resultadoDiv.style.color = '#f8f8f2';
+  resultadoDiv.style.padding = '20px';
+  resultadoDiv.style.zIndex = '10000';
+  // Asegurar que sea completamente visible
+}
+\`\`\`
+
+RECUERDA:
+- Todo el código debe ejecutarse en un navegador web real, no en un entorno de servidor.
+- Usa selectores DOM robustos que puedan adaptarse a cambios menores en la estructura.
+- SIEMPRE proporciona MÚLTIPLES ALTERNATIVAS para obtener datos debido a restricciones CORS.
+- Añade verificación explícita de errores CORS y manejo adecuado.`
+  },
+  {
+    id: 'workflowDesignUser',
+    label: 'Diseño de flujos: primera petición',
+    task: 'workflowDesign',
+    version: 1,
+    required: ['activityName'],
+    variables: ['activityName', 'activityDescription', 'categories'],
+    text: `Necesito un flujo de automatización para WebView que extraiga datos mediante JavaScript para:
+
+Nombre: {{activityName}}
+Descripción: {{activityDescription}}
+Categorías: {{categories}}
+
+IMPORTANTE:
+1. El código debe ser JavaScript puro ejecutable en un navegador web
+2. Debe manejar errores CORS correctamente y proporcionar MÚLTIPLES ALTERNATIVAS
+3. Incluye manejo completo de errores (CORS, elementos inexistentes, timeout)
+4. Al final DEBE mostrar visualmente el resultado en la pantalla con un formato claro y visible
+
+Las APIs financieras como Binance suelen bloquear acceso directo por CORS, así que necesito:
+1. Intento principal: Llamada directa a la API
+2. Alternativa 1: Usar un proxy público CORS o API alternativa
+3. Alternativa 2: Extraer datos de páginas web públicas como CoinMarketCap, TradingView, etc.
+
+El WebView se encargará de navegar a las URLs que especifiques en el código.
+Al final, debe crearse una interfaz visual clara con el resultado que sea COMPLETAMENTE VISIBLE.`
+  },
+  {
+    id: 'structuredWorkflowSystem',
+    label: 'Flujo estructurado: instrucciones',
+    task: 'workflowDesign',
+    version: 1,
+    required: ['schema'],
+    variables: ['schema'],
+    text: `Eres un experto en automatización de navegador web. Diseñas flujos que se ejecutan paso a paso en un WebView de una aplicación móvil.
+
+Responde ÚNICAMENTE con un objeto JSON válido (sin markdown ni texto adicional) que siga este esquema:
+{{schema}}
+
+Reglas:
+- El primer paso debe ser "navigate" con la URL absoluta de la web de la que se obtienen los datos.
+- "code" debe ser JavaScript puro de navegador que devuelva el dato extraído; nunca Python ni Node.js.
+- Usa selectores CSS robustos y, si una API puede bloquear por CORS, prefiere extraer el dato de una web pública.
+- Indica en "expectedOutput" el valor o formato que debe producir cada paso para poder comprobarlo.`
+  },
+  {
+    id: 'structuredWorkflowUser',
+    label: 'Flujo estructurado: primera petición',
+    task: 'workflowDesign',
+    version: 1,
+    required: ['activityName'],
+    variables: ['activityName', 'activityDescription', 'categories'],
+    text: `Diseña el flujo para esta actividad:
+Nombre: {{activityName}}
+Descripción: {{activityDescription}}
+Categorías: {{categories}}`
+  },
+  {
+    id: 'structuredWorkflowRepair',
+    label: 'Flujo estructurado: reparación',
+    task: 'workflowDesign',
+    version: 1,
+    required: ['errors'],
+    variables: ['errors'],
+    text: `Tu respuesta no cumple el esquema JSON indicado:
+{{errors}}
+
+Devuelve de nuevo el flujo completo corregido, solo el JSON.`
+  },
+  {
+    id: 'conversationSummarySystem',
+    label: 'Resumen de conversaciones: instrucciones',
+    task: 'conversationSummary',
+    version: 1,
+    required: [],
+    variables: [],
+    text: `Resumes conversaciones entre un usuario y un asistente que diseñan juntos un flujo de automatización para un WebView.
+El resumen sustituirá a los mensajes originales, así que debe conservar todo lo que haga falta para seguir trabajando:
+- Requisitos, restricciones y preferencias que pidió el usuario, con sus datos exactos (URLs, selectores, formatos, valores).
+- Decisiones tomadas y alternativas descartadas, con el motivo.
+- Problemas encontrados y cómo se resolvieron o qué queda pendiente.
+No incluyas código completo salvo fragmentos imprescindibles. Responde solo con el resumen, en viñetas y en español.`
+  },
+  {
+    id: 'conversationSummaryUser',
+    label: 'Resumen de conversaciones: mensajes',
+    task: 'conversationSummary',
+    version: 1,
+    required: ['messages'],
+    variables: ['activityName', 'activityDescription', 'previousSummary', 'messages'],
+    text: `Actividad: {{activityName}}
+Descripción: {{activityDescription}}
+{{#previousSummary}}
+Resumen de la parte anterior de la conversación (intégralo en el nuevo resumen):
+{{previousSummary}}
+{{/previousSummary}}
+Mensajes que hay que añadir al resumen:
+{{messages}}`
+  },
+  {
+    id: 'domAnalysisSystem',
+    label: 'Análisis de páginas: instrucciones',
+    task: 'domAnalysis',
+    version: 1,
+    required: [],
+    variables: ['corsError'],
+    text: `Eres un experto en análisis de páginas web y extracción de datos del DOM.
+Tu tarea es analizar el contenido DOM capturado y extraer datos específicos según la instrucción proporcionada.
+
+IMPORTANTE:
+1. Debes extraer los datos que pide exactamente la instrucción.
+2. Si hay precios o información crítica, prioriza su extracción.
+3. Analiza el contexto para determinar qué datos son relevantes.
+4. Si encuentras tablas, analiza su contenido para extraer información estructurada.
+5. Cuando sea posible, devuelve los datos en un formato organizado.
+{{#corsError}}
+CRÍTICO - DETECTADO ERROR CORS/XFO:
+He detectado que estamos intentando acceder a una API restringida (probablemente Binance).
+DEBES proporcionar código JavaScript para 3 ALTERNATIVAS diferentes:
+
+1. Alternativa usando CoinGecko API: https://api.coingecko.com/api/v3/simple/price?ids=bitcoin&vs_currencies=usd
+2. Alternativa usando CoinCap API: https://api.coincap.io/v2/assets/bitcoin
+3. Alternativa con scraping de sitio público (como CoinMarketCap, Yahoo Finance, etc.)
+
+El código DEBE incluir manejo de errores robusto y timeout para cada alternativa.
+Proporciona el código en el campo "action" de la respuesta.
+{{/corsError}}
+Tu respuesta DEBE ser un JSON con la siguiente estructura:
+{
+  "title": "Título descriptivo de los datos extraídos",
+  "extractedData": {
+    // Datos extraídos específicos según la instrucción
+    // Por ejemplo: precios, títulos, valores, etc.
+  },
+  "confidence": 0-1, // Tu nivel de confianza en los datos extraídos
+  "action": "código JavaScript opcional para ejecutar en el navegador",
+  "fallbackActions": [
+    "código JavaScript de respaldo 1",
+    "código JavaScript de respaldo 2"
+  ]
+}`
+  },
+  {
+    id: 'domAnalysisUser',
+    label: 'Análisis de páginas: contenido',
+    task: 'domAnalysis',
+    version: 1,
+    required: ['instruction', 'domSummary'],
+    variables: ['activityName', 'activityDescription', 'instruction', 'domSummary', 'cryptoPrice', 'corsError'],
+    text: `Analiza el siguiente contenido DOM de una página web y extrae los datos según la instrucción:
+
+Actividad: {{activityName}}
+Descripción de actividad: {{activityDescription}}
+
+Instrucción de scraping: "{{instruction}}"
+{{#cryptoPrice}}
+CONTEXTO ADICIONAL PARA PRECIOS CRYPTO:
+Si estás buscando precios de criptomonedas como Bitcoin (BTC), necesitarás usar APIs alternativas
+debido a restricciones CORS en WebViews. Debes proporcionar múltiples opciones:
+
+1. CoinGecko API: https://api.coingecko.com/api/v3/simple/price?ids=bitcoin&vs_currencies=usd
+2. CoinCap API: https://api.coincap.io/v2/assets/bitcoin
+3. Scraping desde sitios públicos como CoinMarketCap o TradingView
+
+Cada alternativa debe tener manejo de errores completo y timeout.
+{{/cryptoPrice}}
+Contenido DOM capturado (resumen):
+{{domSummary}}
+
+Extrae los datos según la instrucción proporcionada y devuelve un JSON con la estructura solicitada.
+Si la instrucción menciona precios de criptomonedas, extrae precio, símbolo, fecha y hora actual.
+Si la instrucción menciona datos de tablas, extrae la información estructurada de las tablas.
+Si encuentras elementos con precios o valores monetarios, inclúyelos con prioridad.
+{{#corsError}}
+IMPORTANTE: He detectado un error de CORS o X-Frame-Options. DEBES proporcionar
+al menos 3 alternativas de código JavaScript que funcionen en un WebView con
+restricciones. Cada alternativa debe tener un timeout de 10 segundos y manejar
+errores detalladamente.
+{{/corsError}}`
+  },
+  {
+    id: 'workflowRefinementSystem',
+    label: 'Refinamiento de flujos: instrucciones',
+    task: 'workflowRefinement',
+    version: 1,
+    required: [],
+    variables: ['exchangeRate', 'priceRelated', 'dataExtraction', 'banxico', 'cryptoRelated'],
+    text: `Eres un experto en refinamiento de flujos de automatización web.
+Tu tarea es mejorar un flujo de trabajo ya generado para hacerlo más preciso y ejecutable.
+{{#exchangeRate}}
+ACTIVIDAD DE TIPO DE CAMBIO DETECTADA:
+- Este flujo busca obtener tipos de cambio (USD/MXN u otros)
+- Simplifica y concreta los pasos para esta tarea específica
+- Usa selectores DOM precisos para tablas de cotizaciones
+- Divide en pasos claros y concisos
+{{/exchangeRate}}{{#priceRelated}}
+ACTIVIDAD DE PRECIOS DETECTADA:
+- Este flujo busca obtener precios o cotizaciones
+- Enfócate en la extracción precisa de valores numéricos
+- Incluye la captura de fecha/hora para los datos
+- Verifica la moneda o unidad de los precios
+{{/priceRelated}}{{#dataExtraction}}
+ACTIVIDAD DE EXTRACCIÓN DE DATOS DETECTADA:
+- Este flujo busca extraer información estructurada
+- Usa selectores DOM óptimos para los datos específicos
+- Organiza la información en formatos claros
+- Maneja posibles variaciones en la estructura de la página
+{{/dataExtraction}}{{#banxico}}
+SITIO DE BANXICO DETECTADO:
+- Banxico tiene una estructura específica para tipos de cambio
+- Selectores útiles: "#indexTable", ".renglonNon", ".renglonPar"
+- Busca específicamente el valor "FIX" para USD/MXN
+- Simplifica a solo los pasos esenciales (3-5 máximo)
+- Usa document.querySelector con selectores exactos
+{{/banxico}}{{#cryptoRelated}}
+ACTIVIDAD DE CRIPTOMONEDAS DETECTADA:
+- Las APIs de cripto suelen tener restricciones CORS
+- Proporciona SIEMPRE 3 alternativas:
+  1. API directa (Binance, Coinbase, etc.)
+  2. APIs alternativas sin CORS (CoinGecko, CoinCap)
+  3. Scraping de sitios web públicos
+- Incluye manejo de errores robusto para cada alternativa
+{{/cryptoRelated}}
+PARA CUALQUIER TIPO DE ACTIVIDAD:
+- Simplifica el flujo a máximo 5 pasos concretos
+- Cada paso debe hacer UNA SOLA cosa bien definida
+- El código debe ser JavaScript puro para navegador
+- Incluye manejo de errores claro y efectivo
+- La visualización debe ser profesional y legible
+
+Tu respuesta debe seguir EXACTAMENTE este formato:
+
+### **Flujo WebView: [Nombre descriptivo]**
+
+### **Pasos de ejecución en navegador:**
+1. [Paso muy concreto 1]
+2. [Paso muy concreto 2]
+3. [Paso muy concreto 3]
+
+### **Código para ejecutar en WebView:**
+
+#### **Paso 1: [Nombre corto]**
+\`\`\`javascript
+// Código JavaScript simple y directo
+\`\`\`
+
+... y así con cada paso ...`
+  },
+  {
+    id: 'workflowRefinementUser',
+    label: 'Refinamiento de flujos: petición',
+    task: 'workflowRefinement',
+    version: 1,
+    required: ['workflowContent'],
+    variables: ['activityName', 'activityDescription', 'targetUrl', 'workflowContent'],
+    text: `Necesito que refines el siguiente flujo de trabajo para hacerlo más preciso y ejecutable:
+
+Actividad: {{activityName}}
+Descripción: {{activityDescription}}
+{{#targetUrl}}URL objetivo: {{targetUrl}}{{/targetUrl}}
+
+FLUJO ORIGINAL:
+{{workflowContent}}
+
+INSTRUCCIONES DE REFINAMIENTO:
+1. Simplifica el flujo a un máximo de 5 pasos concretos
+2. Usa selectores DOM precisos y específicos
+3. Cada paso debe hacer UNA SOLA cosa bien definida
+4. Manejo de errores simple pero efectivo
+5. Visualización clara y profesional del resultado final
+
+Adapta el refinamiento al tipo específico de esta actividad y la web objetivo.
+El código debe ejecutarse correctamente en un WebView de aplicación móvil.`
+  },
+  {
+    id: 'resultValidationSystem',
+    label: 'Validación de resultados: instrucciones',
+    task: 'resultValidation',
+    version: 1,
+    required: [],
+    variables: ['currentDate'],
+    text: `Eres un validador experto que evalúa si un resultado cumple con los requisitos de una tarea.
+Tu trabajo es analizar objetivamente si el resultado proporcionado satisface la consulta original.
+
+Considera los siguientes aspectos:
+1. El tipo de dato (clima, tipo de cambio, precio, etc.) debe coincidir con lo solicitado
+2. La información debe ser relevante y precisa según la consulta
+3. La fuente debe ser apropiada para el tipo de información
+4. La fecha debe ser apropiada al contexto de la búsqueda
+
+IMPORTANTE SOBRE FECHAS EN ENTORNO DE DEMOSTRACIÓN:
+- Estás evaluando resultados en un entorno de demostración/simulación
+- Para consultas que incluyen términos como "hoy", "actual" o "ahora", la fecha exacta puede ser simulada
+- La fecha actual del sistema es: {{currentDate}}
+- En este contexto de demostración, es ACEPTABLE que los datos muestren fechas simuladas
+- Debes considerar VÁLIDO un resultado cuya fecha no coincida exactamente con la actual, siempre que el CONTENIDO sea apropiado
+
+Tipos de datos que podrías validar:
+- weather: Datos climáticos (temperatura, ubicación)
+- exchange_rate: Tipos de cambio entre monedas
+- crypto_price: Precios de criptomonedas
+- commodity_price: Precios de commodities (oro, plata, etc.)
+- generic_search: Resultados de búsqueda general
+
+Debes responder con un objeto JSON con las siguientes propiedades:
+1. isValid: boolean (true si el resultado es correcto, false si no)
+2. explanation: string (explicación detallada de tu evaluación)`
+  },
+  {
+    id: 'resultValidationUser',
+    label: 'Validación de resultados: resultado',
+    task: 'resultValidation',
+    version: 1,
+    required: ['resultData'],
+    variables: ['activityName', 'activityDescription', 'resultData', 'currentDate', 'timeRelated'],
+    text: `Valida si el siguiente resultado cumple con la tarea solicitada:
+
+Tarea: {{activityName}}
+Descripción: {{activityDescription}}
+
+Resultado obtenido:
+{{resultData}}
+{{#timeRelated}}
+CONTEXTO IMPORTANTE:
+- Esta es una demostración de un sistema de búsqueda y los resultados son simulados
+- La fecha actual real es: {{currentDate}}
+- Para consultas con términos como "hoy", considera que el sistema está mostrando UN EJEMPLO de resultado
+- El contenido/temperatura/datos mostrados son lo importante, NO la fecha exacta
+- En este entorno de DEMOSTRACIÓN, la fecha mostrada es aceptable aunque no coincida con la fecha actual real
+{{/timeRelated}}
+¿El resultado cumple correctamente con lo solicitado en la tarea? Explica por qué.`
+  }
+];
+
+const SECTION_PATTERN = /\{\{#(\w+)\}\}([\s\S]*?)\{\{\/\1\}\}/g;
+const VARIABLE_PATTERN = /\{\{(\w+)\}\}/g;
+
+/**
+ * Nombres de variables y secciones que usa un texto de plantilla
+ */
+const findPlaceholders = (text: string): string[] => {
+  const names = new Set<string>();
+  for (const match of text.matchAll(/\{\{[#/]?(\w+)\}\}/g)) {
+    names.add(match[1]);
+  }
+  return [...names];
+};
+
+/**
+ * Sustituye variables y resuelve secciones condicionales. Una sección se
+ * incluye si su variable es verdadera o un texto no vacío
+ */
+export const renderTemplateText = (text: string, variables: Record<string, unknown>): string =>
+  text
+    .replace(SECTION_PATTERN, (_section, name: string, inner: string) => (variables[name] ? inner : ''))
+    .replace(VARIABLE_PATTERN, (_placeholder, name: string) => {
+      const value = variables[name];
+      return value === undefined || value === null || typeof value === 'boolean' ? '' : String(value);
+    });
+
+/**
+ * Registro de las plantillas de prompt de cada tarea. Los textos se pueden
+ * editar desde la aplicación; cada edición cambia la versión que se registra
+ * con cada respuesta, para poder comparar resultados entre versiones
+ */
+export class PromptTemplateRegistry {
+  private overrides: Partial<Record<PromptTemplateId, PromptOverride>> = {};
+  // `${id}@${baseVersion}` -> última revisión asignada
+  private revisions: Record<string, number> = {};
+
+  /**
+   * Carga las plantillas editadas. Debe llamarse al iniciar la aplicación
+   */
+  async load(): Promise<void> {
+    try {
+      const [[, stored], [, storedRevisions]] = await AsyncStorage.multiGet([OVERRIDES_KEY, REVISIONS_KEY]);
+      const parsed = stored ? JSON.parse(stored) : {};
+      const revisions = storedRevisions ? JSON.parse(storedRevisions) : {};
+      this.revisions = {};
+      Object.keys(revisions || {}).forEach(key => {
+        if (typeof revisions[key] === 'number') {
+          this.revisions[key] = revisions[key];
+        }
+      });
+      this.overrides = {};
+      DEFAULT_PROMPT_TEMPLATES.forEach(({ id }) => {
+        const override = parsed?.[id];
+        if (!override || typeof override.text !== 'string' || typeof override.revision !== 'number') {
+          return;
+        }
+        // Una edición que no encaja con la versión actual (p. ej. le falta una
+        // variable obligatoria nueva) se descarta en lugar de romper la tarea
+        if (this.validate(id, override.text).length > 0) {
+          console.warn(`⚠️ La plantilla editada ${id} no es compatible con la versión actual y se descarta`);
+          return;
+        }
+        this.overrides[id] = override;
+        // Ediciones guardadas antes de llevar la cuenta aparte
+        const revisionKey = `${id}@${override.baseVersion}`;
+        this.revisions[revisionKey] = Math.max(this.revisions[revisionKey] || 0, override.revision);
+      });
+    } catch (error) {
+      console.error('Error al cargar las plantillas de prompt:', error);
+    }
+  }
+
+  list(): PromptTemplateInfo[] {
+    return DEFAULT_PROMPT_TEMPLATES.map(template => this.describe(template.id));
+  }
+
+  describe(id: PromptTemplateId): PromptTemplateInfo {
+    const template = this.getDefault(id);
+    const override = this.overrides[id];
+    return {
+      ...template,
+      text: override?.text ?? template.text,
+      defaultText: template.text,
+      isCustom: !!override,
+      versionTag: this.getVersion(id)
+    };
+  }
+
+  /**
+   * Versión activa de la plantilla. Las ediciones se numeran sobre la versión
+   * por defecto en la que se basaron
+   */
+  getVersion(id: PromptTemplateId): string {
+    const template = this.getDefault(id);
+    const override = this.overrides[id];
+    return override
+      ? `${id}@${override.baseVersion}+custom.${override.revision}`
+      : `${id}@${template.version}`;
+  }
+
+  render<K extends PromptTemplateId>(id: K, variables: PromptVariables[K]): RenderedPrompt {
+    const text = this.overrides[id]?.text ?? this.getDefault(id).text;
+    return {
+      content: renderTemplateText(text, variables as Record<string, unknown>).trim(),
+      version: this.getVersion(id)
+    };
+  }
+
+  /**
+   * Comprueba que un texto editado solo usa variables conocidas y conserva las obligatorias
+   * @returns lista de errores; vacía si el texto es válido
+   */
+  validate(id: PromptTemplateId, text: string): string[] {
+    const template = this.getDefault(id);
+    const placeholders = findPlaceholders(text);
+    const errors: string[] = [];
+
+    if (!text.trim()) {
+      errors.push('La plantilla no puede estar vacía');
+    }
+    placeholders
+      .filter(name => !template.variables.includes(name))
+      .forEach(name => errors.push(`Variable desconocida: {{${name}}}`));
+    template.required
+      .filter(name => !placeholders.includes(name))
+      .forEach(name => errors.push(`Falta la variable obligatoria {{${name}}}`));
+    placeholders
+      .filter(name => text.includes(`{{#${name}}}`) !== text.includes(`{{/${name}}}`))
+      .forEach(name => errors.push(`La sección {{#${name}}} no está bien cerrada`));
+
+    return errors;
+  }
+
+  async override(id: PromptTemplateId, text: string): Promise<void> {
+    const errors = this.validate(id, text);
+    if (errors.length > 0) {
+      throw new Error(errors.join('\n'));
+    }
+
+    const template = this.getDefault(id);
+    const previous = this.overrides[id];
+    if (text === (previous?.text ?? template.text)) return;
+
+    // Cada texto guardado recibe una revisión nueva, aunque antes se haya
+    // restablecido la plantilla. Con otra versión por defecto la cuenta vuelve a empezar
+    const revisionKey = `${id}@${template.version}`;
+    const revision = (this.revisions[revisionKey] || 0) + 1;
+    this.revisions[revisionKey] = revision;
+
+    this.overrides[id] = {
+      text,
+      baseVersion: template.version,
+      revision,
+      updatedAt: new Date().toISOString()
+    };
+    await this.persist();
+    console.log(`📝 Plantilla ${this.getVersion(id)} guardada`);
+  }
+
+  async reset(id: PromptTemplateId): Promise<void> {
+    delete this.overrides[id];
+    await this.persist();
+  }
+
+  private getDefault(id: PromptTemplateId): PromptTemplate {
+    const template = DEFAULT_PROMPT_TEMPLATES.find(t => t.id === id);
+    if (!template) {
+      throw new Error(`Plantilla de prompt desconocida: ${id}`);
+    }
+    return template;
+  }
+
+  private async persist(): Promise<void> {
+    await AsyncStorage.multiSet([
+      [OVERRIDES_KEY, JSON.stringify(this.overrides)],
+      [REVISIONS_KEY, JSON.stringify(this.revisions)]
+    ]);
+  }
+}
+
+export const promptTemplates = new PromptTemplateRegistry();
@@ -0,0 +1,152 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { OpenAICompatibleProvider } from './openAICompatibleProvider';
+import { ScriptedMockProvider } from './scriptedMockProvider';
+import { LlmProvider, LlmProviderId } from './types';
+
+// Claves de almacenamiento
+const PROVIDER_KEY = 'llmProvider';
+const LOCAL_ENDPOINT_KEY = 'llmLocalEndpoint';
+
+const DEFAULT_PROVIDER: LlmProviderId = 'openrouter';
+
+// Permite fijar el proveedor al compilar, p. ej. EXPO_PUBLIC_LLM_PROVIDER=mock en CI
+const FORCED_PROVIDER = process.env.EXPO_PUBLIC_LLM_PROVIDER as LlmProviderId | undefined;
+
+// Endpoint local por defecto (Ollama). llama.cpp usa el puerto 8080 y LM Studio el 1234
+export const DEFAULT_LOCAL_ENDPOINT = {
+  baseUrl: 'http://localhost:11434/v1',
+  model: 'llama3.1'
+};
+
+export interface LocalEndpointConfig {
+  baseUrl: string;
+  model: string;
+  apiKey?: string;
+}
+
+/**
+ * Proveedores de LLM disponibles y el que está activo. La selección se guarda
+ * en el dispositivo, igual que el backend (ver environmentService)
+ */
+export class LlmProviderRegistry {
+  private providers = new Map<LlmProviderId, LlmProvider>();
+  private activeId: LlmProviderId = FORCED_PROVIDER || DEFAULT_PROVIDER;
+
+  readonly local = new OpenAICompatibleProvider({
+    id: 'local',
+    label: 'Local (compatible con OpenAI)',
+    isRemote: false,
+    ...DEFAULT_LOCAL_ENDPOINT
+  });
+
+  readonly mock = new ScriptedMockProvider();
+
+  constructor() {
+    this.register(this.local);
+    this.register(this.mock);
+  }
+
+  register(provider: LlmProvider): void {
+    this.providers.set(provider.id, provider);
+  }
+
+  getProviders(): LlmProvider[] {
+    return [...this.providers.values()];
+  }
+
+  /**
+   * Carga el proveedor y el endpoint local guardados. Debe llamarse al iniciar la aplicación
+   */
+  async load(): Promise<void> {
+    try {
+      const [[, savedProvider], [, savedEndpoint]] = await AsyncStorage.multiGet([PROVIDER_KEY, LOCAL_ENDPOINT_KEY]);
+
+      if (savedEndpoint) {
+        const endpoint = JSON.parse(savedEndpoint);
+        if (typeof endpoint?.baseUrl === 'string' && typeof endpoint?.model === 'string') {
+          this.local.configure(endpoint);
+        }
+      }
+
+      if (savedProvider && this.providers.has(savedProvider as LlmProviderId)) {
+        this.activeId = savedProvider as LlmProviderId;
+      }
+
+      if (FORCED_PROVIDER) {
+        this.activeId = FORCED_PROVIDER;
+      }
+    } catch (error) {
+      console.error('Error al cargar el proveedor de IA:', error);
+    }
+  }
+
+  getActiveId(): LlmProviderId {
+    return this.providers.has(this.activeId) ? this.activeId : DEFAULT_PROVIDER;
+  }
+
+  /**
+   * Proveedor activo. Si el guardado ya no existe, el predeterminado
+   */
+  getActive(): LlmProvider {
+    const provider = this.providers.get(this.getActiveId()) || this.providers.values().next().value;
+    if (!provider) {
+      throw new Error('No hay proveedores de IA registrados');
+    }
+    return provider;
+  }
+
+  get(id: LlmProviderId): LlmProvider | undefined {
+    return this.providers.get(id);
+  }
+
+  async select(id: LlmProviderId): Promise<void> {
+    if (!this.providers.has(id)) {
+      throw new Error(`Proveedor de IA desconocido: ${id}`);
+    }
+    this.activeId = id;
+    await AsyncStorage.setItem(PROVIDER_KEY, id);
+    console.log(`🤖 Proveedor de IA cambiado a ${this.providers.get(id)!.label}`);
+  }
+
+  getLocalEndpoint(): LocalEndpointConfig {
+    return { baseUrl: this.local.getBaseUrl(), model: this.local.getModel() };
+  }
+
+  async configureLocal(endpoint: LocalEndpointConfig): Promise<void> {
+    const config = { ...endpoint, baseUrl: endpoint.baseUrl.trim().replace(/\/+$/, ''), model: endpoint.model.trim() };
+    this.local.configure(config);
+    await AsyncStorage.setItem(LOCAL_ENDPOINT_KEY, JSON.stringify(config));
+  }
+
+  /**
+   * Envía un prompt mínimo para comprobar que el proveedor responde
+   * @param apiKey Key con la que probar, si el proveedor no tiene una propia
+   */
+  async test(id: LlmProviderId, apiKey?: string): Promise<{ isValid: boolean; message: string }> {
+    const provider = this.providers.get(id);
+    if (!provider) {
+      return { isValid: false, message: 'Proveedor desconocido' };
+    }
+
+    const startedAt = Date.now();
+    try {
+      const data = await provider.complete(
+        [
+          { role: 'system', content: 'Responde con la palabra "OK".' },
+          { role: 'user', content: 'Test de conexión' }
+        ],
+        { max_tokens: 5 },
+        15000,
+        apiKey
+      );
+      if (!data.choices?.[0]?.message) {
+        return { isValid: false, message: 'Respuesta con formato inesperado' };
+      }
+      return { isValid: true, message: `${provider.label} responde (${Date.now() - startedAt} ms, modelo ${data.model || provider.getModel()})` };
+    } catch (error: any) {
+      return { isValid: false, message: error?.message || String(error) };
+    }
+  }
+}
+
+export const llmProviders = new LlmProviderRegistry();
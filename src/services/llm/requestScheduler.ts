@@ -0,0 +1,257 @@
+export interface RequestSchedulerConfig {
+  // Peticiones simultáneas como máximo; el resto espera su turno
+  maxConcurrent: number;
+  // Intentos por petición, contando los que reciben un rate limit
+  maxAttempts: number;
+  // Espera base y máxima entre reintentos por errores del servidor
+  retryDelayMs: number;
+  maxRetryDelayMs: number;
+  // Enfriamiento de una key limitada cuando el servidor no indica cuánto esperar
+  cooldownMs: number;
+  maxCooldownMs: number;
+  // Lo máximo que una petición espera a que alguna key vuelva a estar disponible
+  maxWaitMs: number;
+}
+
+export const DEFAULT_SCHEDULER_CONFIG: RequestSchedulerConfig = {
+  maxConcurrent: 2,
+  maxAttempts: 4,
+  retryDelayMs: 1000,
+  maxRetryDelayMs: 15000,
+  cooldownMs: 5000,
+  maxCooldownMs: 10 * 60 * 1000,
+  maxWaitMs: 15000
+};
+
+interface KeyState {
+  cooldownUntil: number;
+  // Rate limits seguidos; alarga el enfriamiento cuando el servidor no indica la espera
+  failures: number;
+}
+
+export interface KeyCooldown {
+  keyIndex: number;
+  // null si la key está disponible
+  availableAt: number | null;
+  failures: number;
+}
+
+export interface SchedulerStatus {
+  active: number;
+  queued: number;
+  keys: KeyCooldown[];
+  // Instante en que volverá a haber una key disponible, si ahora no hay ninguna
+  nextAvailableAt: number | null;
+}
+
+/**
+ * Todas las keys siguen limitadas tras agotar los intentos o la espera máxima
+ */
+export class RateLimitExhaustedError extends Error {
+  retryAt: number | null;
+
+  constructor(message: string, retryAt: number | null) {
+    super(message);
+    this.name = 'RateLimitExhaustedError';
+    this.retryAt = retryAt;
+  }
+}
+
+/**
+ * Verifica si un error es de rate limit
+ */
+export const isRateLimitError = (error: any): boolean => {
+  if (error instanceof RateLimitExhaustedError || error?.status === 429) return true;
+
+  const errorMessage = (error?.message || error?.toString() || '').toLowerCase();
+  return errorMessage.includes('rate limit') ||
+    errorMessage.includes('ratelimit') ||
+    errorMessage.includes('too many requests') ||
+    errorMessage.includes('add 10 credits');
+};
+
+// Errores del servidor que suelen resolverse solos al reintentar
+const isTransientError = (error: any): boolean =>
+  typeof error?.status === 'number' && (error.status >= 500 || error.status === 408);
+
+const sleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+/**
+ * Retardo exponencial con jitter: entre la mitad y el total de `base * 2^n`,
+ * para que los reintentos simultáneos no lleguen a la vez
+ */
+const backoffDelay = (base: number, max: number, attempt: number): number => {
+  const delay = Math.min(max, base * 2 ** attempt);
+  return Math.round(delay / 2 + Math.random() * (delay / 2));
+};
+
+/**
+ * Planificador de peticiones a un proveedor con varias API keys. Limita las
+ * peticiones simultáneas, deja en espera cada key que recibe un rate limit
+ * durante el tiempo que indica el servidor y reintenta con otra key o, si no
+ * queda ninguna, cuando la primera vuelva a estar disponible. Siempre se
+ * prefiere la key con menor índice, así que la principal se recupera sola
+ */
+export class LlmRequestScheduler {
+  private keys: string[] = [];
+  private states = new Map<string, KeyState>();
+  private active = 0;
+  private queue: (() => void)[] = [];
+  private config: RequestSchedulerConfig;
+
+  constructor(config: Partial<RequestSchedulerConfig> = {}) {
+    this.config = { ...DEFAULT_SCHEDULER_CONFIG, ...config };
+  }
+
+  /**
+   * Sustituye las keys conservando el enfriamiento de las que siguen
+   */
+  setKeys(keys: string[]): void {
+    this.keys = [...keys];
+    this.states = new Map(keys.map(key => [key, this.states.get(key) || { cooldownUntil: 0, failures: 0 }]));
+  }
+
+  /**
+   * Olvida todos los enfriamientos
+   */
+  reset(): void {
+    this.states.forEach(state => {
+      state.cooldownUntil = 0;
+      state.failures = 0;
+    });
+  }
+
+  /**
+   * Ejecuta `run` con la key disponible de menor índice cuando haya un hueco libre.
+   * Lanza `RateLimitExhaustedError` si todas las keys siguen limitadas
+   */
+  async schedule<T>(run: (key: string, keyIndex: number) => Promise<T>): Promise<T> {
+    if (this.keys.length === 0) {
+      throw new Error('No hay API keys configuradas');
+    }
+
+    await this.acquire();
+    try {
+      return await this.runWithRetries(run);
+    } finally {
+      this.release();
+    }
+  }
+
+  getStatus(): SchedulerStatus {
+    const now = Date.now();
+    return {
+      active: this.active,
+      queued: this.queue.length,
+      keys: this.keys.map((key, keyIndex) => {
+        const state = this.states.get(key)!;
+        return {
+          keyIndex,
+          availableAt: state.cooldownUntil > now ? state.cooldownUntil : null,
+          failures: state.failures
+        };
+      }),
+      nextAvailableAt: this.findAvailableKey() === -1 ? this.getNextAvailableAt() : null
+    };
+  }
+
+  private async runWithRetries<T>(run: (key: string, keyIndex: number) => Promise<T>): Promise<T> {
+    const { maxAttempts, retryDelayMs, maxRetryDelayMs } = this.config;
+
+    for (let attempt = 0; attempt < maxAttempts; attempt++) {
+      const keyIndex = await this.waitForKey();
+      const key = this.keys[keyIndex];
+
+      try {
+        const result = await run(key, keyIndex);
+        const state = this.states.get(key);
+        if (state) state.failures = 0;
+        return result;
+      } catch (error: any) {
+        if (isRateLimitError(error)) {
+          this.coolDown(key, keyIndex, error?.retryAfterMs);
+          continue;
+        }
+        if (!isTransientError(error) || attempt === maxAttempts - 1) {
+          throw error;
+        }
+
+        const delay = backoffDelay(retryDelayMs, maxRetryDelayMs, attempt);
+        console.warn(`⚠️ Error ${error.status} del servidor; reintentando en ${Math.ceil(delay / 1000)}s`);
+        await sleep(delay);
+      }
+    }
+
+    throw new RateLimitExhaustedError(
+      `Rate limit en todas las API keys tras ${maxAttempts} intentos`,
+      this.getNextAvailableAt()
+    );
+  }
+
+  /**
+   * Índice de la key con la que hacer el siguiente intento. Si todas están en
+   * enfriamiento, espera a la primera que se libere salvo que tarde demasiado
+   */
+  private async waitForKey(): Promise<number> {
+    const available = this.findAvailableKey();
+    if (available !== -1) return available;
+
+    if (this.keys.length === 0) {
+      throw new Error('No hay API keys configuradas');
+    }
+
+    const nextAvailableAt = this.getNextAvailableAt()!;
+    const wait = nextAvailableAt - Date.now();
+    if (wait > this.config.maxWaitMs) {
+      throw new RateLimitExhaustedError(
+        `Todas las API keys están limitadas hasta las ${new Date(nextAvailableAt).toLocaleTimeString()}`,
+        nextAvailableAt
+      );
+    }
+
+    console.log(`⏳ Todas las API keys están limitadas; reintentando en ${Math.ceil(wait / 1000)}s`);
+    await sleep(wait + Math.round(Math.random() * 250));
+    return this.waitForKey();
+  }
+
+  private coolDown(key: string, keyIndex: number, retryAfterMs?: number): void {
+    const state = this.states.get(key);
+    // La key se quitó mientras la petición estaba en curso
+    if (!state) return;
+
+    state.failures++;
+    const delay = typeof retryAfterMs === 'number'
+      ? retryAfterMs
+      : backoffDelay(this.config.cooldownMs, this.config.maxCooldownMs, state.failures - 1);
+    state.cooldownUntil = Math.max(state.cooldownUntil, Date.now() + delay);
+    console.warn(`⚠️ Rate limit en la API key #${keyIndex + 1}; en espera ${Math.ceil(delay / 1000)}s`);
+  }
+
+  private findAvailableKey(): number {
+    const now = Date.now();
+    return this.keys.findIndex(key => this.states.get(key)!.cooldownUntil <= now);
+  }
+
+  private getNextAvailableAt(): number | null {
+    const times = this.keys.map(key => this.states.get(key)!.cooldownUntil);
+    return times.length > 0 ? Math.min(...times) : null;
+  }
+
+  private acquire(): Promise<void> {
+    if (this.active < this.config.maxConcurrent) {
+      this.active++;
+      return Promise.resolve();
+    }
+    return new Promise(resolve => this.queue.push(resolve));
+  }
+
+  // El hueco pasa directamente a la siguiente petición en cola
+  private release(): void {
+    const next = this.queue.shift();
+    if (next) {
+      next();
+    } else {
+      this.active--;
+    }
+  }
+}
@@ -0,0 +1,227 @@
+import { userStorage } from '../userStorage';
+import { ChatCompletion, ChatMessage, ChatOptions, LlmProviderId } from './types';
+import { LlmTask } from './taskSettings';
+
+const CACHE_KEY = 'llmResponseCache';
+const CACHE_VERSION = 1;
+// Respuestas que se conservan como máximo; al superarlo se descartan las más antiguas
+const MAX_ENTRIES = 200;
+
+// Lo que determina que dos peticiones tengan la misma respuesta
+export interface LlmCacheRequest {
+  providerId: LlmProviderId;
+  model: string;
+  messages: ChatMessage[];
+  options: ChatOptions;
+}
+
+interface CacheEntry {
+  key: string;
+  task: LlmTask;
+  createdAt: number;
+  expiresAt: number;
+  response: ChatCompletion;
+}
+
+interface StoredCache {
+  version: number;
+  entries: CacheEntry[];
+}
+
+export interface LlmCacheStats {
+  entries: number;
+  hits: number;
+  misses: number;
+  coalesced: number;
+}
+
+/**
+ * Hash FNV-1a de 32 bits. Se combinan dos semillas para que las colisiones
+ * sean prácticamente imposibles sin necesitar una librería de criptografía
+ */
+const fnv1a = (text: string, seed: number): string => {
+  let hash = seed;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+export const buildCacheKey = ({ providerId, model, messages, options }: LlmCacheRequest): string => {
+  const text = JSON.stringify({
+    providerId,
+    model,
+    messages: messages.map(({ role, content }) => ({ role, content })),
+    temperature: options.temperature,
+    max_tokens: options.max_tokens
+  });
+  return `${providerId}:${fnv1a(text, 0x811c9dc5)}${fnv1a(text, 0x01000193)}:${text.length}`;
+};
+
+// Las respuestas de respaldo o canceladas no son la respuesta real del modelo
+const isCacheable = (response: ChatCompletion): boolean =>
+  !response._fallback && !response._aborted && !!response.choices?.[0]?.message?.content;
+
+const clone = (response: ChatCompletion): ChatCompletion => JSON.parse(JSON.stringify(response));
+
+/**
+ * Caché persistente de respuestas del LLM con caducidad por tarea. Además,
+ * las peticiones idénticas que llegan a la vez comparten una sola llamada.
+ * Se guarda en el espacio del usuario porque los prompts incluyen sus datos
+ */
+export class LlmResponseCache {
+  private entries = new Map<string, CacheEntry>();
+  private inFlight = new Map<string, Promise<ChatCompletion>>();
+  private generation = -1;
+  private loadPromise: Promise<void> | null = null;
+  private stats = { hits: 0, misses: 0, coalesced: 0 };
+
+  /**
+   * Devuelve la respuesta guardada o la pide con `fetcher`.
+   * @param ttlMs Vigencia de la respuesta; 0 desactiva la caché para la tarea
+   * @param bypass Si es true, ignora la respuesta guardada y la sustituye por la nueva
+   */
+  async run(
+    task: LlmTask,
+    request: LlmCacheRequest,
+    ttlMs: number,
+    bypass: boolean,
+    fetcher: () => Promise<ChatCompletion>
+  ): Promise<ChatCompletion> {
+    const key = buildCacheKey(request);
+
+    // Una regeneración explícita no debe recibir la respuesta que ya está en curso
+    const pending = this.inFlight.get(key);
+    if (pending && !bypass) {
+      this.stats.coalesced++;
+      console.log(`🔗 Reutilizando petición en curso (${task})`);
+      return pending.then(clone);
+    }
+
+    // La consulta a la caché forma parte de la petición en curso para que
+    // las llamadas simultáneas no lleguen a hacer cada una la suya
+    const promise: Promise<ChatCompletion> = (async () => {
+      if (ttlMs > 0 && !bypass) {
+        const cached = await this.get(key).catch(() => null);
+        if (cached) {
+          return cached;
+        }
+      }
+
+      this.stats.misses++;
+      const response = await fetcher();
+      if (ttlMs > 0) {
+        await this.set(task, key, response, ttlMs);
+      }
+      return response;
+    })().finally(() => {
+      if (this.inFlight.get(key) === promise) {
+        this.inFlight.delete(key);
+      }
+    });
+
+    this.inFlight.set(key, promise);
+    return promise.then(clone);
+  }
+
+  /**
+   * Respuesta vigente para la clave, marcada con `_cached`, o null
+   */
+  async get(key: string): Promise<ChatCompletion | null> {
+    await this.ensureLoaded();
+
+    const entry = this.entries.get(key);
+    if (!entry) return null;
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return null;
+    }
+
+    this.stats.hits++;
+    console.log(`💾 Respuesta de IA obtenida de la caché (${entry.task})`);
+    return { ...clone(entry.response), _cached: true };
+  }
+
+  async set(task: LlmTask, key: string, response: ChatCompletion, ttlMs: number): Promise<void> {
+    if (!isCacheable(response) || ttlMs <= 0) return;
+
+    try {
+      await this.ensureLoaded();
+      const now = Date.now();
+      // Reinsertar para que el orden del mapa refleje la antigüedad
+      this.entries.delete(key);
+      this.entries.set(key, { key, task, createdAt: now, expiresAt: now + ttlMs, response: clone(response) });
+      await this.persist();
+    } catch (error) {
+      // Sin sesión o sin espacio: la caché es opcional
+      console.warn('⚠️ No se pudo guardar la respuesta en la caché:', error);
+    }
+  }
+
+  /**
+   * Elimina todas las respuestas guardadas
+   */
+  async clear(): Promise<void> {
+    this.entries.clear();
+    this.stats = { hits: 0, misses: 0, coalesced: 0 };
+    await userStorage.removeItem(CACHE_KEY);
+  }
+
+  async getStats(): Promise<LlmCacheStats> {
+    await this.ensureLoaded().catch(() => undefined);
+    return { entries: this.entries.size, ...this.stats };
+  }
+
+  private ensureLoaded(): Promise<void> {
+    // Otro usuario o datos borrados: la caché en memoria ya no vale
+    if (this.generation !== userStorage.getGeneration()) {
+      this.loadPromise = null;
+      this.generation = userStorage.getGeneration();
+      this.entries.clear();
+    }
+
+    if (!this.loadPromise) {
+      this.loadPromise = this.load().catch(error => {
+        this.loadPromise = null;
+        throw error;
+      });
+    }
+    return this.loadPromise;
+  }
+
+  private async load(): Promise<void> {
+    const stored = await userStorage.getItem(CACHE_KEY);
+    if (!stored) return;
+
+    try {
+      const parsed: StoredCache = JSON.parse(stored);
+      if (parsed?.version !== CACHE_VERSION || !Array.isArray(parsed.entries)) return;
+
+      const now = Date.now();
+      parsed.entries
+        .filter(entry => entry && typeof entry.key === 'string' && entry.expiresAt > now)
+        .sort((a, b) => a.createdAt - b.createdAt)
+        .forEach(entry => this.entries.set(entry.key, entry));
+    } catch (error) {
+      console.warn('⚠️ Caché de IA corrupta, se descarta');
+    }
+  }
+
+  private async persist(): Promise<void> {
+    const now = Date.now();
+    [...this.entries.values()]
+      .filter(entry => entry.expiresAt <= now)
+      .forEach(entry => this.entries.delete(entry.key));
+
+    // Map conserva el orden de inserción: las primeras son las más antiguas
+    while (this.entries.size > MAX_ENTRIES) {
+      this.entries.delete(this.entries.keys().next().value as string);
+    }
+
+    const stored: StoredCache = { version: CACHE_VERSION, entries: [...this.entries.values()] };
+    await userStorage.setItem(CACHE_KEY, JSON.stringify(stored));
+  }
+}
+
+export const llmResponseCache = new LlmResponseCache();
@@ -0,0 +1,118 @@
+import { ChatCompletion, ChatMessage, ChatOptions, ChatStreamHandlers, LlmProvider } from './types';
+
+/**
+ * Regla del guion: si `match` aparece en el prompt de sistema o en el último
+ * mensaje del usuario, se responde con `response`
+ */
+export interface MockRule {
+  match: string | RegExp;
+  response: string | ((messages: ChatMessage[]) => string);
+}
+
+// Respuestas por defecto para cada tarea de la aplicación
+export const DEFAULT_MOCK_SCRIPT: MockRule[] = [
+  {
+    match: /esquema JSON|"steps"/i,
+    response: JSON.stringify({
+      title: 'Flujo simulado',
+      steps: [
+        { type: 'navigate', description: 'Abrir la web objetivo', url: 'https://example.com', expectedOutput: 'Página cargada' },
+        { type: 'extract', description: 'Leer el título', selectors: ['h1'], expectedOutput: 'Texto del título' }
+      ]
+    })
+  },
+  { match: /categoriz/i, response: '["administrativo"]' },
+  { match: /valida/i, response: '{"isValid": true, "explanation": "Respuesta simulada: el resultado es coherente con la actividad."}' },
+  { match: /DOM|HTML/i, response: '{"title": "Análisis simulado", "extractedData": {}, "confidence": 0.5, "action": null}' },
+  { match: /refin/i, response: '## Flujo refinado (simulado)\n\n1. Abrir la web objetivo.\n2. Extraer los datos indicados.' },
+  { match: /flujo|workflow/i, response: '## Flujo de trabajo (simulado)\n\n1. Revisar la información de entrada.\n2. Ejecutar la actividad.\n3. Registrar el resultado.' }
+];
+
+const DEFAULT_RESPONSE = 'Respuesta simulada';
+
+/**
+ * Proveedor determinista que responde según un guion, sin red.
+ * Sirve para CI y para probar la aplicación sin API keys
+ */
+export class ScriptedMockProvider implements LlmProvider {
+  id = 'mock' as const;
+  label = 'Simulado';
+  isRemote = false;
+  private script: MockRule[] = DEFAULT_MOCK_SCRIPT;
+  private calls: ChatMessage[][] = [];
+
+  getModel(): string {
+    return 'scripted-mock';
+  }
+
+  /**
+   * Sustituye el guion. Las reglas se prueban en orden
+   */
+  setScript(script: MockRule[]): void {
+    this.script = script;
+  }
+
+  reset(): void {
+    this.script = DEFAULT_MOCK_SCRIPT;
+    this.calls = [];
+  }
+
+  /**
+   * Conversaciones recibidas desde el último `reset`
+   */
+  getCalls(): ChatMessage[][] {
+    return [...this.calls];
+  }
+
+  async complete(messages: ChatMessage[], _options: ChatOptions = {}, _timeoutMs?: number): Promise<ChatCompletion> {
+    this.calls.push(messages);
+
+    const systemPrompt = messages.find(message => message.role === 'system')?.content || '';
+    const lastUserMessage = [...messages].reverse().find(message => message.role === 'user')?.content || '';
+    const text = `${systemPrompt}\n${lastUserMessage}`;
+
+    const rule = this.script.find(({ match }) =>
+      typeof match === 'string' ? text.includes(match) : match.test(text)
+    );
+    const content = !rule
+      ? DEFAULT_RESPONSE
+      : typeof rule.response === 'function'
+        ? rule.response(messages)
+        : rule.response;
+
+    return {
+      choices: [{ message: { role: 'assistant', content } }],
+      model: this.getModel(),
+      usage: {
+        prompt_tokens: Math.ceil(text.length / 4),
+        completion_tokens: Math.ceil(content.length / 4),
+        total_tokens: Math.ceil((text.length + content.length) / 4)
+      }
+    };
+  }
+
+  /**
+   * Entrega la respuesta del guion palabra a palabra
+   */
+  async stream(
+    messages: ChatMessage[],
+    options: ChatOptions,
+    timeoutMs: number,
+    handlers: ChatStreamHandlers
+  ): Promise<ChatCompletion> {
+    const completion = await this.complete(messages, options, timeoutMs);
+    const tokens = completion.choices[0].message.content.match(/\S+\s*|\s+/g) || [];
+
+    let text = '';
+    for (const token of tokens) {
+      if (handlers.signal?.aborted) {
+        return { ...completion, choices: [{ message: { role: 'assistant', content: text } }], _aborted: true };
+      }
+      text += token;
+      handlers.onToken(token, text);
+      await Promise.resolve();
+    }
+
+    return completion;
+  }
+}
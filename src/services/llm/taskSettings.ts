@@ -0,0 +1,139 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { LlmProviderId } from './types';
+
+const TASK_SETTINGS_KEY = 'llmTaskSettings';
+
+// Tareas de la aplicación que usan un LLM
+export type LlmTask =
+  | 'categorization'
+  | 'workflowDesign'
+  | 'conversationSummary'
+  | 'domAnalysis'
+  | 'workflowRefinement'
+  | 'resultValidation';
+
+export interface LlmTaskSettings {
+  // Modelo por proveedor. Si no hay, se usa el modelo por defecto del proveedor
+  models: Partial<Record<LlmProviderId, string>>;
+  temperature: number;
+  maxTokens: number;
+  timeoutMs: number;
+  // Vigencia de las respuestas en caché; 0 desactiva la caché para la tarea
+  cacheTtlMs: number;
+}
+
+export const LLM_TASKS: { id: LlmTask; label: string }[] = [
+  { id: 'categorization', label: 'Categorización' },
+  { id: 'workflowDesign', label: 'Diseño de flujos' },
+  { id: 'conversationSummary', label: 'Resumen de conversaciones' },
+  { id: 'domAnalysis', label: 'Análisis de páginas web' },
+  { id: 'workflowRefinement', label: 'Refinamiento de flujos' },
+  { id: 'resultValidation', label: 'Validación de resultados' }
+];
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+// Caducidad máxima configurable para la caché de respuestas
+export const MAX_CACHE_TTL_MS = 30 * DAY_MS;
+
+// Valores que usaba cada tarea antes de poder configurarlos. La validación de
+// resultados no se cachea porque los datos que comprueba cambian con el tiempo
+export const DEFAULT_TASK_SETTINGS: Record<LlmTask, LlmTaskSettings> = {
+  // La categorización devuelve confianza y motivo por categoría: 50 tokens la cortaban
+  categorization: { models: {}, temperature: 0.3, maxTokens: 300, timeoutMs: 15000, cacheTtlMs: 7 * DAY_MS },
+  workflowDesign: { models: {}, temperature: 0.7, maxTokens: 2000, timeoutMs: 45000, cacheTtlMs: DAY_MS },
+  conversationSummary: { models: {}, temperature: 0.2, maxTokens: 800, timeoutMs: 45000, cacheTtlMs: DAY_MS },
+  domAnalysis: { models: {}, temperature: 0.7, maxTokens: 1500, timeoutMs: 30000, cacheTtlMs: 10 * MINUTE_MS },
+  workflowRefinement: { models: {}, temperature: 0.3, maxTokens: 1500, timeoutMs: 30000, cacheTtlMs: 60 * MINUTE_MS },
+  resultValidation: { models: {}, temperature: 0.3, maxTokens: 1000, timeoutMs: 30000, cacheTtlMs: 0 }
+};
+
+// Límite de tokens que se guardaba por defecto para la categorización antes de
+// pedir confianza y motivo. Guardado tal cual trunca la respuesta, así que se actualiza
+const LEGACY_CATEGORIZATION_MAX_TOKENS = 50;
+
+const isValidNumber = (value: unknown, min: number, max: number): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= min && value <= max;
+
+/**
+ * Completa y valida los ajustes guardados de una tarea
+ */
+const parseTaskSettings = (value: any, defaults: LlmTaskSettings): LlmTaskSettings => {
+  const models: LlmTaskSettings['models'] = {};
+  if (value?.models && typeof value.models === 'object') {
+    Object.entries(value.models).forEach(([providerId, model]) => {
+      if (typeof model === 'string' && model.trim()) {
+        models[providerId as LlmProviderId] = model.trim();
+      }
+    });
+  }
+
+  return {
+    models,
+    temperature: isValidNumber(value?.temperature, 0, 2) ? value.temperature : defaults.temperature,
+    maxTokens: isValidNumber(value?.maxTokens, 1, 200000) ? Math.round(value.maxTokens) : defaults.maxTokens,
+    timeoutMs: isValidNumber(value?.timeoutMs, 1000, 600000) ? value.timeoutMs : defaults.timeoutMs,
+    cacheTtlMs: isValidNumber(value?.cacheTtlMs, 0, MAX_CACHE_TTL_MS) ? value.cacheTtlMs : defaults.cacheTtlMs
+  };
+};
+
+/**
+ * Modelo y parámetros de generación de cada tarea, configurables desde Ajustes
+ */
+export class LlmTaskSettingsStore {
+  private settings: Record<LlmTask, LlmTaskSettings> = { ...DEFAULT_TASK_SETTINGS };
+
+  /**
+   * Carga los ajustes guardados. Debe llamarse al iniciar la aplicación
+   */
+  async load(): Promise<void> {
+    try {
+      const stored = await AsyncStorage.getItem(TASK_SETTINGS_KEY);
+      const parsed = stored ? JSON.parse(stored) : {};
+      LLM_TASKS.forEach(({ id }) => {
+        this.settings[id] = parseTaskSettings(parsed?.[id], DEFAULT_TASK_SETTINGS[id]);
+      });
+      if (this.settings.categorization.maxTokens === LEGACY_CATEGORIZATION_MAX_TOKENS) {
+        this.settings.categorization.maxTokens = DEFAULT_TASK_SETTINGS.categorization.maxTokens;
+      }
+    } catch (error) {
+      console.error('Error al cargar los ajustes de IA por tarea:', error);
+    }
+  }
+
+  get(task: LlmTask): LlmTaskSettings {
+    return { ...this.settings[task], models: { ...this.settings[task].models } };
+  }
+
+  getAll(): Record<LlmTask, LlmTaskSettings> {
+    const all = {} as Record<LlmTask, LlmTaskSettings>;
+    LLM_TASKS.forEach(({ id }) => {
+      all[id] = this.get(id);
+    });
+    return all;
+  }
+
+  /**
+   * Modelo de la tarea para un proveedor, o undefined para usar el del proveedor
+   */
+  getModel(task: LlmTask, providerId: LlmProviderId): string | undefined {
+    return this.settings[task].models[providerId];
+  }
+
+  async update(task: LlmTask, settings: LlmTaskSettings): Promise<void> {
+    this.settings[task] = parseTaskSettings(settings, DEFAULT_TASK_SETTINGS[task]);
+    await this.persist();
+  }
+
+  async reset(task: LlmTask): Promise<void> {
+    this.settings[task] = { ...DEFAULT_TASK_SETTINGS[task], models: {} };
+    await this.persist();
+  }
+
+  private async persist(): Promise<void> {
+    await AsyncStorage.setItem(TASK_SETTINGS_KEY, JSON.stringify(this.settings));
+  }
+}
+
+export const llmTaskSettings = new LlmTaskSettingsStore();
@@ -0,0 +1,90 @@
+// Mensaje en el formato de chat compartido por todos los proveedores
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+// Parámetros de generación que se envían tal cual al proveedor
+export interface ChatOptions {
+  // Sustituye el modelo configurado en el proveedor
+  model?: string;
+  temperature?: number;
+  max_tokens?: number;
+  [key: string]: any;
+}
+
+/**
+ * Respuesta en formato OpenAI. Todos los proveedores devuelven esta forma
+ * para que los servicios no dependan de cuál está activo
+ */
+export interface ChatCompletion {
+  choices: {
+    message: {
+      role: 'assistant';
+      content: string;
+    };
+  }[];
+  model: string;
+  usage?: {
+    prompt_tokens?: number;
+    completion_tokens?: number;
+    total_tokens?: number;
+    // Coste en USD, si el proveedor lo informa (OpenRouter con `usage.include`)
+    cost?: number;
+  };
+  // Presente cuando la respuesta la generó el sistema de emergencia
+  _fallback?: boolean;
+  // Presente cuando el usuario canceló la respuesta en streaming: el contenido está incompleto
+  _aborted?: boolean;
+  // Presente cuando la respuesta se sirvió desde la caché sin llamar al proveedor
+  _cached?: boolean;
+}
+
+// Callbacks de una respuesta en streaming
+export interface ChatStreamHandlers {
+  // Se llama con cada fragmento recibido y el texto acumulado hasta ahora
+  onToken: (token: string, text: string) => void;
+  // Al abortarla, la llamada termina devolviendo el texto recibido hasta ese momento
+  signal?: AbortSignal;
+}
+
+export type LlmProviderId = 'openrouter' | 'local' | 'mock';
+
+/**
+ * Backend de LLM capaz de completar una conversación
+ */
+export interface LlmProvider {
+  id: LlmProviderId;
+  label: string;
+  // Indica si los prompts salen del dispositivo o de la red de la organización
+  isRemote: boolean;
+  getModel(): string;
+  // `apiKey` sustituye, solo para esta llamada, a la key configurada en el proveedor
+  complete(messages: ChatMessage[], options: ChatOptions, timeoutMs: number, apiKey?: string): Promise<ChatCompletion>;
+  // Opcional: los proveedores sin streaming se usan con `complete`
+  stream?(
+    messages: ChatMessage[],
+    options: ChatOptions,
+    timeoutMs: number,
+    handlers: ChatStreamHandlers,
+    apiKey?: string
+  ): Promise<ChatCompletion>;
+}
+
+/**
+ * Error de un proveedor. `status` es el código HTTP cuando lo hay y
+ * `retryAfterMs`, la espera que pidió el servidor tras un rate limit
+ */
+export class LlmProviderError extends Error {
+  status?: number;
+  retryAfterMs?: number;
+  providerId: LlmProviderId;
+
+  constructor(providerId: LlmProviderId, message: string, status?: number, retryAfterMs?: number) {
+    super(message);
+    this.name = 'LlmProviderError';
+    this.providerId = providerId;
+    this.status = status;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
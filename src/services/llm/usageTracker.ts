@@ -0,0 +1,475 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { userStorage } from '../userStorage';
+import { ChatCompletion, ChatMessage, LlmProviderId } from './types';
+import { LlmTask } from './taskSettings';
+
+const USAGE_KEY = 'llmUsage';
+const USAGE_VERSION = 1;
+const BUDGETS_KEY = 'llmBudgets';
+
+// Se conservan los registros de los últimos días, con un máximo para no llenar el almacenamiento
+const RETENTION_DAYS = 31;
+const MAX_RECORDS = 1500;
+
+// A partir de esta fracción del presupuesto se avisa antes de superarlo
+export const BUDGET_WARNING_RATIO = 0.8;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Una llamada al LLM, tal como se guarda
+export interface LlmUsageRecord {
+  timestamp: number;
+  task: LlmTask;
+  activityId?: string;
+  providerId: LlmProviderId;
+  model: string;
+  // Posición de la API key en la rotación de OpenRouter
+  keyIndex?: number;
+  // Versiones de las plantillas de prompt usadas, p. ej. `categorizationSystem@1`
+  promptVersion?: string;
+  promptTokens: number;
+  completionTokens: number;
+  // true si el proveedor no informó los tokens y se estimaron por longitud
+  estimated: boolean;
+  costUsd: number;
+  latencyMs: number;
+  fallback: boolean;
+  cached: boolean;
+  failed: boolean;
+}
+
+export interface LlmUsageInput {
+  task: LlmTask;
+  activityId?: string;
+  providerId: LlmProviderId;
+  model: string;
+  keyIndex?: number;
+  promptVersion?: string;
+  latencyMs: number;
+  messages: ChatMessage[];
+  response?: ChatCompletion;
+  failed?: boolean;
+}
+
+export interface UsageTotals {
+  requests: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  costUsd: number;
+  fallbackRequests: number;
+  cachedRequests: number;
+  failedRequests: number;
+  averageLatencyMs: number;
+}
+
+export interface DailyUsage extends UsageTotals {
+  date: string;
+}
+
+export interface KeyUsage {
+  keyIndex: number;
+  requests: number;
+  totalTokens: number;
+  // Peticiones diarias permitidas (0 si no hay límite configurado)
+  quota: number;
+}
+
+// Presupuestos orientativos: solo avisan, nunca bloquean llamadas. 0 significa sin límite
+export interface LlmBudgets {
+  dailyTokens: number;
+  monthlyCostUsd: number;
+  keyDailyRequests: number;
+}
+
+export type BudgetId = keyof LlmBudgets;
+export type BudgetLevel = 'ok' | 'warning' | 'exceeded';
+
+export interface BudgetStatus {
+  id: BudgetId;
+  label: string;
+  used: number;
+  limit: number;
+  level: BudgetLevel;
+  keyIndex?: number;
+}
+
+type BudgetListener = (status: BudgetStatus) => void;
+
+// El plan gratuito de OpenRouter permite 50 peticiones diarias por key
+export const DEFAULT_BUDGETS: LlmBudgets = {
+  dailyTokens: 0,
+  monthlyCostUsd: 0,
+  keyDailyRequests: 50
+};
+
+export const BUDGET_LABELS: Record<BudgetId, string> = {
+  dailyTokens: 'Tokens diarios',
+  monthlyCostUsd: 'Coste mensual (USD)',
+  keyDailyRequests: 'Peticiones diarias por key'
+};
+
+/**
+ * Fecha local en formato AAAA-MM-DD, para agrupar por día
+ */
+export const toDateKey = (timestamp: number): string => {
+  const date = new Date(timestamp);
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+const startOfDay = (timestamp: number): number => {
+  const date = new Date(timestamp);
+  date.setHours(0, 0, 0, 0);
+  return date.getTime();
+};
+
+const startOfMonth = (timestamp: number): number => {
+  const date = new Date(startOfDay(timestamp));
+  date.setDate(1);
+  return date.getTime();
+};
+
+const estimateTokens = (text: string): number => Math.ceil(text.length / 4);
+
+const emptyTotals = (): UsageTotals => ({
+  requests: 0,
+  promptTokens: 0,
+  completionTokens: 0,
+  totalTokens: 0,
+  costUsd: 0,
+  fallbackRequests: 0,
+  cachedRequests: 0,
+  failedRequests: 0,
+  averageLatencyMs: 0
+});
+
+/**
+ * Suma un conjunto de registros. La latencia media solo cuenta las
+ * llamadas reales, no las respuestas servidas desde la caché
+ */
+export const sumUsage = (records: LlmUsageRecord[]): UsageTotals => {
+  const totals = emptyTotals();
+  let latencySum = 0;
+  let latencyCount = 0;
+
+  records.forEach(record => {
+    totals.requests++;
+    totals.promptTokens += record.promptTokens;
+    totals.completionTokens += record.completionTokens;
+    totals.costUsd += record.costUsd;
+    if (record.fallback) totals.fallbackRequests++;
+    if (record.cached) totals.cachedRequests++;
+    if (record.failed) totals.failedRequests++;
+    if (!record.cached) {
+      latencySum += record.latencyMs;
+      latencyCount++;
+    }
+  });
+
+  totals.totalTokens = totals.promptTokens + totals.completionTokens;
+  totals.averageLatencyMs = latencyCount > 0 ? Math.round(latencySum / latencyCount) : 0;
+  return totals;
+};
+
+const parseBudgets = (value: any): LlmBudgets => {
+  const budgets = { ...DEFAULT_BUDGETS };
+  (Object.keys(DEFAULT_BUDGETS) as BudgetId[]).forEach(id => {
+    const amount = value?.[id];
+    if (typeof amount === 'number' && Number.isFinite(amount) && amount >= 0) {
+      budgets[id] = amount;
+    }
+  });
+  return budgets;
+};
+
+const levelFor = (used: number, limit: number): BudgetLevel => {
+  if (limit <= 0) return 'ok';
+  if (used >= limit) return 'exceeded';
+  return used >= limit * BUDGET_WARNING_RATIO ? 'warning' : 'ok';
+};
+
+/**
+ * Registra el consumo de cada llamada al LLM (tokens, coste, latencia, key y
+ * si se usó el fallback o la caché) y avisa cuando se acerca a los presupuestos.
+ * Los registros se guardan en el espacio del usuario; los presupuestos, en el dispositivo
+ */
+export class LlmUsageTracker {
+  private records: LlmUsageRecord[] = [];
+  private budgets: LlmBudgets = { ...DEFAULT_BUDGETS };
+  private listeners: BudgetListener[] = [];
+  // Avisos ya enviados en el periodo actual, para no repetirlos en cada llamada
+  private notified = new Set<string>();
+  private generation = -1;
+  private loadPromise: Promise<void> | null = null;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  /**
+   * Carga los presupuestos guardados. Debe llamarse al iniciar la aplicación
+   */
+  async load(): Promise<void> {
+    try {
+      const stored = await AsyncStorage.getItem(BUDGETS_KEY);
+      this.budgets = parseBudgets(stored ? JSON.parse(stored) : null);
+    } catch (error) {
+      console.error('Error al cargar los presupuestos de IA:', error);
+    }
+  }
+
+  getBudgets(): LlmBudgets {
+    return { ...this.budgets };
+  }
+
+  async updateBudgets(budgets: LlmBudgets): Promise<void> {
+    this.budgets = parseBudgets(budgets);
+    this.notified.clear();
+    await AsyncStorage.setItem(BUDGETS_KEY, JSON.stringify(this.budgets));
+  }
+
+  /**
+   * Guarda el consumo de una llamada. Nunca lanza: si falla, solo se pierde el registro
+   */
+  async record(input: LlmUsageInput): Promise<void> {
+    const { response } = input;
+    const cached = !!response?._cached;
+    const content = response?.choices?.[0]?.message?.content || '';
+    const usage = response?.usage;
+    const estimated = !cached && !input.failed &&
+      (typeof usage?.prompt_tokens !== 'number' || typeof usage?.completion_tokens !== 'number');
+
+    const record: LlmUsageRecord = {
+      timestamp: Date.now(),
+      task: input.task,
+      providerId: input.providerId,
+      model: response?.model || input.model,
+      // Una respuesta en caché no consume tokens ni cuota
+      promptTokens: cached || input.failed
+        ? 0
+        : usage?.prompt_tokens ?? estimateTokens(input.messages.map(message => message.content).join('\n')),
+      completionTokens: cached || input.failed ? 0 : usage?.completion_tokens ?? estimateTokens(content),
+      estimated,
+      costUsd: cached ? 0 : usage?.cost || 0,
+      latencyMs: input.latencyMs,
+      fallback: !!response?._fallback,
+      cached,
+      failed: !!input.failed
+    };
+    if (input.activityId) record.activityId = input.activityId;
+    if (input.promptVersion) record.promptVersion = input.promptVersion;
+    if (input.keyIndex !== undefined && !cached) record.keyIndex = input.keyIndex;
+
+    try {
+      await this.ensureLoaded();
+      this.records.push(record);
+      await this.persist();
+      this.checkBudgets();
+    } catch (error) {
+      console.warn('⚠️ No se pudo registrar el consumo de IA:', error);
+    }
+  }
+
+  /**
+   * Totales por día de los últimos `days` días, del más reciente al más antiguo
+   */
+  async getDailyTotals(days: number = 7): Promise<DailyUsage[]> {
+    await this.ensureLoaded();
+
+    const byDate = new Map<string, LlmUsageRecord[]>();
+    const since = startOfDay(Date.now()) - (days - 1) * DAY_MS;
+    this.records
+      .filter(record => record.timestamp >= since)
+      .forEach(record => {
+        const date = toDateKey(record.timestamp);
+        byDate.set(date, [...(byDate.get(date) || []), record]);
+      });
+
+    const result: DailyUsage[] = [];
+    for (let i = 0; i < days; i++) {
+      const date = toDateKey(Date.now() - i * DAY_MS);
+      result.push({ date, ...sumUsage(byDate.get(date) || []) });
+    }
+    return result;
+  }
+
+  /**
+   * Totales agrupados por tarea, actividad o versión de prompt desde hace `days` días
+   */
+  async getTotalsBy(field: 'task' | 'activityId' | 'promptVersion', days: number = 7): Promise<{ key: string; totals: UsageTotals }[]> {
+    await this.ensureLoaded();
+
+    const since = startOfDay(Date.now()) - (days - 1) * DAY_MS;
+    const groups = new Map<string, LlmUsageRecord[]>();
+    this.records
+      .filter(record => record.timestamp >= since && record[field])
+      .forEach(record => {
+        const key = record[field] as string;
+        groups.set(key, [...(groups.get(key) || []), record]);
+      });
+
+    return [...groups.entries()]
+      .map(([key, records]) => ({ key, totals: sumUsage(records) }))
+      .sort((a, b) => b.totals.totalTokens - a.totals.totalTokens || b.totals.requests - a.totals.requests);
+  }
+
+  /**
+   * Peticiones de hoy hechas con cada API key frente a su cuota diaria
+   */
+  async getKeyUsageToday(): Promise<KeyUsage[]> {
+    await this.ensureLoaded();
+    return this.computeKeyUsage();
+  }
+
+  async getBudgetStatus(): Promise<BudgetStatus[]> {
+    await this.ensureLoaded();
+    return this.computeBudgetStatus();
+  }
+
+  /**
+   * Suscribe una función a los avisos de presupuesto
+   * @returns función para cancelar la suscripción
+   */
+  subscribe(listener: BudgetListener): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  }
+
+  /**
+   * Borra el historial de consumo del usuario actual
+   */
+  async clear(): Promise<void> {
+    this.records = [];
+    this.notified.clear();
+    await userStorage.removeItem(USAGE_KEY);
+  }
+
+  private computeKeyUsage(): KeyUsage[] {
+    const today = startOfDay(Date.now());
+    const byKey = new Map<number, LlmUsageRecord[]>();
+    this.records
+      .filter(record => record.timestamp >= today && record.keyIndex !== undefined)
+      .forEach(record => byKey.set(record.keyIndex!, [...(byKey.get(record.keyIndex!) || []), record]));
+
+    return [...byKey.entries()]
+      .sort(([a], [b]) => a - b)
+      .map(([keyIndex, records]) => ({
+        keyIndex,
+        requests: records.length,
+        totalTokens: sumUsage(records).totalTokens,
+        quota: this.budgets.keyDailyRequests
+      }));
+  }
+
+  private computeBudgetStatus(): BudgetStatus[] {
+    const now = Date.now();
+    const today = sumUsage(this.records.filter(record => record.timestamp >= startOfDay(now)));
+    const month = sumUsage(this.records.filter(record => record.timestamp >= startOfMonth(now)));
+
+    const statuses: BudgetStatus[] = [
+      {
+        id: 'dailyTokens',
+        label: BUDGET_LABELS.dailyTokens,
+        used: today.totalTokens,
+        limit: this.budgets.dailyTokens,
+        level: levelFor(today.totalTokens, this.budgets.dailyTokens)
+      },
+      {
+        id: 'monthlyCostUsd',
+        label: BUDGET_LABELS.monthlyCostUsd,
+        used: month.costUsd,
+        limit: this.budgets.monthlyCostUsd,
+        level: levelFor(month.costUsd, this.budgets.monthlyCostUsd)
+      }
+    ];
+
+    this.computeKeyUsage().forEach(({ keyIndex, requests, quota }) => {
+      statuses.push({
+        id: 'keyDailyRequests',
+        label: `${BUDGET_LABELS.keyDailyRequests} (key #${keyIndex + 1})`,
+        used: requests,
+        limit: quota,
+        level: levelFor(requests, quota),
+        keyIndex
+      });
+    });
+
+    return statuses;
+  }
+
+  /**
+   * Avisa una sola vez por periodo y nivel de cada presupuesto que se acerca o se supera
+   */
+  private checkBudgets(): void {
+    const now = Date.now();
+    this.computeBudgetStatus()
+      .filter(status => status.level !== 'ok')
+      .forEach(status => {
+        const period = status.id === 'monthlyCostUsd' ? toDateKey(startOfMonth(now)) : toDateKey(now);
+        const noticeKey = `${status.id}:${status.keyIndex ?? ''}:${status.level}:${period}`;
+        if (this.notified.has(noticeKey)) return;
+
+        this.notified.add(noticeKey);
+        console.warn(`💸 Presupuesto de IA "${status.label}": ${status.used} de ${status.limit}`);
+        this.listeners.forEach(listener => {
+          try {
+            listener(status);
+          } catch (error) {
+            console.error('Error en listener de presupuesto:', error);
+          }
+        });
+      });
+  }
+
+  private ensureLoaded(): Promise<void> {
+    // Otro usuario o datos borrados: el historial en memoria ya no vale
+    if (this.generation !== userStorage.getGeneration()) {
+      this.loadPromise = null;
+      this.generation = userStorage.getGeneration();
+      this.records = [];
+      this.notified.clear();
+    }
+
+    if (!this.loadPromise) {
+      this.loadPromise = this.loadRecords().catch(error => {
+        this.loadPromise = null;
+        throw error;
+      });
+    }
+    return this.loadPromise;
+  }
+
+  private async loadRecords(): Promise<void> {
+    const stored = await userStorage.getItem(USAGE_KEY);
+    if (!stored) return;
+
+    try {
+      const parsed = JSON.parse(stored);
+      if (parsed?.version === USAGE_VERSION && Array.isArray(parsed.records)) {
+        this.records = parsed.records.filter(
+          (record: any) => record && typeof record.timestamp === 'number' && typeof record.task === 'string'
+        );
+      }
+    } catch (error) {
+      console.warn('⚠️ Historial de consumo de IA corrupto, se descarta');
+    }
+  }
+
+  /**
+   * Guarda el historial descartando lo antiguo. Las escrituras se encadenan
+   * para que dos llamadas simultáneas no se pisen
+   */
+  private persist(): Promise<void> {
+    const cutoff = Date.now() - RETENTION_DAYS * DAY_MS;
+    this.records = this.records.filter(record => record.timestamp >= cutoff).slice(-MAX_RECORDS);
+    const payload = JSON.stringify({ version: USAGE_VERSION, records: this.records });
+
+    this.writeQueue = this.writeQueue
+      .catch(() => undefined)
+      .then(() => userStorage.setItem(USAGE_KEY, payload));
+    return this.writeQueue;
+  }
+}
+
+export const llmUsage = new LlmUsageTracker();
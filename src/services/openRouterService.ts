@@ -1,70 +1,99 @@
 // Reemplazar la importación de axios
 // import axios from 'axios';
+import {
+  llmProviders,
+  llmTaskSettings,
+  OpenAICompatibleProvider,
+  ChatCompletion,
+  ChatStreamHandlers,
+  LlmProviderError,
+  LlmProviderId,
+  LlmTask,
+  buildCacheKey,
+  llmResponseCache,
+  llmUsage,
+  LlmUsageInput,
+  LlmRequestScheduler,
+  SchedulerStatus,
+  isRateLimitError,
+  promptTemplates,
+  RenderedPrompt,
+  llmContextBudgets,
+  planConversationContext,
+  createConversationSummary,
+  estimateTokens,
+  ConversationSummary
+} from './llm';
+import {
+  parseWorkflowResponse,
+  StructuredWorkflow,
+  WORKFLOW_JSON_SCHEMA
+} from '../models/workflow';
+import {
+  CategoryCorrection,
+  CategoryDefinition,
+  CategorySuggestion,
+  DEFAULT_CATEGORIES,
+  findCategory,
+  normalizeConfidence
+} from '../models/category';
+import { categoryRepository } from '../repositories/categoryRepository';
+import { categoryCorrectionRepository } from '../repositories/categoryCorrectionRepository';
+import { workflowRepository } from '../repositories/workflowRepository';
 
 // Constantes
-const OPENROUTER_API_URL = 'https://openrouter.ai/api/v1/chat/completions';
-let OPENROUTER_API_KEY = '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';
+// Se puede apuntar a `npm run llm-fixtures` para grabar o reproducir llamadas sin red
+const OPENROUTER_BASE_URL = process.env.EXPO_PUBLIC_OPENROUTER_BASE_URL || 'https://openrouter.ai/api/v1';
+const OPENROUTER_API_URL = `${OPENROUTER_BASE_URL}/chat/completions`;
 const MODEL = 'deepseek/deepseek-chat-v3-0324:free';
 
-// Sistema de rotación de API keys
-const API_KEYS = [
-  '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', // Key principal
-  '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', // Key secundaria
-  // Añadir aquí más API keys como fallback
-  // 'sk-or-v1-tu-tercera-api-key-aqui',
-];
-let CURRENT_KEY_INDEX = 0;
-
-// Configuración de fallback
-let USE_FALLBACK_SERVICE = false; // Flag para habilitar el servicio de fallback
-const MAX_RATE_LIMIT_RETRIES = 3; // Intentos máximos antes de usar fallback permanente
-let RATE_LIMIT_COUNT = 0; // Contador de errores de rate limit
-
-// Categorías disponibles
-export type ActivityCategory = 'scrapping' | 'analisis' | 'administrativo' | 'asistente';
+// Sistema de rotación de API keys. Las keys las añade el usuario desde
+// Configuración y se cargan al iniciar sesión (ver credentialVault)
+const API_KEYS: string[] = [];
+
+// OpenRouter como proveedor de LLM. No tiene key propia: cada llamada lleva
+// la que le asigna el planificador
+llmProviders.register(new OpenAICompatibleProvider({
+  id: 'openrouter',
+  label: 'OpenRouter',
+  baseUrl: OPENROUTER_BASE_URL,
+  model: MODEL,
+  isRemote: true,
+  headers: { 'HTTP-Referer': 'https://gamg-app.com' },
+  // Pide a OpenRouter que incluya el coste de cada llamada en `usage`
+  extraBody: { usage: { include: true } }
+}));
+
+// Las peticiones a OpenRouter pasan por el planificador, que limita las
+// simultáneas y deja en espera cada key limitada hasta que se pueda reutilizar
+const openRouterScheduler = new LlmRequestScheduler();
+
+// ID de una de las categorías de la organización (ver CategoryDefinition)
+export type ActivityCategory = string;
 
 // Estructura para el detalle del flujo de actividad
 export interface WorkflowMessage {
   role: 'user' | 'assistant';
   content: string;
+  // Los mensajes fijados no se resumen ni se descartan al guardar la versión final
+  pinned?: boolean;
 }
 
 /**
- * Reinicia el contador de rate limits y el estado de fallback
+ * Olvida las esperas por rate limit de todas las keys
  */
 export const resetRateLimitState = (): void => {
-  RATE_LIMIT_COUNT = 0;
-  USE_FALLBACK_SERVICE = false;
-  CURRENT_KEY_INDEX = 0; // Volver a la key principal
-  OPENROUTER_API_KEY = API_KEYS[CURRENT_KEY_INDEX];
-  console.log('🔄 Estado de rate limit y API key reiniciados');
+  openRouterScheduler.reset();
+  console.log('🔄 Estado de rate limit de las API keys reiniciado');
 };
 
-/**
- * Rota a la siguiente API key disponible
- * @returns true si se pudo rotar a una nueva key, false si no hay más keys disponibles
- */
-function rotateApiKey(): boolean {
-  const nextIndex = CURRENT_KEY_INDEX + 1;
-  
-  // Verificar si hay más keys disponibles
-  if (nextIndex < API_KEYS.length) {
-    CURRENT_KEY_INDEX = nextIndex;
-    OPENROUTER_API_KEY = API_KEYS[CURRENT_KEY_INDEX];
-    console.log(`🔑 Rotando a API key #${nextIndex + 1}`);
-    return true;
-  }
-  
-  console.log('⚠️ No hay más API keys disponibles para rotar');
-  return false;
-}
-
 /**
  * Añade una nueva API key al sistema de rotación
  */
 export const addApiKey = (newKey: string): void => {
   if (!API_KEYS.includes(newKey)) {
     API_KEYS.push(newKey);
+    openRouterScheduler.setKeys(API_KEYS);
     console.log(`✅ Nueva API key añadida. Total de keys: ${API_KEYS.length}`);
   } else {
     console.log('⚠️ La API key ya existe en el sistema');
@@ -72,74 +101,48 @@ export const addApiKey = (newKey: string): void => {
 };
 
 /**
- * Obtiene todas las API keys configuradas actualmente
+ * Sustituye todas las API keys del sistema de rotación
  */
-export const getApiKeys = (): string[] => {
-  return [...API_KEYS]; // Devolver copia para evitar modificaciones externas
+export const setApiKeys = (keys: string[]): void => {
+  API_KEYS.splice(0, API_KEYS.length, ...keys.filter((key, index) => key && keys.indexOf(key) === index));
+  openRouterScheduler.setKeys(API_KEYS);
+  console.log(`🔑 ${API_KEYS.length} API keys cargadas en la rotación`);
 };
 
 /**
- * Verifica si un error es de rate limit
+ * Quita una API key del sistema de rotación
  */
-const isRateLimitError = (error: any): boolean => {
-  const errorMessage = error?.message || error?.toString() || '';
-  return errorMessage.toLowerCase().includes('rate limit') || 
-         errorMessage.toLowerCase().includes('ratelimit') ||
-         errorMessage.toLowerCase().includes('too many requests') ||
-         errorMessage.toLowerCase().includes('add 10 credits');
+export const removeApiKey = (key: string): void => {
+  const index = API_KEYS.indexOf(key);
+  if (index === -1) return;
+
+  API_KEYS.splice(index, 1);
+  openRouterScheduler.setKeys(API_KEYS);
 };
 
 /**
- * Maneja los errores de rate limit y decide si usar fallback
+ * Obtiene todas las API keys configuradas actualmente
  */
-const handleRateLimitError = (error: any): void => {
-  if (isRateLimitError(error)) {
-    RATE_LIMIT_COUNT++;
-    console.warn(`⚠️ Error de rate limit detectado (${RATE_LIMIT_COUNT}/${MAX_RATE_LIMIT_RETRIES})`);
-    
-    // Intentar rotar a otra API key primero
-    const rotated = rotateApiKey();
-    
-    // Si no hay más keys o seguimos alcanzando límites, activar fallback
-    if (!rotated || RATE_LIMIT_COUNT >= MAX_RATE_LIMIT_RETRIES) {
-      console.warn('🔄 Activando servicio de fallback permanente debido a rate limits persistentes');
-      USE_FALLBACK_SERVICE = true;
-    }
-  }
+export const getApiKeys = (): string[] => {
+  return [...API_KEYS]; // Devolver copia para evitar modificaciones externas
 };
 
 /**
- * Obtiene la clave API de OpenRouter actual
+ * Obtiene la clave API principal de OpenRouter, la primera de la rotación
  */
 export const getOpenRouterApiKey = (): string => {
-  return OPENROUTER_API_KEY;
+  return API_KEYS[0] || '';
 };
 
 /**
- * Establece una nueva clave API de OpenRouter
- * @param newApiKey Nueva clave API
- * @param addToRotation Si es true, también agrega la clave al sistema de rotación
+ * Establece la clave API principal de OpenRouter. Se coloca la primera de la
+ * rotación para que el planificador la use siempre que no esté limitada
  */
-export const setOpenRouterApiKey = (newApiKey: string, addToRotation: boolean = true): void => {
+export const setOpenRouterApiKey = (newApiKey: string): void => {
   console.log('🔑 Actualizando API key de OpenRouter');
   
-  // Establecer como clave actual
-  OPENROUTER_API_KEY = newApiKey;
-  
-  // Añadir al sistema de rotación si se solicita
-  if (addToRotation) {
-    addApiKey(newApiKey);
-    
-    // Encontrar el índice de la nueva clave en el array de API_KEYS
-    const keyIndex = API_KEYS.indexOf(newApiKey);
-    if (keyIndex !== -1) {
-      CURRENT_KEY_INDEX = keyIndex;
-    }
-  }
-  
-  // Resetear estado de fallback
-  USE_FALLBACK_SERVICE = false;
-  RATE_LIMIT_COUNT = 0;
+  API_KEYS.splice(0, API_KEYS.length, newApiKey, ...API_KEYS.filter(key => key !== newApiKey));
+  openRouterScheduler.setKeys(API_KEYS);
 };
 
 /**
@@ -151,24 +154,9 @@ export const validateOpenRouterApiKey = async (apiKey?: string): Promise<{
   isValid: boolean;
   message: string;
 }> => {
-  const keyToTest = apiKey || OPENROUTER_API_KEY;
-  
   try {
-    // Guardar la clave API actual
-    const previousKey = OPENROUTER_API_KEY;
-    
-    // Establecer temporalmente la clave a validar
-    if (apiKey) {
-      OPENROUTER_API_KEY = apiKey;
-    }
-    
-    // Verificar la clave API
-    const result = await checkOpenRouterApiKey();
-    
-    // Restaurar la clave API original si se proporcionó una nueva
-    if (apiKey) {
-      OPENROUTER_API_KEY = previousKey;
-    }
+    // Verificar la clave API indicada o la principal
+    const result = await checkOpenRouterApiKey(apiKey);
     
     if (result.isValid) {
       return {
@@ -189,301 +177,470 @@ export const validateOpenRouterApiKey = async (apiKey?: string): Promise<{
   }
 };
 
+// Correcciones de los usuarios que se dan al modelo como ejemplos
+const CATEGORIZATION_CORRECTION_EXAMPLES = 8;
+
+// Confianza de las categorías que no propone el modelo con su propia confianza
+const UNRATED_CONFIDENCE = 0.5;
+const FALLBACK_CONFIDENCE = 0.3;
+const KEYWORD_CONFIDENCE = 0.6;
+const DEFAULT_CATEGORY_CONFIDENCE = 0.2;
+
 /**
- * Analiza el texto de una actividad para determinar sus categorías
+ * Lista de categorías, ejemplos y correcciones recientes para el prompt de categorización
  */
-export const categorizeActivity = async (activityName: string, activityDescription: string): Promise<ActivityCategory[]> => {
-  try {
-    const fullText = `Nombre: ${activityName}\nDescripción: ${activityDescription || 'No disponible'}`;
-    
-    console.log('🔄 Categorizando actividad:', activityName);
-    
-    // Preparar los mensajes para la API
-    const messages = [
-      {
-        role: 'system',
-        content: `Eres un asistente especializado en categorizar actividades organizacionales. 
-        Debes analizar el texto de una actividad y determinar a qué categorías pertenece. IMPORTANTE: Una actividad puede pertenecer a MÚLTIPLES categorías a la vez si cumple con varios criterios.
-        
-        Las categorías posibles son:
-        - scrapping: actividades relacionadas con investigación en la web, búsqueda de información, etc.
-        - analisis: actividades relacionadas con generar resúmenes, analizar datos o información sobre un tema determinado.
-        - administrativo: actividades relacionadas con recursos humanos, gestión organizacional, etc.
-        - asistente: CUALQUIER actividad relacionada con enviar emails, agendar reuniones, redactar documentos, o tareas típicas de un asistente personal.
-        
-        EJEMPLOS:
-        - "Enviar un email a clientes" → ["asistente"]
-        - "Facturación clientes" → ["administrativo"]
-        - "Enviar facturas por email" → ["administrativo", "asistente"]
-        - "Investigar nuevos proveedores" → ["scrapping"]
-        - "Analizar ventas del mes" → ["analisis"]
-        - "Redactar informes y enviar por email" → ["asistente", "analisis"]
-        
-        Responde SOLO con un array de categorías en formato JSON, sin explicaciones adicionales.
-        Ejemplo: ["scrapping", "analisis"] o ["administrativo"] o ["administrativo", "asistente"]`
-      },
-      {
-        role: 'user',
-        content: fullText
-      }
-    ];
-    
-    // Usar función con timeout para llamada a la API
-    const data = await callOpenRouterWithTimeout<any>(
-      messages,
-      { temperature: 0.3, max_tokens: 50 },
-      15000 // 15 segundos es suficiente para esta tarea simple
-    );
-    
-    // Verificar si estamos usando el sistema de fallback
-    const usingFallback = isFallbackResponse(data);
-    if (usingFallback) {
-      console.log('ℹ️ Usando respuesta de fallback para categorización');
-    }
-    
-    // Verificar si se recibió la estructura esperada
-    if (!data.choices || !Array.isArray(data.choices) || data.choices.length === 0) {
-      console.error('❌ Respuesta de API sin choices al categorizar:', data);
-      
-      // En caso de error, hacer categorización básica por palabras clave
-      return categorizacionEmergencia(activityName, activityDescription);
-    }
-
-    // Extraer la respuesta del modelo
-    const content = data.choices[0]?.message?.content;
-    
-    if (!content) {
-      console.error('❌ No se recibió contenido del modelo al categorizar');
-      return categorizacionEmergencia(activityName, activityDescription);
-    }
+const buildCategorizationPrompt = (categories: CategoryDefinition[], corrections: CategoryCorrection[]) => {
+  const examples = categories.flatMap(category =>
+    category.examples.map(example => `- "${example}" → ${JSON.stringify([category.id])}`)
+  );
+  // Las categorías que la organización ya eliminó no se mencionan
+  const existing = (ids: string[]) => ids.filter(id => categories.some(category => category.id === id));
+  const correctionLines = corrections.map(correction => {
+    const activity = correction.activityDescription
+      ? `"${correction.activityName}" (${correction.activityDescription})`
+      : `"${correction.activityName}"`;
+    return `- ${activity}: se propuso ${JSON.stringify(existing(correction.suggested))} y la organización eligió ${JSON.stringify(existing(correction.chosen))}`;
+  });
+  return promptTemplates.render('categorizationSystem', {
+    categories: categories
+      .map(category => `- ${category.id}: ${category.name}${category.description ? `. ${category.description}` : ''}`)
+      .join('\n'),
+    examples: examples.join('\n'),
+    corrections: correctionLines.join('\n'),
+    responseExample: JSON.stringify(categories.slice(0, 1).map(category => ({
+      category: category.id,
+      confidence: 0.9,
+      reason: 'Motivo breve'
+    })))
+  });
+};
 
-    try {
-      // Intentar parsear el JSON de la respuesta
-      let categoriesArray: ActivityCategory[];
-      
-      // Si la respuesta ya está en formato de array, usarla directamente
-      if (content.trim().startsWith('[') && content.trim().endsWith(']')) {
-        categoriesArray = JSON.parse(content);
-      } else {
-        // Si no, extraer cualquier array en el texto de la respuesta
-        const match = content.match(/\[(.*?)\]/);
-        if (match && match[0]) {
-          categoriesArray = JSON.parse(match[0]);
-        } else {
-          // Si no hay array, verificar si hay categorías mencionadas en el texto
-          const categories: ActivityCategory[] = [];
-          if (content.toLowerCase().includes('scrapping')) categories.push('scrapping');
-          if (content.toLowerCase().includes('analisis')) categories.push('analisis');
-          if (content.toLowerCase().includes('administrativo')) categories.push('administrativo');
-          if (content.toLowerCase().includes('asistente')) categories.push('asistente');
-          categoriesArray = categories;
-        }
-      }
-      
-      // Aplicar reglas de negocio adicionales para asegurar la correcta categorización
-      const activityText = (activityName + ' ' + (activityDescription || '')).toLowerCase();
-      
-      // Si menciona email, reunión o documento, asegurar que tenga categoría asistente
-      if ((activityText.includes('email') || 
-           activityText.includes('correo') || 
-           activityText.includes('reunion') || 
-           activityText.includes('reunión') || 
-           activityText.includes('documento') || 
-           activityText.includes('redacta') || 
-           activityText.includes('agenda')) && 
-          !categoriesArray.includes('asistente')) {
-        categoriesArray.push('asistente');
-      }
-      
-      // Si menciona buscar o investigar, asegurar que tenga categoría scrapping
-      if ((activityText.includes('buscar') || 
-           activityText.includes('investiga') || 
-           activityText.includes('encontrar') || 
-           activityText.includes('obtener') ||
-           activityText.includes('extraer')) &&
-          !categoriesArray.includes('scrapping')) {
-        categoriesArray.push('scrapping');
-      }
-      
-      // Si menciona analizar, analisis, informe, asegurar que tenga categoría analisis
-      if ((activityText.includes('analizar') || 
-           activityText.includes('analisis') || 
-           activityText.includes('informe') || 
-           activityText.includes('reporte') ||
-           activityText.includes('estadística')) &&
-          !categoriesArray.includes('analisis')) {
-        categoriesArray.push('analisis');
-      }
-      
-      console.log('✅ Categorización exitosa:', categoriesArray);
-      
-      // Filtrar solo categorías válidas
-      return categoriesArray.filter(cat => 
-        ['scrapping', 'analisis', 'administrativo', 'asistente'].includes(cat)
-      ) as ActivityCategory[];
-      
-    } catch (error: any) {
-      console.error('❌ Error al parsear la respuesta de categorización:', error);
-      return categorizacionEmergencia(activityName, activityDescription);
-    }
+/**
+ * Analiza el texto de una actividad para determinar sus categorías entre las
+ * definidas por la organización, con la confianza y el motivo de cada una.
+ * Si el modelo falla, categoriza localmente por palabras clave
+ */
+export const categorizeActivity = async (
+  activityName: string,
+  activityDescription: string,
+  callOptions: LlmCallOptions = {}
+): Promise<CategorySuggestion[]> => {
+  let definitions: CategoryDefinition[] = DEFAULT_CATEGORIES;
+  
+  try {
+    definitions = await categoryRepository.getAll();
+    return await suggestCategories(activityName, activityDescription, callOptions, definitions);
   } catch (error: any) {
     console.error('❌ Error general al categorizar la actividad:', error);
     
     // En caso de error, intentar categorizar localmente
-    return categorizacionEmergencia(activityName, activityDescription);
+    return categorizacionEmergencia(activityName, activityDescription, definitions);
   }
 };
 
 /**
- * Categoriza actividades localmente cuando el servicio principal falla
- * Utiliza reglas basadas en palabras clave
+ * Pide al modelo las categorías de una actividad. A diferencia de
+ * `categorizeActivity`, lanza el error si el modelo no responde o su respuesta
+ * no se puede interpretar, para que quien llama decida si reintentar
  */
-function categorizacionEmergencia(activityName: string, activityDescription: string): ActivityCategory[] {
-  console.log('🔍 Realizando categorización de emergencia local');
+export const suggestCategories = async (
+  activityName: string,
+  activityDescription: string,
+  callOptions: LlmCallOptions = {},
+  categories?: CategoryDefinition[]
+): Promise<CategorySuggestion[]> => {
+  const definitions = categories || await categoryRepository.getAll();
+  const corrections = await categoryCorrectionRepository.getRecent(CATEGORIZATION_CORRECTION_EXAMPLES);
   
-  const texto = (activityName + ' ' + (activityDescription || '')).toLowerCase();
-  const categories: ActivityCategory[] = [];
+  console.log('🔄 Categorizando actividad:', activityName);
+  
+  // Preparar los mensajes para la API
+  const systemPrompt = buildCategorizationPrompt(definitions, corrections);
+  const userPrompt = promptTemplates.render('categorizationUser', {
+    activityName,
+    activityDescription: activityDescription || 'No disponible'
+  });
+  const messages = [
+    { role: 'system', content: systemPrompt.content },
+    { role: 'user', content: userPrompt.content }
+  ];
   
-  // Reglas de categorización por palabras clave
-  if (texto.includes('email') || 
-      texto.includes('correo') || 
-      texto.includes('reunion') || 
-      texto.includes('reunión') || 
-      texto.includes('documento') || 
-      texto.includes('redacta') || 
-      texto.includes('agenda')) {
-    categories.push('asistente');
+  // Usar función con timeout para llamada a la API
+  const data = await callLlm<any>('categorization', messages, withPrompts(callOptions, systemPrompt, userPrompt));
+  
+  // Verificar si estamos usando el sistema de fallback
+  const usingFallback = isFallbackResponse(data);
+  if (usingFallback) {
+    console.log('ℹ️ Usando respuesta de fallback para categorización');
   }
   
-  if (texto.includes('buscar') || 
-      texto.includes('investiga') || 
-      texto.includes('encontrar') || 
-      texto.includes('obtener') ||
-      texto.includes('información') ||
-      texto.includes('extraer') ||
-      texto.includes('web') ||
-      texto.includes('internet') ||
-      texto.includes('scraping')) {
-    categories.push('scrapping');
+  // Verificar si se recibió la estructura esperada
+  if (!data.choices || !Array.isArray(data.choices) || data.choices.length === 0) {
+    console.error('❌ Respuesta de API sin choices al categorizar:', data);
+    throw new Error('La respuesta del modelo no contiene ninguna opción');
+  }
+
+  // Extraer la respuesta del modelo
+  const content = data.choices[0]?.message?.content;
+  
+  if (!content) {
+    console.error('❌ No se recibió contenido del modelo al categorizar');
+    throw new Error('El modelo no devolvió contenido');
+  }
+
+  let suggestions: CategorySuggestion[];
+  try {
+    suggestions = parseCategorizationResponse(content, definitions, usingFallback);
+  } catch (error: any) {
+    console.error('❌ Error al parsear la respuesta de categorización:', error);
+    throw new Error(`No se pudo interpretar la respuesta del modelo: ${error.message || String(error)}`);
   }
   
-  if (texto.includes('analizar') || 
-      texto.includes('analisis') || 
-      texto.includes('informe') || 
-      texto.includes('reporte') ||
-      texto.includes('estadística') ||
-      texto.includes('datos') ||
-      texto.includes('estudio')) {
-    categories.push('analisis');
+  // Sin IA, las palabras clave de cada categoría completan la respuesta de
+  // emergencia. Con el modelo no se aplican para no forzar categorías que descartó
+  if (usingFallback) {
+    matchCategoryKeywords(activityName, activityDescription, definitions)
+      .filter(match => !suggestions.some(suggestion => suggestion.category === match.category))
+      .forEach(match => suggestions.push(match));
   }
   
-  if (texto.includes('factura') || 
-      texto.includes('recursos humanos') || 
-      texto.includes('rrhh') || 
-      texto.includes('contable') ||
-      texto.includes('empresa') ||
-      texto.includes('cliente') ||
-      texto.includes('proveedores') ||
-      texto.includes('organización')) {
-    categories.push('administrativo');
+  console.log('✅ Categorización exitosa:', suggestions.map(suggestion => suggestion.category));
+  return suggestions;
+};
+
+/**
+ * Convierte la respuesta del modelo en sugerencias. También acepta un array de
+ * identificadores sin confianza, que es lo que devuelven el servicio de
+ * emergencia y las plantillas editadas sobre versiones anteriores
+ */
+function parseCategorizationResponse(
+  content: string,
+  definitions: CategoryDefinition[],
+  usingFallback: boolean
+): CategorySuggestion[] {
+  const defaultConfidence = usingFallback ? FALLBACK_CONFIDENCE : UNRATED_CONFIDENCE;
+  const defaultReason = usingFallback ? 'Respuesta de emergencia, sin IA' : '';
+  
+  // Extraer el array JSON aunque el modelo lo rodee de texto
+  const match = content.match(/\[[\s\S]*\]/);
+  if (!match) {
+    // Si no hay array, verificar si hay categorías mencionadas en el texto
+    const lowerContent = content.toLowerCase();
+    return definitions
+      .filter(category => lowerContent.includes(category.id.toLowerCase()))
+      .map(category => ({
+        category: category.id,
+        confidence: defaultConfidence,
+        reason: 'Mencionada en la respuesta del modelo'
+      }));
   }
   
-  // Si no se detectó ninguna categoría, usar scrapping como predeterminada
-  if (categories.length === 0) {
-    categories.push('administrativo');
+  const proposed: unknown = JSON.parse(match[0]);
+  const suggestions: CategorySuggestion[] = [];
+  
+  // El modelo puede responder con el nombre en lugar del identificador; las desconocidas se descartan
+  (Array.isArray(proposed) ? proposed : []).forEach((item: any) => {
+    const name = typeof item === 'string' ? item : item?.category;
+    const category = typeof name === 'string' ? findCategory(definitions, name) : undefined;
+    if (!category || suggestions.some(suggestion => suggestion.category === category.id)) {
+      return;
+    }
+    suggestions.push({
+      category: category.id,
+      confidence: normalizeConfidence(item?.confidence, defaultConfidence),
+      reason: typeof item?.reason === 'string' && item.reason.trim() ? item.reason.trim() : defaultReason
+    });
+  });
+  
+  return suggestions;
+}
+
+/**
+ * Categorías cuyas palabras clave aparecen en la actividad
+ */
+function matchCategoryKeywords(
+  activityName: string,
+  activityDescription: string,
+  definitions: CategoryDefinition[]
+): CategorySuggestion[] {
+  const texto = (activityName + ' ' + (activityDescription || '')).toLowerCase();
+  return definitions.flatMap(category => {
+    const keyword = category.keywords.find(word => texto.includes(word.toLowerCase()));
+    return keyword
+      ? [{ category: category.id, confidence: KEYWORD_CONFIDENCE, reason: `Contiene la palabra clave "${keyword}"` }]
+      : [];
+  });
+}
+
+/**
+ * Categoriza actividades localmente cuando el servicio principal falla
+ * Utiliza las palabras clave y el nombre de cada categoría
+ */
+function categorizacionEmergencia(
+  activityName: string,
+  activityDescription: string,
+  definitions: CategoryDefinition[]
+): CategorySuggestion[] {
+  console.log('🔍 Realizando categorización de emergencia local');
+  
+  const texto = (activityName + ' ' + (activityDescription || '')).toLowerCase();
+  const suggestions = matchCategoryKeywords(activityName, activityDescription, definitions);
+  
+  // Una categoría propia también se reconoce si la actividad menciona su nombre
+  definitions
+    .filter(category =>
+      category.name &&
+      texto.includes(category.name.toLowerCase()) &&
+      !suggestions.some(suggestion => suggestion.category === category.id)
+    )
+    .forEach(category => suggestions.push({
+      category: category.id,
+      confidence: UNRATED_CONFIDENCE,
+      reason: `Menciona la categoría "${category.name}"`
+    }));
+  
+  // Si no se detectó ninguna categoría, usar la administrativa o, si la organización no la tiene, la primera
+  if (suggestions.length === 0 && definitions.length > 0) {
+    suggestions.push({
+      category: (findCategory(definitions, 'administrativo') || definitions[0]).id,
+      confidence: DEFAULT_CATEGORY_CONFIDENCE,
+      reason: 'Categoría por defecto: no se pudo categorizar la actividad'
+    });
   }
   
-  console.log('✅ Categorización de emergencia completada:', categories);
-  return categories;
+  console.log('✅ Categorización de emergencia completada:', suggestions.map(suggestion => suggestion.category));
+  return suggestions;
+}
+
+export interface LlmCallOptions {
+  // Ignora la respuesta en caché y la sustituye por una nueva (acción "regenerar")
+  bypassCache?: boolean;
+  // Actividad a la que se imputa el consumo
+  activityId?: string;
+  // Versiones de las plantillas de prompt con las que se construyeron los mensajes
+  promptVersions?: string[];
+  // Lanza el error de rate limit en lugar de responder con el servicio de
+  // respaldo; para trabajos en segundo plano que pueden esperar y reintentar
+  noFallback?: boolean;
 }
 
 /**
- * Utility function to make OpenRouter API calls with timeout protection
- * and fallback handling for rate limits
+ * Añade a las opciones de la llamada las versiones de las plantillas usadas
  */
-async function callOpenRouterWithTimeout<T>(
-  messages: any[], 
-  options: any = {}, 
-  timeoutMs: number = 30000
+const withPrompts = (callOptions: LlmCallOptions, ...prompts: RenderedPrompt[]): LlmCallOptions => ({
+  ...callOptions,
+  promptVersions: [...(callOptions.promptVersions || []), ...prompts.map(prompt => prompt.version)]
+});
+
+/**
+ * Parámetros de generación de la tarea para el proveedor activo
+ */
+function getTaskOptions(task: LlmTask) {
+  const provider = llmProviders.getActive();
+  const settings = llmTaskSettings.get(task);
+  return {
+    provider,
+    settings,
+    options: {
+      temperature: settings.temperature,
+      max_tokens: settings.maxTokens,
+      ...(settings.models[provider.id] ? { model: settings.models[provider.id] } : {})
+    }
+  };
+}
+
+/**
+ * Envía la conversación al proveedor de LLM activo con el modelo, los
+ * parámetros y el límite de tiempo configurados para la tarea.
+ * Las respuestas se guardan en caché durante el tiempo configurado para la tarea
+ * y las peticiones idénticas simultáneas comparten una sola llamada
+ */
+async function callLlm<T = ChatCompletion>(
+  task: LlmTask,
+  messages: any[],
+  callOptions: LlmCallOptions = {}
 ): Promise<T> {
-  // Si el fallback está activo, usar directamente el método alternativo
-  if (USE_FALLBACK_SERVICE) {
-    return await callFallbackService<T>(messages, options);
+  const { provider, settings, options } = getTaskOptions(task);
+  
+  const model = options.model || provider.getModel();
+  const usage: UsageContext = {
+    task,
+    activityId: callOptions.activityId,
+    promptVersion: callOptions.promptVersions?.join(' '),
+    providerId: provider.id,
+    model,
+    messages
+  };
+  
+  // Llamada real al proveedor; cada intento registra su consumo
+  const request = () => requestLlm<ChatCompletion>(task, messages, usage, !callOptions.noFallback);
+  
+  // El proveedor simulado responde según un guion que puede cambiar: no se cachea
+  if (provider.id === 'mock') {
+    return (await request()) as unknown as T;
   }
   
-  // Create an abort controller for timeout handling
-  const controller = new AbortController();
-  const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+  const data = await llmResponseCache.run(
+    task,
+    { providerId: provider.id, model, messages, options },
+    settings.cacheTtlMs,
+    !!callOptions.bypassCache,
+    request
+  );
   
+  // Las respuestas servidas desde la caché también cuentan como peticiones, sin consumo
+  if (data._cached) {
+    llmUsage.record({ ...usage, latencyMs: 0, response: data });
+  }
+  return data as unknown as T;
+}
+
+// Datos de una llamada comunes a todos sus intentos
+type UsageContext = Omit<LlmUsageInput, 'keyIndex' | 'latencyMs' | 'response' | 'failed'>;
+
+/**
+ * Ejecuta un intento de llamada y registra su consumo, también si falla
+ */
+async function recordAttempt(
+  usage: UsageContext,
+  keyIndex: number | undefined,
+  attempt: () => Promise<ChatCompletion>
+): Promise<ChatCompletion> {
+  const startedAt = Date.now();
   try {
-    const response = await fetch(OPENROUTER_API_URL, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${OPENROUTER_API_KEY}`,
-        'HTTP-Referer': 'https://gamg-app.com'
-      },
-      body: JSON.stringify({
-        model: MODEL,
-        messages,
-        ...options
-      }),
-      signal: controller.signal
-    });
-    
-    clearTimeout(timeoutId);
-    
-    // Handle HTTP errors
-    if (!response.ok) {
-      const errorText = await response.text();
-      const errorData = tryParseJson(errorText);
-      
-      // Detectar error específico de rate limit
-      const isRateLimit = response.status === 429 || 
-                         errorText.toLowerCase().includes('rate limit') ||
-                         errorData?.error?.message?.toLowerCase().includes('rate limit');
-      
-      if (isRateLimit) {
-        handleRateLimitError({ message: errorData?.error?.message || 'Rate limit exceeded' });
-        return await callFallbackService<T>(messages, options);
-      }
-      
-      throw new Error(`Error HTTP: ${response.status} ${response.statusText} - ${errorText}`);
+    const response = await attempt();
+    llmUsage.record({ ...usage, keyIndex, latencyMs: Date.now() - startedAt, response });
+    return response;
+  } catch (error) {
+    llmUsage.record({ ...usage, keyIndex, latencyMs: Date.now() - startedAt, failed: true });
+    throw error;
+  }
+}
+
+/**
+ * Envía la llamada a OpenRouter con la key que asigne el planificador. Si
+ * todas las keys siguen limitadas, responde el servicio de respaldo solo para
+ * esta llamada: las siguientes vuelven a OpenRouter en cuanto haya una key libre
+ */
+async function scheduleOpenRouter(
+  usage: UsageContext,
+  messages: any[],
+  options: any,
+  call: (apiKey: string) => Promise<ChatCompletion>,
+  allowFallback: boolean = true
+): Promise<ChatCompletion> {
+  try {
+    return await openRouterScheduler.schedule((key, keyIndex) =>
+      recordAttempt(usage, keyIndex, () => call(key))
+    );
+  } catch (error: any) {
+    if (!isRateLimitError(error) || !allowFallback) {
+      throw error;
     }
     
-    const data = await response.json();
-    
-    // Handle API errors
-    if (data.error) {
-      // Verificar si es error de rate limit
-      if (isRateLimitError(data.error)) {
-        handleRateLimitError(data.error);
-        return await callFallbackService<T>(messages, options);
-      }
-      
-      throw new Error(data.error.message || 'Error en OpenRouter API');
+    console.warn(`🔄 Usando el servicio de respaldo: ${error?.message || error}`);
+    return await recordAttempt(usage, undefined, () => callFallbackService<ChatCompletion>(messages, options));
+  }
+}
+
+/**
+ * Hace la llamada real al proveedor activo.
+ * Con OpenRouter, además, reparte las peticiones entre las API keys y usa el fallback ante rate limits
+ */
+async function requestLlm<T = ChatCompletion>(
+  task: LlmTask,
+  messages: any[],
+  usage: UsageContext,
+  allowFallback: boolean = true
+): Promise<T> {
+  const { provider, settings, options } = getTaskOptions(task);
+  const timeoutMs = settings.timeoutMs;
+  
+  // Los proveedores locales y el simulado no tienen rate limits ni keys que rotar
+  if (provider.id !== 'openrouter') {
+    return (await recordAttempt(usage, undefined, () => provider.complete(messages, options, timeoutMs))) as unknown as T;
+  }
+  
+  // Sin API key configurada no se puede llamar a OpenRouter
+  if (API_KEYS.length === 0) {
+    console.warn('⚠️ No hay API keys de OpenRouter configuradas. Añádelas en Configuración');
+    if (!allowFallback) {
+      throw new Error('No hay API keys de OpenRouter configuradas');
     }
-    
-    // Resetear contador de rate limits si todo salió bien
-    RATE_LIMIT_COUNT = 0;
-    
-    return data as T;
-  } catch (error: any) {
-    clearTimeout(timeoutId);
-    
-    // Handle specific timeout errors
-    if (error.name === 'AbortError') {
-      throw new Error(`La solicitud a OpenRouter excedió el tiempo máximo (${timeoutMs / 1000}s)`);
+    return (await recordAttempt(usage, undefined, () => callFallbackService<ChatCompletion>(messages, options))) as unknown as T;
+  }
+  
+  const data = await scheduleOpenRouter(
+    usage,
+    messages,
+    options,
+    apiKey => provider.complete(messages, options, timeoutMs, apiKey),
+    allowFallback
+  );
+  return data as unknown as T;
+}
+
+/**
+ * Igual que `callLlm`, pero entrega la respuesta en fragmentos a medida que llega.
+ * Si el proveedor no admite streaming o se usa el fallback, entrega todo de una vez
+ */
+async function callLlmStream(
+  task: LlmTask,
+  messages: any[],
+  handlers: ChatStreamHandlers,
+  callOptions: LlmCallOptions = {}
+): Promise<ChatCompletion> {
+  const { provider, settings, options } = getTaskOptions(task);
+  const canStream = !!provider.stream && (provider.id !== 'openrouter' || API_KEYS.length > 0);
+  
+  if (!canStream) {
+    const data = await callLlm<ChatCompletion>(task, messages, callOptions);
+    const content = data.choices?.[0]?.message?.content;
+    if (content) {
+      handlers.onToken(content, content);
     }
-    
-    // Verificar si es error de rate limit
-    if (isRateLimitError(error)) {
-      handleRateLimitError(error);
-      return await callFallbackService<T>(messages, options);
+    return data;
+  }
+  
+  const model = options.model || provider.getModel();
+  const usage: UsageContext = {
+    task,
+    activityId: callOptions.activityId,
+    promptVersion: callOptions.promptVersions?.join(' '),
+    providerId: provider.id,
+    model,
+    messages
+  };
+  
+  // Una respuesta en caché se entrega de una vez; las nuevas se guardan al terminar
+  const useCache = provider.id !== 'mock' && settings.cacheTtlMs > 0;
+  const cacheKey = buildCacheKey({ providerId: provider.id, model, messages, options });
+  
+  if (useCache && !callOptions.bypassCache) {
+    const cached = await llmResponseCache.get(cacheKey).catch(() => null);
+    const content = cached?.choices?.[0]?.message?.content;
+    if (cached && content) {
+      handlers.onToken(content, content);
+      llmUsage.record({ ...usage, latencyMs: 0, response: cached });
+      return cached;
     }
-    
-    throw error;
   }
+  
+  // Un rate limit llega antes que cualquier fragmento, así que el reintento no duplica texto
+  const stream = (apiKey?: string) => provider.stream!(messages, options, settings.timeoutMs, handlers, apiKey);
+  const data = provider.id === 'openrouter'
+    ? await scheduleOpenRouter(usage, messages, options, stream)
+    : await recordAttempt(usage, undefined, () => stream());
+  
+  if (data._fallback) {
+    const content = data.choices?.[0]?.message?.content;
+    if (content) {
+      handlers.onToken(content, content);
+    }
+  } else if (useCache) {
+    await llmResponseCache.set(task, cacheKey, data, settings.cacheTtlMs);
+  }
+  return data;
 }
 
 /**
@@ -792,17 +949,6 @@ Estamos trabajando con un servicio alternativo con capacidades limitadas. Por fa
 Código de error: RATE_LIMIT_EXCEEDED`;
 }
 
-/**
- * Helper para intentar parsear JSON sin lanzar excepciones
- */
-function tryParseJson(text: string): any {
-  try {
-    return JSON.parse(text);
-  } catch (e) {
-    return null;
-  }
-}
-
 /**
  * Comprueba si una respuesta fue generada por el sistema de fallback
  */
@@ -810,21 +956,136 @@ export const isFallbackResponse = (response: any): boolean => {
   return !!response?._fallback;
 };
 
+/**
+ * Comprueba que el proveedor responde. OpenRouter se prueba con la key de la
+ * rotación que asigne el planificador, igual que el resto de peticiones
+ */
+export const testLlmProvider = async (id: LlmProviderId): Promise<{ isValid: boolean; message: string }> => {
+  if (id !== 'openrouter') {
+    return llmProviders.test(id);
+  }
+
+  if (API_KEYS.length === 0) {
+    return { isValid: false, message: 'No hay API keys de OpenRouter configuradas. Añádelas en Configuración' };
+  }
+
+  try {
+    return await openRouterScheduler.schedule(key => llmProviders.test(id, key));
+  } catch (error: any) {
+    return { isValid: false, message: error?.message || String(error) };
+  }
+};
+
 /**
  * Obtiene información sobre el estado del servicio de OpenRouter/fallback
  */
-export const getServiceStatus = (): {
+export const getServiceStatus = (): SchedulerStatus & {
+  // true si ahora mismo todas las keys están limitadas y se respondería con el fallback
   usingFallback: boolean;
-  rateLimitCount: number;
-  maxRetries: number;
 } => {
+  const status = openRouterScheduler.getStatus();
   return {
-    usingFallback: USE_FALLBACK_SERVICE,
-    rateLimitCount: RATE_LIMIT_COUNT,
-    maxRetries: MAX_RATE_LIMIT_RETRIES
+    ...status,
+    usingFallback: API_KEYS.length === 0 || status.nextAvailableAt !== null
   };
 };
 
+// Caracteres de cada mensaje que se envían para resumirlo; el código largo
+// de las respuestas no aporta al resumen y encarece la llamada
+const SUMMARY_MESSAGE_MAX_CHARS = 4000;
+
+/**
+ * Pide al modelo un resumen que integre el anterior y los mensajes indicados
+ */
+async function summarizeConversation(
+  activityName: string,
+  activityDescription: string,
+  previousSummary: ConversationSummary | null,
+  messages: WorkflowMessage[],
+  callOptions: LlmCallOptions
+): Promise<string> {
+  const systemPrompt = promptTemplates.render('conversationSummarySystem', {});
+  const userPrompt = promptTemplates.render('conversationSummaryUser', {
+    activityName,
+    activityDescription: activityDescription || 'No disponible',
+    previousSummary: previousSummary?.content || '',
+    messages: messages
+      .map(msg => {
+        const content = msg.content.length > SUMMARY_MESSAGE_MAX_CHARS
+          ? `${msg.content.slice(0, SUMMARY_MESSAGE_MAX_CHARS)}…`
+          : msg.content;
+        return `${msg.role === 'user' ? 'Usuario' : 'Asistente'}: ${content}`;
+      })
+      .join('\n\n')
+  });
+  
+  // Sin respaldo: un resumen genérico borraría los requisitos que hay que conservar
+  const data = await callLlm<ChatCompletion>('conversationSummary', [
+    { role: 'system', content: systemPrompt.content },
+    { role: 'user', content: userPrompt.content }
+  ], withPrompts({ activityId: callOptions.activityId, noFallback: true }, systemPrompt, userPrompt));
+  
+  const content = data.choices?.[0]?.message?.content?.trim();
+  if (!content) {
+    throw new Error('El modelo no devolvió el resumen de la conversación');
+  }
+  return content;
+}
+
+/**
+ * Ajusta la conversación del flujo al presupuesto de contexto del modelo de la
+ * tarea. Los mensajes antiguos se sustituyen por un resumen, que se guarda por
+ * actividad y se añade al prompt de sistema. Los fijados y los más recientes se
+ * envían siempre completos
+ */
+async function fitWorkflowConversation(
+  task: LlmTask,
+  systemContent: string,
+  activityName: string,
+  activityDescription: string,
+  previousMessages: WorkflowMessage[],
+  callOptions: LlmCallOptions
+): Promise<{ systemContent: string; messages: WorkflowMessage[] }> {
+  const { provider, options } = getTaskOptions(task);
+  const budget = llmContextBudgets.get(options.model || provider.getModel());
+  const storedSummary = callOptions.activityId
+    ? await workflowRepository.getSummary(callOptions.activityId)
+    : null;
+  
+  const plan = planConversationContext(previousMessages, storedSummary, budget, estimateTokens(systemContent));
+  let summary = plan.summary;
+  let messages = plan.messages;
+  
+  if (plan.toSummarize.length > 0) {
+    console.log(`📝 Resumiendo ${plan.toSummarize.length} mensajes antiguos para no superar ${budget} tokens de contexto`);
+    try {
+      const content = await summarizeConversation(
+        activityName,
+        activityDescription,
+        plan.summary,
+        plan.toSummarize,
+        callOptions
+      );
+      summary = createConversationSummary(content, previousMessages, plan.summarizedCount);
+      if (callOptions.activityId) {
+        await workflowRepository.saveSummary(callOptions.activityId, summary);
+      }
+    } catch (error) {
+      // Sin resumen nuevo se envía todo lo que no cubre el anterior, aunque supere el presupuesto
+      console.warn('⚠️ No se pudo resumir la conversación, se envía completa:', error);
+      const covered = plan.summary?.messageCount || 0;
+      messages = previousMessages.filter((msg, index) => index >= covered || msg.pinned);
+    }
+  }
+  
+  return {
+    systemContent: summary
+      ? `${systemContent}\n\nRESUMEN DE LA PARTE ANTERIOR DE LA CONVERSACIÓN (requisitos y decisiones que siguen vigentes):\n${summary.content}`
+      : systemContent,
+    messages
+  };
+}
+
 /**
  * Analiza y genera el detalle del flujo de trabajo para una actividad
  * Permite la comunicación continua con el modelo para refinar el flujo de trabajo
@@ -833,139 +1094,55 @@ export const analyzeWorkflow = async (
   activityName: string, 
   activityDescription: string, 
   categories: ActivityCategory[],
-  previousMessages: WorkflowMessage[] = []
+  previousMessages: WorkflowMessage[] = [],
+  stream?: ChatStreamHandlers,
+  callOptions: LlmCallOptions = {}
 ): Promise<string> => {
   try {
     // Preparar mensajes del sistema y contexto
-    const systemMessage = {
-      role: 'system',
-      content: `Eres un experto en automatización de navegador web y extracción de datos mediante JavaScript.
-      Tu tarea es crear un flujo técnico ejecutable ESPECÍFICAMENTE para un WebView en una aplicación móvil.
-      
-      IMPORTANTE: El código DEBE ser JavaScript puro para ejecutarse en un navegador. NO generes código Python ni Node.js.
-      
-      CRÍTICO: DEBES TENER EN CUENTA RESTRICCIONES CORS:
-      - Las APIs como api.binance.com suelen bloquear peticiones desde WebViews por seguridad
-      - SIEMPRE proporciona MÚLTIPLES ALTERNATIVAS para obtener los datos:
-         1. Intento directo (fetch a API oficial)
-         2. Alternativa con proxy CORS (como cors-anywhere o algún proxy público)
-         3. Alternativa usando sitios web públicos que muestren la misma información (ej: CoinMarketCap, TradingView)
-      
-      Debes proporcionar:
-      1. Código JavaScript para extraer datos con MÚLTIPLES ALTERNATIVAS (por restricciones CORS)
-      2. Selectores DOM precisos (querySelector, XPath) para sitios alternativos
-      3. Manipulación del DOM y eventos para navegación
-      4. Manejo de respuestas de fetch/XHR para APIs con verificación explícita de errores CORS
-      5. Visualización de resultados directamente en el navegador
-      
-      Formato REQUERIDO:
-      
-      ### **Flujo WebView: [Nombre]**
-      
-      ### **Pasos de ejecución en navegador:**
-      1. [Descripción breve del paso 1]
-      2. [Descripción breve del paso 2]
-      3. ...
-      
-      ### **Código para ejecutar en WebView:**
-      
-      #### **Paso 1: [Nombre del paso]**
-      \`\`\`javascript
-      // IMPORTANTE: Incluir verificación y manejo de errores CORS
-      // Siempre proporcionar múltiples alternativas para obtener datos
-      async function paso1() {
-        try {
-          // Primer intento: API directa
-          // ...
-        } catch(error) {
-          // Si hay error CORS, usar alternativa
-          try {
-            // Segunda alternativa: Proxy o sitio web público
-            // ...
-          } catch(error2) {
-            // Tercer intento: Otra fuente
-            // ...
-          }
-        }
-      }
-      \`\`\`
-      
-      #### **Paso 2: [Nombre del paso]**
-      \`\`\`javascript
-      // Código para el siguiente paso con igual manejo de alternativas
-      \`\`\`
-      
-      ### **Visualización del resultado:**
-      \`\`\`javascript
-      // Código para mostrar el resultado en el DOM
-      function mostrarResultado(datos) {
-        // Crear elementos DOM visibles y claros
-        const resultadoDiv = document.createElement('div');
-        resultadoDiv.style.position = 'fixed';
-        resultadoDiv.style.top = '0';
-        resultadoDiv.style.left = '0';
-        resultadoDiv.style.width = '100%';
-        resultadoDiv.style.backgroundColor = '#282a36';
-        resultadoDiv.style.color = '#f8f8f2';
-        resultadoDiv.style.padding = '20px';
-        resultadoDiv.style.zIndex = '10000';
-        // Asegurar que sea completamente visible
-      }
-      \`\`\`
-      
-      RECUERDA: 
-      - Todo el código debe ejecutarse en un navegador web real, no en un entorno de servidor.
-      - Usa selectores DOM robustos que puedan adaptarse a cambios menores en la estructura.
-      - SIEMPRE proporciona MÚLTIPLES ALTERNATIVAS para obtener datos debido a restricciones CORS.
-      - Añade verificación explícita de errores CORS y manejo adecuado.`
-    };
+    const systemPrompt = promptTemplates.render('workflowDesignSystem', {});
 
     // Contexto inicial si no hay mensajes previos
-    const initialUserMessage = {
-      role: 'user',
-      content: `Necesito un flujo de automatización para WebView que extraiga datos mediante JavaScript para:
-      
-      Nombre: ${activityName}
-      Descripción: ${activityDescription || 'No disponible'}
-      Categorías: ${categories.join(', ')}
-      
-      IMPORTANTE:
-      1. El código debe ser JavaScript puro ejecutable en un navegador web
-      2. Debe manejar errores CORS correctamente y proporcionar MÚLTIPLES ALTERNATIVAS
-      3. Incluye manejo completo de errores (CORS, elementos inexistentes, timeout)
-      4. Al final DEBE mostrar visualmente el resultado en la pantalla con un formato claro y visible
-      
-      Las APIs financieras como Binance suelen bloquear acceso directo por CORS, así que necesito:
-      1. Intento principal: Llamada directa a la API
-      2. Alternativa 1: Usar un proxy público CORS o API alternativa 
-      3. Alternativa 2: Extraer datos de páginas web públicas como CoinMarketCap, TradingView, etc.
-      
-      El WebView se encargará de navegar a las URLs que especifiques en el código.
-      Al final, debe crearse una interfaz visual clara con el resultado que sea COMPLETAMENTE VISIBLE.`
-    };
+    const initialPrompt = promptTemplates.render('workflowDesignUser', {
+      activityName,
+      activityDescription: activityDescription || 'No disponible',
+      categories: categories.join(', ')
+    });
+    const initialUserMessage = { role: 'user', content: initialPrompt.content };
 
     // Construir los mensajes para la API
-    let messages = [systemMessage];
+    let messages: any[];
+    let promptOptions = withPrompts(callOptions, systemPrompt);
     
     if (previousMessages.length === 0) {
       // Si es la primera interacción, usar el mensaje inicial
-      messages.push(initialUserMessage as any);
+      messages = [{ role: 'system', content: systemPrompt.content }, initialUserMessage];
+      promptOptions = withPrompts(promptOptions, initialPrompt);
     } else {
-      // Si hay conversación previa, incluirla
-      messages = [...messages, ...previousMessages.map(msg => ({
-        role: msg.role,
-        content: msg.content
-      }))];
+      // Si hay conversación previa, incluirla resumiendo lo que no quepa en el contexto
+      const context = await fitWorkflowConversation(
+        'workflowDesign',
+        systemPrompt.content,
+        activityName,
+        activityDescription,
+        previousMessages,
+        callOptions
+      );
+      messages = [
+        { role: 'system', content: context.systemContent },
+        ...context.messages.map(msg => ({
+          role: msg.role,
+          content: msg.content
+        }))
+      ];
     }
 
-    console.log('🔄 Haciendo solicitud a OpenRouter API para analizar flujo de trabajo...');
+    console.log(`🔄 Haciendo solicitud a ${llmProviders.getActive().label} para analizar flujo de trabajo...`);
     
-    // Usar la función con timeout para hacer la llamada a la API
-    const data = await callOpenRouterWithTimeout<any>(
-      messages, 
-      { temperature: 0.7, max_tokens: 2000 },
-      45000 // 45 segundos de timeout para este caso específico
-    );
+    // Usar la función con timeout para hacer la llamada a la API (en streaming si se pidió)
+    const data: any = stream
+      ? await callLlmStream('workflowDesign', messages, stream, promptOptions)
+      : await callLlm<any>('workflowDesign', messages, promptOptions);
     
     // Verificar si estamos usando el sistema de fallback
     const usingFallback = isFallbackResponse(data);
@@ -973,6 +1150,12 @@ export const analyzeWorkflow = async (
       console.log('ℹ️ Usando respuesta generada por el sistema de fallback');
     }
     
+    // Cancelada por el usuario: devolver lo recibido hasta ese momento
+    if (data._aborted) {
+      console.log('⏹️ Respuesta cancelada por el usuario');
+      return data.choices?.[0]?.message?.content || '';
+    }
+    
     // Verificar si se recibió la estructura esperada
     if (!data.choices || !Array.isArray(data.choices) || data.choices.length === 0) {
       console.error('❌ Respuesta de API sin choices:', data);
@@ -1006,8 +1189,6 @@ export const analyzeWorkflow = async (
     
     // Si el error es de rate limit, generar una respuesta alternativa
     if (isRateLimitError(error)) {
-      handleRateLimitError(error);
-      
       // Generar un flujo básico según el tipo de actividad
       const tipoActividad = determinarTipoActividad(activityName, activityDescription, categories);
       const flujoEmergencia = generarFlujoEmergencia(tipoActividad, activityName);
@@ -1023,6 +1204,94 @@ export const analyzeWorkflow = async (
   }
 };
 
+// Intentos de reparación cuando el flujo estructurado no cumple el esquema
+const MAX_WORKFLOW_REPAIR_ATTEMPTS = 2;
+
+export interface StructuredWorkflowResult {
+  workflow: StructuredWorkflow | null;
+  // Conversación completa, incluidas las peticiones de reparación
+  messages: WorkflowMessage[];
+  errors: string[];
+}
+
+/**
+ * Genera el flujo de trabajo de una actividad como JSON según `WORKFLOW_JSON_SCHEMA`.
+ * Si la respuesta no cumple el esquema, se devuelven los errores al modelo para
+ * que la corrija. Los pasos no ejecutables se descartan en lugar de adivinarlos
+ */
+export const generateStructuredWorkflow = async (
+  activityName: string,
+  activityDescription: string,
+  categories: ActivityCategory[],
+  previousMessages: WorkflowMessage[] = [],
+  callOptions: LlmCallOptions = {}
+): Promise<StructuredWorkflowResult> => {
+  const systemPrompt = promptTemplates.render('structuredWorkflowSystem', { schema: WORKFLOW_JSON_SCHEMA });
+  const prompts: RenderedPrompt[] = [systemPrompt];
+  
+  // La conversación previa se ajusta al contexto una sola vez; las peticiones
+  // de reparación se añaden completas detrás
+  const context = await fitWorkflowConversation(
+    'workflowDesign',
+    systemPrompt.content,
+    activityName,
+    activityDescription,
+    previousMessages,
+    callOptions
+  );
+  const systemMessage = { role: 'system', content: context.systemContent };
+
+  const messages: WorkflowMessage[] = [...previousMessages];
+  if (messages.length === 0) {
+    const initialPrompt = promptTemplates.render('structuredWorkflowUser', {
+      activityName,
+      activityDescription: activityDescription || 'No disponible',
+      categories: categories.join(', ')
+    });
+    prompts.push(initialPrompt);
+    messages.push({ role: 'user', content: initialPrompt.content });
+  }
+
+  let errors: string[] = [];
+
+  for (let attempt = 0; attempt <= MAX_WORKFLOW_REPAIR_ATTEMPTS; attempt++) {
+    console.log(`🔄 Solicitando flujo estructurado a ${llmProviders.getActive().label} (intento ${attempt + 1})...`);
+    
+    const data = await callLlm<ChatCompletion>('workflowDesign', [
+      systemMessage,
+      ...[...context.messages, ...messages.slice(previousMessages.length)]
+        .map(msg => ({ role: msg.role, content: msg.content }))
+    ], withPrompts(callOptions, ...prompts));
+    const content = data.choices?.[0]?.message?.content || '';
+    messages.push({ role: 'assistant', content });
+    
+    const result = parseWorkflowResponse(content);
+    errors = result.errors;
+    
+    // Se acepta el flujo si todos sus pasos son válidos o si ya no quedan reintentos
+    if (result.workflow && (errors.length === 0 || attempt === MAX_WORKFLOW_REPAIR_ATTEMPTS)) {
+      console.log(`✅ Flujo estructurado con ${result.workflow.steps.length} pasos`);
+      return {
+        workflow: { ...result.workflow, generatedAt: new Date().toISOString() },
+        messages,
+        errors
+      };
+    }
+    
+    console.warn('⚠️ El flujo no cumple el esquema:', errors);
+    if (attempt === MAX_WORKFLOW_REPAIR_ATTEMPTS) {
+      break;
+    }
+    const repairPrompt = promptTemplates.render('structuredWorkflowRepair', {
+      errors: errors.map(error => `- ${error}`).join('\n')
+    });
+    prompts.push(repairPrompt);
+    messages.push({ role: 'user', content: repairPrompt.content });
+  }
+
+  return { workflow: null, messages, errors };
+};
+
 /**
  * Determina el tipo de actividad basado en sus características
  */
@@ -1178,45 +1447,6 @@ export const analyzeDomContent = async (
       console.log('⚠️ Detectado problema CORS/XFO, ajustando prompt para alternativas...');
     }
     
-    // Preparar el sistema y mensajes de usuario
-    const systemPrompt = `Eres un experto en análisis de páginas web y extracción de datos del DOM.
-    Tu tarea es analizar el contenido DOM capturado y extraer datos específicos según la instrucción proporcionada.
-    
-    IMPORTANTE:
-    1. Debes extraer los datos que pide exactamente la instrucción.
-    2. Si hay precios o información crítica, prioriza su extracción.
-    3. Analiza el contexto para determinar qué datos son relevantes.
-    4. Si encuentras tablas, analiza su contenido para extraer información estructurada.
-    5. Cuando sea posible, devuelve los datos en un formato organizado.
-    
-    ${hasCorsXfoError ? `
-    CRÍTICO - DETECTADO ERROR CORS/XFO:
-    He detectado que estamos intentando acceder a una API restringida (probablemente Binance).
-    DEBES proporcionar código JavaScript para 3 ALTERNATIVAS diferentes:
-    
-    1. Alternativa usando CoinGecko API: https://api.coingecko.com/api/v3/simple/price?ids=bitcoin&vs_currencies=usd
-    2. Alternativa usando CoinCap API: https://api.coincap.io/v2/assets/bitcoin
-    3. Alternativa con scraping de sitio público (como CoinMarketCap, Yahoo Finance, etc.)
-    
-    El código DEBE incluir manejo de errores robusto y timeout para cada alternativa.
-    Proporciona el código en el campo "action" de la respuesta.
-    ` : ''}
-    
-    Tu respuesta DEBE ser un JSON con la siguiente estructura:
-    {
-      "title": "Título descriptivo de los datos extraídos",
-      "extractedData": {
-        // Datos extraídos específicos según la instrucción
-        // Por ejemplo: precios, títulos, valores, etc.
-      },
-      "confidence": 0-1, // Tu nivel de confianza en los datos extraídos
-      "action": "código JavaScript opcional para ejecutar en el navegador",
-      "fallbackActions": [
-        "código JavaScript de respaldo 1", 
-        "código JavaScript de respaldo 2"
-      ]
-    }`;
-    
     // Crear una representación simplificada del DOM para el prompt
     const domSummary = JSON.stringify({
       url: domContent.url,
@@ -1241,67 +1471,32 @@ export const analyzeDomContent = async (
       instruction.toLowerCase().includes('usdt') ||
       instruction.toLowerCase().includes('binance');
       
-    const additionalContext = isCryptoPrice ? `
-    CONTEXTO ADICIONAL PARA PRECIOS CRYPTO:
-    Si estás buscando precios de criptomonedas como Bitcoin (BTC), necesitarás usar APIs alternativas
-    debido a restricciones CORS en WebViews. Debes proporcionar múltiples opciones:
-    
-    1. CoinGecko API: https://api.coingecko.com/api/v3/simple/price?ids=bitcoin&vs_currencies=usd
-    2. CoinCap API: https://api.coincap.io/v2/assets/bitcoin
-    3. Scraping desde sitios públicos como CoinMarketCap o TradingView
-    
-    Cada alternativa debe tener manejo de errores completo y timeout.
-    ` : '';
+    // Preparar el sistema y mensajes de usuario
+    const systemPrompt = promptTemplates.render('domAnalysisSystem', { corsError: hasCorsXfoError });
+    const userPrompt = promptTemplates.render('domAnalysisUser', {
+      activityName,
+      activityDescription: activityDescription || 'No disponible',
+      instruction,
+      domSummary,
+      cryptoPrice: isCryptoPrice,
+      corsError: hasCorsXfoError
+    });
     
     // Mensajes para el LLM
     const messages = [
-      {
-        role: 'system',
-        content: systemPrompt
-      },
-      {
-        role: 'user',
-        content: `Analiza el siguiente contenido DOM de una página web y extrae los datos según la instrucción:
-        
-        Actividad: ${activityName}
-        Descripción de actividad: ${activityDescription || 'No disponible'}
-        
-        Instrucción de scraping: "${instruction}"
-        ${additionalContext}
-        
-        Contenido DOM capturado (resumen):
-        ${domSummary}
-        
-        Extrae los datos según la instrucción proporcionada y devuelve un JSON con la estructura solicitada.
-        Si la instrucción menciona precios de criptomonedas, extrae precio, símbolo, fecha y hora actual.
-        Si la instrucción menciona datos de tablas, extrae la información estructurada de las tablas.
-        Si encuentras elementos con precios o valores monetarios, inclúyelos con prioridad.
-        
-        ${hasCorsXfoError ? `
-        IMPORTANTE: He detectado un error de CORS o X-Frame-Options. DEBES proporcionar
-        al menos 3 alternativas de código JavaScript que funcionen en un WebView con
-        restricciones. Cada alternativa debe tener un timeout de 10 segundos y manejar
-        errores detalladamente.` : ''}
-        `
-      }
+      { role: 'system', content: systemPrompt.content },
+      { role: 'user', content: userPrompt.content }
     ];
     
-    console.log('🔄 Llamando a OpenRouter API para análisis...');
+    console.log(`🔄 Llamando a ${llmProviders.getActive().label} para análisis...`);
     console.time('openrouter_analysis_time');
     
     try {
       // Usar la función con timeout para hacer la llamada a la API
-      const data = await callOpenRouterWithTimeout<any>(
-        messages,
-        {
-          temperature: 0.7,
-          max_tokens: 1500
-        },
-        30000 // 30 segundos máximo
-      );
+      const data = await callLlm<any>('domAnalysis', messages, withPrompts({}, systemPrompt, userPrompt));
       
       console.timeEnd('openrouter_analysis_time');
-      console.log('✅ Respuesta recibida de OpenRouter API');
+      console.log(`✅ Respuesta recibida de ${llmProviders.getActive().label}`);
       
       // Verificar si se recibió la estructura esperada
       if (!data.choices || !Array.isArray(data.choices) || data.choices.length === 0) {
@@ -1638,108 +1833,29 @@ export const refineScrappingWorkflow = async (
       activityName.toLowerCase().includes('crypto');
     
     // Preparar mensaje del sistema en base al tipo de actividad
-    const systemMessage = {
-      role: 'system',
-      content: `Eres un experto en refinamiento de flujos de automatización web. 
-      Tu tarea es mejorar un flujo de trabajo ya generado para hacerlo más preciso y ejecutable.
-      
-      ${isExchangeRate ? `
-      ACTIVIDAD DE TIPO DE CAMBIO DETECTADA:
-      - Este flujo busca obtener tipos de cambio (USD/MXN u otros)
-      - Simplifica y concreta los pasos para esta tarea específica
-      - Usa selectores DOM precisos para tablas de cotizaciones
-      - Divide en pasos claros y concisos` : ''}
-      
-      ${isPriceRelated && !isExchangeRate ? `
-      ACTIVIDAD DE PRECIOS DETECTADA:
-      - Este flujo busca obtener precios o cotizaciones
-      - Enfócate en la extracción precisa de valores numéricos
-      - Incluye la captura de fecha/hora para los datos
-      - Verifica la moneda o unidad de los precios` : ''}
-      
-      ${isDataExtraction && !isPriceRelated && !isExchangeRate ? `
-      ACTIVIDAD DE EXTRACCIÓN DE DATOS DETECTADA:
-      - Este flujo busca extraer información estructurada
-      - Usa selectores DOM óptimos para los datos específicos
-      - Organiza la información en formatos claros
-      - Maneja posibles variaciones en la estructura de la página` : ''}
-      
-      ${isBanxico ? `
-      SITIO DE BANXICO DETECTADO:
-      - Banxico tiene una estructura específica para tipos de cambio
-      - Selectores útiles: "#indexTable", ".renglonNon", ".renglonPar"
-      - Busca específicamente el valor "FIX" para USD/MXN
-      - Simplifica a solo los pasos esenciales (3-5 máximo)
-      - Usa document.querySelector con selectores exactos` : ''}
-      
-      ${isCryptoRelated ? `
-      ACTIVIDAD DE CRIPTOMONEDAS DETECTADA:
-      - Las APIs de cripto suelen tener restricciones CORS
-      - Proporciona SIEMPRE 3 alternativas:
-        1. API directa (Binance, Coinbase, etc.)
-        2. APIs alternativas sin CORS (CoinGecko, CoinCap)
-        3. Scraping de sitios web públicos
-      - Incluye manejo de errores robusto para cada alternativa` : ''}
-      
-      PARA CUALQUIER TIPO DE ACTIVIDAD:
-      - Simplifica el flujo a máximo 5 pasos concretos
-      - Cada paso debe hacer UNA SOLA cosa bien definida
-      - El código debe ser JavaScript puro para navegador
-      - Incluye manejo de errores claro y efectivo
-      - La visualización debe ser profesional y legible
-      
-      Tu respuesta debe seguir EXACTAMENTE este formato:
-      
-      ### **Flujo WebView: [Nombre descriptivo]**
-      
-      ### **Pasos de ejecución en navegador:**
-      1. [Paso muy concreto 1]
-      2. [Paso muy concreto 2]
-      3. [Paso muy concreto 3]
-      
-      ### **Código para ejecutar en WebView:**
-      
-      #### **Paso 1: [Nombre corto]**
-      \`\`\`javascript
-      // Código JavaScript simple y directo
-      \`\`\`
-      
-      ... y así con cada paso ...`
-    };
-    
-    // Mensaje del usuario con el flujo original y solicitud de refinamiento
-    const userMessage = {
-      role: 'user',
-      content: `Necesito que refines el siguiente flujo de trabajo para hacerlo más preciso y ejecutable:
-      
-      Actividad: ${activityName}
-      Descripción: ${activityDescription || 'No disponible'}
-      ${targetUrl ? `URL objetivo: ${targetUrl}` : ''}
-      
-      FLUJO ORIGINAL:
-      ${workflowContent}
-      
-      INSTRUCCIONES DE REFINAMIENTO:
-      1. Simplifica el flujo a un máximo de 5 pasos concretos
-      2. Usa selectores DOM precisos y específicos
-      3. Cada paso debe hacer UNA SOLA cosa bien definida
-      4. Manejo de errores simple pero efectivo
-      5. Visualización clara y profesional del resultado final
-      
-      Adapta el refinamiento al tipo específico de esta actividad y la web objetivo.
-      El código debe ejecutarse correctamente en un WebView de aplicación móvil.`
-    };
+    const systemPrompt = promptTemplates.render('workflowRefinementSystem', {
+      exchangeRate: !!isExchangeRate,
+      priceRelated: !!isPriceRelated && !isExchangeRate,
+      dataExtraction: !!isDataExtraction && !isPriceRelated && !isExchangeRate,
+      banxico: !!isBanxico,
+      cryptoRelated: !!isCryptoRelated
+    });
+    const userPrompt = promptTemplates.render('workflowRefinementUser', {
+      activityName,
+      activityDescription: activityDescription || 'No disponible',
+      targetUrl: targetUrl || '',
+      workflowContent
+    });
+    const systemMessage = { role: 'system', content: systemPrompt.content };
+    const userMessage = { role: 'user', content: userPrompt.content };
     
-    console.log('🔄 Solicitando refinamiento del flujo a OpenRouter API...');
+    console.log(`🔄 Solicitando refinamiento del flujo a ${llmProviders.getActive().label}...`);
     
     // Usar la función con timeout para hacer la llamada a la API
-    const data = await callOpenRouterWithTimeout<any>(
-      [systemMessage, userMessage], 
-      { 
-        temperature: 0.3, // Baja temperatura para instrucciones más precisas
-        max_tokens: 1500 
-      },
-      30000 // 30 segundos de timeout
+    const data = await callLlm<any>(
+      'workflowRefinement',
+      [systemMessage, userMessage],
+      withPrompts({}, systemPrompt, userPrompt)
     );
     
     // Verificar si se recibió la estructura esperada
@@ -1767,8 +1883,9 @@ export const refineScrappingWorkflow = async (
 /**
  * Verifica si la API key de OpenRouter es válida y está activa
  * Esta función se puede usar para diagnosticar problemas de conexión
+ * @param apiKey Key a verificar; por defecto, la principal
  */
-export const checkOpenRouterApiKey = async (): Promise<{
+export const checkOpenRouterApiKey = async (apiKey: string = getOpenRouterApiKey()): Promise<{
   isValid: boolean;
   error?: string;
   models?: string[];
@@ -1781,7 +1898,7 @@ export const checkOpenRouterApiKey = async (): Promise<{
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
-        'Authorization': `Bearer ${OPENROUTER_API_KEY}`,
+        'Authorization': `Bearer ${apiKey}`,
         'HTTP-Referer': 'https://gamg-app.com'
       },
       body: JSON.stringify({
@@ -1877,78 +1994,27 @@ export const validateSearchResult = async (
     });
     
     // Preparar mensaje del sistema
-    const systemMessage = {
-      role: 'system',
-      content: `Eres un validador experto que evalúa si un resultado cumple con los requisitos de una tarea.
-      Tu trabajo es analizar objetivamente si el resultado proporcionado satisface la consulta original.
-      
-      Considera los siguientes aspectos:
-      1. El tipo de dato (clima, tipo de cambio, precio, etc.) debe coincidir con lo solicitado
-      2. La información debe ser relevante y precisa según la consulta
-      3. La fuente debe ser apropiada para el tipo de información
-      4. La fecha debe ser apropiada al contexto de la búsqueda
-      
-      IMPORTANTE SOBRE FECHAS EN ENTORNO DE DEMOSTRACIÓN:
-      - Estás evaluando resultados en un entorno de demostración/simulación
-      - Para consultas que incluyen términos como "hoy", "actual" o "ahora", la fecha exacta puede ser simulada
-      - La fecha actual del sistema es: ${currentDateStr}
-      - En este contexto de demostración, es ACEPTABLE que los datos muestren fechas simuladas
-      - Debes considerar VÁLIDO un resultado cuya fecha no coincida exactamente con la actual, siempre que el CONTENIDO sea apropiado
-      
-      Tipos de datos que podrías validar:
-      - weather: Datos climáticos (temperatura, ubicación)
-      - exchange_rate: Tipos de cambio entre monedas
-      - crypto_price: Precios de criptomonedas
-      - commodity_price: Precios de commodities (oro, plata, etc.)
-      - generic_search: Resultados de búsqueda general
-      
-      Debes responder con un objeto JSON con las siguientes propiedades:
-      1. isValid: boolean (true si el resultado es correcto, false si no)
-      2. explanation: string (explicación detallada de tu evaluación)`
-    };
-
-    // Mensaje del usuario con contexto adicional para resultados relacionados con tiempo
-    let userContent = `Valida si el siguiente resultado cumple con la tarea solicitada:
-    
-    Tarea: ${activityName}
-    Descripción: ${activityDescription}
-    
-    Resultado obtenido:
-    ${JSON.stringify(resultData, null, 2)}`;
+    const systemPrompt = promptTemplates.render('resultValidationSystem', { currentDate: currentDateStr });
     
-    // Agregar contexto adicional si la consulta está relacionada con tiempo
-    if (isTimeRelated) {
-      userContent += `
-    
-    CONTEXTO IMPORTANTE:
-    - Esta es una demostración de un sistema de búsqueda y los resultados son simulados
-    - La fecha actual real es: ${currentDateStr}
-    - Para consultas con términos como "hoy", considera que el sistema está mostrando UN EJEMPLO de resultado
-    - El contenido/temperatura/datos mostrados son lo importante, NO la fecha exacta
-    - En este entorno de DEMOSTRACIÓN, la fecha mostrada es aceptable aunque no coincida con la fecha actual real`;
-    }
-    
-    userContent += `
-    
-    ¿El resultado cumple correctamente con lo solicitado en la tarea? Explica por qué.`;
-
-    // Mensaje del usuario
-    const userMessage = {
-      role: 'user',
-      content: userContent
-    };
+    // Mensaje del usuario con contexto adicional para resultados relacionados con tiempo
+    const userPrompt = promptTemplates.render('resultValidationUser', {
+      activityName,
+      activityDescription,
+      resultData: JSON.stringify(resultData, null, 2),
+      currentDate: currentDateStr,
+      timeRelated: !!isTimeRelated
+    });
 
     // Construir los mensajes para la API
-    const messages = [systemMessage, userMessage];
+    const messages = [
+      { role: 'system', content: systemPrompt.content },
+      { role: 'user', content: userPrompt.content }
+    ];
     
-    console.log('🔄 Validando resultado con OpenRouter API...');
+    console.log(`🔄 Validando resultado con ${llmProviders.getActive().label}...`);
     
     // Usar la función con timeout para hacer la llamada a la API
-    const data = await callOpenRouterWithTimeout<any>(
-      messages, 
-      { temperature: 0.3, max_tokens: 1000 },
-      30000 // 30 segundos de timeout
-    );
+    const data = await callLlm<any>('resultValidation', messages, withPrompts({}, systemPrompt, userPrompt));
     
     // Verificar si estamos usando el sistema de fallback
     const usingFallback = isFallbackResponse(data);
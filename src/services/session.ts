@@ -0,0 +1,328 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { userStorage } from './userStorage';
+
+// Claves de almacenamiento de la sesión
+const TOKEN_KEY = 'authToken';
+const USERNAME_KEY = 'username';
+const EXPIRES_AT_KEY = 'authTokenExpiresAt';
+const REFRESH_TOKEN_KEY = 'refreshToken';
+const ROLE_KEY = 'userRole';
+
+// Rol que puede cambiar la configuración compartida, como los presupuestos de IA
+const ADMIN_ROLE = 'admin';
+
+// Margen antes del vencimiento en el que se intenta renovar el token
+const REFRESH_MARGIN_MS = 60 * 1000;
+
+// Máximo que admite setTimeout (unos 24,8 días); un retraso mayor vence al momento
+const MAX_TIMER_DELAY_MS = 2 ** 31 - 1;
+
+const timerDelay = (at: number): number => Math.min(Math.max(at - Date.now(), 0), MAX_TIMER_DELAY_MS);
+
+// Estructura de una sesión autenticada
+export interface Session {
+  token: string;
+  username: string;
+  expiresAt: number | null;
+  refreshToken: string | null;
+  role: string | null;
+}
+
+// Datos que devuelve el backend al iniciar sesión, registrarse o renovar
+export interface SessionPayload {
+  token: string;
+  username?: string;
+  refreshToken?: string;
+  expiresIn?: number; // segundos
+  role?: string;
+}
+
+export type SessionEndReason = 'expired' | 'logout';
+
+type SessionListener = (reason: SessionEndReason) => void;
+type RefreshHandler = (refreshToken: string | null, token: string) => Promise<SessionPayload>;
+
+/**
+ * Lee los datos de un JWT sin validar la firma
+ */
+const decodeTokenPayload = (token: string): Record<string, any> | null => {
+  try {
+    const payload = token.split('.')[1];
+    if (!payload || typeof atob !== 'function') return null;
+    return JSON.parse(atob(payload.replace(/-/g, '+').replace(/_/g, '/')));
+  } catch (error) {
+    return null;
+  }
+};
+
+const decodeTokenExpiry = (token: string): number | null => {
+  const exp = decodeTokenPayload(token)?.exp;
+  return typeof exp === 'number' ? exp * 1000 : null;
+};
+
+const decodeTokenRole = (token: string): string | null => {
+  const role = decodeTokenPayload(token)?.role;
+  return typeof role === 'string' && role ? role : null;
+};
+
+/**
+ * Gestiona el token de autenticación: lo persiste, calcula su vencimiento,
+ * lo renueva antes de que caduque y avisa cuando la sesión termina
+ */
+export class SessionManager {
+  private session: Session | null = null;
+  private listeners: SessionListener[] = [];
+  private refreshHandler: RefreshHandler | null = null;
+  private refreshPromise: Promise<boolean> | null = null;
+  private expiryTimer: ReturnType<typeof setTimeout> | null = null;
+
+  /**
+   * Recupera la sesión guardada. Devuelve null si no existe o ya venció
+   */
+  async restore(): Promise<Session | null> {
+    const [[, token], [, username], [, expiresAt], [, refreshToken], [, role]] = await AsyncStorage.multiGet([
+      TOKEN_KEY,
+      USERNAME_KEY,
+      EXPIRES_AT_KEY,
+      REFRESH_TOKEN_KEY,
+      ROLE_KEY
+    ]);
+
+    if (!token || !username) {
+      return null;
+    }
+
+    this.session = {
+      token,
+      username,
+      expiresAt: expiresAt ? Number(expiresAt) : decodeTokenExpiry(token),
+      refreshToken: refreshToken || null,
+      role: role || decodeTokenRole(token)
+    };
+
+    if (this.isExpired()) {
+      const refreshed = await this.refresh();
+      if (!refreshed) {
+        await this.clear();
+        return null;
+      }
+    }
+
+    await userStorage.activate(this.session.username);
+    this.scheduleExpiry();
+    return this.session;
+  }
+
+  /**
+   * Inicia una nueva sesión a partir de la respuesta del backend
+   */
+  async start(payload: SessionPayload, username: string): Promise<Session> {
+    this.session = this.buildSession(payload, username);
+    await this.persist();
+    await userStorage.activate(username);
+    this.scheduleExpiry();
+    return this.session;
+  }
+
+  /**
+   * Cierra la sesión por decisión del usuario
+   */
+  async end(): Promise<void> {
+    await this.clear();
+    this.notify('logout');
+  }
+
+  /**
+   * Marca la sesión como vencida y avisa a los suscriptores para volver al login
+   */
+  async expire(): Promise<void> {
+    if (!this.session) return;
+    await this.clear();
+    this.notify('expired');
+  }
+
+  getSession(): Session | null {
+    return this.session;
+  }
+
+  getToken(): string | null {
+    return this.session?.token || null;
+  }
+
+  /**
+   * Indica si el usuario puede cambiar la configuración compartida de la organización
+   */
+  isAdmin(): boolean {
+    return this.session?.role === ADMIN_ROLE;
+  }
+
+  isExpired(): boolean {
+    return !!this.session?.expiresAt && Date.now() >= this.session.expiresAt;
+  }
+
+  /**
+   * Indica si el token vence dentro del margen de renovación
+   */
+  needsRefresh(): boolean {
+    return !!this.session?.expiresAt && Date.now() >= this.session.expiresAt - REFRESH_MARGIN_MS;
+  }
+
+  /**
+   * Registra la función que sabe renovar el token contra el backend
+   */
+  setRefreshHandler(handler: RefreshHandler): void {
+    this.refreshHandler = handler;
+  }
+
+  /**
+   * Renueva el token. Las llamadas concurrentes comparten la misma petición
+   * @returns true si se obtuvo un token nuevo
+   */
+  refresh(): Promise<boolean> {
+    if (!this.session || !this.refreshHandler) {
+      return Promise.resolve(false);
+    }
+
+    if (!this.refreshPromise) {
+      const { token, refreshToken, username, role } = this.session;
+      const handler = this.refreshHandler;
+
+      this.refreshPromise = handler(refreshToken, token)
+        .then(async payload => {
+          this.session = this.buildSession(payload, payload.username || username, refreshToken, role);
+          await this.persist();
+          this.scheduleExpiry();
+          console.log('🔄 Token de sesión renovado');
+          return true;
+        })
+        .catch(error => {
+          console.warn('⚠️ No se pudo renovar la sesión:', error?.message || error);
+          return false;
+        })
+        .finally(() => {
+          this.refreshPromise = null;
+        });
+    }
+
+    return this.refreshPromise;
+  }
+
+  /**
+   * Suscribe una función al fin de la sesión
+   * @returns función para cancelar la suscripción
+   */
+  subscribe(listener: SessionListener): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  }
+
+  private buildSession(
+    payload: SessionPayload,
+    username: string,
+    previousRefreshToken: string | null = null,
+    previousRole: string | null = null
+  ): Session {
+    const expiresAt = payload.expiresIn
+      ? Date.now() + payload.expiresIn * 1000
+      : decodeTokenExpiry(payload.token);
+
+    return {
+      token: payload.token,
+      username,
+      expiresAt,
+      refreshToken: payload.refreshToken || previousRefreshToken,
+      role: payload.role || decodeTokenRole(payload.token) || previousRole
+    };
+  }
+
+  private async persist(): Promise<void> {
+    if (!this.session) return;
+
+    await AsyncStorage.multiSet([
+      [TOKEN_KEY, this.session.token],
+      [USERNAME_KEY, this.session.username]
+    ]);
+
+    if (this.session.expiresAt) {
+      await AsyncStorage.setItem(EXPIRES_AT_KEY, String(this.session.expiresAt));
+    } else {
+      await AsyncStorage.removeItem(EXPIRES_AT_KEY);
+    }
+
+    if (this.session.refreshToken) {
+      await AsyncStorage.setItem(REFRESH_TOKEN_KEY, this.session.refreshToken);
+    } else {
+      await AsyncStorage.removeItem(REFRESH_TOKEN_KEY);
+    }
+
+    if (this.session.role) {
+      await AsyncStorage.setItem(ROLE_KEY, this.session.role);
+    } else {
+      await AsyncStorage.removeItem(ROLE_KEY);
+    }
+  }
+
+  private async clear(): Promise<void> {
+    this.session = null;
+    this.cancelExpiryTimer();
+    userStorage.deactivate();
+    await AsyncStorage.multiRemove([TOKEN_KEY, USERNAME_KEY, EXPIRES_AT_KEY, REFRESH_TOKEN_KEY, ROLE_KEY]);
+  }
+
+  /**
+   * Programa la renovación (o el vencimiento) del token según su `expiresAt`
+   */
+  private scheduleExpiry(): void {
+    this.cancelExpiryTimer();
+    if (!this.session?.expiresAt) return;
+
+    const refreshAt = this.session.expiresAt - REFRESH_MARGIN_MS;
+
+    this.expiryTimer = setTimeout(async () => {
+      // Los vencimientos lejanos se esperan por tramos
+      if (Date.now() < refreshAt) {
+        this.scheduleExpiry();
+        return;
+      }
+
+      const refreshed = await this.refresh();
+      if (!refreshed && this.isExpired()) {
+        await this.expire();
+      } else if (!refreshed && this.session?.expiresAt) {
+        // Reintentar cuando el token haya vencido de verdad
+        this.scheduleExpire(this.session.expiresAt);
+      }
+    }, timerDelay(refreshAt));
+  }
+
+  private scheduleExpire(expiresAt: number): void {
+    this.expiryTimer = setTimeout(() => {
+      if (Date.now() < expiresAt) {
+        this.scheduleExpire(expiresAt);
+        return;
+      }
+      this.expire();
+    }, timerDelay(expiresAt));
+  }
+
+  private cancelExpiryTimer(): void {
+    if (this.expiryTimer) {
+      clearTimeout(this.expiryTimer);
+      this.expiryTimer = null;
+    }
+  }
+
+  private notify(reason: SessionEndReason): void {
+    this.listeners.forEach(listener => {
+      try {
+        listener(reason);
+      } catch (error) {
+        console.error('Error en listener de sesión:', error);
+      }
+    });
+  }
+}
+
+export const sessionManager = new SessionManager();
@@ -0,0 +1,440 @@
+import { userStorage } from './userStorage';
+import {
+  organizationRepository,
+  areaRepository,
+  categoryRepository,
+  categoryCorrectionRepository,
+  collaboratorRepository,
+  activityRepository
+} from '../repositories';
+import { parseCategoryCorrections } from '../models';
+import { activityService, ApiError, organizationService, RemoteSyncDocument } from './api';
+
+// Claves de almacenamiento del motor de sincronización
+const QUEUE_KEY = 'syncQueue';
+const STATE_KEY_PREFIX = 'syncState_';
+
+// Espera tras un cambio local antes de intentar sincronizar
+const SYNC_DEBOUNCE_MS = 2000;
+// Reintentos cuando otro dispositivo escribió entre nuestra lectura y escritura
+const MAX_CONFLICT_RETRIES = 3;
+
+export type SyncEntity = 'organization' | 'activities';
+
+// Cambio pendiente de subir al servidor
+interface QueuedChange {
+  entity: SyncEntity;
+  key: string;
+}
+
+// Marca de tiempo de la última edición por ruta de campo ("name", "collaborators.<id>.name", ...)
+type FieldMeta = Record<string, number>;
+
+// Estado de sincronización de un documento
+interface SyncState {
+  // Revisión del servidor con la que se sincronizó por última vez
+  revision: number;
+  // Último contenido local conocido, para detectar qué campos se editaron después
+  snapshot: Record<string, any>;
+  meta: FieldMeta;
+}
+
+// Forma de cada documento: campos simples o listas de registros con `id`
+type FieldKind = 'scalar' | 'records';
+
+const DOCUMENT_SHAPES: Record<SyncEntity, Record<string, FieldKind>> = {
+  organization: {
+    name: 'scalar',
+    areas: 'records',
+    categories: 'records',
+    categoryCorrections: 'records',
+    collaborators: 'records'
+  },
+  activities: {
+    activities: 'records'
+  }
+};
+
+const DELETED = '__deleted';
+
+const isEqual = (a: any, b: any): boolean => JSON.stringify(a) === JSON.stringify(b);
+
+const isEmptyValue = (value: any): boolean =>
+  value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0);
+
+// Ignora entradas sin `id`, como las áreas guardadas con el formato antiguo (solo el nombre)
+const recordsOf = (value: any): any[] =>
+  Array.isArray(value) ? value.filter(record => record && typeof record === 'object' && record.id) : [];
+
+const stateKey = (entity: SyncEntity, key: string) => `${STATE_KEY_PREFIX}${entity}_${key}`;
+
+/**
+ * Marca en `meta` los campos que cambiaron entre `prev` y `next`
+ */
+export const stampChanges = (
+  entity: SyncEntity,
+  prev: Record<string, any>,
+  next: Record<string, any>,
+  meta: FieldMeta,
+  now: number = Date.now()
+): FieldMeta => {
+  const stamped = { ...meta };
+
+  Object.entries(DOCUMENT_SHAPES[entity]).forEach(([field, kind]) => {
+    if (kind === 'scalar') {
+      // Un valor vacío en un documento nunca sincronizado no debe pisar al del servidor
+      if (prev[field] === undefined && isEmptyValue(next[field])) {
+        return;
+      }
+      if (!isEqual(prev[field], next[field])) {
+        stamped[field] = now;
+      }
+      return;
+    }
+
+    const prevRecords = recordsOf(prev[field]);
+    const nextRecords = recordsOf(next[field]);
+    const prevById = new Map(prevRecords.map(record => [record.id, record]));
+    const nextIds = new Set(nextRecords.map(record => record.id));
+
+    nextRecords.forEach(record => {
+      const previous = prevById.get(record.id) || {};
+      const keys = new Set([...Object.keys(previous), ...Object.keys(record)]);
+      keys.forEach(recordField => {
+        if (!isEqual(previous[recordField], record[recordField])) {
+          stamped[`${field}.${record.id}.${recordField}`] = now;
+        }
+      });
+    });
+
+    prevRecords.forEach(record => {
+      if (!nextIds.has(record.id)) {
+        stamped[`${field}.${record.id}.${DELETED}`] = now;
+      }
+    });
+  });
+
+  return stamped;
+};
+
+/**
+ * Fusiona dos listas de registros campo a campo: gana la edición más reciente.
+ * Un registro borrado solo desaparece si el borrado es posterior a cualquier edición
+ */
+const mergeRecords = (
+  field: string,
+  local: any[],
+  localMeta: FieldMeta,
+  remote: any[],
+  remoteMeta: FieldMeta
+): any[] => {
+  const localById = new Map(local.map(record => [record.id, record]));
+  const remoteById = new Map(remote.map(record => [record.id, record]));
+
+  // Mantener el orden local y añadir al final los registros nuevos del servidor
+  const ids = [...local.map(record => record.id)];
+  remote.forEach(record => {
+    if (!localById.has(record.id)) ids.push(record.id);
+  });
+
+  // Registros que uno de los lados borró y el otro nunca llegó a ver
+  const deletedIds = new Set(
+    [...Object.keys(localMeta), ...Object.keys(remoteMeta)]
+      .filter(path => path.startsWith(`${field}.`) && path.endsWith(`.${DELETED}`))
+      .map(path => path.slice(field.length + 1, -(DELETED.length + 1)))
+  );
+
+  const merged: any[] = [];
+
+  ids.forEach(id => {
+    const localRecord = localById.get(id);
+    const remoteRecord = remoteById.get(id);
+    const prefix = `${field}.${id}.`;
+    const deletedAt = Math.max(localMeta[`${prefix}${DELETED}`] || 0, remoteMeta[`${prefix}${DELETED}`] || 0);
+
+    const lastEdit = (meta: FieldMeta) =>
+      Object.entries(meta)
+        .filter(([path]) => path.startsWith(prefix) && !path.endsWith(DELETED))
+        .reduce((latest, [, ts]) => Math.max(latest, ts), 0);
+
+    if (deletedIds.has(id) && deletedAt >= Math.max(lastEdit(localMeta), lastEdit(remoteMeta))) {
+      return;
+    }
+
+    if (!localRecord || !remoteRecord) {
+      merged.push(localRecord || remoteRecord);
+      return;
+    }
+
+    const record: any = {};
+    const keys = new Set([...Object.keys(localRecord), ...Object.keys(remoteRecord)]);
+    keys.forEach(recordField => {
+      const path = `${prefix}${recordField}`;
+      const useRemote = (remoteMeta[path] || 0) > (localMeta[path] || 0);
+      const value = useRemote ? remoteRecord[recordField] : localRecord[recordField];
+      if (value !== undefined) {
+        record[recordField] = value;
+      }
+    });
+    merged.push(record);
+  });
+
+  return merged;
+};
+
+/**
+ * Fusiona el documento local con el remoto resolviendo conflictos por campo
+ */
+export const mergeDocuments = (
+  entity: SyncEntity,
+  local: Record<string, any>,
+  localMeta: FieldMeta,
+  remote: Record<string, any>,
+  remoteMeta: FieldMeta
+): { data: Record<string, any>; meta: FieldMeta } => {
+  const data: Record<string, any> = {};
+
+  Object.entries(DOCUMENT_SHAPES[entity]).forEach(([field, kind]) => {
+    if (kind === 'scalar') {
+      const useRemote = (remoteMeta[field] || 0) > (localMeta[field] || 0);
+      data[field] = useRemote || local[field] === undefined ? remote[field] : local[field];
+      return;
+    }
+    data[field] = mergeRecords(field, recordsOf(local[field]), localMeta, recordsOf(remote[field]), remoteMeta);
+  });
+
+  const meta: FieldMeta = { ...localMeta };
+  Object.entries(remoteMeta).forEach(([path, ts]) => {
+    meta[path] = Math.max(meta[path] || 0, ts);
+  });
+
+  return { data, meta };
+};
+
+/**
+ * Sincroniza los datos de la organización con el backend.
+ * Los cambios locales se guardan en una cola y se suben cuando hay conexión
+ */
+export class SyncEngine {
+  private syncTimer: ReturnType<typeof setTimeout> | null = null;
+  private syncPromise: Promise<void> | null = null;
+
+  /**
+   * Registra un cambio local que debe subirse al servidor
+   * @param key ID del colaborador para `activities`; se ignora para `organization`
+   */
+  async markDirty(entity: SyncEntity, key: string = 'default'): Promise<void> {
+    try {
+      const state = await this.readState(entity, key);
+      const local = await this.readLocal(entity, key);
+      const meta = stampChanges(entity, state.snapshot, local, state.meta);
+      await this.writeState(entity, key, { ...state, snapshot: local, meta });
+
+      const queue = await this.readQueue();
+      if (!queue.some(change => change.entity === entity && change.key === key)) {
+        queue.push({ entity, key });
+        await userStorage.setItem(QUEUE_KEY, JSON.stringify(queue));
+      }
+
+      this.scheduleSync();
+    } catch (error) {
+      console.error('Error al registrar cambio para sincronizar:', error);
+    }
+  }
+
+  /**
+   * Sube los cambios pendientes y descarga la versión del servidor de todos los documentos
+   */
+  syncAll(): Promise<void> {
+    if (!this.syncPromise) {
+      this.syncPromise = this.runSync().finally(() => {
+        this.syncPromise = null;
+      });
+    }
+    return this.syncPromise;
+  }
+
+  /**
+   * Detiene la sincronización programada (al cerrar sesión)
+   */
+  stop(): void {
+    if (this.syncTimer) {
+      clearTimeout(this.syncTimer);
+      this.syncTimer = null;
+    }
+  }
+
+  /**
+   * Olvida el estado de sincronización de un documento borrado en local
+   */
+  async forget(entity: SyncEntity, key: string): Promise<void> {
+    await userStorage.removeItem(stateKey(entity, key));
+    await this.dequeue(entity, key);
+  }
+
+  /**
+   * Claves de los documentos de actividades con estado de sincronización guardado
+   */
+  async getTrackedActivityKeys(): Promise<string[]> {
+    const prefix = stateKey('activities', '');
+    return (await userStorage.getAllKeys())
+      .filter(key => key.startsWith(prefix))
+      .map(key => key.slice(prefix.length));
+  }
+
+  async getPendingCount(): Promise<number> {
+    return (await this.readQueue()).length;
+  }
+
+  private scheduleSync(): void {
+    this.stop();
+    this.syncTimer = setTimeout(() => {
+      this.syncTimer = null;
+      this.syncAll();
+    }, SYNC_DEBOUNCE_MS);
+  }
+
+  private async runSync(): Promise<void> {
+    try {
+      // La organización primero: de ella sale la lista de colaboradores
+      await this.syncDocument('organization', 'default');
+
+      const collaborators = await collaboratorRepository.getAll();
+      const keys = new Set(collaborators.map(c => c.id));
+      (await this.readQueue())
+        .filter(change => change.entity === 'activities')
+        .forEach(change => keys.add(change.key));
+
+      for (const collaboratorId of keys) {
+        await this.syncDocument('activities', collaboratorId);
+      }
+
+      console.log('🔄 Sincronización completada');
+    } catch (error: any) {
+      if (this.isOfflineError(error)) {
+        console.log('📴 Sin conexión: los cambios quedan en cola');
+        return;
+      }
+      console.error('❌ Error en la sincronización:', error);
+    }
+  }
+
+  private async syncDocument(entity: SyncEntity, key: string): Promise<void> {
+    for (let attempt = 0; attempt < MAX_CONFLICT_RETRIES; attempt++) {
+      const state = await this.readState(entity, key);
+      const local = await this.readLocal(entity, key);
+      const localMeta = stampChanges(entity, state.snapshot, local, state.meta);
+      const remote = await this.pull(entity, key);
+
+      const { data, meta } = mergeDocuments(entity, local, localMeta, remote.data || {}, remote.meta || {});
+      const isDirty = (await this.readQueue()).some(c => c.entity === entity && c.key === key);
+
+      // Nada que subir si el resultado coincide con lo que ya tiene el servidor
+      let revision = remote.revision;
+      if (isDirty || !isEqual(data, remote.data) || !isEqual(meta, remote.meta)) {
+        try {
+          revision = (await this.push(entity, key, { data, meta }, remote.revision)).revision;
+        } catch (error: any) {
+          if ((error as ApiError).statusCode === 409) {
+            console.log(`⚠️ Conflicto de revisión en ${entity}/${key}, reintentando`);
+            continue;
+          }
+          throw error;
+        }
+      }
+
+      // Solo escribir en local si el usuario no editó mientras tanto
+      const current = await this.readLocal(entity, key);
+      if (isEqual(current, local)) {
+        await this.writeLocal(entity, key, data);
+      }
+
+      const written = isEqual(current, local) ? data : current;
+      await this.writeState(entity, key, { revision, snapshot: written, meta });
+      await this.dequeue(entity, key);
+      return;
+    }
+
+    console.warn(`⚠️ No se pudo sincronizar ${entity}/${key} tras ${MAX_CONFLICT_RETRIES} intentos`);
+  }
+
+  private async pull(entity: SyncEntity, key: string): Promise<RemoteSyncDocument> {
+    try {
+      return entity === 'organization'
+        ? await organizationService.get()
+        : await activityService.getByCollaborator(key);
+    } catch (error: any) {
+      // El documento todavía no existe en el servidor
+      if ((error as ApiError).statusCode === 404) {
+        return { data: {}, meta: {}, revision: 0 };
+      }
+      throw error;
+    }
+  }
+
+  private push(
+    entity: SyncEntity,
+    key: string,
+    document: Omit<RemoteSyncDocument, 'revision'>,
+    baseRevision: number
+  ): Promise<{ revision: number }> {
+    return entity === 'organization'
+      ? organizationService.put(document, baseRevision)
+      : activityService.putByCollaborator(key, document, baseRevision);
+  }
+
+  private isOfflineError(error: any): boolean {
+    return !(error as ApiError)?.statusCode;
+  }
+
+  private async readLocal(entity: SyncEntity, key: string): Promise<Record<string, any>> {
+    if (entity === 'organization') {
+      return {
+        name: await organizationRepository.getName(),
+        areas: await areaRepository.getAll(),
+        // Las categorías por defecto no se suben: en otro dispositivo pisarían las propias
+        categories: await categoryRepository.getStored(),
+        // Hay una corrección por actividad, así que el ID de la actividad identifica el registro
+        categoryCorrections: (await categoryCorrectionRepository.getAll())
+          .map(correction => ({ ...correction, id: correction.activityId })),
+        collaborators: await collaboratorRepository.getAll()
+      };
+    }
+
+    return { activities: await activityRepository.getByCollaborator(key) };
+  }
+
+  private async writeLocal(entity: SyncEntity, key: string, data: Record<string, any>): Promise<void> {
+    if (entity === 'organization') {
+      await organizationRepository.saveName(data.name || '');
+      await areaRepository.saveAll(data.areas || []);
+      await categoryRepository.saveAll(data.categories || []);
+      await categoryCorrectionRepository.saveAll(parseCategoryCorrections(data.categoryCorrections));
+      await collaboratorRepository.saveAll(data.collaborators || []);
+      return;
+    }
+
+    await activityRepository.saveForCollaborator(key, data.activities || []);
+  }
+
+  private async readState(entity: SyncEntity, key: string): Promise<SyncState> {
+    const stored = await userStorage.getItem(stateKey(entity, key));
+    return stored ? JSON.parse(stored) : { revision: 0, snapshot: {}, meta: {} };
+  }
+
+  private async writeState(entity: SyncEntity, key: string, state: SyncState): Promise<void> {
+    await userStorage.setItem(stateKey(entity, key), JSON.stringify(state));
+  }
+
+  private async readQueue(): Promise<QueuedChange[]> {
+    const stored = await userStorage.getItem(QUEUE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  }
+
+  private async dequeue(entity: SyncEntity, key: string): Promise<void> {
+    const queue = (await this.readQueue()).filter(c => !(c.entity === entity && c.key === key));
+    await userStorage.setItem(QUEUE_KEY, JSON.stringify(queue));
+  }
+}
+
+export const syncEngine = new SyncEngine();
@@ -0,0 +1,136 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+// Usuario al que se asignaron los datos guardados antes de separar por usuario
+const LEGACY_OWNER_KEY = 'legacyDataOwner';
+
+// Claves (o prefijos) que pertenecían a la organización antes de separar por usuario
+const LEGACY_KEYS = ['organizationName', 'organizationAreas', 'collaborators', 'syncQueue'];
+const LEGACY_PREFIXES = ['activities_', 'url_', 'workflow_backup_', 'syncState_'];
+
+const isLegacyKey = (key: string): boolean =>
+  LEGACY_KEYS.includes(key) || LEGACY_PREFIXES.some(prefix => key.startsWith(prefix));
+
+/**
+ * Almacenamiento aislado por usuario. Expone la misma API que AsyncStorage,
+ * pero cada clave se guarda bajo el prefijo del usuario autenticado para que
+ * otra persona que inicie sesión en el mismo dispositivo no vea sus datos
+ */
+export class UserStorage {
+  private username: string | null = null;
+  // Cambia cada vez que cambian los datos visibles (otro usuario o borrado),
+  // para que las cachés en memoria sepan que deben descartarse
+  private generation = 0;
+
+  /**
+   * Activa el espacio del usuario y, la primera vez que alguien inicia sesión,
+   * le asigna los datos que se guardaron sin usuario
+   */
+  async activate(username: string): Promise<void> {
+    this.username = username;
+    this.generation++;
+    await this.migrateLegacyData();
+  }
+
+  /**
+   * Cierra el espacio del usuario al terminar la sesión. A partir de aquí
+   * cualquier lectura o escritura falla hasta que otro usuario inicie sesión
+   */
+  deactivate(): void {
+    if (!this.username) return;
+    console.log(`🔒 Almacenamiento de ${this.username} cerrado`);
+    this.username = null;
+    this.generation++;
+  }
+
+  getUsername(): string | null {
+    return this.username;
+  }
+
+  getGeneration(): number {
+    return this.generation;
+  }
+
+  async getItem(key: string): Promise<string | null> {
+    return AsyncStorage.getItem(this.scoped(key));
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    await AsyncStorage.setItem(this.scoped(key), value);
+  }
+
+  async removeItem(key: string): Promise<void> {
+    await AsyncStorage.removeItem(this.scoped(key));
+  }
+
+  async multiGet(keys: string[]): Promise<[string, string | null][]> {
+    const values = await AsyncStorage.multiGet(keys.map(key => this.scoped(key)));
+    return values.map(([, value], index) => [keys[index], value]);
+  }
+
+  async multiSet(pairs: [string, string][]): Promise<void> {
+    await AsyncStorage.multiSet(pairs.map(([key, value]) => [this.scoped(key), value]));
+  }
+
+  async multiRemove(keys: string[]): Promise<void> {
+    await AsyncStorage.multiRemove(keys.map(key => this.scoped(key)));
+  }
+
+  /**
+   * Claves del usuario actual, sin el prefijo
+   */
+  async getAllKeys(): Promise<string[]> {
+    const prefix = this.prefix();
+    const keys = await AsyncStorage.getAllKeys();
+    return keys.filter(key => key.startsWith(prefix)).map(key => key.slice(prefix.length));
+  }
+
+  /**
+   * Borra todos los datos del usuario actual en este dispositivo
+   */
+  async clear(): Promise<void> {
+    const prefix = this.prefix();
+    const keys = await AsyncStorage.getAllKeys();
+    await AsyncStorage.multiRemove(keys.filter(key => key.startsWith(prefix)));
+    this.generation++;
+    console.log(`🧹 Datos locales de ${this.username} eliminados`);
+  }
+
+  private prefix(): string {
+    if (!this.username) {
+      throw new Error('No hay un usuario autenticado para acceder al almacenamiento');
+    }
+    return `user_${encodeURIComponent(this.username)}:`;
+  }
+
+  private scoped(key: string): string {
+    return `${this.prefix()}${key}`;
+  }
+
+  /**
+   * Mueve las claves sin usuario al espacio del usuario actual, solo una vez
+   */
+  private async migrateLegacyData(): Promise<void> {
+    try {
+      const owner = await AsyncStorage.getItem(LEGACY_OWNER_KEY);
+      if (owner) return;
+
+      const keys = (await AsyncStorage.getAllKeys()).filter(isLegacyKey);
+      if (keys.length > 0) {
+        const entries = await AsyncStorage.multiGet(keys);
+        await AsyncStorage.multiSet(
+          entries
+            .filter((entry): entry is [string, string] => entry[1] !== null)
+            .map(([key, value]) => [this.scoped(key), value])
+        );
+        await AsyncStorage.multiRemove(keys);
+        console.log(`📦 ${keys.length} claves existentes migradas al usuario ${this.username}`);
+      }
+
+      await AsyncStorage.setItem(LEGACY_OWNER_KEY, this.username || '');
+    } catch (error) {
+      console.error('Error al migrar datos existentes:', error);
+    }
+  }
+}
+
+export const userStorage = new UserStorage();